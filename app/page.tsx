@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { useCallback, useMemo, useState } from "react";
 import type { CSSProperties } from "react";
 
@@ -21,16 +22,29 @@ export default function Page() {
     signalControl,
     settings,
     chartKeyLevels,
+    volumeProfile,
+    vwapSeries,
+    vwapAnchors,
+    marketStructure,
     keyLevelSummaries,
     statusNotices,
     updateSettings,
     setTimeframe,
+    setExchange,
     setPriceStep,
     toggleCumulativeDelta,
     toggleGrid,
     togglePriceAxis,
+    toggleVolumeProfile,
+    setProfileScope,
+    toggleVwapBands,
+    toggleMarketStructure,
+    anchorVwapAtBar,
+    anchorVwapAtSignal,
+    removeVwapAnchor,
     toggleKeyLevelVisibility,
     setSignalMode,
+    setSignalEvaluation,
     toggleStrategy: toggleSignalStrategy,
     updateSignalOverrides,
     connectionStatus,
@@ -45,6 +59,7 @@ export default function Page() {
     flattenPosition,
     applyInvalidationAction,
     resetTradingDay,
+    resetTradingAccount,
     exportTradingHistory,
     connectionDiagnostics,
     serverTimeOffsetMs,
@@ -98,6 +113,9 @@ export default function Page() {
           Real-time Binance Futures BTCUSDT footprint with delta heatmap and
           cumulative delta tracking.
         </p>
+        <Link href="/workspace" className="text-xs text-emerald-300 hover:text-emerald-200">
+          Abrir workspace multi-símbolo
+        </Link>
       </header>
 
       <section className="flex flex-col gap-6 lg:flex-row">
@@ -112,6 +130,10 @@ export default function Page() {
               priceStep={settings.priceStep}
               priceBounds={priceBounds}
               keyLevels={chartKeyLevels}
+              profile={settings.showVolumeProfile ? volumeProfile : null}
+              vwap={vwapSeries}
+              showVwapBands={settings.showVwapBands}
+              structure={marketStructure}
               showGrid={settings.showGrid}
               showPriceAxis={settings.showPriceAxis}
               tickSize={priceStepConfig.step}
@@ -119,6 +141,7 @@ export default function Page() {
                 setHover(info);
                 setTooltip(position ?? null);
               }}
+              onAnchorBar={anchorVwapAtBar}
             />
             {hover && tooltip ? (
               <Tooltip
@@ -134,6 +157,7 @@ export default function Page() {
             tradingState={tradingState}
             clockOffsetMs={serverTimeOffsetMs}
             onTakeSignal={takeSignal}
+            onAnchorVwap={anchorVwapAtSignal}
             onCancelPending={cancelPendingTrade}
             onFlattenPosition={flattenPosition}
             onInvalidationAction={applyInvalidationAction}
@@ -142,6 +166,7 @@ export default function Page() {
 
         <aside className="w-full max-w-sm flex-none space-y-4">
           <Controls
+            exchange={settings.exchange}
             symbol={settings.symbol}
             timeframe={settings.timeframe}
             priceStep={settings.priceStep}
@@ -149,6 +174,11 @@ export default function Page() {
             showCumulativeDelta={settings.showCumulativeDelta}
             showGrid={settings.showGrid}
             showPriceAxis={settings.showPriceAxis}
+            showVolumeProfile={settings.showVolumeProfile}
+            profileScope={settings.profileScope}
+            showVwapBands={settings.showVwapBands}
+            vwapAnchors={vwapAnchors}
+            showMarketStructure={settings.showMarketStructure}
             keyLevelVisibility={settings.keyLevelVisibility}
             keyLevelSummaries={keyLevelSummaries}
             signalControl={signalControl}
@@ -162,6 +192,7 @@ export default function Page() {
             onStopReplay={stopReplay}
             onReplaySpeedChange={setReplaySpeed}
             onRefreshDatasets={refreshDatasets}
+            onExchangeChange={setExchange}
             onSymbolChange={(symbol) =>
               updateSettings({ symbol: symbol || "BTCUSDT" })
             }
@@ -170,8 +201,14 @@ export default function Page() {
             onToggleCumulativeDelta={toggleCumulativeDelta}
             onToggleGrid={toggleGrid}
             onTogglePriceAxis={togglePriceAxis}
+            onToggleVolumeProfile={toggleVolumeProfile}
+            onProfileScopeChange={setProfileScope}
+            onToggleVwapBands={toggleVwapBands}
+            onRemoveVwapAnchor={removeVwapAnchor}
+            onToggleMarketStructure={toggleMarketStructure}
             onToggleKeyLevels={toggleKeyLevelVisibility}
             onModeChange={setSignalMode}
+            onEvaluationChange={setSignalEvaluation}
             onToggleStrategy={toggleSignalStrategy}
             onOverridesChange={updateSignalOverrides}
           />
@@ -179,6 +216,7 @@ export default function Page() {
             settings={tradingState.settings}
             onSettingsChange={updateTradingSettings}
             onResetDay={resetTradingDay}
+            onResetAccount={resetTradingAccount}
             onExport={handleExportHistory}
           />
         </aside>
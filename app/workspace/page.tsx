@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+
+import { FootprintChart } from "@/components/FootprintChart";
+import { PortfolioPanel } from "@/components/PortfolioPanel";
+import { TradingPanel } from "@/components/TradingPanel";
+import { useFootprint } from "@/hooks/useFootprint";
+import { TradingAccount, type TradingAccountSnapshot } from "@/lib/trading/account";
+import { PortfolioRiskManager } from "@/lib/trading/portfolio";
+import type { ConnectionStatus, PortfolioGuardrailSettings, Timeframe } from "@/types";
+
+const WORKSPACE_SYMBOLS = ["BTCUSDT", "ETHUSDT", "SOLUSDT"];
+const WORKSPACE_TIMEFRAMES: Timeframe[] = ["15s", "30s", "1m", "5m", "15m"];
+const PORTFOLIO_SETTINGS_STORAGE_KEY = "footprint.portfolio.settings";
+const PORTFOLIO_ACCOUNT_STORAGE_KEY = "footprint.portfolio.account";
+
+const STATUS_CLASSES: Record<ConnectionStatus, string> = {
+  connecting: "bg-yellow-400",
+  connected: "bg-emerald-400",
+  reconnecting: "bg-orange-500",
+  disconnected: "bg-rose-500",
+};
+
+export default function WorkspacePage() {
+  const [portfolio] = useState(() => new PortfolioRiskManager());
+  const portfolioState = useSyncExternalStore(
+    (listener) => portfolio.subscribe(listener),
+    () => portfolio.getState(),
+    () => portfolio.getState(),
+  );
+  // One wallet for every panel so cross margin spans the symbols; the panels
+  // rebase it to their starting balance until a stored one is restored.
+  const [account] = useState(() => new TradingAccount({ balance: 0, curve: [] }));
+  const accountState = useSyncExternalStore(
+    (listener) => account.subscribe(listener),
+    () => account.getSnapshot(),
+    () => account.getSnapshot(),
+  );
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(PORTFOLIO_SETTINGS_STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as Partial<PortfolioGuardrailSettings>;
+        if (parsed && typeof parsed === "object") {
+          portfolio.updateSettings(parsed);
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to restore portfolio settings", error);
+    }
+  }, [portfolio]);
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(PORTFOLIO_ACCOUNT_STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as TradingAccountSnapshot;
+        if (parsed && typeof parsed.balance === "number" && Array.isArray(parsed.curve)) {
+          account.restore(parsed);
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to restore portfolio account", error);
+    }
+    return account.subscribe(() => {
+      try {
+        window.localStorage.setItem(PORTFOLIO_ACCOUNT_STORAGE_KEY, JSON.stringify(account.getSnapshot()));
+      } catch (error) {
+        console.warn("Failed to persist portfolio account", error);
+      }
+    });
+  }, [account]);
+
+  const handleSettingsChange = useCallback(
+    (partial: Partial<PortfolioGuardrailSettings>) => {
+      if (!portfolio.updateSettings(partial)) {
+        return;
+      }
+      try {
+        window.localStorage.setItem(PORTFOLIO_SETTINGS_STORAGE_KEY, JSON.stringify(portfolio.getSettings()));
+      } catch (error) {
+        console.warn("Failed to persist portfolio settings", error);
+      }
+    },
+    [portfolio],
+  );
+
+  return (
+    <main className="flex min-h-screen flex-col gap-6 bg-slate-950 px-4 pb-8 pt-6 text-slate-100 md:px-8">
+      <header className="flex flex-col gap-1">
+        <h1 className="text-3xl font-semibold tracking-tight text-white">Workspace multi-símbolo</h1>
+        <p className="text-sm text-slate-400">
+          Footprint, señales y paper trading por símbolo con una cuenta y guardrails de cartera compartidos.
+        </p>
+        <p className="text-xs text-slate-400">
+          Balance compartido: <span className="font-mono text-white/80">{accountState.balance.toFixed(2)} USDT</span>
+        </p>
+      </header>
+
+      <PortfolioPanel
+        state={portfolioState}
+        onSettingsChange={handleSettingsChange}
+        onReset={() => portfolio.reset()}
+      />
+
+      <section className="grid gap-6 xl:grid-cols-3">
+        {WORKSPACE_SYMBOLS.map((symbol) => (
+          <SymbolPanel key={symbol} symbol={symbol} portfolio={portfolio} account={account} />
+        ))}
+      </section>
+    </main>
+  );
+}
+
+interface SymbolPanelProps {
+  symbol: string;
+  portfolio: PortfolioRiskManager;
+  account: TradingAccount;
+}
+
+function SymbolPanel({ symbol, portfolio, account }: SymbolPanelProps) {
+  const {
+    bars,
+    signals,
+    settings,
+    chartKeyLevels,
+    connectionStatus,
+    priceBounds,
+    lastError,
+    tradingState,
+    updateTradingSettings,
+    takeSignal,
+    cancelPendingTrade,
+    flattenPosition,
+    applyInvalidationAction,
+    serverTimeOffsetMs,
+    priceStepConfig,
+    setTimeframe,
+  } = useFootprint({ symbol, portfolio, account });
+
+  return (
+    <article className="flex min-w-0 flex-col gap-4">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className={`h-2 w-2 rounded-full ${STATUS_CLASSES[connectionStatus]}`} />
+          <h2 className="text-lg font-semibold text-white">{symbol}</h2>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-white/70">
+          <select
+            value={settings.timeframe}
+            onChange={(event) => setTimeframe(event.target.value as Timeframe)}
+            className="rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-emerald-400 focus:outline-none"
+          >
+            {WORKSPACE_TIMEFRAMES.map((timeframe) => (
+              <option key={timeframe} value={timeframe}>
+                {timeframe}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            Auto-sim
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-emerald-500"
+              checked={tradingState.settings.autoTake}
+              onChange={(event) => updateTradingSettings({ autoTake: event.target.checked })}
+            />
+          </label>
+        </div>
+      </header>
+      {lastError ? <p className="text-xs text-rose-300">{lastError}</p> : null}
+      <div className="relative h-[360px] rounded-lg">
+        <FootprintChart
+          bars={bars}
+          signals={signals}
+          positions={tradingState.positions}
+          pendingTrades={tradingState.pending}
+          invalidations={tradingState.invalidations}
+          priceStep={settings.priceStep}
+          priceBounds={priceBounds}
+          keyLevels={chartKeyLevels}
+          showGrid={settings.showGrid}
+          showPriceAxis={settings.showPriceAxis}
+          tickSize={priceStepConfig.step}
+          onHover={() => undefined}
+        />
+      </div>
+      <TradingPanel
+        signals={signals}
+        tradingState={tradingState}
+        clockOffsetMs={serverTimeOffsetMs}
+        onTakeSignal={takeSignal}
+        onCancelPending={cancelPendingTrade}
+        onFlattenPosition={flattenPosition}
+        onInvalidationAction={applyInvalidationAction}
+      />
+    </article>
+  );
+}
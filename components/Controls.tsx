@@ -3,9 +3,11 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
 import { precisionFromStep } from "@/lib/aggregator";
-import { MODE_PRESETS } from "@/lib/signals";
+import { EXCHANGE_OPTIONS } from "@/lib/exchanges";
+import { MODE_PRESETS, getSignalStrategies } from "@/lib/signals";
 import type {
   DetectorOverrides,
+  ExchangeId,
   FootprintMode,
   KeyLevelStatus,
   KeyLevelVisibility,
@@ -14,13 +16,17 @@ import type {
   ReplaySpeed,
   ReplayState,
   SignalControlState,
+  SignalEvaluationMode,
   SignalMode,
   SignalStats,
   SignalStrategy,
   Timeframe,
+  VolumeProfileScope,
+  VwapAnchor,
 } from "@/types";
 
 interface ControlsProps {
+  exchange: ExchangeId;
   symbol: string;
   timeframe: Timeframe;
   priceStep: number;
@@ -28,6 +34,11 @@ interface ControlsProps {
   showCumulativeDelta: boolean;
   showGrid: boolean;
   showPriceAxis: boolean;
+  showVolumeProfile: boolean;
+  profileScope: VolumeProfileScope;
+  showVwapBands: boolean;
+  vwapAnchors: VwapAnchor[];
+  showMarketStructure: boolean;
   keyLevelVisibility: KeyLevelVisibility;
   keyLevelSummaries: Record<keyof KeyLevelVisibility, KeyLevelStatus>;
   signalControl: SignalControlState;
@@ -41,28 +52,66 @@ interface ControlsProps {
   onStopReplay: () => void;
   onReplaySpeedChange: (speed: ReplaySpeed) => void;
   onRefreshDatasets: () => void;
+  onExchangeChange: (exchange: ExchangeId) => void;
   onSymbolChange: (symbol: string) => void;
   onTimeframeChange: (timeframe: Timeframe) => void;
   onPriceStepChange: (step: number) => void;
   onToggleCumulativeDelta: () => void;
   onToggleGrid: () => void;
   onTogglePriceAxis: () => void;
+  onToggleVolumeProfile: () => void;
+  onProfileScopeChange: (scope: VolumeProfileScope) => void;
+  onToggleVwapBands: () => void;
+  onRemoveVwapAnchor: (id: string) => void;
+  onToggleMarketStructure: () => void;
   onToggleKeyLevels: (group: keyof KeyLevelVisibility) => void;
   onModeChange: (mode: SignalMode) => void;
+  onEvaluationChange: (evaluation: SignalEvaluationMode) => void;
   onToggleStrategy: (strategy: SignalStrategy) => void;
   onOverridesChange: (overrides: Partial<DetectorOverrides>) => void;
 }
 
-const TIMEFRAME_OPTIONS: Timeframe[] = ["1m", "5m"];
+const TIMEFRAME_GROUPS: Array<{ label: string; options: Array<{ id: Timeframe; title: string }> }> = [
+  {
+    label: "Tiempo",
+    options: [
+      { id: "15s", title: "Velas de 15 segundos" },
+      { id: "30s", title: "Velas de 30 segundos" },
+      { id: "1m", title: "Velas de 1 minuto" },
+      { id: "5m", title: "Velas de 5 minutos" },
+      { id: "15m", title: "Velas de 15 minutos" },
+      { id: "30m", title: "Velas de 30 minutos" },
+      { id: "1h", title: "Velas de 1 hora" },
+    ],
+  },
+  {
+    label: "Actividad",
+    options: [
+      { id: "500t", title: "Barra cada 500 trades" },
+      { id: "1000t", title: "Barra cada 1000 trades" },
+      { id: "50v", title: "Barra cada 50 unidades de volumen" },
+      { id: "200v", title: "Barra cada 200 unidades de volumen" },
+      { id: "10r", title: "Barra de rango de 10 ticks" },
+      { id: "20r", title: "Barra de rango de 20 ticks" },
+    ],
+  },
+];
 const SPEED_OPTIONS: ReplaySpeed[] = [1, 2, 5, 10];
 
-const STRATEGIES: Array<{ id: SignalStrategy; label: string }> = [
-  { id: "absorption-failure", label: "Absorción + fallo" },
-  { id: "poc-migration", label: "Migración de POC" },
-  { id: "delta-divergence", label: "Divergencia delta" },
+const EVALUATION_OPTIONS: Array<{ value: SignalEvaluationMode; label: string; title: string }> = [
+  { value: "bar-close", label: "Al cierre", title: "Solo evalúa velas cerradas; las señales no repintan" },
+  { value: "intrabar", label: "Intrabar", title: "Señales provisionales en la vela abierta, confirmadas o canceladas al cierre" },
+];
+
+const PROFILE_SCOPE_OPTIONS: Array<{ value: VolumeProfileScope; label: string }> = [
+  { value: "session", label: "Session" },
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "composite", label: "Composite" },
 ];
 
 export function Controls({
+  exchange,
   symbol,
   timeframe,
   priceStep,
@@ -70,6 +119,11 @@ export function Controls({
   showCumulativeDelta,
   showGrid,
   showPriceAxis,
+  showVolumeProfile,
+  profileScope,
+  showVwapBands,
+  vwapAnchors,
+  showMarketStructure,
   keyLevelVisibility,
   keyLevelSummaries,
   signalControl,
@@ -83,14 +137,21 @@ export function Controls({
   onStopReplay,
   onReplaySpeedChange,
   onRefreshDatasets,
+  onExchangeChange,
   onSymbolChange,
   onTimeframeChange,
   onPriceStepChange,
   onToggleCumulativeDelta,
   onToggleGrid,
   onTogglePriceAxis,
+  onToggleVolumeProfile,
+  onProfileScopeChange,
+  onToggleVwapBands,
+  onRemoveVwapAnchor,
+  onToggleMarketStructure,
   onToggleKeyLevels,
   onModeChange,
+  onEvaluationChange,
   onToggleStrategy,
   onOverridesChange,
 }: ControlsProps) {
@@ -172,6 +233,9 @@ export function Controls({
   const minVolumePercentile =
     overrides.minVolumePercentile ?? modePreset.minVolumePercentile;
   const estimatedPerDay = signalStats.estimatePerDay ?? 0;
+  const repaint = signalStats.repaint;
+  const repaintResolved = repaint ? repaint.confirmed + repaint.cancelled : 0;
+  const repaintRate = repaint && repaintResolved > 0 ? (repaint.changed + repaint.cancelled) / repaintResolved : null;
   const sessionCounts = signalStats.sessionCount ?? {
     asia: 0,
     eu: 0,
@@ -358,6 +422,23 @@ export function Controls({
           </div>
         )}
       </div>
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-semibold text-white/80" htmlFor="exchange">
+          Exchange
+        </label>
+        <select
+          id="exchange"
+          value={exchange}
+          onChange={(event) => onExchangeChange(event.target.value as ExchangeId)}
+          className="rounded-md border border-white/10 bg-black/50 px-3 py-2 text-sm text-white focus:border-emerald-400 focus:outline-none"
+        >
+          {EXCHANGE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
       <div className="flex flex-col gap-2">
         <label className="text-sm font-semibold text-white/80" htmlFor="symbol">
           Symbol
@@ -372,22 +453,28 @@ export function Controls({
 
       <div className="flex flex-col gap-2">
         <span className="text-sm font-semibold text-white/80">Timeframe</span>
-        <div className="flex gap-2">
-          {TIMEFRAME_OPTIONS.map((option) => (
-            <button
-              key={option}
-              type="button"
-              onClick={() => onTimeframeChange(option)}
-              className={`flex-1 rounded-md border px-3 py-2 text-sm font-medium transition-all ${
-                timeframe === option
-                  ? "border-emerald-400 bg-emerald-500/20 text-emerald-200"
-                  : "border-white/10 bg-black/30 text-white/70 hover:border-white/20 hover:text-white"
-              }`}
-            >
-              {option}
-            </button>
-          ))}
-        </div>
+        {TIMEFRAME_GROUPS.map((group) => (
+          <div key={group.label} className="flex flex-col gap-1">
+            <span className="text-xs uppercase tracking-wide text-slate-400">{group.label}</span>
+            <div className="flex flex-wrap gap-2">
+              {group.options.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  title={option.title}
+                  onClick={() => onTimeframeChange(option.id)}
+                  className={`flex-1 rounded-md border px-3 py-2 text-sm font-medium transition-all ${
+                    timeframe === option.id
+                      ? "border-emerald-400 bg-emerald-500/20 text-emerald-200"
+                      : "border-white/10 bg-black/30 text-white/70 hover:border-white/20 hover:text-white"
+                  }`}
+                >
+                  {option.id}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
       </div>
 
       <div className="flex flex-col gap-2">
@@ -438,6 +525,68 @@ export function Controls({
         Show price axis
       </label>
 
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-3 text-sm text-white/80">
+          <input
+            type="checkbox"
+            checked={showVolumeProfile}
+            onChange={onToggleVolumeProfile}
+            className="h-4 w-4 accent-emerald-500"
+          />
+          Show volume profile
+        </label>
+        <select
+          value={profileScope}
+          onChange={(event) => onProfileScopeChange(event.target.value as VolumeProfileScope)}
+          className="rounded-md border border-white/10 bg-black/50 px-2 py-1 text-xs text-white/80 focus:border-emerald-400 focus:outline-none"
+        >
+          {PROFILE_SCOPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value} className="text-black">
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-white/80">
+        <input
+          type="checkbox"
+          checked={showVwapBands}
+          onChange={onToggleVwapBands}
+          className="h-4 w-4 accent-emerald-500"
+        />
+        Show VWAP bands (±1/2/3σ)
+      </label>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-xs text-slate-400">Shift+clic en una vela para anclar un VWAP</span>
+        {vwapAnchors.map((anchor) => (
+          <div
+            key={anchor.id}
+            className="flex items-center justify-between rounded-md border border-white/10 bg-black/40 px-3 py-1.5 text-xs text-white/70"
+          >
+            <span>{anchor.label}</span>
+            <button
+              type="button"
+              onClick={() => onRemoveVwapAnchor(anchor.id)}
+              className="text-white/50 hover:text-rose-300"
+            >
+              Quitar
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-white/80">
+        <input
+          type="checkbox"
+          checked={showMarketStructure}
+          onChange={onToggleMarketStructure}
+          className="h-4 w-4 accent-emerald-500"
+        />
+        Show market structure (swings, BOS/CHOCH)
+      </label>
+
       <div className="mt-3 h-px bg-white/10" />
 
       <div className="flex flex-col gap-2">
@@ -448,6 +597,9 @@ export function Controls({
             { id: "sessionVwap" as const, label: "Session VWAP" },
             { id: "currentDay" as const, label: "Current day H/L" },
             { id: "priorDayPoc" as const, label: "Prior day POC" },
+            { id: "strategyLevels" as const, label: "Strategy levels" },
+            { id: "valueArea" as const, label: "Value area (VAH/VAL/POC)" },
+            { id: "nakedPocs" as const, label: "Naked POCs" },
           ]).map((group) => (
             <label
               key={group.id}
@@ -491,12 +643,42 @@ export function Controls({
           ))}
         </select>
 
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Evaluación
+          </span>
+          <div className="grid grid-cols-2 gap-2">
+            {EVALUATION_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                title={option.title}
+                onClick={() => onEvaluationChange(option.value)}
+                className={`rounded-md border px-3 py-1.5 text-xs font-semibold transition ${
+                  signalControl.evaluation === option.value
+                    ? "border-emerald-400 bg-emerald-500/20 text-emerald-200"
+                    : "border-white/10 bg-black/40 text-white/70 hover:border-white/20"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {signalControl.evaluation === "intrabar" ? (
+            <span className="text-xs text-slate-400">
+              {repaintRate === null
+                ? "Repintado: sin señales resueltas"
+                : `Repintado: ${(repaintRate * 100).toFixed(0)}% (${repaint?.cancelled ?? 0} canceladas, ${repaint?.changed ?? 0} modificadas de ${repaintResolved})`}
+            </span>
+          ) : null}
+        </div>
+
         <div className="flex flex-col gap-2">
           <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
             Estrategias
           </span>
           <div className="flex flex-col gap-1">
-            {STRATEGIES.map((strategy) => (
+            {getSignalStrategies().map((strategy) => (
               <label
                 key={strategy.id}
                 className="flex items-center justify-between rounded-md border border-white/10 bg-black/40 px-3 py-2 text-sm text-white/70 hover:border-white/20"
@@ -504,9 +686,7 @@ export function Controls({
                 <span>{strategy.label}</span>
                 <input
                   type="checkbox"
-                  checked={Boolean(
-                    signalControl.enabledStrategies[strategy.id],
-                  )}
+                  checked={signalControl.enabledStrategies[strategy.id] ?? strategy.defaultEnabled}
                   onChange={() => onToggleStrategy(strategy.id)}
                   className="h-4 w-4 accent-emerald-500"
                 />
@@ -10,8 +10,11 @@ import type {
   InvalidationEvent,
   InvalidationSeverity,
   KeyLevelStatus,
+  MarketStructure,
   PendingTrade,
   Position,
+  VolumeProfile,
+  VwapSeries,
 } from "@/types";
 import { deltaToRgba } from "@/utils/color";
 import { precisionFromStep } from "@/lib/aggregator";
@@ -25,10 +28,19 @@ interface FootprintChartProps {
   priceStep: number;
   priceBounds: { min: number; max: number; maxVolume: number } | null;
   keyLevels: ChartKeyLevel[];
+  // Drawn along the right edge when set.
+  profile?: VolumeProfile | null;
+  // Session VWAP first, then anchored ones.
+  vwap?: VwapSeries[];
+  showVwapBands?: boolean;
+  // Swing pivots and BOS/CHOCH breaks.
+  structure?: MarketStructure | null;
   showGrid: boolean;
   showPriceAxis: boolean;
   tickSize: number;
   onHover: (hover: HoverInfo | null, position?: { x: number; y: number }) => void;
+  // Shift+click on a bar.
+  onAnchorBar?: (barTime: number) => void;
 }
 
 const BACKGROUND = "#020617"; // slate-950
@@ -40,6 +52,23 @@ const INVALIDATION_COLORS: Record<InvalidationSeverity, { active: string; inacti
   low: { active: "rgba(56, 189, 248, 0.9)", inactive: "rgba(56, 189, 248, 0.35)" },
 };
 
+const PROFILE_WIDTH_RATIO = 0.18;
+const PROFILE_FILL = "rgba(148, 163, 184, 0.22)";
+const PROFILE_VALUE_AREA_FILL = "rgba(96, 165, 250, 0.32)";
+const PROFILE_POC_FILL = "rgba(254, 240, 138, 0.55)";
+
+const SESSION_VWAP_COLOR = "rgba(192, 132, 252, 0.95)";
+const ANCHORED_VWAP_COLORS = [
+  "rgba(56, 189, 248, 0.95)",
+  "rgba(251, 146, 60, 0.95)",
+  "rgba(52, 211, 153, 0.95)",
+  "rgba(244, 114, 182, 0.95)",
+];
+const VWAP_BAND_ALPHA = 0.45;
+const SWING_HIGH_COLOR = "rgba(248, 113, 113, 0.85)";
+const SWING_LOW_COLOR = "rgba(52, 211, 153, 0.85)";
+const STRUCTURE_BREAK_COLOR = "rgba(226, 232, 240, 0.75)";
+
 const PRICE_AXIS_WIDTH = 72;
 const CURRENT_PRICE_COLOR = "rgba(248, 250, 252, 0.92)";
 const CURRENT_PRICE_BG = "rgba(59, 130, 246, 0.22)";
@@ -56,6 +85,15 @@ const KEY_LEVEL_STYLES: Record<ChartKeyLevel["type"], { stroke: string; label: s
   "current-high": { stroke: "rgba(34, 197, 94, 1)", label: "rgba(34, 197, 94, 0.18)" },
   "current-low": { stroke: "rgba(239, 68, 68, 1)", label: "rgba(239, 68, 68, 0.18)" },
   "prior-day-poc": { stroke: "rgba(148, 163, 184, 1)", label: "rgba(148, 163, 184, 0.18)" },
+  "unfinished-high": { stroke: "rgba(251, 146, 60, 1)", label: "rgba(251, 146, 60, 0.18)" },
+  "unfinished-low": { stroke: "rgba(45, 212, 191, 1)", label: "rgba(45, 212, 191, 0.18)" },
+  "ib-high": { stroke: "rgba(244, 114, 182, 1)", label: "rgba(244, 114, 182, 0.18)" },
+  "ib-low": { stroke: "rgba(129, 140, 248, 1)", label: "rgba(129, 140, 248, 0.18)" },
+  "ib-extension": { stroke: "rgba(203, 213, 225, 1)", label: "rgba(203, 213, 225, 0.14)" },
+  "profile-poc": { stroke: "rgba(254, 240, 138, 1)", label: "rgba(254, 240, 138, 0.18)" },
+  vah: { stroke: "rgba(96, 165, 250, 1)", label: "rgba(96, 165, 250, 0.18)" },
+  val: { stroke: "rgba(96, 165, 250, 1)", label: "rgba(96, 165, 250, 0.18)" },
+  "naked-poc": { stroke: "rgba(253, 224, 71, 1)", label: "rgba(253, 224, 71, 0.14)" },
 };
 
 const KEY_LEVEL_STATUS_ALPHA: Record<KeyLevelStatus, number> = {
@@ -114,10 +152,15 @@ export function FootprintChart({
   priceStep,
   priceBounds,
   keyLevels,
+  profile = null,
+  vwap,
+  showVwapBands = true,
+  structure = null,
   showGrid,
   showPriceAxis,
   tickSize,
   onHover,
+  onAnchorBar,
 }: FootprintChartProps) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -244,6 +287,108 @@ export function FootprintChart({
       }
     }
 
+    if (profile && profile.levels.length) {
+      const profileMaxVolume = Math.max(...profile.levels.map((level) => level.volume));
+      const profileWidth = size.width * PROFILE_WIDTH_RATIO;
+      for (const level of profile.levels) {
+        const levelIndex = Math.round((level.price - min) / priceStep);
+        if (level.volume <= 0 || levelIndex < 0 || levelIndex >= levelCount) {
+          continue;
+        }
+        const inValueArea =
+          profile.val !== null && profile.vah !== null && level.price >= profile.val && level.price <= profile.vah;
+        const width = (level.volume / profileMaxVolume) * profileWidth;
+        const y = size.height - (levelIndex + 1) * cellHeight;
+        context.fillStyle =
+          level.price === profile.poc ? PROFILE_POC_FILL : inValueArea ? PROFILE_VALUE_AREA_FILL : PROFILE_FILL;
+        context.fillRect(size.width - width, y + cellHeight * 0.1, width, Math.max(1, cellHeight * 0.8));
+      }
+    }
+
+    if (vwap?.length) {
+      const bands = showVwapBands ? [0, 1, -1, 2, -2, 3, -3] : [0];
+      vwap.forEach((series, seriesIndex) => {
+        const color =
+          series.anchor.kind === "session"
+            ? SESSION_VWAP_COLOR
+            : ANCHORED_VWAP_COLORS[(seriesIndex - 1 + ANCHORED_VWAP_COLORS.length) % ANCHORED_VWAP_COLORS.length];
+        for (const band of bands) {
+          context.save();
+          context.strokeStyle = color;
+          context.lineWidth = band === 0 ? 1.6 : 1;
+          context.globalAlpha = band === 0 ? 1 : VWAP_BAND_ALPHA;
+          context.setLineDash(band === 0 ? [] : [4, 3]);
+          context.beginPath();
+          let previous: VwapSeries["points"][number] | null = null;
+          for (const point of series.points) {
+            const barIndex = barIndexByTime.get(point.time);
+            const levelPosition = (point.vwap + point.stdDev * band - min) / priceStep;
+            if (barIndex === undefined || !Number.isFinite(levelPosition)) {
+              previous = null;
+              continue;
+            }
+            const x = barIndex * cellWidth + cellWidth / 2;
+            const y = size.height - (levelPosition + 0.5) * cellHeight;
+            // The session VWAP restarts at each open.
+            if (previous && previous.anchorTime === point.anchorTime) {
+              context.lineTo(x, y);
+            } else {
+              context.moveTo(x, y);
+            }
+            previous = point;
+          }
+          context.stroke();
+          context.restore();
+        }
+      });
+    }
+
+    if (structure) {
+      const priceY = (price: number) => size.height - ((price - min) / priceStep + 0.5) * cellHeight;
+      context.save();
+      context.font = "9px 'Inter', sans-serif";
+      context.textAlign = "center";
+      for (const pivot of structure.pivots) {
+        const barIndex = barIndexByTime.get(pivot.time);
+        if (barIndex === undefined) {
+          continue;
+        }
+        const x = barIndex * cellWidth + cellWidth / 2;
+        const isHigh = pivot.kind === "high";
+        const y = priceY(pivot.price) + (isHigh ? -cellHeight : cellHeight);
+        context.fillStyle = isHigh ? SWING_HIGH_COLOR : SWING_LOW_COLOR;
+        context.beginPath();
+        context.moveTo(x, y);
+        context.lineTo(x - 3, y + (isHigh ? -4 : 4));
+        context.lineTo(x + 3, y + (isHigh ? -4 : 4));
+        context.closePath();
+        context.fill();
+        if (pivot.label) {
+          context.fillText(pivot.label, x, y + (isHigh ? -7 : 13));
+        }
+      }
+      context.strokeStyle = STRUCTURE_BREAK_COLOR;
+      context.fillStyle = STRUCTURE_BREAK_COLOR;
+      context.lineWidth = 1;
+      context.setLineDash([3, 3]);
+      for (const item of structure.breaks) {
+        const fromIndex = barIndexByTime.get(item.pivotTime);
+        const toIndex = barIndexByTime.get(item.time);
+        if (toIndex === undefined) {
+          continue;
+        }
+        const fromX = fromIndex === undefined ? 0 : fromIndex * cellWidth + cellWidth / 2;
+        const toX = toIndex * cellWidth + cellWidth / 2;
+        const y = priceY(item.price);
+        context.beginPath();
+        context.moveTo(fromX, y);
+        context.lineTo(toX, y);
+        context.stroke();
+        context.fillText(item.kind.toUpperCase(), (fromX + toX) / 2, y + (item.direction === "up" ? -3 : 11));
+      }
+      context.restore();
+    }
+
     if (signals.length) {
       for (const signal of signals) {
         const barIndex = barIndexByTime.get(signal.barTime) ?? signal.barIndex ?? -1;
@@ -259,15 +404,24 @@ export function FootprintChart({
         const x = barIndex * cellWidth + cellWidth / 2;
         const y = size.height - (levelPosition + 0.5) * cellHeight;
         const radius = Math.max(4, Math.min(cellWidth, cellHeight) * 0.35);
-        const color = signal.side === "long" ? "rgba(16, 185, 129, 0.95)" : "rgba(248, 113, 113, 0.95)";
+        const lifecycle = signal.lifecycle ?? "confirmed";
+        const sideColor = signal.side === "long" ? "rgba(16, 185, 129, 0.95)" : "rgba(248, 113, 113, 0.95)";
+        const color = lifecycle === "cancelled" ? "rgba(148, 163, 184, 0.6)" : sideColor;
 
+        // Provisional and cancelled signals are drawn as rings so repaints stay visible.
         context.beginPath();
         context.arc(x, y, radius, 0, Math.PI * 2);
-        context.fillStyle = color;
-        context.fill();
-        context.strokeStyle = "rgba(15, 23, 42, 0.95)";
+        if (lifecycle === "confirmed") {
+          context.fillStyle = color;
+          context.fill();
+          context.strokeStyle = "rgba(15, 23, 42, 0.95)";
+        } else {
+          context.setLineDash(lifecycle === "provisional" ? [2, 2] : []);
+          context.strokeStyle = color;
+        }
         context.lineWidth = 1.2;
         context.stroke();
+        context.setLineDash([]);
 
         const tailLength = Math.max(6, cellHeight * 0.6);
         context.beginPath();
@@ -392,7 +546,7 @@ export function FootprintChart({
         context.restore();
       }
     }
-  }, [barIndexByTime, bars, invalidations, pendingTrades, positions, priceBounds, priceStep, precision, signals, size.height, size.width]);
+  }, [barIndexByTime, bars, invalidations, pendingTrades, positions, priceBounds, priceStep, precision, profile, showVwapBands, signals, size.height, size.width, structure, vwap]);
 
   const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
     if (!priceBounds || !bars.length) {
@@ -474,10 +628,24 @@ export function FootprintChart({
     onHover(hover, { x: event.clientX, y: event.clientY });
   };
 
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!event.shiftKey || !onAnchorBar || !bars.length) {
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    const relativeX = event.clientX - rect.left;
+    if (relativeX < 0 || relativeX > rect.width) {
+      return;
+    }
+    const barIndex = Math.min(bars.length - 1, Math.max(0, Math.floor(relativeX / (rect.width / bars.length))));
+    onAnchorBar(bars[barIndex].startTime);
+  };
+
   return (
     <div
       ref={containerRef}
       className="relative h-full w-full overflow-hidden rounded-lg border border-slate-700/30 bg-slate-950"
+      onClick={handleClick}
       onPointerMove={handlePointerMove}
       onPointerLeave={() => onHover(null)}
     >
@@ -1,6 +1,7 @@
 import { useMemo, useState } from "react";
 
-import type { InvalidationActionType, InvalidationEvent, InvalidationSeverity } from "@/types";
+import { formatSignalStrategy, getSignalStrategies } from "@/lib/signals";
+import type { InvalidationActionType, InvalidationEvent, InvalidationSeverity, SignalStrategy } from "@/types";
 
 interface InvalidationPanelProps {
   events: InvalidationEvent[];
@@ -19,15 +20,9 @@ const SEVERITY_COLORS: Record<InvalidationSeverity, string> = {
   low: "bg-sky-500/20 text-sky-200 border border-sky-400/60",
 };
 
-const STRATEGY_LABELS: Record<string, string> = {
-  "absorption-failure": "Absorción",
-  "poc-migration": "POC",
-  "delta-divergence": "Divergencia",
-};
-
 export function InvalidationPanel({ events, onAction }: InvalidationPanelProps) {
   const [severityFilter, setSeverityFilter] = useState<"all" | InvalidationSeverity>("all");
-  const [strategyFilter, setStrategyFilter] = useState<"all" | keyof typeof STRATEGY_LABELS>("all");
+  const [strategyFilter, setStrategyFilter] = useState<"all" | SignalStrategy>("all");
 
   const filteredEvents = useMemo(() => {
     return events.filter((event) => {
@@ -65,9 +60,11 @@ export function InvalidationPanel({ events, onAction }: InvalidationPanelProps)
             onChange={(event) => setStrategyFilter(event.target.value as typeof strategyFilter)}
           >
             <option value="all">Estrategia: Todas</option>
-            <option value="absorption-failure">Absorción</option>
-            <option value="poc-migration">POC</option>
-            <option value="delta-divergence">Divergencia</option>
+            {getSignalStrategies().map((strategy) => (
+              <option key={strategy.id} value={strategy.id}>
+                {strategy.shortLabel}
+              </option>
+            ))}
           </select>
         </div>
       </header>
@@ -85,7 +82,7 @@ export function InvalidationPanel({ events, onAction }: InvalidationPanelProps)
                   </span>
                   <span className="font-semibold text-white">{event.triggerLabel}</span>
                   <span className="rounded-md border border-white/10 bg-black/30 px-2 py-0.5 text-[11px] uppercase text-slate-300">
-                    {STRATEGY_LABELS[event.strategy] ?? event.strategy}
+                    {formatSignalStrategy(event.strategy)}
                   </span>
                   <span className="text-slate-400">Score {event.score}</span>
                   <span className="text-slate-500">
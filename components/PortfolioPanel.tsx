@@ -0,0 +1,198 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+
+import type { PortfolioGuardrailSettings, PortfolioState, RiskGuardrailStatus } from "@/types";
+
+interface PortfolioPanelProps {
+  state: PortfolioState;
+  onSettingsChange: (partial: Partial<PortfolioGuardrailSettings>) => void;
+  onReset: () => void;
+}
+
+const STATUS_LABELS: Record<RiskGuardrailStatus, string> = {
+  ok: "Operativa",
+  limited: "Limitada",
+  cooldown: "Cooldown",
+  locked: "Bloqueada",
+};
+
+const STATUS_CLASSES: Record<RiskGuardrailStatus, string> = {
+  ok: "border-emerald-400/40 bg-emerald-500/10 text-emerald-200",
+  limited: "border-amber-400/40 bg-amber-500/10 text-amber-200",
+  cooldown: "border-sky-400/40 bg-sky-500/10 text-sky-200",
+  locked: "border-rose-400/40 bg-rose-500/10 text-rose-200",
+};
+
+const numberOrNull = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export function PortfolioPanel({ state, onSettingsChange, onReset }: PortfolioPanelProps) {
+  const { settings } = state;
+  const disabled = !settings.enabled;
+
+  const handleNumberChange =
+    (key: "maxDailyLossR" | "maxTradesPerDay" | "maxOpenPositions") =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      onSettingsChange({ [key]: numberOrNull(event.target.value) });
+    };
+
+  return (
+    <article className="rounded-lg border border-white/10 bg-white/5 p-4 shadow-inner shadow-black/20">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold text-white/80">Cartera</h2>
+          <p className="text-[11px] text-slate-400">Día {state.day} · reset {formatUtcTime(state.resetAt)} UTC</p>
+        </div>
+        <span className={`rounded-full border px-2 py-0.5 text-[11px] ${STATUS_CLASSES[state.status]}`}>
+          {STATUS_LABELS[state.status]}
+        </span>
+      </header>
+
+      <dl className="mt-3 grid grid-cols-3 gap-3 text-xs">
+        <div>
+          <dt className="text-slate-400">R neto hoy</dt>
+          <dd className={`font-mono ${state.netRToday >= 0 ? "text-emerald-300" : "text-rose-300"}`}>
+            {formatR(state.netRToday)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-slate-400">Trades hoy</dt>
+          <dd className="font-mono text-white/80">{state.tradesToday}</dd>
+        </div>
+        <div>
+          <dt className="text-slate-400">Posiciones abiertas</dt>
+          <dd className="font-mono text-white/80">{state.openPositions}</dd>
+        </div>
+      </dl>
+
+      <table className="mt-3 w-full text-left text-xs">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="py-1 font-normal">Símbolo</th>
+            <th className="py-1 font-normal">R neto</th>
+            <th className="py-1 font-normal">Trades</th>
+            <th className="py-1 font-normal">G/P</th>
+            <th className="py-1 font-normal">Abiertas</th>
+            <th className="py-1 font-normal">Pendientes</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-white/80">
+          {state.symbols.map((item) => (
+            <tr key={item.symbol} className="border-t border-white/5">
+              <td className="py-1 font-sans font-semibold text-white">{item.symbol}</td>
+              <td className={`py-1 ${item.netRToday >= 0 ? "text-emerald-300" : "text-rose-300"}`}>
+                {formatR(item.netRToday)}
+              </td>
+              <td className="py-1">{item.tradesToday}</td>
+              <td className="py-1">
+                {item.wins}/{item.losses}
+              </td>
+              <td className="py-1">{item.openPositions}</td>
+              <td className="py-1">{item.pendingTrades}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 rounded-md border border-white/10 bg-black/30 p-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-[11px] font-semibold uppercase tracking-wide text-white/70">Guardrails de cartera</h3>
+          <label className="flex items-center gap-2 text-[11px] text-white/70">
+            Activo
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-emerald-500"
+              checked={settings.enabled}
+              onChange={(event) => onSettingsChange({ enabled: event.target.checked })}
+            />
+          </label>
+        </div>
+        <p className="mt-2 text-[11px] text-slate-400">
+          Se suman todos los símbolos. 0 o vacío desactivan cada parámetro.
+        </p>
+        <div className="mt-3 grid gap-3 md:grid-cols-3">
+          <PortfolioNumber
+            label="Pérdida diaria máx (R)"
+            value={settings.maxDailyLossR}
+            step={0.1}
+            disabled={disabled}
+            onChange={handleNumberChange("maxDailyLossR")}
+          />
+          <PortfolioNumber
+            label="Trades diarios máx"
+            value={settings.maxTradesPerDay}
+            step={1}
+            disabled={disabled}
+            onChange={handleNumberChange("maxTradesPerDay")}
+          />
+          <PortfolioNumber
+            label="Posiciones abiertas máx"
+            value={settings.maxOpenPositions}
+            step={1}
+            disabled={disabled}
+            onChange={handleNumberChange("maxOpenPositions")}
+          />
+        </div>
+        {state.activeBlocks.length ? (
+          <ul className="mt-3 space-y-1 text-[11px] text-rose-200">
+            {state.activeBlocks.map((block) => (
+              <li key={block.reason}>{block.reason}</li>
+            ))}
+          </ul>
+        ) : null}
+        {state.lastBlock ? (
+          <p className="mt-2 text-[11px] text-slate-400">
+            Último bloqueo: {state.lastBlock.symbol} · {state.lastBlock.reason} ({formatUtcTime(state.lastBlock.timestamp)} UTC)
+          </p>
+        ) : null}
+        <button
+          type="button"
+          onClick={onReset}
+          className="mt-3 rounded-md border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-emerald-400 hover:text-emerald-200"
+        >
+          Reiniciar día de cartera
+        </button>
+      </div>
+    </article>
+  );
+}
+
+interface PortfolioNumberProps {
+  label: string;
+  value: number | null;
+  step: number;
+  disabled: boolean;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+}
+
+function PortfolioNumber({ label, value, step, disabled, onChange }: PortfolioNumberProps) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-white/70">
+      <span className="font-semibold text-white/80">{label}</span>
+      <input
+        type="number"
+        value={value ?? 0}
+        step={step}
+        min={0}
+        onChange={onChange}
+        disabled={disabled}
+        className="rounded-md border border-white/10 bg-black/40 px-3 py-2 text-xs text-white focus:border-emerald-400 focus:outline-none disabled:cursor-not-allowed disabled:opacity-40"
+      />
+    </label>
+  );
+}
+
+function formatR(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function formatUtcTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 16);
+}
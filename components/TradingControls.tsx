@@ -1,13 +1,34 @@
 "use client";
 
-import type { ChangeEvent } from "react";
-
-import type { TradingSession, TradingSettings } from "@/types";
+import { useState, type ChangeEvent } from "react";
+
+import { getSignalStrategies } from "@/lib/signals";
+import { MARGIN_MODE_LABELS, MAX_LEVERAGE } from "@/lib/trading/account";
+import { ENTRY_ORDER_LABELS } from "@/lib/trading/entryOrders";
+import {
+  EXIT_STOP_POLICY_LABELS,
+  EXIT_TARGET_ANCHOR_LABELS,
+  getDefaultExitPlan,
+} from "@/lib/trading/exitPlan";
+import { SLIPPAGE_MODEL_LABELS } from "@/lib/trading/slippage";
+import type {
+  EntryOrderType,
+  ExitPlan,
+  ExitStopPolicy,
+  ExitTarget,
+  ExitTargetAnchor,
+  MarginMode,
+  SignalStrategy,
+  SlippageModel,
+  TradingSession,
+  TradingSettings,
+} from "@/types";
 
 interface TradingControlsProps {
   settings: TradingSettings;
   onSettingsChange: (partial: Partial<TradingSettings>) => void;
   onResetDay: () => void;
+  onResetAccount: () => void;
   onExport: (format: "json" | "csv") => void;
 }
 
@@ -36,13 +57,31 @@ const SESSION_OPTIONS: Array<{ key: TradingSession; label: string }> = [
   { key: "other", label: "Otras" },
 ];
 
-export function TradingControls({ settings, onSettingsChange, onResetDay, onExport }: TradingControlsProps) {
+export function TradingControls({
+  settings,
+  onSettingsChange,
+  onResetDay,
+  onResetAccount,
+  onExport,
+}: TradingControlsProps) {
   const handleRiskChange = (event: ChangeEvent<HTMLInputElement>) => {
     onSettingsChange({ riskPerTradePercent: numberOrZero(event.target.value) });
   };
 
-  const handleFeesChange = (event: ChangeEvent<HTMLInputElement>) => {
-    onSettingsChange({ feesPercent: numberOrZero(event.target.value) });
+  const handleStartingBalanceChange = (event: ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ startingBalance: Math.max(0, numberOrZero(event.target.value)) });
+  };
+
+  const handleLeverageChange = (event: ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ leverage: clampNumber(numberOrZero(event.target.value), 1, MAX_LEVERAGE) });
+  };
+
+  const handleMakerFeeChange = (event: ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ makerFeePercent: numberOrZero(event.target.value) });
+  };
+
+  const handleTakerFeeChange = (event: ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ takerFeePercent: numberOrZero(event.target.value) });
   };
 
   const handleSlippageChange = (event: ChangeEvent<HTMLInputElement>) => {
@@ -66,10 +105,18 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
     onSettingsChange({ beOffsetTicks: Math.max(0, numberOrZero(event.target.value)) });
   };
 
+  const handleLimitOffsetChange = (event: ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ limitOffsetTicks: Math.max(0, numberOrZero(event.target.value)) });
+  };
+
   const handleInvalidationChange = (event: ChangeEvent<HTMLInputElement>) => {
     onSettingsChange({ invalidationBars: Math.max(0, Math.floor(numberOrZero(event.target.value))) });
   };
 
+  const handleOutcomeHorizonChange = (event: ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({ outcomeHorizonBars: Math.max(1, Math.floor(numberOrZero(event.target.value))) });
+  };
+
   const handleInvalidationsChange = (partial: Partial<TradingSettings["invalidations"]>) => {
     onSettingsChange({
       invalidations: {
@@ -213,6 +260,35 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
       </header>
 
       <div className="grid grid-cols-1 gap-3">
+        <LabeledNumber
+          label="Balance inicial (USDT)"
+          value={settings.startingBalance}
+          step={100}
+          min={0}
+          onChange={handleStartingBalanceChange}
+        />
+        <LabeledNumber
+          label="Apalancamiento (x)"
+          value={settings.leverage}
+          step={1}
+          min={1}
+          max={MAX_LEVERAGE}
+          onChange={handleLeverageChange}
+        />
+        <label className="flex flex-col gap-1 text-xs text-slate-300">
+          <span className="font-semibold text-white/80">Margen</span>
+          <select
+            className="rounded-md border border-white/10 bg-black/40 px-3 py-2 text-xs text-white focus:border-emerald-400 focus:outline-none"
+            value={settings.marginMode}
+            onChange={(event) => onSettingsChange({ marginMode: event.target.value as MarginMode })}
+          >
+            {MARGIN_MODE_OPTIONS.map(([mode, label]) => (
+              <option key={mode} value={mode}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
         <LabeledNumber
           label="Riesgo por trade (%)"
           value={settings.riskPerTradePercent}
@@ -221,11 +297,18 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
           onChange={handleRiskChange}
         />
         <LabeledNumber
-          label="Fees (%)"
-          value={settings.feesPercent}
-          step={0.01}
+          label="Fee maker (%)"
+          value={settings.makerFeePercent}
+          step={0.005}
           min={0}
-          onChange={handleFeesChange}
+          onChange={handleMakerFeeChange}
+        />
+        <LabeledNumber
+          label="Fee taker (%)"
+          value={settings.takerFeePercent}
+          step={0.005}
+          min={0}
+          onChange={handleTakerFeeChange}
         />
         <LabeledNumber
           label="Slippage (ticks)"
@@ -234,6 +317,20 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
           min={0}
           onChange={handleSlippageChange}
         />
+        <label className="flex flex-col gap-1 text-xs text-white/70">
+          <span className="font-semibold text-white/80">Modelo de slippage</span>
+          <select
+            className="rounded-md border border-white/10 bg-black/40 px-3 py-2 text-xs text-white focus:border-emerald-400 focus:outline-none"
+            value={settings.slippageModel}
+            onChange={(event) => onSettingsChange({ slippageModel: event.target.value as SlippageModel })}
+          >
+            {SLIPPAGE_OPTIONS.map(([model, label]) => (
+              <option key={model} value={model}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
         <LabeledNumber
           label="Parcial en TP1 (%)"
           value={settings.partialTakePercent * 100}
@@ -263,6 +360,13 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
           min={0}
           onChange={handleBeOffsetChange}
         />
+        <LabeledNumber
+          label="Offset entrada límite (ticks)"
+          value={settings.limitOffsetTicks}
+          step={1}
+          min={0}
+          onChange={handleLimitOffsetChange}
+        />
         <LabeledNumber
           label="Invalidación (bars, 0 = off)"
           value={settings.invalidationBars}
@@ -270,8 +374,35 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
           min={0}
           onChange={handleInvalidationChange}
         />
+        <LabeledNumber
+          label="Horizonte resultado (bars)"
+          value={settings.outcomeHorizonBars}
+          step={1}
+          min={1}
+          onChange={handleOutcomeHorizonChange}
+        />
+        <label className="flex items-center justify-between gap-2 text-xs text-white/70">
+          TP2 en VWAP / bandas
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-emerald-500"
+            checked={settings.vwapTargets}
+            onChange={(event) => onSettingsChange({ vwapTargets: event.target.checked })}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-white/70">
+          Límites con cola del libro
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-emerald-500"
+            checked={settings.queueFills}
+            onChange={(event) => onSettingsChange({ queueFills: event.target.checked })}
+          />
+        </label>
       </div>
 
+      <ExitPlanEditor settings={settings} onSettingsChange={onSettingsChange} />
+
       <div className="rounded-md border border-white/10 bg-black/30 p-3">
         <div className="flex flex-wrap items-center justify-between gap-2">
           <h3 className="text-[11px] font-semibold uppercase tracking-wide text-white/70">Monitor de invalidaciones</h3>
@@ -536,10 +667,225 @@ export function TradingControls({ settings, onSettingsChange, onResetDay, onExpo
       >
         Reset diario
       </button>
+      <button
+        type="button"
+        className="rounded-md border border-white/10 bg-black/30 px-3 py-2 text-xs font-semibold text-white/70 transition hover:border-rose-400/60 hover:bg-rose-500/10 hover:text-rose-200"
+        onClick={onResetAccount}
+      >
+        Reiniciar cuenta
+      </button>
     </section>
   );
 }
 
+interface ExitPlanEditorProps {
+  settings: TradingSettings;
+  onSettingsChange: (partial: Partial<TradingSettings>) => void;
+}
+
+const MARGIN_MODE_OPTIONS = Object.entries(MARGIN_MODE_LABELS) as Array<[MarginMode, string]>;
+const SLIPPAGE_OPTIONS = Object.entries(SLIPPAGE_MODEL_LABELS) as Array<[SlippageModel, string]>;
+const ENTRY_OPTIONS = Object.entries(ENTRY_ORDER_LABELS) as Array<[EntryOrderType, string]>;
+const ANCHOR_OPTIONS = Object.entries(EXIT_TARGET_ANCHOR_LABELS) as Array<[ExitTargetAnchor, string]>;
+const STOP_POLICY_OPTIONS = Object.entries(EXIT_STOP_POLICY_LABELS) as Array<[ExitStopPolicy, string]>;
+
+const SELECT_CLASS =
+  "rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-emerald-400 focus:outline-none";
+
+function ExitPlanEditor({ settings, onSettingsChange }: ExitPlanEditorProps) {
+  const strategies = getSignalStrategies();
+  const [strategy, setStrategy] = useState<SignalStrategy>(strategies[0]?.id ?? "");
+  const plan = settings.exitPlans[strategy] ?? null;
+  const strategyEntryType = strategies.find((definition) => definition.id === strategy)?.entryType ?? "touch";
+
+  const handleEntryTypeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const entryTypes = { ...settings.entryTypes };
+    if (event.target.value) {
+      entryTypes[strategy] = event.target.value as EntryOrderType;
+    } else {
+      delete entryTypes[strategy];
+    }
+    onSettingsChange({ entryTypes });
+  };
+
+  const updatePlan = (next: ExitPlan | null) => {
+    const exitPlans = { ...settings.exitPlans };
+    if (next) {
+      exitPlans[strategy] = next;
+    } else {
+      delete exitPlans[strategy];
+    }
+    onSettingsChange({ exitPlans });
+  };
+
+  const updateTarget = (index: number, partial: Partial<ExitTarget>) => {
+    if (!plan) {
+      return;
+    }
+    updatePlan({
+      ...plan,
+      targets: plan.targets.map((target, position) => (position === index ? { ...target, ...partial } : target)),
+    });
+  };
+
+  const removeTarget = (index: number) => {
+    if (!plan) {
+      return;
+    }
+    const targets = plan.targets.filter((_, position) => position !== index);
+    updatePlan(targets.length ? { ...plan, targets } : null);
+  };
+
+  const addTarget = () => {
+    if (!plan) {
+      return;
+    }
+    const lastR = plan.targets[plan.targets.length - 1]?.r ?? 2;
+    updatePlan({
+      ...plan,
+      targets: [...plan.targets, { anchor: "r", r: lastR + 1, size: 0.25, stopPolicy: "hold" }],
+    });
+  };
+
+  return (
+    <div className="rounded-md border border-white/10 bg-black/30 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-[11px] font-semibold uppercase tracking-wide text-white/70">Entrada y plan de salida</h3>
+        <select className={SELECT_CLASS} value={strategy} onChange={(event) => setStrategy(event.target.value)}>
+          {strategies.map((definition) => (
+            <option key={definition.id} value={definition.id}>
+              {definition.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <label className="mt-3 flex items-center justify-between gap-2 text-xs text-white/70">
+        Entrada
+        <select className={SELECT_CLASS} value={settings.entryTypes[strategy] ?? ""} onChange={handleEntryTypeChange}>
+          <option value="">{`Por defecto (${ENTRY_ORDER_LABELS[strategyEntryType]})`}</option>
+          {ENTRY_OPTIONS.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {plan ? (
+        <>
+          <div className="mt-3 flex flex-col gap-2">
+            {plan.targets.map((target, index) => (
+              <div key={`exit-target-${index}`} className="flex flex-wrap items-center gap-2 text-xs text-white/70">
+                <span className="w-8 font-semibold text-white/80">{`TP${index + 1}`}</span>
+                <select
+                  className={SELECT_CLASS}
+                  value={target.anchor}
+                  onChange={(event) => updateTarget(index, { anchor: event.target.value as ExitTargetAnchor })}
+                >
+                  {ANCHOR_OPTIONS.map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1">
+                  R
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    value={target.r}
+                    onChange={(event) => updateTarget(index, { r: Math.max(0.1, numberOrZero(event.target.value)) })}
+                    className="w-16 rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-emerald-400 focus:outline-none"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  %
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={Math.round(target.size * 100)}
+                    disabled={index === plan.targets.length - 1}
+                    onChange={(event) =>
+                      updateTarget(index, { size: clampNumber(numberOrZero(event.target.value), 0, 100) / 100 })
+                    }
+                    className="w-16 rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white focus:border-emerald-400 focus:outline-none disabled:opacity-40"
+                  />
+                </label>
+                <select
+                  className={SELECT_CLASS}
+                  value={target.stopPolicy}
+                  onChange={(event) => updateTarget(index, { stopPolicy: event.target.value as ExitStopPolicy })}
+                >
+                  {STOP_POLICY_OPTIONS.map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="rounded-md border border-white/10 px-2 py-1 text-[11px] text-white/60 transition hover:border-rose-400 hover:text-rose-200"
+                  onClick={() => removeTarget(index)}
+                >
+                  Quitar
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            <LabeledNumber
+              label="Trailing ATR (x)"
+              value={plan.atrMultiple}
+              step={0.1}
+              min={0.1}
+              onChange={(event) => updatePlan({ ...plan, atrMultiple: Math.max(0.1, numberOrZero(event.target.value)) })}
+            />
+            <LabeledNumber
+              label="ATR (bars)"
+              value={plan.atrBars}
+              step={1}
+              min={1}
+              onChange={(event) => updatePlan({ ...plan, atrBars: Math.max(1, Math.floor(numberOrZero(event.target.value))) })}
+            />
+          </div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="rounded-md border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-emerald-400 hover:text-emerald-200"
+              onClick={addTarget}
+            >
+              Añadir objetivo
+            </button>
+            <button
+              type="button"
+              className="rounded-md border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-rose-400 hover:text-rose-200"
+              onClick={() => updatePlan(null)}
+            >
+              Usar plan por defecto
+            </button>
+          </div>
+          <p className="mt-2 text-[11px] text-slate-500">
+            Los anclajes estructurales usan el nivel más cercano a 1R o más; si no hay, el múltiplo R. El último objetivo cierra el resto.
+          </p>
+        </>
+      ) : (
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-[11px] text-slate-400">
+          <span>Por defecto: parcial en 2R con SL a BE y resto en 3R.</span>
+          <button
+            type="button"
+            className="rounded-md border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-emerald-400 hover:text-emerald-200"
+            onClick={() => updatePlan(getDefaultExitPlan(settings))}
+          >
+            Personalizar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface LabeledNumberProps {
   label: string;
   value: number;
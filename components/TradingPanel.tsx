@@ -1,6 +1,10 @@
 import { useMemo } from "react";
 
 import { InvalidationPanel } from "@/components/InvalidationPanel";
+import { formatSignalStrategy } from "@/lib/signals";
+import { MARGIN_MODE_LABELS } from "@/lib/trading/account";
+import { ENTRY_ORDER_LABELS } from "@/lib/trading/entryOrders";
+import { EXIT_STOP_POLICY_LABELS } from "@/lib/trading/exitPlan";
 import type {
   FootprintSignal,
   InvalidationActionType,
@@ -8,6 +12,9 @@ import type {
   Position,
   TradingState,
   RiskGuardrailStatus,
+  SignalForwardOutcome,
+  SignalHitRate,
+  SignalTradeStatus,
 } from "@/types";
 
 interface TradingPanelProps {
@@ -15,6 +22,7 @@ interface TradingPanelProps {
   tradingState: TradingState;
   clockOffsetMs: number;
   onTakeSignal: (signalId: string) => void;
+  onAnchorVwap?: (signalId: string) => void;
   onCancelPending: (id: string) => void;
   onFlattenPosition: (id: string) => void;
   onInvalidationAction: (eventId: string, action: InvalidationActionType) => void;
@@ -25,11 +33,12 @@ export function TradingPanel({
   tradingState,
   clockOffsetMs,
   onTakeSignal,
+  onAnchorVwap,
   onCancelPending,
   onFlattenPosition,
   onInvalidationAction,
 }: TradingPanelProps) {
-  const { pending, positions, closed, settings, daily, guardrails } = tradingState;
+  const { pending, positions, closed, settings, daily, guardrails, account } = tradingState;
   const retestWindowMs = Math.max(0, settings.retestWindowMinutes) * 60_000;
   const now = Date.now() + clockOffsetMs;
 
@@ -45,6 +54,7 @@ export function TradingPanel({
   }, [pending, positions]);
 
   const availableSignals = signals
+    .filter((signal) => signal.lifecycle !== "cancelled")
     .filter((signal) => !activeSignalIds.has(signal.id))
     .filter((signal) => now - signal.timestamp <= retestWindowMs)
     .sort((a, b) => b.timestamp - a.timestamp)
@@ -60,9 +70,11 @@ export function TradingPanel({
       <SignalsCard
         signals={availableSignals}
         onTakeSignal={onTakeSignal}
+        onAnchorVwap={onAnchorVwap}
         retestWindowMs={retestWindowMs}
         guardrails={guardrails}
       />
+      <AccountCard account={account} settings={settings} />
       <div className="grid gap-4 lg:grid-cols-2">
         <PendingCard pending={sortedPending} onCancelPending={onCancelPending} now={now} />
         <PositionsCard positions={sortedPositions} onFlattenPosition={onFlattenPosition} now={now} />
@@ -70,19 +82,68 @@ export function TradingPanel({
       <InvalidationPanel events={sortedInvalidations} onAction={onInvalidationAction} />
       <ClosedTradesCard trades={recentClosed} />
       <DailySummaryCard daily={daily} riskPercent={settings.riskPerTradePercent} />
+      <SignalJournalCard journal={tradingState.signalJournal} horizonBars={settings.outcomeHorizonBars} />
       <GuardrailLogCard guardrails={guardrails} />
     </section>
   );
 }
 
+interface AccountCardProps {
+  account: TradingState["account"];
+  settings: TradingState["settings"];
+}
+
+function AccountCard({ account, settings }: AccountCardProps) {
+  const change = account.equity - settings.startingBalance;
+  const points = account.curve;
+  let path: string | null = null;
+  if (points.length > 1) {
+    const balances = points.map((point) => point.balance);
+    const min = Math.min(...balances);
+    const range = Math.max(...balances) - min || 1;
+    path = points
+      .map((point, index) => `${(index / (points.length - 1)) * 100},${30 - ((point.balance - min) / range) * 30}`)
+      .join(" ");
+  }
+
+  return (
+    <article className="rounded-lg border border-white/10 bg-white/5 p-4 shadow-inner shadow-black/20">
+      <header className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white/80">Cuenta</h3>
+        <span className="text-xs text-slate-400">
+          {`${settings.leverage}x · ${MARGIN_MODE_LABELS[settings.marginMode]}`}
+        </span>
+      </header>
+      <div className="mt-3 grid gap-3 md:grid-cols-4">
+        <SummaryStat label="Balance" value={formatUsdt(account.balance)} />
+        <SummaryStat label="Equity" value={formatUsdt(account.equity)} accent={change >= 0} />
+        <SummaryStat label="Margen usado" value={formatUsdt(account.usedMargin)} />
+        <SummaryStat label="Disponible" value={formatUsdt(account.availableBalance)} />
+      </div>
+      {path ? (
+        <svg className="mt-3 h-12 w-full" viewBox="0 0 100 30" preserveAspectRatio="none">
+          <polyline
+            points={path}
+            fill="none"
+            stroke={change >= 0 ? "#6ee7b7" : "#fda4af"}
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      ) : null}
+    </article>
+  );
+}
+
 interface SignalsCardProps {
   signals: FootprintSignal[];
   onTakeSignal: (signalId: string) => void;
+  onAnchorVwap?: (signalId: string) => void;
   retestWindowMs: number;
   guardrails: TradingState["guardrails"];
 }
 
-function SignalsCard({ signals, onTakeSignal, retestWindowMs, guardrails }: SignalsCardProps) {
+function SignalsCard({ signals, onTakeSignal, onAnchorVwap, retestWindowMs, guardrails }: SignalsCardProps) {
   const guardrailBlocks = guardrails.activeBlocks;
   const guardrailMeta = getGuardrailMeta(guardrails.status);
   const guardrailBannerBlock =
@@ -138,7 +199,15 @@ function SignalsCard({ signals, onTakeSignal, retestWindowMs, guardrails }: Sign
                   <span className={`font-semibold uppercase ${signal.side === "long" ? "text-emerald-300" : "text-rose-300"}`}>
                     {signal.side === "long" ? "Long" : "Short"}
                   </span>
-                  <span className="text-slate-300">{formatStrategy(signal.strategy)}</span>
+                  <span className="text-slate-300">{formatSignalStrategy(signal.strategy)}</span>
+                  {signal.lifecycle === "provisional" ? (
+                    <span
+                      className="rounded border border-amber-400/40 px-1.5 py-0.5 text-[10px] uppercase tracking-wide text-amber-200"
+                      title="La vela sigue abierta: la señal puede cambiar o cancelarse al cierre"
+                    >
+                      Provisional
+                    </span>
+                  ) : null}
                   <span className="text-slate-400">{new Date(signal.timestamp).toLocaleTimeString()}</span>
                   <span className="font-mono text-xs text-white/90">E: {signal.entry.toFixed(2)}</span>
                   <span className="font-mono text-xs text-white/60">SL: {signal.stop.toFixed(2)}</span>
@@ -154,6 +223,16 @@ function SignalsCard({ signals, onTakeSignal, retestWindowMs, guardrails }: Sign
                   >
                     Tomar señal
                   </button>
+                  {onAnchorVwap ? (
+                    <button
+                      type="button"
+                      className="ml-2 rounded border border-white/20 px-2 py-1 text-xs text-white/70 hover:bg-white/10"
+                      onClick={() => onAnchorVwap(signal.id)}
+                      title="VWAP anclado en la vela de la señal"
+                    >
+                      Anclar VWAP
+                    </button>
+                  ) : null}
                   {blocked ? (
                     <p className="mt-1 text-[11px] text-rose-300">
                       {blockingBlock?.reason ?? "Guardrail activo"}
@@ -196,14 +275,19 @@ function PendingCard({ pending, onCancelPending, now }: PendingCardProps) {
                   <span className={`font-semibold ${trade.side === "long" ? "text-emerald-300" : "text-rose-300"}`}>
                     {trade.side === "long" ? "Long" : "Short"}
                   </span>
-                  <span className="text-slate-300">{formatStrategy(trade.strategy)}</span>
+                  <span className="text-slate-300">{formatSignalStrategy(trade.strategy)}</span>
                   <span className="font-mono text-xs text-white/80">E: {trade.entry.toFixed(2)}</span>
                   <span className="font-mono text-xs text-white/60">SL: {trade.stop.toFixed(2)}</span>
                   <span className="font-mono text-xs text-white/60">T1: {trade.target1.toFixed(2)}</span>
                   <span className="font-mono text-xs text-white/60">T2: {trade.target2.toFixed(2)}</span>
                 </div>
                 <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
-                  <span>Expira en {formatDuration(remaining)}</span>
+                  <span>
+                    {`${ENTRY_ORDER_LABELS[trade.entryType]} · expira en ${formatDuration(remaining)}`}
+                    {trade.queue
+                      ? ` · cola ${trade.queue.ahead.toFixed(2)} · llenado ${Math.round((trade.queue.filled / trade.queue.size) * 100)}%`
+                      : null}
+                  </span>
                   <button
                     type="button"
                     className="rounded-md border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-rose-400 hover:text-rose-200"
@@ -254,11 +338,26 @@ function PositionsCard({ positions, onFlattenPosition, now }: PositionsCardProps
                   <span className={`font-semibold ${position.side === "long" ? "text-emerald-300" : "text-rose-300"}`}>
                     {position.side === "long" ? "Long" : "Short"}
                   </span>
-                  <span className="text-slate-300">{formatStrategy(position.strategy)}</span>
+                  <span className="text-slate-300">{formatSignalStrategy(position.strategy)}</span>
                   <span className="font-mono text-xs text-white/80">E: {position.entryFillPrice.toFixed(2)}</span>
                   <span className="font-mono text-xs text-white/60">SL: {position.stopPrice.toFixed(2)}</span>
-                  <span className="font-mono text-xs text-white/60">T2: {position.target2.toFixed(2)}</span>
-                  {position.target1Hit ? <span className="text-emerald-200">TP1 ejecutado</span> : null}
+                  {position.liquidationPrice !== null ? (
+                    <span className="font-mono text-xs text-amber-300">Liq: {position.liquidationPrice.toFixed(2)}</span>
+                  ) : null}
+                </div>
+                <div className="flex flex-wrap items-center gap-3 font-mono text-[11px] text-white/60">
+                  {position.legs.map((leg, index) => (
+                    <span
+                      key={`${position.id}-leg-${index}`}
+                      className={leg.filledAt !== null ? "text-emerald-200" : undefined}
+                      title={leg.label ?? undefined}
+                    >
+                      {`TP${index + 1}: ${leg.target.toFixed(2)} (${Math.round(leg.size * 100)}%)`}
+                    </span>
+                  ))}
+                  {position.trailing ? (
+                    <span className="font-sans text-sky-200">{EXIT_STOP_POLICY_LABELS[position.trailing]}</span>
+                  ) : null}
                 </div>
                 <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-300">
                   <span>{`Hold: ${formatDuration(hold)}`}</span>
@@ -306,6 +405,10 @@ function ClosedTradesCard({ trades }: ClosedTradesCardProps) {
                 <th className="px-2 py-1 font-medium">Side</th>
                 <th className="px-2 py-1 font-medium">Resultado</th>
                 <th className="px-2 py-1 font-medium">First hit</th>
+                <th className="px-2 py-1 font-medium">Legs</th>
+                <th className="px-2 py-1 font-medium text-right">Fees</th>
+                <th className="px-2 py-1 font-medium text-right">Slip</th>
+                <th className="px-2 py-1 font-medium text-right">Funding</th>
                 <th className="px-2 py-1 font-medium text-right">RR</th>
               </tr>
             </thead>
@@ -318,6 +421,16 @@ function ClosedTradesCard({ trades }: ClosedTradesCardProps) {
                   </td>
                   <td className="px-2 py-1 text-slate-300">{formatResult(trade.result)}</td>
                   <td className="px-2 py-1 text-slate-400">{formatFirstHit(trade.firstHit)}</td>
+                  <td className="px-2 py-1 text-slate-400">
+                    {trade.legs ? `${trade.legs.filter((leg) => leg.filledAt !== null).length}/${trade.legs.length}` : "-"}
+                  </td>
+                  <td className="px-2 py-1 text-right text-slate-400">{formatCost(trade.feesPaid)}</td>
+                  <td className="px-2 py-1 text-right text-slate-400">
+                    {trade.slippageCost !== undefined ? formatCost(trade.slippageCost) : "-"}
+                  </td>
+                  <td className="px-2 py-1 text-right text-slate-400">
+                    {trade.fundingPaid !== undefined ? formatCost(trade.fundingPaid) : "-"}
+                  </td>
                   <td className={`px-2 py-1 text-right ${trade.realizedR >= 0 ? "text-emerald-300" : "text-rose-300"}`}>
                     {formatR(trade.realizedR)}
                   </td>
@@ -365,6 +478,8 @@ function DailySummaryCard({ daily, riskPercent }: DailySummaryCardProps) {
         <SummaryStat label="Win rate" value={`${(totals.winRate * 100).toFixed(1)}%`} />
         <SummaryStat label="Expectancy" value={`${expectancy.toFixed(2)}R`} accent={expectancy >= 0} />
         <SummaryStat label="Avg R" value={`${totals.avgR.toFixed(2)}R`} accent={totals.avgR >= 0} />
+        <SummaryStat label="Fees" value={formatUsdt(totals.fees)} />
+        <SummaryStat label="Funding" value={formatUsdt(totals.funding)} accent={totals.funding <= 0} />
       </div>
       <div className="mt-4 grid gap-4 md:grid-cols-2">
         <SummaryTable title="Sesiones" data={daily.bySession} />
@@ -374,6 +489,84 @@ function DailySummaryCard({ daily, riskPercent }: DailySummaryCardProps) {
   );
 }
 
+interface SignalJournalCardProps {
+  journal: TradingState["signalJournal"];
+  horizonBars: number;
+}
+
+function SignalJournalCard({ journal, horizonBars }: SignalJournalCardProps) {
+  const recent = journal.entries.slice(-8).reverse();
+
+  return (
+    <article className="rounded-lg border border-white/10 bg-white/5 p-4 shadow-inner shadow-black/20">
+      <header>
+        <h3 className="text-sm font-semibold text-white/80">Seguimiento de señales</h3>
+        <p className="text-xs text-slate-400">Acierto = 2R antes del stop · horizonte {horizonBars} bars</p>
+      </header>
+      <div className="mt-3 grid gap-4 md:grid-cols-2">
+        <HitRateTable title="Estrategias" rows={journal.byStrategy} />
+        <HitRateTable title="Score" rows={journal.byScore} />
+      </div>
+      {recent.length ? (
+        <ul className="mt-4 space-y-1 text-[11px] text-slate-300">
+          {recent.map((entry) => (
+            <li key={entry.signalId} className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                {entry.side === "long" ? "Long" : "Short"} · {formatSignalStrategy(entry.strategy)} · {Math.round(entry.score)}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="text-slate-400" title={entry.reason}>
+                  {entry.provisional ? "Provisional" : formatSignalStatus(entry.status)}
+                </span>
+                <span className={getOutcomeClass(entry.outcome)}>{formatOutcome(entry.outcome, entry.barsElapsed)}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-[11px] text-slate-500">Sin señales registradas.</p>
+      )}
+    </article>
+  );
+}
+
+interface HitRateTableProps {
+  title: string;
+  rows: SignalHitRate[];
+}
+
+function HitRateTable({ title, rows }: HitRateTableProps) {
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">{title}</h4>
+      <div className="mt-2 overflow-x-auto">
+        <table className="min-w-full text-left text-xs text-white/70">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="px-2 py-1 font-medium">Key</th>
+              <th className="px-2 py-1 font-medium text-right">2R</th>
+              <th className="px-2 py-1 font-medium text-right">SL</th>
+              <th className="px-2 py-1 font-medium text-right">Time</th>
+              <th className="px-2 py-1 font-medium text-right">Acierto</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="odd:bg-black/30">
+                <td className="px-2 py-1 text-slate-300">{row.label}</td>
+                <td className="px-2 py-1 text-right">{row.target}</td>
+                <td className="px-2 py-1 text-right">{row.stop}</td>
+                <td className="px-2 py-1 text-right">{row.timeout}</td>
+                <td className="px-2 py-1 text-right">{row.hitRate === null ? "-" : `${(row.hitRate * 100).toFixed(0)}%`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 interface GuardrailLogCardProps {
   guardrails: TradingState["guardrails"];
 }
@@ -511,19 +704,6 @@ function SummaryTable({ title, data }: SummaryTableProps) {
   );
 }
 
-function formatStrategy(strategy: FootprintSignal["strategy"]) {
-  switch (strategy) {
-    case "absorption-failure":
-      return "Absorción";
-    case "poc-migration":
-      return "POC";
-    case "delta-divergence":
-      return "Divergencia";
-    default:
-      return strategy;
-  }
-}
-
 function formatDuration(ms: number): string {
   if (ms <= 0) {
     return "exp";
@@ -547,6 +727,15 @@ function formatR(value: number): string {
   return value > 0 ? `+${rounded}R` : `${rounded}R`;
 }
 
+// Costs are in the quote currency, like realizedPnl.
+function formatCost(value: number): string {
+  return value.toFixed(2);
+}
+
+function formatUsdt(value: number): string {
+  return `${value.toFixed(2)} USDT`;
+}
+
 function formatResult(result: string): string {
   switch (result) {
     case "win":
@@ -559,6 +748,47 @@ function formatResult(result: string): string {
   }
 }
 
+function formatSignalStatus(status: SignalTradeStatus): string {
+  switch (status) {
+    case "pending":
+      return "Pendiente";
+    case "filled":
+      return "Ejecutada";
+    case "expired":
+      return "Expirada";
+    case "rejected":
+      return "Rechazada";
+    case "invalidated":
+      return "Invalidada";
+    case "emitted":
+    default:
+      return "Emitida";
+  }
+}
+
+function formatOutcome(outcome: SignalForwardOutcome | null, barsElapsed: number): string {
+  switch (outcome) {
+    case "target":
+      return "2R";
+    case "stop":
+      return "SL";
+    case "timeout":
+      return "Time";
+    default:
+      return `${barsElapsed} bars`;
+  }
+}
+
+function getOutcomeClass(outcome: SignalForwardOutcome | null): string {
+  if (outcome === "target") {
+    return "font-semibold text-emerald-300";
+  }
+  if (outcome === "stop") {
+    return "font-semibold text-rose-300";
+  }
+  return "text-slate-500";
+}
+
 function formatFirstHit(firstHit: string): string {
   switch (firstHit) {
     case "tp1":
@@ -3,21 +3,28 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { timeframeToMs } from "@/lib/aggregator";
+import { TapeClock, createOffsetClock } from "@/lib/clock";
+import { toKlineInterval, type Kline, type StreamStatusMeta } from "@/lib/binance";
+import { MarketDepthStream } from "@/lib/depth";
 import {
-  BinanceAggTradeStream,
-  fetchAggTrades,
-  fetchKlines,
-  fetchServerTime,
-  fetchSymbolMarketConfig,
-  type Kline,
-  type StreamStatusMeta,
-} from "@/lib/binance";
-import { BinanceDepthStream } from "@/lib/depth";
+  DEFAULT_EXCHANGE,
+  MarketTradeStream,
+  getMarketDataAdapter,
+  type MarketDataAdapter,
+} from "@/lib/exchanges";
+import { DEFAULT_CONTEXT_TIMEFRAMES } from "@/lib/multiTimeframe";
+import { getDepthMessageTimestamp } from "@/lib/replay/codec";
 import { AggTradeRecorder } from "@/lib/replay/recorder";
 import { AggTradeReplayer } from "@/lib/replay/replayer";
 import { computeReplayMetrics } from "@/lib/replay/summary";
 import { TradingEngine, DEFAULT_TRADING_SETTINGS } from "@/lib/trading/engine";
-import { createDefaultSignalControlState } from "@/lib/signals";
+import type { PortfolioRiskManager } from "@/lib/trading/portfolio";
+import type { TradingAccount, TradingAccountSnapshot } from "@/lib/trading/account";
+import { FUNDING_INTERVAL_MS } from "@/lib/trading/funding";
+import { createDefaultSignalControlState, getSignalStrategy } from "@/lib/signals";
+import { buildMarketStructure } from "@/lib/marketStructure";
+import { buildVolumeProfiles, findNakedPocs } from "@/lib/volumeProfile";
+import { getVwapLevels, VwapEngine } from "@/lib/vwap";
 import type {
   ChartKeyLevel,
   ConnectionDiagnostics,
@@ -25,6 +32,7 @@ import type {
   DepthState,
   DepthStreamMessage,
   DetectorOverrides,
+  ExchangeId,
   FootprintBar,
   FootprintMode,
   FootprintSignal,
@@ -33,23 +41,31 @@ import type {
   InvalidationActionType,
   KeyLevelStatus,
   KeyLevelVisibility,
+  MarketStructure,
   RecordingDatasetSummary,
   ReplayMetrics,
   ReplaySpeed,
   ReplayState,
   Settings,
   SignalControlState,
+  SignalEvaluationMode,
   SignalMode,
   SignalStats,
   SignalStrategy,
+  StrategyKeyLevel,
   SymbolMarketConfig,
   Timeframe,
   Trade,
   TradingSettings,
   TradingState,
+  VolumeProfile,
+  VolumeProfileScope,
+  VwapAnchor,
+  VwapSeries,
 } from "@/types";
 
 const DEFAULT_SETTINGS: Settings = {
+  exchange: DEFAULT_EXCHANGE,
   symbol: "BTCUSDT",
   timeframe: "1m",
   priceStep: 0.5,
@@ -62,23 +78,40 @@ const DEFAULT_SETTINGS: Settings = {
     sessionVwap: true,
     currentDay: true,
     priorDayPoc: false,
+    strategyLevels: true,
+    valueArea: true,
+    nakedPocs: false,
   },
+  profileScope: "session",
+  showVolumeProfile: true,
+  showVwapBands: true,
+  showMarketStructure: false,
 };
 
 const FLUSH_INTERVAL = 200;
+// Depth updates reach the worker in small batches; snapshots go at once.
+const DEPTH_BATCH_SIZE = 6;
+const DEPTH_FLUSH_INTERVAL = 80;
 const SIGNAL_CONFIG_STORAGE_KEY = "footprint.signalConfig";
 const TRADING_SETTINGS_STORAGE_KEY = "footprint.trading.settings";
 const TRADING_HISTORY_STORAGE_KEY = "footprint.trading.history";
+const TRADING_ACCOUNT_STORAGE_KEY = "footprint.trading.account";
+const VWAP_ANCHORS_STORAGE_KEY = "footprint.vwapAnchors";
+const MAX_VWAP_ANCHORS = 6;
 const BACKFILL_LOOKBACK_MINUTES = 3;
 const BACKFILL_LOOKBACK_MS = BACKFILL_LOOKBACK_MINUTES * 60_000;
 const SERVER_TIME_SYNC_INTERVAL = 60_000;
 const MAX_TRACKED_TRADE_IDS = 50_000;
+const FUNDING_REFRESH_INTERVAL = 30 * 60_000;
+// Long enough to cover the settlements an open position still has to pay.
+const FUNDING_LOOKBACK_MS = 3 * 24 * 60 * 60_000;
 
 const INITIAL_MARKET_CONFIG: SymbolMarketConfig = {
   tickSize: 0.1,
   stepSize: 0.001,
   minPriceStep: 0.1,
   maxPriceStep: 2,
+  minNotional: 0,
 };
 
 const INITIAL_DIAGNOSTICS: ConnectionDiagnostics = {
@@ -210,6 +243,14 @@ function resetTradeIdCache(cache: TradeIdCache) {
   cache.start = 0;
 }
 
+function scopeStorageKey(key: string, scope: string | null): string {
+  return scope ? `${key}.${scope}` : key;
+}
+
+function formatAnchorTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 16);
+}
+
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => {
     setTimeout(resolve, ms);
@@ -217,7 +258,8 @@ function delay(ms: number): Promise<void> {
 }
 
 async function fetchKlinesWithFallback(
-  params: Parameters<typeof fetchKlines>[0],
+  adapter: MarketDataAdapter,
+  params: Parameters<MarketDataAdapter["fetchKlines"]>[0],
   limits: number[],
 ): Promise<Kline[]> {
   let lastError: unknown = null;
@@ -225,7 +267,7 @@ async function fetchKlinesWithFallback(
     const clampedLimit = Math.max(1, Math.floor(limit));
     for (let attempt = 0; attempt < 2; attempt += 1) {
       try {
-        return await fetchKlines({ ...params, limit: clampedLimit });
+        return await adapter.fetchKlines({ ...params, limit: clampedLimit });
       } catch (error) {
         lastError = error;
         await delay(250 * (attempt + 1));
@@ -242,6 +284,35 @@ async function fetchKlinesWithFallback(
   return [];
 }
 
+async function fetchTimeframeSeeds(
+  adapter: MarketDataAdapter,
+  symbol: string,
+  timeframe: Timeframe,
+): Promise<HistoricalFootprintBarSeed[]> {
+  const klineInterval = toKlineInterval(timeframe);
+  if (!klineInterval) {
+    return [];
+  }
+  const limits = timeframe === "5m" ? [80, 60, 30] : [80, 60, 40];
+  const klines = await fetchKlinesWithFallback(
+    adapter,
+    { symbol, interval: klineInterval, limit: limits[0] },
+    limits,
+  );
+  return mapKlinesToSeeds(klines).slice(-50);
+}
+
+function postSeeds(
+  worker: Worker,
+  seedsByTimeframe: Map<Timeframe, HistoricalFootprintBarSeed[]>,
+) {
+  for (const [timeframe, seeds] of seedsByTimeframe) {
+    if (seeds.length) {
+      worker.postMessage({ type: "seed", timeframe, seeds });
+    }
+  }
+}
+
 function mapKlinesToSeeds(klines: Kline[]): HistoricalFootprintBarSeed[] {
   return klines
     .map((kline) => ({
@@ -332,6 +403,7 @@ function mergeSignalControl(
 ): SignalControlState {
   return {
     mode: partial.mode ?? base.mode,
+    evaluation: partial.evaluation ?? base.evaluation,
     enabledStrategies: {
       ...base.enabledStrategies,
       ...(partial.enabledStrategies ?? {}),
@@ -340,6 +412,10 @@ function mergeSignalControl(
       ...base.overrides,
       ...(partial.overrides ?? {}),
     },
+    strategyParams: {
+      ...base.strategyParams,
+      ...(partial.strategyParams ?? {}),
+    },
   };
 }
 
@@ -361,6 +437,7 @@ function normalizeSignalStats(stats?: SignalStats): SignalStats {
       us: stats.sessionCount?.us ?? 0,
       other: stats.sessionCount?.other ?? 0,
     },
+    repaint: stats.repaint ? { ...stats.repaint } : undefined,
   };
 }
 
@@ -378,8 +455,21 @@ function normalizePriceStep(step: number, config: SymbolMarketConfig): number {
   return Number(clamped.toFixed(8));
 }
 
-export function useFootprint() {
-  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+export interface UseFootprintOptions {
+  // Workspace panels pin their symbol and keep a separate paper-trading book.
+  symbol?: string;
+  portfolio?: PortfolioRiskManager;
+  // Paper wallet shared by the workspace panels; its owner persists it.
+  account?: TradingAccount;
+}
+
+export function useFootprint(options: UseFootprintOptions = {}) {
+  const [settings, setSettings] = useState<Settings>(() =>
+    options.symbol ? { ...DEFAULT_SETTINGS, symbol: options.symbol } : DEFAULT_SETTINGS,
+  );
+  const storageScopeRef = useRef(options.symbol ?? null);
+  const portfolioRef = useRef(options.portfolio ?? null);
+  const sharedAccountRef = useRef(options.account ?? null);
   const [bars, setBars] = useState<FootprintBar[]>([]);
   const [signals, setSignals] = useState<FootprintSignal[]>([]);
   const [signalStats, setSignalStats] = useState<SignalStats>(() =>
@@ -412,12 +502,15 @@ export function useFootprint() {
     perMode: [],
   });
   const [depth, setDepth] = useState<DepthState | null>(null);
+  const [strategyLevels, setStrategyLevels] = useState<StrategyKeyLevel[]>([]);
   const [depthStatus, setDepthStatus] =
     useState<ConnectionStatus>("connecting");
   const [depthStatusMeta, setDepthStatusMeta] = useState<StreamStatusMeta | null>(null);
   const [keyLevelState, setKeyLevelState] = useState<KeyLevelState>(INITIAL_KEY_LEVEL_STATE);
   const [statusNotices, setStatusNotices] = useState<string[]>([]);
   const [workerReady, setWorkerReady] = useState(false);
+  const [vwapAnchors, setVwapAnchors] = useState<VwapAnchor[]>([]);
+  const [vwapEngine] = useState(() => new VwapEngine());
 
   const priceBounds = useMemo<PriceBounds | null>(() => {
     if (!bars.length) {
@@ -458,6 +551,28 @@ export function useFootprint() {
     [marketConfig],
   );
 
+  const volumeProfile = useMemo<VolumeProfile | null>(() => {
+    const profiles = buildVolumeProfiles(bars, settings.profileScope, { priceStep: settings.priceStep });
+    return profiles[profiles.length - 1] ?? null;
+  }, [bars, settings.profileScope, settings.priceStep]);
+
+  // Daily POCs nothing has traded back to; today's is still forming.
+  const nakedPocs = useMemo<VolumeProfile[]>(() => {
+    const profiles = buildVolumeProfiles(bars, "day", { priceStep: settings.priceStep });
+    return findNakedPocs(profiles.slice(0, -1), bars);
+  }, [bars, settings.priceStep]);
+
+  // Session VWAP first, then the user's anchors; closed bars are folded once.
+  const vwapSeries = useMemo<VwapSeries[]>(() => {
+    vwapEngine.setAnchors(vwapAnchors);
+    return vwapEngine.update(bars);
+  }, [bars, vwapAnchors, vwapEngine]);
+
+  const marketStructure = useMemo<MarketStructure | null>(
+    () => (settings.showMarketStructure ? buildMarketStructure(bars) : null),
+    [bars, settings.showMarketStructure],
+  );
+
   const chartKeyLevels = useMemo<ChartKeyLevel[]>(() => {
     const lines: ChartKeyLevel[] = [];
     const visibility = settings.keyLevelVisibility;
@@ -498,8 +613,37 @@ export function useFootprint() {
       pushLevel("key-prior-poc", "PD POC", keyLevelState.priorDayPoc, "prior-day-poc");
     }
 
+    if (visibility.valueArea && volumeProfile) {
+      const profileLevels: Array<[string, string, number | null, ChartKeyLevel["type"]]> = [
+        ["key-vah", "VAH", volumeProfile.vah, "vah"],
+        ["key-val", "VAL", volumeProfile.val, "val"],
+        ["key-profile-poc", "VPOC", volumeProfile.poc, "profile-poc"],
+      ];
+      for (const [id, label, price, type] of profileLevels) {
+        pushLevel(id, label, { price, status: "live" }, type);
+      }
+    }
+
+    if (visibility.nakedPocs) {
+      for (const profile of nakedPocs) {
+        pushLevel(`key-naked-poc-${profile.key}`, `nPOC ${profile.key.slice(5)}`, { price: profile.poc, status: "live" }, "naked-poc");
+      }
+    }
+
+    if (visibility.strategyLevels) {
+      for (const level of strategyLevels) {
+        lines.push({
+          id: `key-strategy-${level.id}`,
+          label: level.label,
+          price: level.price,
+          type: level.type,
+          status: "live",
+        });
+      }
+    }
+
     return lines;
-  }, [keyLevelState, settings.keyLevelVisibility]);
+  }, [keyLevelState, nakedPocs, settings.keyLevelVisibility, strategyLevels, volumeProfile]);
 
   const keyLevelSummaries = useMemo<Record<keyof KeyLevelVisibility, KeyLevelStatus>>(() => {
     const summarize = (levels: Array<{ status: KeyLevelStatus }>): KeyLevelStatus => {
@@ -520,8 +664,11 @@ export function useFootprint() {
       sessionVwap: summarize([keyLevelState.sessionVwap]),
       currentDay: summarize([keyLevelState.currentDayHigh, keyLevelState.currentDayLow]),
       priorDayPoc: keyLevelState.priorDayPoc.status,
+      strategyLevels: strategyLevels.length ? "live" : "unavailable",
+      valueArea: volumeProfile && volumeProfile.poc !== null ? "live" : "unavailable",
+      nakedPocs: nakedPocs.length ? "live" : "unavailable",
     };
-  }, [keyLevelState]);
+  }, [keyLevelState, nakedPocs, strategyLevels, volumeProfile]);
 
   const pushStatusNotice = useCallback((message: string) => {
     setStatusNotices((prev) => {
@@ -548,10 +695,14 @@ export function useFootprint() {
 
     let cancelled = false;
     const symbol = settings.symbol;
-    const timeframe = settings.timeframe;
+    const adapter = getMarketDataAdapter(settings.exchange);
+    // Seeds every maintained timeframe up front so switching needs no refetch.
+    const seedTimeframes = Array.from(
+      new Set<Timeframe>([...DEFAULT_CONTEXT_TIMEFRAMES, timeframeRef.current]),
+    );
 
     const run = async () => {
-      const serverNow = Date.now() + serverTimeOffsetRef.current;
+      const serverNow = liveClockRef.current();
       const sessionStart = getUtcSessionStart(serverNow);
 
       if (mode === "live") {
@@ -559,17 +710,15 @@ export function useFootprint() {
       }
 
       try {
-        const primaryLimits = timeframe === "5m" ? [80, 60, 30] : [80, 60, 40];
-        const primaryKlines = await fetchKlinesWithFallback(
-          { symbol, interval: timeframe, limit: primaryLimits[0] },
-          primaryLimits,
-        );
-
-        const seeds = mapKlinesToSeeds(primaryKlines).slice(-50);
+        const seeds = new Map<Timeframe, HistoricalFootprintBarSeed[]>();
+        for (const timeframe of seedTimeframes) {
+          seeds.set(timeframe, await fetchTimeframeSeeds(adapter, symbol, timeframe));
+        }
 
         const minutesSinceStart = Math.max(1, Math.ceil((serverNow - sessionStart) / 60_000));
         const sessionLimit = Math.min(1500, minutesSinceStart + 5);
         const sessionKlines = await fetchKlinesWithFallback(
+          adapter,
           {
             symbol,
             interval: "1m",
@@ -581,6 +730,7 @@ export function useFootprint() {
         );
 
         const dailyKlines = await fetchKlinesWithFallback(
+          adapter,
           { symbol, interval: "1d", limit: 2 },
           [2, 1],
         );
@@ -621,7 +771,7 @@ export function useFootprint() {
 
         seedContextRef.current = {
           symbol,
-          timeframe,
+          adapter,
           seeds,
           sessionStart,
         };
@@ -629,8 +779,8 @@ export function useFootprint() {
         setKeyLevelState(nextKeyLevels);
 
         if (mode === "live" && workerReady && workerRef.current) {
-          workerRef.current.postMessage({ type: "seed", seeds });
-          if (seeds.length) {
+          postSeeds(workerRef.current, seeds);
+          if (seeds.get(timeframeRef.current)?.length) {
             pushStatusNotice("Seeded 50 bars from history");
           }
         }
@@ -653,36 +803,64 @@ export function useFootprint() {
     return () => {
       cancelled = true;
     };
-  }, [mode, settings.symbol, settings.timeframe, workerReady, pushStatusNotice]);
+  }, [mode, settings.exchange, settings.symbol, workerReady, pushStatusNotice]);
 
   useEffect(() => {
     if (!workerReady || !workerRef.current) {
       return;
     }
     const context = seedContextRef.current;
-    if (!context || !context.seeds.length) {
+    if (!context || !context.seeds.size) {
       return;
     }
-    workerRef.current.postMessage({ type: "seed", seeds: context.seeds });
+    postSeeds(workerRef.current, context.seeds);
     if (
       mode === "live" &&
       context.symbol === settings.symbol &&
-      context.timeframe === settings.timeframe &&
-      context.seeds.length
+      context.seeds.get(timeframeRef.current)?.length
     ) {
       pushStatusNotice("Seeded 50 bars from history");
     }
-  }, [workerReady, mode, settings.symbol, settings.timeframe, pushStatusNotice]);
+  }, [workerReady, mode, settings.symbol, pushStatusNotice]);
+
+  // Timeframes outside the maintained set are rebuilt on every visit, so their
+  // history is fetched once and posted again each time. The post resolves after
+  // the "timeframe" message below has created the aggregator.
+  useEffect(() => {
+    const context = seedContextRef.current;
+    const timeframe = settings.timeframe;
+    if (mode !== "live" || !context || DEFAULT_CONTEXT_TIMEFRAMES.includes(timeframe)) {
+      return;
+    }
+    let cancelled = false;
+    const cached = context.seeds.get(timeframe);
+    (cached ? Promise.resolve(cached) : fetchTimeframeSeeds(context.adapter, context.symbol, timeframe))
+      .then((seeds) => {
+        if (cancelled || seedContextRef.current !== context) {
+          return;
+        }
+        context.seeds.set(timeframe, seeds);
+        if (workerReadyRef.current && workerRef.current && seeds.length) {
+          workerRef.current.postMessage({ type: "seed", timeframe, seeds });
+        }
+      })
+      .catch((error) => {
+        console.warn("Failed to seed timeframe history", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, settings.timeframe]);
 
   useEffect(() => {
     if (!workerReady || !workerRef.current) {
       return;
     }
     const context = seedContextRef.current;
-    if (!context || !context.seeds.length) {
+    if (!context || !context.seeds.size) {
       return;
     }
-    workerRef.current.postMessage({ type: "seed", seeds: context.seeds });
+    postSeeds(workerRef.current, context.seeds);
   }, [settings.priceStep, workerReady]);
 
   useEffect(() => {
@@ -789,6 +967,7 @@ export function useFootprint() {
   }, [bars]);
 
   const signalControlRef = useRef<SignalControlState>(signalControl);
+  const vwapAnchorsRef = useRef<VwapAnchor[]>(vwapAnchors);
   const tradingEngineRef = useRef<TradingEngine | null>(null);
   const liveEngineRef = useRef<TradingEngine | null>(null);
   const liveSettingsRef = useRef<Settings | null>(null);
@@ -796,14 +975,19 @@ export function useFootprint() {
   const workerReadyRef = useRef(false);
   const tradeBufferRef = useRef<Trade[]>([]);
   const flushTimerRef = useRef<number | null>(null);
-  const streamRef = useRef<BinanceAggTradeStream | null>(null);
-  const depthStreamRef = useRef<BinanceDepthStream | null>(null);
+  const streamRef = useRef<MarketTradeStream | null>(null);
+  const depthStreamRef = useRef<MarketDepthStream | null>(null);
   const depthBufferRef = useRef<DepthStreamMessage[]>([]);
   const depthFlushTimerRef = useRef<number | null>(null);
   const lastTradeTimeRef = useRef<number | null>(null);
   const tradeIdCacheRef = useRef<TradeIdCache>(createTradeIdCache());
   const serverTimeOffsetRef = useRef(0);
+  const liveClockRef = useRef(
+    createOffsetClock(() => serverTimeOffsetRef.current),
+  );
   const symbolRef = useRef(settings.symbol);
+  const adapterRef = useRef<MarketDataAdapter>(getMarketDataAdapter(settings.exchange));
+  const timeframeRef = useRef(settings.timeframe);
   const backfillPromiseRef = useRef<Promise<void> | null>(null);
   const recoveringRef = useRef(false);
   const recoveryQueueRef = useRef<Trade[]>([]);
@@ -813,6 +997,7 @@ export function useFootprint() {
   const recorderRef = useRef<AggTradeRecorder | null>(null);
   const recorderReadyRef = useRef(false);
   const recorderContextRef = useRef<{
+    exchange: ExchangeId;
     symbol: string;
     timeframe: Timeframe;
     priceStep: number;
@@ -823,15 +1008,15 @@ export function useFootprint() {
   const datasetMetricsCacheRef = useRef<Map<string, ReplayMetrics>>(new Map());
   const seedContextRef = useRef<{
     symbol: string;
-    timeframe: Timeframe;
-    seeds: HistoricalFootprintBarSeed[];
+    adapter: MarketDataAdapter;
+    seeds: Map<Timeframe, HistoricalFootprintBarSeed[]>;
     sessionStart: number;
   } | null>(null);
   const sessionStartRef = useRef<number | null>(null);
 
   const syncServerTime = useCallback(async () => {
     try {
-      const serverTime = await fetchServerTime();
+      const serverTime = await adapterRef.current.fetchServerTime();
       const offset = Math.round(serverTime - Date.now());
       serverTimeOffsetRef.current = offset;
       setServerTimeOffsetMs(offset);
@@ -907,6 +1092,9 @@ export function useFootprint() {
 
   const pushTrade = useCallback(
     (trade: Trade) => {
+      if (depthBufferRef.current.length) {
+        flushDepthUpdates(true);
+      }
       tradeBufferRef.current.push(trade);
       if (modeRef.current === "live" && recorderRef.current) {
         recorderRef.current.record(trade).catch((error) => {
@@ -929,7 +1117,30 @@ export function useFootprint() {
         }, FLUSH_INTERVAL);
       }
     },
-    [flushTrades],
+    [flushTrades, flushDepthUpdates],
+  );
+
+  const pushReplayDepth = useCallback(
+    (message: DepthStreamMessage) => {
+      const engine = tradingEngineRef.current;
+      if (engine?.handleDepth(message)) {
+        setTradingState(engine.getState());
+      }
+      if (!workerReadyRef.current || !workerRef.current) {
+        return;
+      }
+      // Keep tape order in the worker: trades queued before this update go first.
+      if (tradeBufferRef.current.length) {
+        flushTrades(true);
+      }
+      depthBufferRef.current.push(message);
+      if (message.type === "snapshot" || depthBufferRef.current.length >= DEPTH_BATCH_SIZE) {
+        flushDepthUpdates(true);
+      } else if (depthFlushTimerRef.current === null) {
+        depthFlushTimerRef.current = window.setTimeout(() => flushDepthUpdates(true), DEPTH_FLUSH_INTERVAL);
+      }
+    },
+    [flushTrades, flushDepthUpdates],
   );
 
   const drainRecoveryQueue = useCallback(() => {
@@ -955,8 +1166,7 @@ export function useFootprint() {
 
     const promise = (async () => {
       const symbol = symbolRef.current;
-      const serverOffset = serverTimeOffsetRef.current;
-      const serverNow = Date.now() + serverOffset;
+      const serverNow = liveClockRef.current();
       const fallbackStart = serverNow - BACKFILL_LOOKBACK_MS;
       const lastProcessed = lastTradeTimeRef.current ?? fallbackStart;
       const startTime = Math.max(
@@ -970,7 +1180,7 @@ export function useFootprint() {
       let nextFromId: number | undefined;
 
       for (let attempt = 0; attempt < 6; attempt += 1) {
-        const chunk = await fetchAggTrades({
+        const chunk = await adapterRef.current.fetchAggTrades({
           symbol,
           startTime: nextFromId ? undefined : nextStart,
           endTime,
@@ -1075,7 +1285,7 @@ export function useFootprint() {
   const handleStreamError = useCallback((error: unknown) => {
     const message =
       error instanceof Error ? error.message : String(error);
-    console.error("[binance]", error);
+    console.error(`[${adapterRef.current.id}]`, error);
     setLastError(message);
   }, []);
 
@@ -1085,6 +1295,7 @@ export function useFootprint() {
     }
     let cancelled = false;
     const recorder = new AggTradeRecorder(undefined, {
+      clock: liveClockRef.current,
       onDatasetUpdate: (dataset) => {
         if (cancelled) {
           return;
@@ -1097,6 +1308,7 @@ export function useFootprint() {
 
     recorder
       .start({
+        exchange: DEFAULT_SETTINGS.exchange,
         symbol: DEFAULT_SETTINGS.symbol,
         timeframe: DEFAULT_SETTINGS.timeframe,
         priceStep: DEFAULT_SETTINGS.priceStep,
@@ -1107,6 +1319,7 @@ export function useFootprint() {
         }
         recorderReadyRef.current = true;
         recorderContextRef.current = {
+          exchange: dataset.exchange ?? DEFAULT_SETTINGS.exchange,
           symbol: dataset.symbol,
           timeframe: dataset.timeframe,
           priceStep: dataset.priceStep,
@@ -1135,7 +1348,8 @@ export function useFootprint() {
       return;
     }
     const context = recorderContextRef.current;
-    const symbolChanged = !context || context.symbol !== settings.symbol;
+    const symbolChanged =
+      !context || context.symbol !== settings.symbol || context.exchange !== settings.exchange;
     const timeframeChanged =
       !context || context.timeframe !== settings.timeframe;
     const priceStepChanged =
@@ -1152,6 +1366,7 @@ export function useFootprint() {
     let cancelled = false;
     recorder
       .rotate({
+        exchange: settings.exchange,
         symbol: settings.symbol,
         timeframe: settings.timeframe,
         priceStep: settings.priceStep,
@@ -1161,6 +1376,7 @@ export function useFootprint() {
           return;
         }
         recorderContextRef.current = {
+          exchange: dataset.exchange ?? settings.exchange,
           symbol: dataset.symbol,
           timeframe: dataset.timeframe,
           priceStep: dataset.priceStep,
@@ -1177,6 +1393,7 @@ export function useFootprint() {
     };
   }, [
     mode,
+    settings.exchange,
     settings.symbol,
     settings.timeframe,
     settings.priceStep,
@@ -1244,6 +1461,7 @@ export function useFootprint() {
         setSignals(nextSignals);
         setSignalStats(normalizeSignalStats(message.state.signalStats));
         setDepth(message.state.depth ?? null);
+        setStrategyLevels(message.state.strategyLevels ?? []);
         setLastError(null);
         const engine = tradingEngineRef.current;
         if (engine) {
@@ -1261,8 +1479,10 @@ export function useFootprint() {
       type: "init",
       settings: {
         timeframe: settings.timeframe,
+        timeframes: DEFAULT_CONTEXT_TIMEFRAMES,
         priceStep: settings.priceStep,
         maxBars: settings.maxBars,
+        depthSequence: getMarketDataAdapter(settings.exchange).depthSequence.id,
       },
     });
     worker.postMessage({
@@ -1305,7 +1525,9 @@ export function useFootprint() {
 
     let storedSettings: Partial<TradingSettings> | undefined;
     try {
-      const raw = window.localStorage.getItem(TRADING_SETTINGS_STORAGE_KEY);
+      const raw = window.localStorage.getItem(
+        scopeStorageKey(TRADING_SETTINGS_STORAGE_KEY, storageScopeRef.current),
+      );
       if (raw) {
         const parsed = JSON.parse(raw) as Partial<TradingSettings>;
         if (parsed && typeof parsed === "object") {
@@ -1319,7 +1541,7 @@ export function useFootprint() {
     let storedHistory: TradingState["history"] | undefined;
     try {
       const rawHistory = window.localStorage.getItem(
-        TRADING_HISTORY_STORAGE_KEY,
+        scopeStorageKey(TRADING_HISTORY_STORAGE_KEY, storageScopeRef.current),
       );
       if (rawHistory) {
         const parsed = JSON.parse(rawHistory);
@@ -1331,11 +1553,34 @@ export function useFootprint() {
       console.warn("Failed to restore trading history", error);
     }
 
+    const sharedAccount = sharedAccountRef.current;
+    let storedAccount: TradingAccountSnapshot | undefined;
+    if (!sharedAccount) {
+      try {
+        const rawAccount = window.localStorage.getItem(
+          scopeStorageKey(TRADING_ACCOUNT_STORAGE_KEY, storageScopeRef.current),
+        );
+        if (rawAccount) {
+          const parsed = JSON.parse(rawAccount) as TradingAccountSnapshot;
+          if (parsed && typeof parsed.balance === "number" && Array.isArray(parsed.curve)) {
+            storedAccount = parsed;
+          }
+        }
+      } catch (error) {
+        console.warn("Failed to restore trading account", error);
+      }
+    }
+
+    const portfolio = portfolioRef.current;
+    const symbol = symbolRef.current;
     const engine = new TradingEngine({
       priceStep: DEFAULT_SETTINGS.priceStep,
       timeframeMs: timeframeToMs(DEFAULT_SETTINGS.timeframe),
       settings: storedSettings,
       history: storedHistory,
+      account: storedAccount,
+      portfolio: portfolio ? { manager: portfolio, symbol } : undefined,
+      sharedAccount: sharedAccount ? { account: sharedAccount, symbol } : undefined,
     });
     engine.updateClockOffset(serverTimeOffsetRef.current);
     tradingEngineRef.current = engine;
@@ -1343,6 +1588,8 @@ export function useFootprint() {
 
     return () => {
       tradingEngineRef.current = null;
+      portfolio?.removeSymbol(symbol);
+      sharedAccount?.removeBook(symbol);
     };
   }, []);
 
@@ -1366,6 +1613,21 @@ export function useFootprint() {
     }
   }, [signalControl]);
 
+  useEffect(() => {
+    vwapAnchorsRef.current = vwapAnchors;
+    if (workerReady && workerRef.current) {
+      workerRef.current.postMessage({ type: "vwap-anchors", anchors: vwapAnchors });
+    }
+  }, [vwapAnchors, workerReady]);
+
+  useEffect(() => {
+    tradingEngineRef.current?.updateVwapLevels(vwapSeries.flatMap((series) => getVwapLevels(series)));
+  }, [vwapSeries]);
+
+  useEffect(() => {
+    tradingEngineRef.current?.updateKeyLevels(chartKeyLevels);
+  }, [chartKeyLevels]);
+
   useEffect(() => {
     const engine = tradingEngineRef.current;
     if (!engine) {
@@ -1374,8 +1636,16 @@ export function useFootprint() {
     engine.updateMarketContext({
       priceStep: settings.priceStep,
       timeframeMs: timeframeToMs(settings.timeframe),
+      depthSequence: getMarketDataAdapter(settings.exchange).depthSequence,
     });
-  }, [settings.priceStep, settings.timeframe]);
+  }, [settings.priceStep, settings.timeframe, settings.exchange]);
+
+  useEffect(() => {
+    tradingEngineRef.current?.updateMarketContext({
+      stepSize: marketConfig.stepSize,
+      minNotional: marketConfig.minNotional,
+    });
+  }, [marketConfig]);
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -1405,11 +1675,13 @@ export function useFootprint() {
 
   useEffect(() => {
     let cancelled = false;
+    const adapter = getMarketDataAdapter(settings.exchange);
     symbolRef.current = settings.symbol;
+    adapterRef.current = adapter;
 
     (async () => {
       try {
-        const config = await fetchSymbolMarketConfig(settings.symbol);
+        const config = await adapter.fetchSymbolMarketConfig(settings.symbol);
         if (cancelled) {
           return;
         }
@@ -1432,7 +1704,43 @@ export function useFootprint() {
     return () => {
       cancelled = true;
     };
-  }, [settings.symbol]);
+  }, [settings.exchange, settings.symbol]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return undefined;
+    }
+    let cancelled = false;
+    const adapter = getMarketDataAdapter(settings.exchange);
+    const symbol = settings.symbol;
+
+    const loadFundingRates = async () => {
+      try {
+        const rates = await adapter.fetchFundingRates({
+          symbol,
+          startTime: liveClockRef.current() - FUNDING_LOOKBACK_MS,
+        });
+        if (cancelled) {
+          return;
+        }
+        // A replay swaps the live engine out; its series stays with the live one.
+        (liveEngineRef.current ?? tradingEngineRef.current)?.updateFundingRates(rates);
+      } catch (error) {
+        console.warn("Failed to load funding rates", error);
+      }
+    };
+
+    (liveEngineRef.current ?? tradingEngineRef.current)?.updateFundingRates([]);
+    void loadFundingRates();
+    const interval = window.setInterval(() => {
+      void loadFundingRates();
+    }, FUNDING_REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [settings.exchange, settings.symbol]);
 
   useEffect(() => {
     resetTradeIdCache(tradeIdCacheRef.current);
@@ -1453,7 +1761,7 @@ export function useFootprint() {
       gapTo: null,
       gapTradeCount: 0,
     }));
-  }, [settings.symbol]);
+  }, [settings.exchange, settings.symbol]);
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -1463,7 +1771,7 @@ export function useFootprint() {
       return () => {};
     }
 
-    const stream = new BinanceAggTradeStream(settings.symbol, {
+    const stream = new MarketTradeStream(getMarketDataAdapter(settings.exchange), settings.symbol, {
       handlers: {
         onTrade: processIncomingTrade,
         onStatusChange: handleStatusChange,
@@ -1487,6 +1795,7 @@ export function useFootprint() {
     };
   }, [
     mode,
+    settings.exchange,
     settings.symbol,
     processIncomingTrade,
     handleStatusChange,
@@ -1510,18 +1819,28 @@ export function useFootprint() {
       return () => {};
     }
 
-    const stream = new BinanceDepthStream(
+    const stream = new MarketDepthStream(
+      getMarketDataAdapter(settings.exchange),
       settings.symbol,
       {
         onMessage: (message) => {
+          if (modeRef.current === "live" && recorderRef.current) {
+            recorderRef.current.recordDepth(message).catch((error) => {
+              console.warn("Failed to record depth update", error);
+            });
+          }
+          const engine = tradingEngineRef.current;
+          if (engine?.handleDepth(message)) {
+            setTradingState(engine.getState());
+          }
           if (!workerReadyRef.current || !workerRef.current) {
             return;
           }
           depthBufferRef.current.push(message);
-          if (message.type === "snapshot" || depthBufferRef.current.length >= 6) {
+          if (message.type === "snapshot" || depthBufferRef.current.length >= DEPTH_BATCH_SIZE) {
             flushDepthUpdates(true);
           } else if (depthFlushTimerRef.current === null) {
-            depthFlushTimerRef.current = window.setTimeout(() => flushDepthUpdates(true), 80);
+            depthFlushTimerRef.current = window.setTimeout(() => flushDepthUpdates(true), DEPTH_FLUSH_INTERVAL);
           }
         },
         onStatusChange: (status, meta) => {
@@ -1553,7 +1872,7 @@ export function useFootprint() {
       depthBufferRef.current = [];
       depthStreamRef.current = null;
     };
-  }, [mode, settings.symbol, flushDepthUpdates]);
+  }, [mode, settings.exchange, settings.symbol, flushDepthUpdates]);
 
   useEffect(() => {
     if (!workerReadyRef.current || !workerRef.current) {
@@ -1565,6 +1884,43 @@ export function useFootprint() {
     setBars([]);
   }, [settings.symbol]);
 
+  // Anchors are kept per symbol.
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    let stored: VwapAnchor[] = [];
+    try {
+      const raw = window.localStorage.getItem(scopeStorageKey(VWAP_ANCHORS_STORAGE_KEY, settings.symbol));
+      if (raw) {
+        const parsed = JSON.parse(raw);
+        if (Array.isArray(parsed)) {
+          stored = parsed as VwapAnchor[];
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to restore VWAP anchors", error);
+    }
+    setVwapAnchors(stored);
+  }, [settings.symbol]);
+
+  // Each venue numbers its book updates differently; the worker mirrors the
+  // book with the matching gap rules and starts over with the new tape.
+  useEffect(() => {
+    if (!workerReadyRef.current || !workerRef.current) {
+      return;
+    }
+
+    workerRef.current.postMessage({
+      type: "settings",
+      settings: { depthSequence: getMarketDataAdapter(settings.exchange).depthSequence.id },
+      reset: true,
+    });
+    tradeBufferRef.current = [];
+    setBars([]);
+  }, [settings.exchange]);
+
   useEffect(() => {
     if (!workerReadyRef.current || !workerRef.current) {
       return;
@@ -1573,7 +1929,6 @@ export function useFootprint() {
     workerRef.current.postMessage({
       type: "settings",
       settings: {
-        timeframe: settings.timeframe,
         priceStep: settings.priceStep,
         maxBars: settings.maxBars,
       },
@@ -1582,7 +1937,21 @@ export function useFootprint() {
 
     tradeBufferRef.current = [];
     setBars([]);
-  }, [settings.timeframe, settings.priceStep, settings.maxBars]);
+  }, [settings.priceStep, settings.maxBars]);
+
+  useEffect(() => {
+    timeframeRef.current = settings.timeframe;
+    if (!workerReadyRef.current || !workerRef.current) {
+      return;
+    }
+    // Every maintained timeframe is fed from the same stream, so switching
+    // keeps bars and only changes which aggregator the worker reports.
+    flushTrades(true);
+    workerRef.current.postMessage({
+      type: "timeframe",
+      timeframe: settings.timeframe,
+    });
+  }, [settings.timeframe, flushTrades]);
 
   useEffect(() => {
     return () => {
@@ -1616,7 +1985,7 @@ export function useFootprint() {
     const snapshot = engine.getPersistenceSnapshot();
     try {
       window.localStorage.setItem(
-        TRADING_SETTINGS_STORAGE_KEY,
+        scopeStorageKey(TRADING_SETTINGS_STORAGE_KEY, storageScopeRef.current),
         JSON.stringify(snapshot.settings),
       );
     } catch (error) {
@@ -1624,12 +1993,23 @@ export function useFootprint() {
     }
     try {
       window.localStorage.setItem(
-        TRADING_HISTORY_STORAGE_KEY,
+        scopeStorageKey(TRADING_HISTORY_STORAGE_KEY, storageScopeRef.current),
         JSON.stringify(snapshot.history),
       );
     } catch (error) {
       console.warn("Failed to persist trading history", error);
     }
+    if (sharedAccountRef.current) {
+      return;
+    }
+    try {
+      window.localStorage.setItem(
+        scopeStorageKey(TRADING_ACCOUNT_STORAGE_KEY, storageScopeRef.current),
+        JSON.stringify(snapshot.account),
+      );
+    } catch (error) {
+      console.warn("Failed to persist trading account", error);
+    }
   }, [tradingState.version]);
 
   const updateSettings = useCallback((partial: Partial<Settings>) => {
@@ -1643,6 +2023,13 @@ export function useFootprint() {
     [updateSettings],
   );
 
+  const setExchange = useCallback(
+    (exchange: ExchangeId) => {
+      updateSettings({ exchange });
+    },
+    [updateSettings],
+  );
+
   const setPriceStep = useCallback((priceStep: number) => {
     setSettings((prev) => {
       const normalized = normalizePriceStep(priceStep, marketConfigRef.current);
@@ -1674,6 +2061,86 @@ export function useFootprint() {
     }));
   }, []);
 
+  const toggleVolumeProfile = useCallback(() => {
+    setSettings((prev) => ({
+      ...prev,
+      showVolumeProfile: !prev.showVolumeProfile,
+    }));
+  }, []);
+
+  const setProfileScope = useCallback(
+    (profileScope: VolumeProfileScope) => {
+      updateSettings({ profileScope });
+    },
+    [updateSettings],
+  );
+
+  const toggleVwapBands = useCallback(() => {
+    setSettings((prev) => ({
+      ...prev,
+      showVwapBands: !prev.showVwapBands,
+    }));
+  }, []);
+
+  const toggleMarketStructure = useCallback(() => {
+    setSettings((prev) => ({
+      ...prev,
+      showMarketStructure: !prev.showMarketStructure,
+    }));
+  }, []);
+
+  const updateVwapAnchors = useCallback((update: (anchors: VwapAnchor[]) => VwapAnchor[]) => {
+    const next = update(vwapAnchorsRef.current).slice(-MAX_VWAP_ANCHORS);
+    vwapAnchorsRef.current = next;
+    setVwapAnchors(next);
+    if (typeof window !== "undefined") {
+      try {
+        window.localStorage.setItem(
+          scopeStorageKey(VWAP_ANCHORS_STORAGE_KEY, symbolRef.current),
+          JSON.stringify(next),
+        );
+      } catch (error) {
+        console.warn("Failed to persist VWAP anchors", error);
+      }
+    }
+  }, []);
+
+  const anchorVwapAtBar = useCallback(
+    (barTime: number) => {
+      const id = `bar-${barTime}`;
+      updateVwapAnchors((anchors) =>
+        anchors.some((anchor) => anchor.id === id)
+          ? anchors
+          : [...anchors, { id, kind: "bar", time: barTime, label: `AVWAP ${formatAnchorTime(barTime)}` }],
+      );
+    },
+    [updateVwapAnchors],
+  );
+
+  const anchorVwapAtSignal = useCallback(
+    (signalId: string) => {
+      const signal = signals.find((item) => item.id === signalId);
+      if (!signal) {
+        return;
+      }
+      const id = `signal-${signal.id}`;
+      const label = `AVWAP ${getSignalStrategy(signal.strategy)?.shortLabel ?? signal.strategy} ${formatAnchorTime(signal.barTime)}`;
+      updateVwapAnchors((anchors) =>
+        anchors.some((anchor) => anchor.id === id)
+          ? anchors
+          : [...anchors, { id, kind: "signal", time: signal.barTime, label }],
+      );
+    },
+    [signals, updateVwapAnchors],
+  );
+
+  const removeVwapAnchor = useCallback(
+    (id: string) => {
+      updateVwapAnchors((anchors) => anchors.filter((anchor) => anchor.id !== id));
+    },
+    [updateVwapAnchors],
+  );
+
   const toggleKeyLevelVisibility = useCallback((key: keyof KeyLevelVisibility) => {
     setSettings((prev) => ({
       ...prev,
@@ -1693,12 +2160,16 @@ export function useFootprint() {
     });
   }, []);
 
+  const setSignalEvaluation = useCallback((evaluation: SignalEvaluationMode) => {
+    setSignalControl((prev) => (prev.evaluation === evaluation ? prev : { ...prev, evaluation }));
+  }, []);
+
   const toggleStrategy = useCallback((strategy: SignalStrategy) => {
     setSignalControl((prev) => ({
       ...prev,
       enabledStrategies: {
         ...prev.enabledStrategies,
-        [strategy]: !prev.enabledStrategies[strategy],
+        [strategy]: !(prev.enabledStrategies[strategy] ?? getSignalStrategy(strategy)?.defaultEnabled ?? false),
       },
     }));
   }, []);
@@ -1791,6 +2262,14 @@ export function useFootprint() {
     setTradingState(engine.getState());
   }, []);
 
+  const resetTradingAccount = useCallback(() => {
+    const engine = tradingEngineRef.current;
+    if (!engine || !engine.resetAccount()) {
+      return;
+    }
+    setTradingState(engine.getState());
+  }, []);
+
   const exportTradingHistory = useCallback(
     (format: "json" | "csv" = "json") => {
       const engine = tradingEngineRef.current;
@@ -1848,13 +2327,33 @@ export function useFootprint() {
         liveEngineRef.current = tradingEngineRef.current;
 
         const baseSettings = tradingEngineRef.current?.getSettings();
+        // Day resets, cooldowns and guardrails follow the tape, not the wall clock.
+        const replayClock = new TapeClock(dataset.startTime ?? 0);
         const replayEngine = new TradingEngine({
           priceStep: dataset.priceStep,
           timeframeMs: timeframeToMs(dataset.timeframe),
           settings: baseSettings,
+          clock: replayClock.now,
+          depthSequence: getMarketDataAdapter(dataset.exchange).depthSequence,
         });
         tradingEngineRef.current = replayEngine;
         setTradingState(replayEngine.getState());
+        if (dataset.startTime !== null && dataset.endTime !== null) {
+          const { startTime, endTime } = dataset;
+          // Best effort: an offline replay simply accrues no funding.
+          void (async () => {
+            try {
+              const rates = await getMarketDataAdapter(dataset.exchange).fetchFundingRates({
+                symbol: dataset.symbol,
+                startTime: startTime - FUNDING_INTERVAL_MS,
+                endTime,
+              });
+              replayEngine.updateFundingRates(rates);
+            } catch (error) {
+              console.warn("Failed to load replay funding rates", error);
+            }
+          })();
+        }
 
         setSettings((prev) => ({
           ...prev,
@@ -1863,6 +2362,11 @@ export function useFootprint() {
           priceStep: dataset.priceStep,
         }));
 
+        // The tape may come from another venue than the live feed.
+        workerRef.current?.postMessage({
+          type: "settings",
+          settings: { depthSequence: getMarketDataAdapter(dataset.exchange).depthSequence.id },
+        });
         workerRef.current?.postMessage({ type: "clear" });
         tradeBufferRef.current = [];
         setBars([]);
@@ -1880,7 +2384,14 @@ export function useFootprint() {
 
         await replayer.start(datasetId, {
           speed,
-          onTrade: processIncomingTrade,
+          onTrade: (trade) => {
+            replayClock.advance(trade.timestamp);
+            processIncomingTrade(trade);
+          },
+          onDepth: (message) => {
+            replayClock.advance(getDepthMessageTimestamp(message));
+            pushReplayDepth(message);
+          },
           onProgress: (progress) => {
             setReplayState((prev) => ({
               ...prev,
@@ -1960,7 +2471,7 @@ export function useFootprint() {
         return false;
       }
     },
-    [settings, processIncomingTrade],
+    [settings, processIncomingTrade, pushReplayDepth],
   );
 
   const stopReplay = useCallback(async () => {
@@ -2002,6 +2513,10 @@ export function useFootprint() {
       setTradingState(fallback.getState());
     }
 
+    workerRef.current?.postMessage({
+      type: "settings",
+      settings: { depthSequence: adapterRef.current.depthSequence.id },
+    });
     workerRef.current?.postMessage({ type: "clear" });
     tradeBufferRef.current = [];
     setBars([]);
@@ -2035,17 +2550,30 @@ export function useFootprint() {
     signalControl,
     settings,
     chartKeyLevels,
+    volumeProfile,
+    vwapSeries,
+    vwapAnchors,
+    marketStructure,
     keyLevelState,
     keyLevelSummaries,
     statusNotices,
     updateSettings,
     setTimeframe,
+    setExchange,
     setPriceStep,
     toggleCumulativeDelta,
     toggleGrid,
     togglePriceAxis,
+    toggleVolumeProfile,
+    setProfileScope,
+    toggleVwapBands,
+    toggleMarketStructure,
+    anchorVwapAtBar,
+    anchorVwapAtSignal,
+    removeVwapAnchor,
     toggleKeyLevelVisibility,
     setSignalMode,
+    setSignalEvaluation,
     toggleStrategy,
     updateSignalOverrides,
     connectionStatus,
@@ -2060,6 +2588,7 @@ export function useFootprint() {
     flattenPosition,
     applyInvalidationAction,
     resetTradingDay,
+    resetTradingAccount,
     exportTradingHistory,
     connectionDiagnostics,
     serverTimeOffsetMs,
@@ -1,23 +1,34 @@
-import { DepthAnalytics } from "@/lib/depth";
+import { DepthAnalytics, getDepthSequencePolicy } from "@/lib/depth";
 import { MODE_PRESETS, SignalEngine, createDefaultSignalControlState } from "@/lib/signals";
 import type {
+  BarSpec,
+  BarType,
   DepthBarMetrics,
   DepthState,
   DepthStreamMessage,
   FootprintBar,
   FootprintSignal,
   FootprintState,
+  HigherTimeframeContext,
   HistoricalFootprintBarSeed,
   LevelBin,
   SignalControlState,
   SignalStats,
+  StrategyKeyLevel,
+  TimeBarTimeframe,
+  Timeframe,
   Trade,
+  VwapAnchor,
 } from "@/types";
 
 export interface AggregatorSettings {
   timeframeMs: number;
   priceStep: number;
   maxBars: number;
+  // Defaults to time bars of timeframeMs.
+  barSpec?: BarSpec;
+  // Id of the venue's depth sequence policy; contiguous ids when unset.
+  depthSequence?: string;
 }
 
 interface InternalLevel {
@@ -39,19 +50,47 @@ interface InternalBar {
   lowPrice: number;
   openPrice: number | null;
   closePrice: number | null;
+  tradeCount: number;
   skeleton: boolean;
   depth?: DepthBarMetrics | null;
 }
 
-export function timeframeToMs(timeframe: string): number {
-  switch (timeframe) {
-    case "1m":
-      return 60_000;
-    case "5m":
-      return 5 * 60_000;
-    default:
-      throw new Error(`Unsupported timeframe: ${timeframe}`);
+const TIME_BAR_MS: Record<TimeBarTimeframe, number> = {
+  "15s": 15_000,
+  "30s": 30_000,
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "30m": 30 * 60_000,
+  "1h": 60 * 60_000,
+};
+
+const ACTIVITY_BAR_SUFFIXES: Record<string, BarType> = {
+  t: "tick",
+  v: "volume",
+  r: "range",
+};
+
+// Tick, volume and range bars have no fixed length. The nominal duration only
+// feeds time-based estimates such as time stops and bars-per-day fallbacks.
+const ACTIVITY_BAR_NOMINAL_MS = 60_000;
+
+export function parseTimeframe(timeframe: string): BarSpec {
+  if (Object.prototype.hasOwnProperty.call(TIME_BAR_MS, timeframe)) {
+    return { type: "time", size: TIME_BAR_MS[timeframe as TimeBarTimeframe] };
+  }
+  const match = /^(\d+(?:\.\d+)?)([tvr])$/.exec(timeframe);
+  const size = match ? Number(match[1]) : Number.NaN;
+  if (!match || !Number.isFinite(size) || size <= 0) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
   }
+  const type = ACTIVITY_BAR_SUFFIXES[match[2]];
+  return { type, size: type === "volume" ? size : Math.max(1, Math.floor(size)) };
+}
+
+export function timeframeToMs(timeframe: string): number {
+  const spec = parseTimeframe(timeframe);
+  return spec.type === "time" ? spec.size : ACTIVITY_BAR_NOMINAL_MS;
 }
 
 export function precisionFromStep(step: number): number {
@@ -67,6 +106,8 @@ export function precisionFromStep(step: number): number {
 
 const EPSILON = 1e-9;
 const MAX_TRACKED_TRADE_IDS = 50_000;
+const CONTEXT_TREND_BARS = 4;
+const CONTEXT_TREND_THRESHOLD = 0.08;
 
 function createInitialSignalStats(): SignalStats {
   return {
@@ -97,10 +138,17 @@ export class FootprintAggregator {
 
   private barMap = new Map<number, InternalBar>();
 
+  private barSpec: BarSpec;
+
+  // Bar currently being filled when bars are not time buckets.
+  private activeBar: InternalBar | null = null;
+
   private signals: FootprintSignal[] = [];
 
   private signalStats: SignalStats = createInitialSignalStats();
 
+  private strategyLevels: StrategyKeyLevel[] = [];
+
   private signalEngine: SignalEngine;
 
   private signalConfig: SignalControlState = createDefaultSignalControlState();
@@ -109,6 +157,10 @@ export class FootprintAggregator {
 
   private depthState: DepthState | null = null;
 
+  private higherTimeframe: HigherTimeframeContext | null = null;
+
+  private lastTradeTime = 0;
+
   private seenTradeIds = new Set<number>();
 
   private tradeIdQueue: number[] = [];
@@ -118,32 +170,43 @@ export class FootprintAggregator {
   constructor(settings: AggregatorSettings) {
     this.settings = { ...settings };
     this.precision = precisionFromStep(settings.priceStep);
+    this.barSpec = resolveBarSpec(settings);
     this.signalEngine = new SignalEngine({
       priceStep: settings.priceStep,
       timeframeMs: settings.timeframeMs,
+      barSpec: this.barSpec,
       config: this.signalConfig,
     });
     this.depthAnalytics = new DepthAnalytics({
       timeframeMs: settings.timeframeMs,
       priceStep: settings.priceStep,
+      barStartResolver: this.createBarStartResolver(),
+      sequence: getDepthSequencePolicy(settings.depthSequence),
     });
     this.applyDepthOverrides(this.signalConfig);
   }
 
   updateSettings(partial: Partial<AggregatorSettings>, options?: { reset?: boolean }) {
     const nextSettings = { ...this.settings, ...partial } as AggregatorSettings;
+    const previousSpec = this.barSpec;
     this.settings = nextSettings;
     this.precision = precisionFromStep(nextSettings.priceStep);
+    this.barSpec = resolveBarSpec(nextSettings);
     this.signalEngine.updateSettings({
       priceStep: nextSettings.priceStep,
       timeframeMs: nextSettings.timeframeMs,
+      barSpec: this.barSpec,
     });
     this.depthAnalytics.updateSettings({
       timeframeMs: nextSettings.timeframeMs,
       priceStep: nextSettings.priceStep,
+      barStartResolver: this.createBarStartResolver(),
+      sequence: getDepthSequencePolicy(nextSettings.depthSequence),
     });
 
-    if (options?.reset) {
+    // Existing bars cannot be re-bucketed into a different bar type.
+    const barSpecChanged = previousSpec.type !== this.barSpec.type || previousSpec.size !== this.barSpec.size;
+    if (options?.reset || barSpecChanged) {
       this.reset();
     } else {
       this.signalEngine.reset();
@@ -154,6 +217,7 @@ export class FootprintAggregator {
   updateSignalConfig(partial: Partial<SignalControlState>) {
     this.signalConfig = {
       mode: partial.mode ?? this.signalConfig.mode,
+      evaluation: partial.evaluation ?? this.signalConfig.evaluation,
       enabledStrategies: {
         ...this.signalConfig.enabledStrategies,
         ...(partial.enabledStrategies ?? {}),
@@ -162,6 +226,10 @@ export class FootprintAggregator {
         ...this.signalConfig.overrides,
         ...(partial.overrides ?? {}),
       },
+      strategyParams: {
+        ...this.signalConfig.strategyParams,
+        ...(partial.strategyParams ?? {}),
+      },
     };
     this.signalEngine.reset();
     this.signalEngine.updateConfig(this.signalConfig);
@@ -169,44 +237,56 @@ export class FootprintAggregator {
     this.recomputeSignals();
   }
 
+  setVwapAnchors(anchors: VwapAnchor[]) {
+    this.signalEngine.setVwapAnchors(anchors);
+    this.signalEngine.reset();
+    this.recomputeSignals();
+  }
+
   reset() {
     this.bars = [];
     this.barMap.clear();
+    this.activeBar = null;
     this.signals = [];
     this.signalStats = createInitialSignalStats();
+    this.strategyLevels = [];
     this.signalEngine.reset();
     this.depthAnalytics.reset();
     this.depthState = null;
+    this.higherTimeframe = null;
+    this.lastTradeTime = 0;
+    this.signalEngine.pushHigherTimeframeContext(null);
     this.seenTradeIds.clear();
     this.tradeIdQueue = [];
     this.tradeIdQueueStart = 0;
   }
 
   ingestTrades(trades: Trade[]): FootprintState {
-    if (!trades.length) {
-      const bars = this.recomputeSignals();
-      this.depthState = this.depthAnalytics.getDepthState();
-      return this.buildState(bars);
-    }
-
-    for (const trade of trades) {
-      this.processTrade(trade);
-    }
-
-    this.prune();
-
+    this.appendTrades(trades);
     const bars = this.recomputeSignals();
     this.depthState = this.depthAnalytics.getDepthState();
     return this.buildState(bars);
   }
 
   ingestDepth(messages: DepthStreamMessage[]): FootprintState {
-    if (!messages.length) {
-      const bars = this.recomputeSignals();
-      this.depthState = this.depthAnalytics.getDepthState();
-      return this.buildState(bars);
+    this.appendDepth(messages);
+    this.depthState = this.depthAnalytics.getDepthState();
+    const bars = this.recomputeSignals();
+    return this.buildState(bars);
+  }
+
+  // Aggregates without evaluating signals, for timeframes that are not on screen.
+  appendTrades(trades: Trade[]) {
+    if (!trades.length) {
+      return;
+    }
+    for (const trade of trades) {
+      this.processTrade(trade);
     }
+    this.prune();
+  }
 
+  appendDepth(messages: DepthStreamMessage[]) {
     for (const message of messages) {
       try {
         if (message.type === "snapshot") {
@@ -220,10 +300,42 @@ export class FootprintAggregator {
         this.depthAnalytics.reset();
       }
     }
+  }
 
+  // Starts from another aggregator's book instead of waiting for a snapshot.
+  copyBookFrom(source: FootprintAggregator) {
+    this.depthAnalytics.copyBookFrom(source.depthAnalytics);
     this.depthState = this.depthAnalytics.getDepthState();
-    const bars = this.recomputeSignals();
-    return this.buildState(bars);
+  }
+
+  pushHigherTimeframeContext(context: HigherTimeframeContext | null) {
+    this.higherTimeframe = context ? { ...context } : null;
+    this.signalEngine.pushHigherTimeframeContext(context);
+  }
+
+  // Summary of this aggregator's bars when it serves as higher-timeframe context.
+  getTimeframeContext(timeframe: Timeframe): HigherTimeframeContext | null {
+    const bars = this.bars.filter((bar) => !bar.skeleton && bar.totalVolume > 0);
+    const current = bars[bars.length - 1];
+    if (!current) {
+      return null;
+    }
+    const previous = bars[bars.length - 2] ?? null;
+    const recent = bars.slice(-CONTEXT_TREND_BARS);
+    const netDelta = recent.reduce((sum, bar) => sum + bar.totalDelta, 0);
+    const volume = recent.reduce((sum, bar) => sum + bar.totalVolume, 0);
+    const deltaRatio = volume > 0 ? netDelta / volume : 0;
+
+    return {
+      timeframe,
+      asOf: this.lastTradeTime,
+      barStart: current.startTime,
+      pocPrice: previous?.pocPrice ?? current.pocPrice,
+      developingPocPrice: current.pocPrice,
+      deltaTrend:
+        deltaRatio > CONTEXT_TREND_THRESHOLD ? "up" : deltaRatio < -CONTEXT_TREND_THRESHOLD ? "down" : "flat",
+      deltaRatio: Number(deltaRatio.toFixed(4)),
+    };
   }
 
   getState(): FootprintState {
@@ -237,8 +349,9 @@ export class FootprintAggregator {
       return;
     }
 
+    // Kline seeds only line up with time bars.
     const timeframeMs = this.settings.timeframeMs;
-    if (!Number.isFinite(timeframeMs) || timeframeMs <= 0) {
+    if (this.barSpec.type !== "time" || !Number.isFinite(timeframeMs) || timeframeMs <= 0) {
       return;
     }
 
@@ -367,8 +480,11 @@ export class FootprintAggregator {
         estimatePerDay: this.signalStats.estimatePerDay,
         lastReset: this.signalStats.lastReset,
         sessionCount: { ...this.signalStats.sessionCount },
+        repaint: this.signalStats.repaint ? { ...this.signalStats.repaint } : undefined,
       },
       depth: this.depthState,
+      higherTimeframe: this.higherTimeframe,
+      strategyLevels: [...this.strategyLevels],
     };
   }
 
@@ -453,9 +569,10 @@ export class FootprintAggregator {
 
   private recomputeSignals(): FootprintBar[] {
     const bars = this.serializeBars();
-    const { signals, stats } = this.signalEngine.process(bars);
+    const { signals, stats, levels } = this.signalEngine.process(bars, { now: this.lastTradeTime || undefined });
     this.signals = signals;
     this.signalStats = stats;
+    this.strategyLevels = levels;
     return bars;
   }
 
@@ -465,12 +582,12 @@ export class FootprintAggregator {
     }
     this.depthAnalytics.ingestTrade(trade);
 
-    const { timeframeMs, priceStep } = this.settings;
+    const { priceStep } = this.settings;
 
-    const barStart = Math.floor(trade.timestamp / timeframeMs) * timeframeMs;
-    const barEnd = barStart + timeframeMs;
-    const bar = this.getOrCreateBar(barStart, barEnd);
+    const bar = this.resolveTradeBar(trade);
     bar.skeleton = false;
+    this.lastTradeTime = Math.max(this.lastTradeTime, trade.timestamp);
+    bar.tradeCount += 1;
 
     if (bar.openPrice === null) {
       bar.openPrice = trade.price;
@@ -513,6 +630,60 @@ export class FootprintAggregator {
     }
   }
 
+  private resolveTradeBar(trade: Trade): InternalBar {
+    if (this.barSpec.type === "time") {
+      const timeframeMs = this.barSpec.size;
+      const barStart = Math.floor(trade.timestamp / timeframeMs) * timeframeMs;
+      return this.getOrCreateBar(barStart, barStart + timeframeMs);
+    }
+
+    let bar = this.activeBar;
+    if (!bar || !this.barMap.has(bar.startTime) || this.isActivityBarComplete(bar, trade)) {
+      // Bars are keyed by start time, so bars opened within the same
+      // millisecond are nudged forward to keep keys unique.
+      const last = this.bars[this.bars.length - 1];
+      const startTime = last ? Math.max(trade.timestamp, last.startTime + 1) : trade.timestamp;
+      bar = this.getOrCreateBar(startTime, startTime);
+      this.activeBar = bar;
+    }
+    bar.endTime = Math.max(bar.endTime, trade.timestamp);
+    return bar;
+  }
+
+  private isActivityBarComplete(bar: InternalBar, trade: Trade): boolean {
+    switch (this.barSpec.type) {
+      case "tick":
+        return bar.tradeCount >= this.barSpec.size;
+      case "volume":
+        return bar.totalVolume >= this.barSpec.size - EPSILON;
+      case "range": {
+        if (bar.openPrice === null) {
+          return false;
+        }
+        const high = Math.max(bar.highPrice, trade.price);
+        const low = Math.min(bar.lowPrice, trade.price);
+        return high - low > this.barSpec.size * this.settings.priceStep + EPSILON;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private createBarStartResolver(): ((time: number) => number) | null {
+    if (this.barSpec.type === "time") {
+      return null;
+    }
+    // Book events between prints belong to the latest bar opened before them.
+    return (time: number) => {
+      for (let index = this.bars.length - 1; index >= 0; index -= 1) {
+        if (this.bars[index].startTime <= time) {
+          return this.bars[index].startTime;
+        }
+      }
+      return this.bars[0]?.startTime ?? time;
+    };
+  }
+
   private getOrCreateBar(startTime: number, endTime: number): InternalBar {
     const existing = this.barMap.get(startTime);
     if (existing) {
@@ -531,6 +702,7 @@ export class FootprintAggregator {
       lowPrice: Number.POSITIVE_INFINITY,
       openPrice: null,
       closePrice: null,
+      tradeCount: 0,
       skeleton: false,
       depth: null,
     };
@@ -585,3 +757,10 @@ export class FootprintAggregator {
     }
   }
 }
+
+function resolveBarSpec(settings: AggregatorSettings): BarSpec {
+  if (settings.barSpec && Number.isFinite(settings.barSpec.size) && settings.barSpec.size > 0) {
+    return { ...settings.barSpec };
+  }
+  return { type: "time", size: settings.timeframeMs };
+}
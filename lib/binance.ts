@@ -1,29 +1,50 @@
-import type { ConnectionStatus, DepthLevel, DepthSnapshot, SymbolMarketConfig, Trade } from "@/types";
-
-const STREAM_BASE = "wss://fstream.binance.com/stream?streams=";
-const REST_BASE = "https://fapi.binance.com/fapi/v1";
-const MAX_BACKOFF = 30_000;
+import type {
+  FetchAggTradesParams,
+  FetchFundingRatesParams,
+  FetchKlinesParams,
+  Kline,
+  KlineInterval,
+  WSHandlers,
+} from "@/lib/exchanges/types";
+import {
+  DepthSnapshotError,
+  ensureFetch,
+  fetchDepthSnapshotResponse,
+  isRecord,
+  mapDepthEntries,
+  safeNumber,
+  sanitizeStep,
+} from "@/lib/exchanges/http";
+import type { DepthDiff, DepthSnapshot, DepthStreamMessage, FundingRate, SymbolMarketConfig, Trade } from "@/types";
+
+export { DepthSnapshotError };
+
+export type {
+  FetchAggTradesParams,
+  FetchFundingRatesParams,
+  FetchKlinesParams,
+  Kline,
+  KlineInterval,
+  StreamStatusMeta,
+  WSHandlers,
+} from "@/lib/exchanges/types";
+
+// Overridable so the app can target the local mock exchange. Next inlines
+// NEXT_PUBLIC_ variables only when they are referenced literally.
+export const BINANCE_FUTURES_STREAM =
+  process.env.NEXT_PUBLIC_BINANCE_FUTURES_STREAM || "wss://fstream.binance.com/stream?streams=";
+export const BINANCE_FUTURES_REST = process.env.NEXT_PUBLIC_BINANCE_FUTURES_REST || "https://fapi.binance.com/fapi/v1";
+export const BINANCE_SPOT_STREAM =
+  process.env.NEXT_PUBLIC_BINANCE_SPOT_STREAM || "wss://stream.binance.com:9443/stream?streams=";
+export const BINANCE_SPOT_REST = process.env.NEXT_PUBLIC_BINANCE_SPOT_REST || "https://api.binance.com/api/v3";
 const MAX_AGG_TRADE_LIMIT = 1000;
+const MAX_FUNDING_LIMIT = 1000;
 
-export type KlineInterval = "1m" | "3m" | "5m" | "15m" | "30m" | "1h" | "4h" | "1d";
-
-export interface FetchKlinesParams {
-  symbol: string;
-  interval: KlineInterval | string;
-  limit?: number;
-  startTime?: number;
-  endTime?: number;
-}
+const KLINE_INTERVALS: KlineInterval[] = ["1m", "3m", "5m", "15m", "30m", "1h", "4h", "1d"];
 
-export interface Kline {
-  openTime: number;
-  closeTime: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-  trades: number;
+// Sub-minute and non-time bars have no kline equivalent to seed from.
+export function toKlineInterval(timeframe: string): KlineInterval | null {
+  return KLINE_INTERVALS.includes(timeframe as KlineInterval) ? (timeframe as KlineInterval) : null;
 }
 
 export const ALLOWED_DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000] as const;
@@ -50,205 +71,6 @@ export function clampDepthLimit(limit?: number | null): AllowedDepthLimit {
   return best;
 }
 
-export interface StreamStatusMeta {
-  attempts?: number;
-  nextRetryMs?: number;
-  scope?: "ws" | "snapshot";
-  level?: "success" | "info" | "warning" | "error";
-  message?: string;
-  statusCode?: number;
-}
-
-export interface WSHandlers {
-  onTrade?: (trade: Trade) => void;
-  onDepth?: (payload: unknown) => void;
-  onStatusChange?: (status: ConnectionStatus, meta?: StreamStatusMeta) => void;
-  onError?: (error: unknown) => void;
-  onOpen?: () => void;
-  onClose?: (event?: CloseEvent) => void;
-}
-
-interface BinanceAggTradeStreamOptions {
-  handlers?: WSHandlers;
-}
-
-export class BinanceAggTradeStream {
-  private ws: WebSocket | null = null;
-
-  private reconnectAttempts = 0;
-
-  private reconnectTimer: number | null = null;
-
-  private shouldReconnect = true;
-
-  private currentStatus: ConnectionStatus = "connecting";
-
-  private readonly url: string;
-
-  private readonly handlers: WSHandlers;
-
-  constructor(symbol: string, options?: BinanceAggTradeStreamOptions) {
-    const opts = options ?? {};
-    this.handlers = opts.handlers ? { ...opts.handlers } : {};
-    const streamKey = `${symbol.toLowerCase()}@aggTrade`;
-    this.url = `${STREAM_BASE}${streamKey}`;
-  }
-
-  connect() {
-    this.clearTimer();
-    this.shouldReconnect = true;
-    this.reconnectAttempts = 0;
-    this.openConnection();
-  }
-
-  disconnect() {
-    this.shouldReconnect = false;
-    this.clearTimer();
-    this.ws?.close();
-    this.ws = null;
-    this.setStatus("disconnected", { attempts: this.reconnectAttempts });
-  }
-
-  private openConnection() {
-    this.clearTimer();
-    const phase: ConnectionStatus = this.reconnectAttempts === 0 ? "connecting" : "reconnecting";
-    this.setStatus(phase, { attempts: this.reconnectAttempts });
-
-    try {
-      this.ws = new WebSocket(this.url);
-    } catch (error) {
-      this.scheduleReconnect();
-      this.emitError(error);
-      return;
-    }
-
-    this.ws.onopen = () => {
-      const attempts = this.reconnectAttempts;
-      this.reconnectAttempts = 0;
-      this.setStatus("connected", { attempts });
-      this.handleOpen();
-    };
-
-    this.ws.onmessage = (event) => {
-      const dispatch = (raw: string) => {
-        this.dispatchMessage(raw);
-      };
-
-      if (typeof event.data === "string") {
-        dispatch(event.data);
-      } else if (event.data instanceof Blob) {
-        event.data
-          .text()
-          .then(dispatch)
-          .catch((error) => {
-            this.emitError(error);
-          });
-      } else {
-        devWarn("[binance] Received unsupported WebSocket message type", event.data);
-      }
-    };
-
-    this.ws.onerror = (event) => {
-      this.setStatus("reconnecting", { attempts: this.reconnectAttempts });
-      const payload = event instanceof ErrorEvent ? event.error ?? event.message : event;
-      this.emitError(payload);
-      this.ws?.close();
-    };
-
-    this.ws.onclose = (event) => {
-      this.handleClose(event);
-      if (this.shouldReconnect) {
-        this.scheduleReconnect();
-      } else {
-        this.setStatus("disconnected", { attempts: this.reconnectAttempts });
-      }
-    };
-  }
-
-  private dispatchMessage(raw: string) {
-    dispatchStreamMessage(raw, this.handlers, (error) => this.emitError(error));
-  }
-
-  private scheduleReconnect() {
-    this.reconnectAttempts += 1;
-    const delay = Math.min(MAX_BACKOFF, 1000 * 2 ** (this.reconnectAttempts - 1));
-    this.clearTimer();
-    this.setStatus("reconnecting", { attempts: this.reconnectAttempts, nextRetryMs: delay });
-    this.reconnectTimer = window.setTimeout(() => this.openConnection(), delay);
-  }
-
-  private clearTimer() {
-    if (this.reconnectTimer !== null) {
-      window.clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
-  }
-
-  private setStatus(status: ConnectionStatus, meta?: StreamStatusMeta) {
-    const unchanged = this.currentStatus === status;
-    this.currentStatus = status;
-
-    if (unchanged && !meta) {
-      return;
-    }
-
-    const payload: StreamStatusMeta | undefined = meta
-      ? { ...meta }
-      : { attempts: this.reconnectAttempts };
-
-    if (payload && payload.attempts === undefined) {
-      payload.attempts = this.reconnectAttempts;
-    }
-
-    const handler = this.handlers.onStatusChange;
-    if (typeof handler === "function") {
-      try {
-        handler(status, payload);
-      } catch (error) {
-        this.emitError(error);
-      }
-    }
-  }
-
-  private handleOpen() {
-    const handler = this.handlers.onOpen;
-    if (typeof handler === "function") {
-      try {
-        handler();
-      } catch (error) {
-        this.emitError(error);
-      }
-    }
-  }
-
-  private handleClose(event?: CloseEvent) {
-    const handler = this.handlers.onClose;
-    if (typeof handler === "function") {
-      try {
-        handler(event);
-      } catch (error) {
-        this.emitError(error);
-      }
-    }
-  }
-
-  private emitError(error: unknown) {
-    const handler = this.handlers.onError;
-    if (typeof handler === "function") {
-      try {
-        handler(error);
-        return;
-      } catch (handlerError) {
-        devWarn("[binance] onError handler threw", handlerError);
-      }
-    }
-
-    if (!isProduction()) {
-      console.error("[binance] Stream error", error);
-    }
-  }
-}
-
 interface AggTradeResponse {
   a?: number | string;
   A?: number | string;
@@ -260,12 +82,26 @@ interface AggTradeResponse {
   m?: boolean;
 }
 
+interface DepthUpdateResponse {
+  U?: number | string;
+  u?: number | string;
+  pu?: number | string;
+  lastUpdateId?: number | string;
+  E?: number | string;
+  T?: number | string;
+  b?: Array<[string, string]>;
+  a?: Array<[string, string]>;
+}
+
 interface ExchangeInfoFilter {
   filterType: string;
   tickSize?: string;
   stepSize?: string;
   minPrice?: string;
   maxPrice?: string;
+  // Futures MIN_NOTIONAL carries `notional`, spot NOTIONAL `minNotional`.
+  notional?: string;
+  minNotional?: string;
 }
 
 interface ExchangeInfoSymbol {
@@ -277,6 +113,11 @@ interface ExchangeInfoResponse {
   symbols?: ExchangeInfoSymbol[];
 }
 
+interface FundingRateResponse {
+  fundingTime?: number | string;
+  fundingRate?: string;
+}
+
 interface DepthSnapshotResponse {
   lastUpdateId?: number | string;
   E?: number | string;
@@ -285,29 +126,9 @@ interface DepthSnapshotResponse {
   asks?: Array<[string, string]>;
 }
 
-export class DepthSnapshotError extends Error {
-  status?: number;
-
-  constructor(status?: number, message?: string) {
-    super(message ?? (status ? `Depth snapshot error ${status}` : "Depth snapshot error"));
-    this.name = "DepthSnapshotError";
-    if (Number.isFinite(status ?? NaN)) {
-      this.status = status ?? undefined;
-    }
-  }
-}
-
-export interface FetchAggTradesParams {
-  symbol: string;
-  startTime?: number;
-  endTime?: number;
-  fromId?: number;
-  limit?: number;
-}
-
-export async function fetchServerTime(): Promise<number> {
+export async function fetchServerTime(restBase: string = BINANCE_FUTURES_REST): Promise<number> {
   ensureFetch();
-  const response = await fetch(`${REST_BASE}/time`);
+  const response = await fetch(`${restBase}/time`);
   if (!response.ok) {
     throw new Error(`Failed to fetch Binance server time: ${response.status}`);
   }
@@ -319,10 +140,13 @@ export async function fetchServerTime(): Promise<number> {
   return serverTime;
 }
 
-export async function fetchAggTrades(params: FetchAggTradesParams): Promise<Trade[]> {
+export async function fetchAggTrades(
+  params: FetchAggTradesParams,
+  restBase: string = BINANCE_FUTURES_REST,
+): Promise<Trade[]> {
   ensureFetch();
   const { symbol, startTime, endTime, fromId, limit = MAX_AGG_TRADE_LIMIT } = params;
-  const url = new URL(`${REST_BASE}/aggTrades`);
+  const url = new URL(`${restBase}/aggTrades`);
   url.searchParams.set("symbol", symbol.toUpperCase());
 
   if (typeof fromId === "number" && Number.isFinite(fromId)) {
@@ -361,10 +185,13 @@ export async function fetchAggTrades(params: FetchAggTradesParams): Promise<Trad
   return trades;
 }
 
-export async function fetchKlines(params: FetchKlinesParams): Promise<Kline[]> {
+export async function fetchKlines(
+  params: FetchKlinesParams,
+  restBase: string = BINANCE_FUTURES_REST,
+): Promise<Kline[]> {
   ensureFetch();
   const { symbol, interval, limit, startTime, endTime } = params;
-  const url = new URL(`${REST_BASE}/klines`);
+  const url = new URL(`${restBase}/klines`);
   url.searchParams.set("symbol", symbol.toUpperCase());
   url.searchParams.set("interval", interval);
 
@@ -437,9 +264,12 @@ export async function fetchKlines(params: FetchKlinesParams): Promise<Kline[]> {
   return klines;
 }
 
-export async function fetchSymbolMarketConfig(symbol: string): Promise<SymbolMarketConfig | null> {
+export async function fetchSymbolMarketConfig(
+  symbol: string,
+  restBase: string = BINANCE_FUTURES_REST,
+): Promise<SymbolMarketConfig | null> {
   ensureFetch();
-  const url = new URL(`${REST_BASE}/exchangeInfo`);
+  const url = new URL(`${restBase}/exchangeInfo`);
   url.searchParams.set("symbol", symbol.toUpperCase());
   const response = await fetch(url.toString());
   if (!response.ok) {
@@ -454,6 +284,9 @@ export async function fetchSymbolMarketConfig(symbol: string): Promise<SymbolMar
 
   const priceFilter = info.filters?.find((filter) => filter.filterType === "PRICE_FILTER");
   const lotSizeFilter = info.filters?.find((filter) => filter.filterType === "LOT_SIZE");
+  const notionalFilter = info.filters?.find(
+    (filter) => filter.filterType === "MIN_NOTIONAL" || filter.filterType === "NOTIONAL",
+  );
 
   const tickSize = sanitizeStep(safeNumber(priceFilter?.tickSize), 0.1);
   const stepSize = sanitizeStep(safeNumber(lotSizeFilter?.stepSize), tickSize);
@@ -468,47 +301,70 @@ export async function fetchSymbolMarketConfig(symbol: string): Promise<SymbolMar
     stepSize,
     minPriceStep,
     maxPriceStep,
+    minNotional: Math.max(0, safeNumber(notionalFilter?.notional ?? notionalFilter?.minNotional) ?? 0),
   };
 }
 
-export async function fetchDepthSnapshot(symbol: string, limit?: number): Promise<DepthSnapshot> {
+// Futures only; spot markets have no funding.
+export async function fetchFundingRates(
+  params: FetchFundingRatesParams,
+  restBase: string = BINANCE_FUTURES_REST,
+): Promise<FundingRate[]> {
   ensureFetch();
-  const url = new URL(`${REST_BASE}/depth`);
-  const depthLimit = clampDepthLimit(limit);
+  const { symbol, startTime, endTime, limit = MAX_FUNDING_LIMIT } = params;
+  const url = new URL(`${restBase}/fundingRate`);
   url.searchParams.set("symbol", symbol.toUpperCase());
-  url.searchParams.set("limit", String(depthLimit));
-
-  let response: Response;
-  try {
-    response = await fetch(url.toString());
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new DepthSnapshotError(undefined, message);
+  url.searchParams.set("limit", String(Math.min(Math.max(Math.floor(limit), 1), MAX_FUNDING_LIMIT)));
+  if (typeof startTime === "number" && Number.isFinite(startTime)) {
+    url.searchParams.set("startTime", String(Math.max(0, Math.floor(startTime))));
+  }
+  if (typeof endTime === "number" && Number.isFinite(endTime)) {
+    url.searchParams.set("endTime", String(Math.max(0, Math.floor(endTime))));
   }
 
+  const response = await fetch(url.toString());
   if (!response.ok) {
-    const status = response.status;
-    throw new DepthSnapshotError(status, `Depth snapshot error ${status}`);
+    throw new Error(`Failed to fetch Binance funding rates: ${response.status}`);
   }
 
+  const payload = (await response.json()) as FundingRateResponse[];
+  if (!Array.isArray(payload)) {
+    return [];
+  }
+
+  const rates: FundingRate[] = [];
+  for (const entry of payload) {
+    const time = safeNumber(entry?.fundingTime);
+    const rate = safeNumber(entry?.fundingRate);
+    if (time !== null && rate !== null) {
+      rates.push({ time: Math.trunc(time), rate });
+    }
+  }
+  rates.sort((a, b) => a.time - b.time);
+  return rates;
+}
+
+export async function fetchDepthSnapshot(
+  symbol: string,
+  limit?: number,
+  restBase: string = BINANCE_FUTURES_REST,
+): Promise<DepthSnapshot> {
+  ensureFetch();
+  const url = new URL(`${restBase}/depth`);
+  const depthLimit = clampDepthLimit(limit);
+  url.searchParams.set("symbol", symbol.toUpperCase());
+  url.searchParams.set("limit", String(depthLimit));
+
+  const response = await fetchDepthSnapshotResponse(url.toString());
+
   const payload = (await response.json()) as DepthSnapshotResponse;
   const lastUpdateId = safeNumber(payload.lastUpdateId);
   if (lastUpdateId === null) {
     throw new Error("Invalid depth snapshot response from Binance");
   }
 
-  const bids = Array.isArray(payload.bids)
-    ? payload.bids
-        .map(mapDepthEntry)
-        .filter((level): level is DepthLevel => level !== null)
-        .slice(0, depthLimit)
-    : [];
-  const asks = Array.isArray(payload.asks)
-    ? payload.asks
-        .map(mapDepthEntry)
-        .filter((level): level is DepthLevel => level !== null)
-        .slice(0, depthLimit)
-    : [];
+  const bids = mapDepthEntries(payload.bids, depthLimit);
+  const asks = mapDepthEntries(payload.asks, depthLimit);
 
   const timestampCandidate = safeNumber(payload.E ?? payload.T);
   const timestamp = Number.isFinite(timestampCandidate) ? (timestampCandidate as number) : Date.now();
@@ -521,18 +377,6 @@ export async function fetchDepthSnapshot(symbol: string, limit?: number): Promis
   };
 }
 
-function mapDepthEntry(entry: [string, string]): DepthLevel | null {
-  if (!Array.isArray(entry) || entry.length < 2) {
-    return null;
-  }
-  const price = safeNumber(entry[0]);
-  const quantity = safeNumber(entry[1]);
-  if (price === null || quantity === null) {
-    return null;
-  }
-  return { price, quantity };
-}
-
 function parseAggTrade(payload: unknown): Trade | null {
   if (!isRecord(payload)) {
     return null;
@@ -562,26 +406,6 @@ function mapAggTrade(data: AggTradeResponse): Trade | null {
   };
 }
 
-function safeNumber(value: unknown): number | null {
-  if (value === undefined || value === null) {
-    return null;
-  }
-  const num = Number(value);
-  return Number.isFinite(num) ? num : null;
-}
-
-function sanitizeStep(value: number | null, fallback: number, minimum?: number): number {
-  const base = value !== null && value > 0 ? value : fallback;
-  const min = minimum && minimum > 0 ? minimum : fallback;
-  return Number(Math.max(min, base).toFixed(10));
-}
-
-function ensureFetch(): void {
-  if (typeof fetch === "undefined") {
-    throw new Error("Global fetch is not available in the current environment");
-  }
-}
-
 function dispatchStreamMessage(raw: string, handlers: WSHandlers, emitError: (error: unknown) => void): void {
   let parsed: unknown;
   try {
@@ -591,15 +415,11 @@ function dispatchStreamMessage(raw: string, handlers: WSHandlers, emitError: (er
     return;
   }
 
-  const envelope = isRecord(parsed) ? parsed : null;
-  const stream = typeof envelope?.["stream"] === "string" ? (envelope["stream"] as string) : undefined;
-  const dataCandidate = envelope && "data" in envelope ? envelope["data"] : parsed;
-
-  if (!isRecord(dataCandidate)) {
+  const { stream, record } = unwrapStreamEnvelope(parsed);
+  if (!record) {
     return;
   }
 
-  const record = dataCandidate;
   const eventType = typeof record["e"] === "string" ? (record["e"] as string) : undefined;
 
   if (eventType === "aggTrade" || (stream && stream.includes("@aggTrade"))) {
@@ -634,6 +454,58 @@ function dispatchStreamMessage(raw: string, handlers: WSHandlers, emitError: (er
   }
 }
 
+// Combined-stream frames (`{ stream, data }`) and raw event frames are both accepted.
+export function parseAggTradeStreamMessage(raw: string): Trade[] {
+  const { stream, record } = unwrapStreamEnvelope(JSON.parse(raw));
+  if (!record) {
+    return [];
+  }
+  if (record["e"] !== "aggTrade" && !stream?.includes("@aggTrade")) {
+    return [];
+  }
+  const trade = parseAggTrade(record);
+  return trade ? [trade] : [];
+}
+
+export function parseDepthStreamMessage(raw: string): DepthStreamMessage[] {
+  const { record } = unwrapStreamEnvelope(JSON.parse(raw));
+  if (!record) {
+    return [];
+  }
+  const diff = mapDepthDiff(record as DepthUpdateResponse);
+  return diff ? [{ type: "diff", diff }] : [];
+}
+
+function mapDepthDiff(data: DepthUpdateResponse): DepthDiff | null {
+  const firstUpdateId = safeNumber(data.U ?? data.u ?? data.lastUpdateId);
+  const finalUpdateId = safeNumber(data.u ?? data.U ?? data.lastUpdateId);
+  if (firstUpdateId === null || finalUpdateId === null) {
+    return null;
+  }
+  const previousUpdateId = safeNumber(data.pu);
+  const eventTime = safeNumber(data.E) ?? Date.now();
+  const transactionTime = safeNumber(data.T ?? data.E) ?? Date.now();
+  const bids = mapDepthEntries(data.b);
+  const asks = mapDepthEntries(data.a);
+
+  return {
+    firstUpdateId: Math.trunc(firstUpdateId),
+    finalUpdateId: Math.trunc(finalUpdateId),
+    ...(previousUpdateId !== null ? { previousUpdateId: Math.trunc(previousUpdateId) } : {}),
+    eventTime,
+    transactionTime,
+    bids,
+    asks,
+  };
+}
+
+function unwrapStreamEnvelope(parsed: unknown): { stream?: string; record: Record<string, unknown> | null } {
+  const envelope = isRecord(parsed) ? parsed : null;
+  const stream = typeof envelope?.["stream"] === "string" ? (envelope["stream"] as string) : undefined;
+  const dataCandidate = envelope && "data" in envelope ? envelope["data"] : parsed;
+  return { stream, record: isRecord(dataCandidate) ? dataCandidate : null };
+}
+
 export function __testDispatchAggTradeMessage(
   raw: string,
   handlers?: WSHandlers,
@@ -642,10 +514,6 @@ export function __testDispatchAggTradeMessage(
   dispatchStreamMessage(raw, handlers ?? {}, emitError ?? (() => {}));
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null;
-}
-
 function isProduction(): boolean {
   return typeof process !== "undefined" && process.env?.NODE_ENV === "production";
 }
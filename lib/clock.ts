@@ -0,0 +1,68 @@
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+// Wall clock corrected by the exchange server offset (live mode).
+export function createOffsetClock(getOffsetMs: () => number, base: Clock = systemClock): Clock {
+  return () => {
+    const offset = getOffsetMs();
+    return base() + (Number.isFinite(offset) ? offset : 0);
+  };
+}
+
+// Clock driven by trade timestamps (replay/backtest). It never moves backwards,
+// so out-of-order prints cannot undo a day reset or a cooldown expiry.
+export class TapeClock {
+  private current: number;
+
+  constructor(start = 0) {
+    this.current = Number.isFinite(start) ? start : 0;
+  }
+
+  readonly now: Clock = () => this.current;
+
+  advance(timestamp: number): number {
+    if (Number.isFinite(timestamp) && timestamp > this.current) {
+      this.current = timestamp;
+    }
+    return this.current;
+  }
+
+  reset(timestamp = 0): void {
+    this.current = Number.isFinite(timestamp) ? timestamp : 0;
+  }
+}
+
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = `${date.getUTCMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getUTCDate()}`.padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+// Next 00:00 UTC, when daily counters start over.
+export function computeResetAt(now: number): number {
+  const date = new Date(now);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.getTime();
+}
+
+// UTC trading sessions: Asia 20-07 (starting the previous day), EU 07-12, US 12-20.
+export function getSessionStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  const hour = date.getUTCHours();
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const hourMs = 3_600_000;
+  if (hour >= 20) {
+    return dayStart + 20 * hourMs;
+  }
+  if (hour >= 12) {
+    return dayStart + 12 * hourMs;
+  }
+  if (hour >= 7) {
+    return dayStart + 7 * hourMs;
+  }
+  return dayStart - 4 * hourMs;
+}
@@ -11,6 +11,7 @@ import type {
 } from "@/types";
 
 import { DepthOrderBook, DepthGapError, type DepthLevelChange } from "./book";
+import type { DepthSequencePolicy } from "./sequence";
 
 interface DepthThresholds {
   absorptionWindowMs: number;
@@ -28,7 +29,11 @@ interface DepthThresholds {
 interface DepthAnalyticsOptions {
   timeframeMs: number;
   priceStep: number;
+  // Maps an event time to the start of the bar it belongs to when bars are
+  // not fixed time buckets (tick, volume and range bars).
+  barStartResolver?: ((time: number) => number) | null;
   depthLevels?: number;
+  sequence?: DepthSequencePolicy;
   thresholds?: Partial<DepthThresholds>;
 }
 
@@ -78,7 +83,7 @@ interface PendingSweep extends DepthSweepEvent {
   volumeRemoved: number;
 }
 
-const DEFAULT_THRESHOLDS: DepthThresholds = {
+export const DEFAULT_DEPTH_THRESHOLDS: DepthThresholds = {
   absorptionWindowMs: 4_000,
   absorptionMinDurationMs: 1_200,
   replenishmentFactor: 1.35,
@@ -101,6 +106,8 @@ export class DepthAnalytics {
 
   private timeframeMs: number;
 
+  private barStartResolver: ((time: number) => number) | null;
+
   private priceStep: number;
 
   private thresholds: DepthThresholds;
@@ -128,18 +135,33 @@ export class DepthAnalytics {
 
   constructor(options: DepthAnalyticsOptions) {
     this.timeframeMs = Math.max(1_000, Math.floor(options.timeframeMs));
+    this.barStartResolver = options.barStartResolver ?? null;
     this.priceStep = options.priceStep > 0 ? options.priceStep : 0.5;
-    this.thresholds = { ...DEFAULT_THRESHOLDS, ...(options.thresholds ?? {}) };
-    this.orderBook = new DepthOrderBook({ maxLevels: options.depthLevels ?? DEFAULT_DEPTH_LEVELS });
+    this.thresholds = { ...DEFAULT_DEPTH_THRESHOLDS, ...(options.thresholds ?? {}) };
+    this.orderBook = new DepthOrderBook({
+      maxLevels: options.depthLevels ?? DEFAULT_DEPTH_LEVELS,
+      sequence: options.sequence,
+    });
   }
 
-  updateSettings(partial: { timeframeMs?: number; priceStep?: number }) {
+  updateSettings(partial: {
+    timeframeMs?: number;
+    priceStep?: number;
+    barStartResolver?: ((time: number) => number) | null;
+    sequence?: DepthSequencePolicy;
+  }) {
     if (typeof partial.timeframeMs === "number" && partial.timeframeMs > 0) {
       this.timeframeMs = Math.floor(partial.timeframeMs);
     }
+    if (partial.barStartResolver !== undefined) {
+      this.barStartResolver = partial.barStartResolver;
+    }
     if (typeof partial.priceStep === "number" && partial.priceStep > 0) {
       this.priceStep = partial.priceStep;
     }
+    if (partial.sequence) {
+      this.orderBook.setSequencePolicy(partial.sequence);
+    }
   }
 
   reset() {
@@ -168,6 +190,14 @@ export class DepthAnalytics {
     this.updateState(snapshot.timestamp ?? Date.now());
   }
 
+  copyBookFrom(other: DepthAnalytics) {
+    this.orderBook.copyFrom(other.orderBook);
+    this.latestState = null;
+    if (other.latestState) {
+      this.updateState(other.latestState.timestamp);
+    }
+  }
+
   applyDiff(diff: DepthDiff) {
     const eventTime = Number.isFinite(diff.eventTime) ? diff.eventTime : Date.now();
     const barStart = this.resolveBarStart(eventTime);
@@ -353,6 +383,9 @@ export class DepthAnalytics {
 
   private resolveBarStart(time: number): number {
     const safe = Number.isFinite(time) ? Math.max(0, Math.floor(time)) : Date.now();
+    if (this.barStartResolver) {
+      return this.barStartResolver(safe);
+    }
     return Math.floor(safe / this.timeframeMs) * this.timeframeMs;
   }
 
@@ -1,7 +1,10 @@
 import type { DepthDiff, DepthLevel, DepthSnapshot } from "@/types";
 
+import { CONTIGUOUS_SEQUENCE, type DepthSequencePolicy } from "./sequence";
+
 export interface DepthOrderBookOptions {
   maxLevels?: number;
+  sequence?: DepthSequencePolicy;
 }
 
 export interface DepthLevelChange {
@@ -24,6 +27,10 @@ const QUANTITY_EPSILON = 1e-9;
 export class DepthOrderBook {
   private readonly maxLevels: number;
 
+  private sequence: DepthSequencePolicy;
+
+  private bridging = false;
+
   private bids = new Map<number, number>();
 
   private asks = new Map<number, number>();
@@ -41,6 +48,18 @@ export class DepthOrderBook {
   constructor(options?: DepthOrderBookOptions) {
     const limit = options?.maxLevels ?? DEFAULT_MAX_LEVELS;
     this.maxLevels = Math.max(1, Math.floor(limit));
+    this.sequence = options?.sequence ?? CONTIGUOUS_SEQUENCE;
+  }
+
+  getSequencePolicy(): DepthSequencePolicy {
+    return this.sequence;
+  }
+
+  setSequencePolicy(sequence: DepthSequencePolicy) {
+    if (sequence !== this.sequence) {
+      this.sequence = sequence;
+      this.reset();
+    }
   }
 
   getLastUpdateId(): number {
@@ -57,6 +76,7 @@ export class DepthOrderBook {
     this.bids.clear();
     this.asks.clear();
     this.lastUpdateId = 0;
+    this.bridging = false;
     this.bidsCache = [];
     this.asksCache = [];
     this.bidsDirty = true;
@@ -66,6 +86,7 @@ export class DepthOrderBook {
   applySnapshot(snapshot: DepthSnapshot) {
     this.reset();
     this.lastUpdateId = Math.trunc(snapshot.lastUpdateId);
+    this.bridging = true;
 
     for (const level of snapshot.bids) {
       if (!Number.isFinite(level.price) || !Number.isFinite(level.quantity)) {
@@ -93,6 +114,18 @@ export class DepthOrderBook {
     this.asksDirty = true;
   }
 
+  // Takes over another book's levels and sequence position, as if this book
+  // had followed the same stream.
+  copyFrom(other: DepthOrderBook) {
+    this.reset();
+    this.bids = new Map(other.bids);
+    this.asks = new Map(other.asks);
+    this.lastUpdateId = other.lastUpdateId;
+    this.bridging = other.bridging;
+    this.trim("bid");
+    this.trim("ask");
+  }
+
   applyDiff(diff: DepthDiff): DepthLevelChange[] {
     if (!Number.isFinite(diff.finalUpdateId)) {
       return [];
@@ -101,13 +134,17 @@ export class DepthOrderBook {
     const finalId = Math.trunc(diff.finalUpdateId);
     const firstId = Math.trunc(diff.firstUpdateId);
 
-    if (this.lastUpdateId > 0 && firstId > this.lastUpdateId + 1) {
-      throw new DepthGapError(
-        `Depth gap detected: expected ${this.lastUpdateId + 1}, received ${firstId}`,
-      );
-    }
-
-    if (finalId <= this.lastUpdateId) {
+    if (this.lastUpdateId > 0) {
+      const verdict = this.sequence.check(this.lastUpdateId, diff, this.bridging);
+      if (verdict === "gap") {
+        throw new DepthGapError(
+          `Depth gap detected (${this.sequence.id}): last ${this.lastUpdateId}, received ${firstId}-${finalId}`,
+        );
+      }
+      if (verdict === "stale") {
+        return [];
+      }
+    } else if (finalId <= this.lastUpdateId) {
       return [];
     }
 
@@ -152,6 +189,7 @@ export class DepthOrderBook {
     }
 
     this.lastUpdateId = finalId;
+    this.bridging = false;
     this.trim("bid");
     this.trim("ask");
     if (changes.some((change) => change.side === "bid")) {
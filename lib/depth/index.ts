@@ -1,3 +1,11 @@
 export { DepthOrderBook, DepthGapError } from "./book";
 export { DepthAnalytics } from "./analytics";
-export { BinanceDepthStream } from "./stream";
+export { MarketDepthStream } from "./stream";
+export {
+  BINANCE_FUTURES_SEQUENCE,
+  BYBIT_SEQUENCE,
+  CONTIGUOUS_SEQUENCE,
+  OKX_SEQUENCE,
+  getDepthSequencePolicy,
+  type DepthSequencePolicy,
+} from "./sequence";
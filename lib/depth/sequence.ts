@@ -0,0 +1,72 @@
+import type { DepthDiff } from "@/types";
+
+export type DepthSequenceVerdict = "apply" | "stale" | "gap";
+
+// Venues number their book updates differently, so whether a diff continues
+// the local book is decided per exchange. `bridging` is true for the first
+// diff after a snapshot, which may overlap the snapshot's update id.
+export interface DepthSequencePolicy {
+  id: string;
+  check(lastUpdateId: number, diff: DepthDiff, bridging: boolean): DepthSequenceVerdict;
+}
+
+// Update ids advance by one per change (Binance Spot `U`/`u`).
+export const CONTIGUOUS_SEQUENCE: DepthSequencePolicy = {
+  id: "contiguous",
+  check(lastUpdateId, diff) {
+    if (diff.finalUpdateId <= lastUpdateId) {
+      return "stale";
+    }
+    return diff.firstUpdateId > lastUpdateId + 1 ? "gap" : "apply";
+  },
+};
+
+// Futures ids are not contiguous; each event carries the previous event's
+// final id (`pu`) instead. The first diff only has to straddle the snapshot.
+export const BINANCE_FUTURES_SEQUENCE: DepthSequencePolicy = {
+  id: "binance-futures",
+  check(lastUpdateId, diff, bridging) {
+    if (diff.finalUpdateId <= lastUpdateId) {
+      return "stale";
+    }
+    if (bridging || diff.previousUpdateId === undefined) {
+      return diff.firstUpdateId > lastUpdateId + 1 ? "gap" : "apply";
+    }
+    return diff.previousUpdateId === lastUpdateId ? "apply" : "gap";
+  },
+};
+
+// Bybit deltas carry a single update id `u` that increments by one.
+export const BYBIT_SEQUENCE: DepthSequencePolicy = {
+  id: "bybit",
+  check(lastUpdateId, diff) {
+    if (diff.finalUpdateId <= lastUpdateId) {
+      return "stale";
+    }
+    return diff.finalUpdateId === lastUpdateId + 1 ? "apply" : "gap";
+  },
+};
+
+// OKX chains `prevSeqId` to the last `seqId`; an unchanged book repeats the
+// same seqId, which still continues the chain.
+export const OKX_SEQUENCE: DepthSequencePolicy = {
+  id: "okx",
+  check(lastUpdateId, diff) {
+    if (diff.previousUpdateId === lastUpdateId) {
+      return "apply";
+    }
+    return diff.finalUpdateId <= lastUpdateId ? "stale" : "gap";
+  },
+};
+
+const DEPTH_SEQUENCE_POLICIES: DepthSequencePolicy[] = [
+  CONTIGUOUS_SEQUENCE,
+  BINANCE_FUTURES_SEQUENCE,
+  BYBIT_SEQUENCE,
+  OKX_SEQUENCE,
+];
+
+// Policies cross the worker boundary by id.
+export function getDepthSequencePolicy(id?: string | null): DepthSequencePolicy {
+  return DEPTH_SEQUENCE_POLICIES.find((policy) => policy.id === id) ?? CONTIGUOUS_SEQUENCE;
+}
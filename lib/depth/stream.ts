@@ -1,7 +1,7 @@
+import { DepthSnapshotError } from "@/lib/exchanges/http";
+import type { MarketDataAdapter, StreamStatusMeta, StreamSubscription } from "@/lib/exchanges/types";
 import type { ConnectionStatus, DepthSnapshot, DepthStreamMessage } from "@/types";
 
-import { clampDepthLimit, DepthSnapshotError, fetchDepthSnapshot, type StreamStatusMeta } from "@/lib/binance";
-
 interface DepthStreamHandlers {
   onMessage: (message: DepthStreamMessage) => void;
   onStatusChange?: (status: ConnectionStatus, meta?: StreamStatusMeta) => void;
@@ -13,15 +13,17 @@ interface DepthStreamOptions {
   snapshotIntervalMs?: number;
 }
 
-const STREAM_BASE = "wss://fstream.binance.com/stream?streams=";
 const MAX_BACKOFF = 30_000;
+const DEFAULT_LEVELS = 100;
 const DEFAULT_SNAPSHOT_INTERVAL = 60_000;
 const MAX_BUFFERED_DIFFS = 800;
 const SNAPSHOT_BACKOFF_STEPS = [1_000, 2_000, 5_000, 10_000, 30_000];
 
-export class BinanceDepthStream {
+export class MarketDepthStream {
   private ws: WebSocket | null = null;
 
+  private readonly adapter: MarketDataAdapter;
+
   private readonly handlers: DepthStreamHandlers;
 
   private readonly levelLimit: number;
@@ -34,13 +36,15 @@ export class BinanceDepthStream {
 
   private reconnectTimer: number | null = null;
 
+  private heartbeatTimer: number | null = null;
+
   private snapshotTimer: number | null = null;
 
   private status: ConnectionStatus = "connecting";
 
   private symbol: string;
 
-  private url: string;
+  private subscription: StreamSubscription;
 
   private pendingDiffs: DepthStreamMessage[] = [];
 
@@ -48,18 +52,27 @@ export class BinanceDepthStream {
 
   private synced = false;
 
+  // True until the first diff after a snapshot has been applied.
+  private bridging = false;
+
   private fetchingSnapshot = false;
 
   private snapshotAttempts = 0;
 
   private nextSnapshotDue: number | null = null;
 
-  constructor(symbol: string, handlers: DepthStreamHandlers, options?: DepthStreamOptions) {
+  constructor(
+    adapter: MarketDataAdapter,
+    symbol: string,
+    handlers: DepthStreamHandlers,
+    options?: DepthStreamOptions,
+  ) {
+    this.adapter = adapter;
     this.symbol = symbol.toUpperCase();
     this.handlers = handlers;
-    this.levelLimit = clampDepthLimit(options?.levels);
+    this.levelLimit = Math.max(1, Math.floor(options?.levels ?? DEFAULT_LEVELS));
     this.snapshotIntervalMs = Math.max(15_000, options?.snapshotIntervalMs ?? DEFAULT_SNAPSHOT_INTERVAL);
-    this.url = buildStreamUrl(this.symbol);
+    this.subscription = adapter.depthStream(this.symbol, this.levelLimit);
   }
 
   connect() {
@@ -87,7 +100,7 @@ export class BinanceDepthStream {
       return;
     }
     this.symbol = next;
-    this.url = buildStreamUrl(this.symbol);
+    this.subscription = this.adapter.depthStream(this.symbol, this.levelLimit);
     this.synced = false;
     this.lastUpdateId = 0;
     this.pendingDiffs = [];
@@ -103,7 +116,7 @@ export class BinanceDepthStream {
     this.setStatus(phase, { attempts: this.reconnectAttempts, scope: "ws" });
 
     try {
-      this.ws = new WebSocket(this.url);
+      this.ws = new WebSocket(this.subscription.url);
     } catch (error) {
       this.scheduleReconnect();
       this.handlers.onError?.(toMessage(error));
@@ -113,21 +126,37 @@ export class BinanceDepthStream {
     this.ws.onopen = () => {
       const attempts = this.reconnectAttempts;
       this.reconnectAttempts = 0;
+      for (const frame of this.subscription.subscribe ?? []) {
+        this.ws?.send(frame);
+      }
+      this.startHeartbeat();
       this.setStatus("connected", { attempts, scope: "ws" });
       this.synced = false;
       this.lastUpdateId = 0;
       this.pendingDiffs = [];
       this.snapshotAttempts = 0;
-      this.scheduleSnapshotFetch(0);
+      if (this.adapter.depthSnapshotSource === "rest") {
+        this.scheduleSnapshotFetch(0);
+      }
     };
 
     this.ws.onmessage = (event) => {
       const dispatch = (raw: string) => {
-        const diff = parseDepthDiff(raw);
-        if (!diff) {
+        let messages: DepthStreamMessage[];
+        try {
+          messages = this.adapter.parseDepthMessage(raw);
+        } catch (error) {
+          console.warn("Failed to parse depth message", error);
           return;
         }
-        this.handleDiff({ type: "diff", diff });
+        for (const message of messages) {
+          if (message.type === "snapshot") {
+            this.applySnapshot(message.snapshot);
+            this.emitSnapshotStatus({ level: "success", message: "Depth snapshot OK", attempts: 0 });
+          } else {
+            this.handleDiff(message);
+          }
+        }
       };
 
       if (typeof event.data === "string") {
@@ -146,6 +175,7 @@ export class BinanceDepthStream {
 
     this.ws.onclose = () => {
       this.clearSnapshotTimer();
+      this.clearHeartbeat();
       if (this.shouldReconnect) {
         this.scheduleReconnect();
       } else {
@@ -194,7 +224,7 @@ export class BinanceDepthStream {
     this.fetchingSnapshot = true;
 
     try {
-      const snapshot = await fetchDepthSnapshot(this.symbol, this.levelLimit);
+      const snapshot = await this.adapter.fetchDepthSnapshot(this.symbol, this.levelLimit);
       this.applySnapshot(snapshot);
       this.snapshotAttempts = 0;
       const refreshDelay = this.snapshotIntervalMs;
@@ -261,6 +291,10 @@ export class BinanceDepthStream {
   }
 
   private ensureSnapshotScheduled() {
+    if (this.adapter.depthSnapshotSource === "stream") {
+      // The channel resends its snapshot on subscribe; wait for it.
+      return;
+    }
     if (this.fetchingSnapshot) {
       return;
     }
@@ -277,6 +311,7 @@ export class BinanceDepthStream {
   private applySnapshot(snapshot: DepthSnapshot) {
     this.lastUpdateId = snapshot.lastUpdateId;
     this.synced = true;
+    this.bridging = true;
     this.handlers.onMessage({ type: "snapshot", snapshot });
     this.flushPendingDiffs();
   }
@@ -318,20 +353,17 @@ export class BinanceDepthStream {
     if (!this.synced) {
       return;
     }
-    if (diff.finalUpdateId <= this.lastUpdateId) {
+    const verdict = this.adapter.depthSequence.check(this.lastUpdateId, diff, this.bridging);
+    if (verdict === "stale") {
       return;
     }
-
-    if (diff.firstUpdateId > this.lastUpdateId + 1) {
+    if (verdict === "gap") {
       this.triggerResync();
       return;
     }
 
-    if (diff.finalUpdateId < this.lastUpdateId + 1) {
-      return;
-    }
-
     this.lastUpdateId = diff.finalUpdateId;
+    this.bridging = false;
     this.handlers.onMessage({ type: "diff", diff });
   }
 
@@ -339,9 +371,34 @@ export class BinanceDepthStream {
     this.synced = false;
     this.lastUpdateId = 0;
     this.pendingDiffs = [];
+    if (this.adapter.depthSnapshotSource === "stream") {
+      // Resubscribing is the only way to get a fresh snapshot; onclose reconnects.
+      this.ws?.close();
+      return;
+    }
     this.ensureSnapshotScheduled();
   }
 
+  private startHeartbeat() {
+    this.clearHeartbeat();
+    const heartbeat = this.subscription.heartbeat;
+    if (!heartbeat) {
+      return;
+    }
+    this.heartbeatTimer = window.setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(heartbeat.message);
+      }
+    }, heartbeat.intervalMs);
+  }
+
+  private clearHeartbeat() {
+    if (this.heartbeatTimer !== null) {
+      window.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
   private setStatus(status: ConnectionStatus, meta?: StreamStatusMeta) {
     if (this.status === status && !meta) {
       return;
@@ -356,6 +413,7 @@ export class BinanceDepthStream {
       this.reconnectTimer = null;
     }
     this.clearSnapshotTimer();
+    this.clearHeartbeat();
   }
 
   private clearSnapshotTimer() {
@@ -367,63 +425,6 @@ export class BinanceDepthStream {
   }
 }
 
-function buildStreamUrl(symbol: string): string {
-  const streamKey = `${symbol.toLowerCase()}@depth@100ms`;
-  return `${STREAM_BASE}${streamKey}`;
-}
-
-function parseDepthDiff(raw: string): DepthStreamMessage["diff"] | null {
-  try {
-    const payload = JSON.parse(raw);
-    const data = payload?.data ?? payload;
-    if (!data || typeof data !== "object") {
-      return null;
-    }
-    const firstUpdateId = Number(data.U ?? data.u ?? data.lastUpdateId);
-    const finalUpdateId = Number(data.u ?? data.U ?? data.lastUpdateId);
-    const eventTime = Number(data.E ?? Date.now());
-    const transactionTime = Number(data.T ?? data.E ?? Date.now());
-    const bids = Array.isArray(data.b)
-      ? data.b
-          .map((entry: unknown) => toDepthLevel(entry))
-          .filter((level): level is { price: number; quantity: number } => level !== null)
-      : [];
-    const asks = Array.isArray(data.a)
-      ? data.a
-          .map((entry: unknown) => toDepthLevel(entry))
-          .filter((level): level is { price: number; quantity: number } => level !== null)
-      : [];
-
-    if (!Number.isFinite(firstUpdateId) || !Number.isFinite(finalUpdateId)) {
-      return null;
-    }
-
-    return {
-      firstUpdateId: Math.trunc(firstUpdateId),
-      finalUpdateId: Math.trunc(finalUpdateId),
-      eventTime,
-      transactionTime,
-      bids,
-      asks,
-    };
-  } catch (error) {
-    console.warn("Failed to parse depth diff", error);
-    return null;
-  }
-}
-
-function toDepthLevel(entry: unknown): { price: number; quantity: number } | null {
-  if (!Array.isArray(entry) || entry.length < 2) {
-    return null;
-  }
-  const price = Number(entry[0]);
-  const quantity = Number(entry[1]);
-  if (!Number.isFinite(price) || !Number.isFinite(quantity)) {
-    return null;
-  }
-  return { price, quantity };
-}
-
 function formatDuration(ms: number): string {
   if (!Number.isFinite(ms) || ms <= 0) {
     return "0s";
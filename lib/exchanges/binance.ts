@@ -0,0 +1,71 @@
+import {
+  BINANCE_FUTURES_REST,
+  BINANCE_FUTURES_STREAM,
+  BINANCE_SPOT_REST,
+  BINANCE_SPOT_STREAM,
+  fetchAggTrades,
+  fetchDepthSnapshot,
+  fetchFundingRates,
+  fetchKlines,
+  fetchServerTime,
+  fetchSymbolMarketConfig,
+  parseAggTradeStreamMessage,
+  parseDepthStreamMessage,
+} from "@/lib/binance";
+import { BINANCE_FUTURES_SEQUENCE, CONTIGUOUS_SEQUENCE } from "@/lib/depth/sequence";
+
+import type { ExchangeEndpoints, ExchangeId, MarketDataAdapter } from "./types";
+
+export const binanceFuturesAdapter = createBinanceFuturesAdapter();
+
+export const binanceSpotAdapter = createBinanceSpotAdapter();
+
+// Endpoint overrides let tests point an adapter at the mock exchange.
+export function createBinanceFuturesAdapter(endpoints?: Partial<ExchangeEndpoints>): MarketDataAdapter {
+  return createBinanceAdapter(
+    "binance-futures",
+    "Binance Futures",
+    endpoints?.restBase ?? BINANCE_FUTURES_REST,
+    endpoints?.streamBase ?? BINANCE_FUTURES_STREAM,
+    BINANCE_FUTURES_SEQUENCE,
+    true,
+  );
+}
+
+// Spot depth ids are contiguous and carry no `pu`, and spot pays no funding.
+export function createBinanceSpotAdapter(endpoints?: Partial<ExchangeEndpoints>): MarketDataAdapter {
+  return createBinanceAdapter(
+    "binance-spot",
+    "Binance Spot",
+    endpoints?.restBase ?? BINANCE_SPOT_REST,
+    endpoints?.streamBase ?? BINANCE_SPOT_STREAM,
+    CONTIGUOUS_SEQUENCE,
+    false,
+  );
+}
+
+function createBinanceAdapter(
+  id: ExchangeId,
+  label: string,
+  restBase: string,
+  streamBase: string,
+  depthSequence: MarketDataAdapter["depthSequence"],
+  funding: boolean,
+): MarketDataAdapter {
+  return {
+    id,
+    label,
+    depthSnapshotSource: "rest",
+    depthSequence,
+    fetchServerTime: () => fetchServerTime(restBase),
+    fetchAggTrades: (params) => fetchAggTrades(params, restBase),
+    fetchKlines: (params) => fetchKlines(params, restBase),
+    fetchSymbolMarketConfig: (symbol) => fetchSymbolMarketConfig(symbol, restBase),
+    fetchDepthSnapshot: (symbol, limit) => fetchDepthSnapshot(symbol, limit, restBase),
+    fetchFundingRates: (params) => (funding ? fetchFundingRates(params, restBase) : Promise.resolve([])),
+    tradeStream: (symbol) => ({ url: `${streamBase}${symbol.toLowerCase()}@aggTrade` }),
+    depthStream: (symbol) => ({ url: `${streamBase}${symbol.toLowerCase()}@depth@100ms` }),
+    parseTradeMessage: parseAggTradeStreamMessage,
+    parseDepthMessage: parseDepthStreamMessage,
+  };
+}
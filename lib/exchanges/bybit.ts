@@ -0,0 +1,369 @@
+import { BYBIT_SEQUENCE } from "@/lib/depth/sequence";
+import type { DepthSnapshot, DepthStreamMessage, FundingRate, SymbolMarketConfig, Trade } from "@/types";
+
+import {
+  ensureFetch,
+  fetchDepthSnapshotResponse,
+  isRecord,
+  mapDepthEntries,
+  safeNumber,
+  sanitizeStep,
+} from "./http";
+import type {
+  FetchAggTradesParams,
+  FetchFundingRatesParams,
+  FetchKlinesParams,
+  Kline,
+  MarketDataAdapter,
+} from "./types";
+
+export const BYBIT_REST = "https://api.bybit.com/v5/market";
+export const BYBIT_LINEAR_STREAM = "wss://stream.bybit.com/v5/public/linear";
+const MAX_TRADE_LIMIT = 1000;
+const MAX_KLINE_LIMIT = 1000;
+const MAX_FUNDING_LIMIT = 200;
+const ORDERBOOK_DEPTHS = [50, 200, 500] as const;
+const HEARTBEAT_MS = 20_000;
+
+const KLINE_INTERVALS: Record<string, { code: string; ms: number }> = {
+  "1m": { code: "1", ms: 60_000 },
+  "3m": { code: "3", ms: 3 * 60_000 },
+  "5m": { code: "5", ms: 5 * 60_000 },
+  "15m": { code: "15", ms: 15 * 60_000 },
+  "30m": { code: "30", ms: 30 * 60_000 },
+  "1h": { code: "60", ms: 60 * 60_000 },
+  "4h": { code: "240", ms: 4 * 60 * 60_000 },
+  "1d": { code: "D", ms: 24 * 60 * 60_000 },
+};
+
+interface BybitResponse<T> {
+  retCode?: number;
+  retMsg?: string;
+  time?: number | string;
+  result?: T;
+}
+
+interface BybitTradeResponse {
+  execId?: string;
+  price?: string;
+  size?: string;
+  side?: string;
+  time?: string;
+}
+
+interface BybitInstrument {
+  symbol?: string;
+  priceFilter?: { tickSize?: string; minPrice?: string; maxPrice?: string };
+  lotSizeFilter?: { qtyStep?: string; minNotionalValue?: string };
+}
+
+interface BybitFundingRate {
+  fundingRate?: string;
+  fundingRateTimestamp?: string;
+}
+
+interface BybitOrderbook {
+  b?: unknown;
+  a?: unknown;
+  u?: number | string;
+  ts?: number | string;
+}
+
+export const bybitLinearAdapter: MarketDataAdapter = {
+  id: "bybit-linear",
+  label: "Bybit USDT Perp",
+  depthSnapshotSource: "stream",
+  depthSequence: BYBIT_SEQUENCE,
+  fetchServerTime,
+  fetchAggTrades,
+  fetchKlines,
+  fetchSymbolMarketConfig,
+  fetchDepthSnapshot,
+  fetchFundingRates,
+  tradeStream: (symbol) => subscription(`publicTrade.${symbol.toUpperCase()}`),
+  depthStream: (symbol, levels) =>
+    subscription(`orderbook.${pickOrderbookDepth(levels)}.${symbol.toUpperCase()}`),
+  parseTradeMessage: parseBybitTradeMessage,
+  parseDepthMessage: parseBybitDepthMessage,
+};
+
+async function fetchServerTime(): Promise<number> {
+  const payload = await request<unknown>("/time", {});
+  const serverTime = safeNumber(payload.time);
+  if (serverTime === null) {
+    throw new Error("Invalid server time response from Bybit");
+  }
+  return serverTime;
+}
+
+// Bybit only serves the most recent public trades, so `fromId` cannot page
+// and the window is applied client-side.
+async function fetchAggTrades(params: FetchAggTradesParams): Promise<Trade[]> {
+  const { symbol, startTime, endTime, limit = MAX_TRADE_LIMIT } = params;
+  const payload = await request<{ list?: BybitTradeResponse[] }>("/recent-trade", {
+    category: "linear",
+    symbol: symbol.toUpperCase(),
+    limit: String(Math.min(Math.max(Math.floor(limit), 1), MAX_TRADE_LIMIT)),
+  });
+  const list = Array.isArray(payload.result?.list) ? payload.result.list : [];
+  const trades: Trade[] = [];
+  for (const item of list) {
+    const trade = mapTrade(item.execId, item.price, item.size, item.time, item.side);
+    if (!trade) {
+      continue;
+    }
+    if (typeof startTime === "number" && trade.timestamp < startTime) {
+      continue;
+    }
+    if (typeof endTime === "number" && trade.timestamp > endTime) {
+      continue;
+    }
+    trades.push(trade);
+  }
+  trades.sort((a, b) => a.timestamp - b.timestamp);
+  return trades;
+}
+
+async function fetchKlines(params: FetchKlinesParams): Promise<Kline[]> {
+  const { symbol, interval, limit, startTime, endTime } = params;
+  const mapping = KLINE_INTERVALS[interval];
+  if (!mapping) {
+    throw new Error(`Unsupported Bybit kline interval: ${interval}`);
+  }
+  const query: Record<string, string> = {
+    category: "linear",
+    symbol: symbol.toUpperCase(),
+    interval: mapping.code,
+  };
+  if (typeof limit === "number" && Number.isFinite(limit)) {
+    query.limit = String(Math.min(Math.max(Math.floor(limit), 1), MAX_KLINE_LIMIT));
+  }
+  if (typeof startTime === "number" && Number.isFinite(startTime)) {
+    query.start = String(Math.max(0, Math.floor(startTime)));
+  }
+  if (typeof endTime === "number" && Number.isFinite(endTime)) {
+    query.end = String(Math.max(0, Math.floor(endTime)));
+  }
+
+  const payload = await request<{ list?: unknown[] }>("/kline", query);
+  const list = Array.isArray(payload.result?.list) ? payload.result.list : [];
+  const klines: Kline[] = [];
+  for (const entry of list) {
+    if (!Array.isArray(entry) || entry.length < 6) {
+      continue;
+    }
+    const openTime = safeNumber(entry[0]);
+    const open = safeNumber(entry[1]);
+    const high = safeNumber(entry[2]);
+    const low = safeNumber(entry[3]);
+    const close = safeNumber(entry[4]);
+    const volume = safeNumber(entry[5]);
+    if (openTime === null || open === null || high === null || low === null || close === null) {
+      continue;
+    }
+    klines.push({
+      openTime: Math.trunc(openTime),
+      closeTime: Math.trunc(openTime) + mapping.ms - 1,
+      open,
+      high,
+      low,
+      close,
+      volume: volume !== null ? Math.max(0, volume) : 0,
+      // Bybit klines do not report a trade count.
+      trades: 0,
+    });
+  }
+  // Bybit lists candles newest first.
+  klines.sort((a, b) => a.openTime - b.openTime);
+  return klines;
+}
+
+async function fetchSymbolMarketConfig(symbol: string): Promise<SymbolMarketConfig | null> {
+  const payload = await request<{ list?: BybitInstrument[] }>("/instruments-info", {
+    category: "linear",
+    symbol: symbol.toUpperCase(),
+  });
+  const info = payload.result?.list?.find((item) => item.symbol === symbol.toUpperCase());
+  if (!info) {
+    return null;
+  }
+  const tickSize = sanitizeStep(safeNumber(info.priceFilter?.tickSize), 0.1);
+  const stepSize = sanitizeStep(safeNumber(info.lotSizeFilter?.qtyStep), tickSize);
+  return {
+    tickSize,
+    stepSize,
+    minPriceStep: tickSize,
+    maxPriceStep: sanitizeStep(tickSize * 40, tickSize * 40, tickSize),
+    minNotional: Math.max(0, safeNumber(info.lotSizeFilter?.minNotionalValue) ?? 0),
+  };
+}
+
+async function fetchFundingRates(params: FetchFundingRatesParams): Promise<FundingRate[]> {
+  const { symbol, startTime, endTime, limit = MAX_FUNDING_LIMIT } = params;
+  const query: Record<string, string> = {
+    category: "linear",
+    symbol: symbol.toUpperCase(),
+    limit: String(Math.min(Math.max(Math.floor(limit), 1), MAX_FUNDING_LIMIT)),
+  };
+  // A start without an end is rejected, so it is sent with one.
+  if (typeof startTime === "number" && Number.isFinite(startTime)) {
+    query.startTime = String(Math.max(0, Math.floor(startTime)));
+    query.endTime = String(Math.floor(endTime ?? Date.now()));
+  } else if (typeof endTime === "number" && Number.isFinite(endTime)) {
+    query.endTime = String(Math.max(0, Math.floor(endTime)));
+  }
+  const payload = await request<{ list?: BybitFundingRate[] }>("/funding/history", query);
+  const list = Array.isArray(payload.result?.list) ? payload.result.list : [];
+  const rates: FundingRate[] = [];
+  for (const item of list) {
+    const time = safeNumber(item.fundingRateTimestamp);
+    const rate = safeNumber(item.fundingRate);
+    if (time !== null && rate !== null) {
+      rates.push({ time: Math.trunc(time), rate });
+    }
+  }
+  // Bybit lists settlements newest first.
+  rates.sort((a, b) => a.time - b.time);
+  return rates;
+}
+
+async function fetchDepthSnapshot(symbol: string, limit?: number): Promise<DepthSnapshot> {
+  ensureFetch();
+  const url = new URL(`${BYBIT_REST}/orderbook`);
+  url.searchParams.set("category", "linear");
+  url.searchParams.set("symbol", symbol.toUpperCase());
+  url.searchParams.set("limit", String(pickOrderbookDepth(limit ?? 200)));
+  const response = await fetchDepthSnapshotResponse(url.toString());
+  const payload = (await response.json()) as BybitResponse<BybitOrderbook>;
+  const snapshot = payload.result ? mapSnapshot(payload.result) : null;
+  if (!snapshot) {
+    throw new Error("Invalid depth snapshot response from Bybit");
+  }
+  return snapshot;
+}
+
+export function parseBybitTradeMessage(raw: string): Trade[] {
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed) || typeof parsed.topic !== "string" || !parsed.topic.startsWith("publicTrade.")) {
+    return [];
+  }
+  const data = Array.isArray(parsed.data) ? parsed.data : [];
+  const trades: Trade[] = [];
+  for (const item of data) {
+    if (!isRecord(item)) {
+      continue;
+    }
+    const trade = mapTrade(item.i, item.p, item.v, item.T, item.S);
+    if (trade) {
+      trades.push(trade);
+    }
+  }
+  return trades;
+}
+
+// Bybit sends a full snapshot on subscribe (and again whenever it resets the
+// book, signalled by `u === 1`); everything else is a delta with one id.
+export function parseBybitDepthMessage(raw: string): DepthStreamMessage[] {
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed) || typeof parsed.topic !== "string" || !parsed.topic.startsWith("orderbook.")) {
+    return [];
+  }
+  if (!isRecord(parsed.data)) {
+    return [];
+  }
+  const data = parsed.data as BybitOrderbook;
+  const updateId = safeNumber(data.u);
+  if (updateId === null) {
+    return [];
+  }
+  if (parsed.type === "snapshot" || updateId === 1) {
+    const snapshot = mapSnapshot({ ...data, ts: data.ts ?? (parsed.ts as number | undefined) });
+    return snapshot ? [{ type: "snapshot", snapshot }] : [];
+  }
+  const eventTime = safeNumber(parsed.ts) ?? Date.now();
+  const transactionTime = safeNumber(parsed.cts) ?? eventTime;
+  return [
+    {
+      type: "diff",
+      diff: {
+        firstUpdateId: Math.trunc(updateId),
+        finalUpdateId: Math.trunc(updateId),
+        eventTime,
+        transactionTime,
+        bids: mapDepthEntries(data.b),
+        asks: mapDepthEntries(data.a),
+      },
+    },
+  ];
+}
+
+function subscription(topic: string) {
+  return {
+    url: BYBIT_LINEAR_STREAM,
+    subscribe: [JSON.stringify({ op: "subscribe", args: [topic] })],
+    heartbeat: { intervalMs: HEARTBEAT_MS, message: JSON.stringify({ op: "ping" }) },
+  };
+}
+
+function pickOrderbookDepth(levels: number): number {
+  return ORDERBOOK_DEPTHS.find((depth) => depth >= levels) ?? ORDERBOOK_DEPTHS[ORDERBOOK_DEPTHS.length - 1];
+}
+
+function mapSnapshot(data: BybitOrderbook): DepthSnapshot | null {
+  const updateId = safeNumber(data.u);
+  if (updateId === null) {
+    return null;
+  }
+  return {
+    lastUpdateId: Math.trunc(updateId),
+    bids: mapDepthEntries(data.b),
+    asks: mapDepthEntries(data.a),
+    timestamp: safeNumber(data.ts) ?? Date.now(),
+  };
+}
+
+function mapTrade(id: unknown, price: unknown, size: unknown, time: unknown, side: unknown): Trade | null {
+  const priceValue = safeNumber(price);
+  const quantity = safeNumber(size);
+  const timestamp = safeNumber(time);
+  if (priceValue === null || quantity === null || timestamp === null) {
+    return null;
+  }
+  return {
+    tradeId: typeof id === "string" ? hashTradeId(id) : Math.trunc(timestamp),
+    price: priceValue,
+    quantity,
+    timestamp: Math.trunc(timestamp),
+    // `S` is the taker side, so a taker sell hits a resting buyer.
+    isBuyerMaker: side === "Sell",
+  };
+}
+
+// Execution ids are UUIDs; fold them into a safe integer for dedupe.
+function hashTradeId(id: string): number {
+  let high = 0x811c9dc5;
+  let low = 0x01000193;
+  for (let index = 0; index < id.length; index += 1) {
+    const code = id.charCodeAt(index);
+    high = Math.imul(high ^ code, 0x01000193) >>> 0;
+    low = Math.imul(low ^ code, 0x5bd1e995) >>> 0;
+  }
+  return (high & 0x1fffff) * 0x100000000 + low;
+}
+
+async function request<T>(path: string, query: Record<string, string>): Promise<BybitResponse<T>> {
+  ensureFetch();
+  const url = new URL(`${BYBIT_REST}${path}`);
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.set(key, value);
+  }
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Bybit ${path}: ${response.status}`);
+  }
+  const payload = (await response.json()) as BybitResponse<T>;
+  if (payload.retCode !== undefined && payload.retCode !== 0) {
+    throw new Error(`Bybit ${path} error ${payload.retCode}: ${payload.retMsg ?? "unknown"}`);
+  }
+  return payload;
+}
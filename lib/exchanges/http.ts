@@ -0,0 +1,74 @@
+import type { DepthLevel } from "@/types";
+
+export class DepthSnapshotError extends Error {
+  status?: number;
+
+  constructor(status?: number, message?: string) {
+    super(message ?? (status ? `Depth snapshot error ${status}` : "Depth snapshot error"));
+    this.name = "DepthSnapshotError";
+    if (Number.isFinite(status ?? NaN)) {
+      this.status = status ?? undefined;
+    }
+  }
+}
+
+export function ensureFetch(): void {
+  if (typeof fetch === "undefined") {
+    throw new Error("Global fetch is not available in the current environment");
+  }
+}
+
+// Network failures and non-2xx responses both surface as DepthSnapshotError so
+// the depth stream can back off on the status code.
+export async function fetchDepthSnapshotResponse(url: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DepthSnapshotError(undefined, message);
+  }
+  if (!response.ok) {
+    const status = response.status;
+    throw new DepthSnapshotError(status, `Depth snapshot error ${status}`);
+  }
+  return response;
+}
+
+export function safeNumber(value: unknown): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+export function sanitizeStep(value: number | null, fallback: number, minimum?: number): number {
+  const base = value !== null && value > 0 ? value : fallback;
+  const min = minimum && minimum > 0 ? minimum : fallback;
+  return Number(Math.max(min, base).toFixed(10));
+}
+
+export function mapDepthEntry(entry: unknown): DepthLevel | null {
+  if (!Array.isArray(entry) || entry.length < 2) {
+    return null;
+  }
+  const price = safeNumber(entry[0]);
+  const quantity = safeNumber(entry[1]);
+  if (price === null || quantity === null) {
+    return null;
+  }
+  return { price, quantity };
+}
+
+export function mapDepthEntries(entries: unknown, limit?: number): DepthLevel[] {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  const levels = entries.map(mapDepthEntry).filter((level): level is DepthLevel => level !== null);
+  return typeof limit === "number" ? levels.slice(0, limit) : levels;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
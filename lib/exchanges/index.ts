@@ -0,0 +1,32 @@
+import { binanceFuturesAdapter, binanceSpotAdapter } from "./binance";
+import { bybitLinearAdapter } from "./bybit";
+import { okxSwapAdapter } from "./okx";
+import type { ExchangeId, MarketDataAdapter } from "./types";
+
+export { MarketTradeStream } from "./tradeStream";
+export { createBinanceFuturesAdapter, createBinanceSpotAdapter } from "./binance";
+export type { ExchangeEndpoints, ExchangeId, MarketDataAdapter, StreamSubscription } from "./types";
+
+export const DEFAULT_EXCHANGE: ExchangeId = "binance-futures";
+
+export const MARKET_DATA_ADAPTERS: Record<ExchangeId, MarketDataAdapter> = {
+  "binance-futures": binanceFuturesAdapter,
+  "binance-spot": binanceSpotAdapter,
+  "bybit-linear": bybitLinearAdapter,
+  "okx-swap": okxSwapAdapter,
+};
+
+export const EXCHANGE_OPTIONS: Array<{ value: ExchangeId; label: string }> = [
+  { value: "binance-futures", label: "Binance Futuros" },
+  { value: "binance-spot", label: "Binance Spot" },
+  { value: "bybit-linear", label: "Bybit perpetuo USDT" },
+  { value: "okx-swap", label: "OKX swap perpetuo" },
+];
+
+export function getMarketDataAdapter(id: ExchangeId | string | null | undefined): MarketDataAdapter {
+  return MARKET_DATA_ADAPTERS[id as ExchangeId] ?? MARKET_DATA_ADAPTERS[DEFAULT_EXCHANGE];
+}
+
+export function isExchangeId(value: unknown): value is ExchangeId {
+  return typeof value === "string" && value in MARKET_DATA_ADAPTERS;
+}
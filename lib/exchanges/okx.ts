@@ -0,0 +1,378 @@
+import { OKX_SEQUENCE } from "@/lib/depth/sequence";
+import type { DepthSnapshot, DepthStreamMessage, FundingRate, SymbolMarketConfig, Trade } from "@/types";
+
+import {
+  ensureFetch,
+  fetchDepthSnapshotResponse,
+  isRecord,
+  mapDepthEntries,
+  safeNumber,
+  sanitizeStep,
+} from "./http";
+import type {
+  FetchAggTradesParams,
+  FetchFundingRatesParams,
+  FetchKlinesParams,
+  Kline,
+  MarketDataAdapter,
+} from "./types";
+
+export const OKX_REST = "https://www.okx.com/api/v5";
+export const OKX_PUBLIC_STREAM = "wss://ws.okx.com:8443/ws/v5/public";
+const MAX_TRADE_LIMIT = 500;
+const MAX_KLINE_LIMIT = 300;
+const MAX_BOOK_DEPTH = 400;
+const MAX_FUNDING_LIMIT = 400;
+const HEARTBEAT_MS = 25_000;
+const QUOTE_ASSETS = ["USDT", "USDC", "USD"];
+
+const KLINE_BARS: Record<string, { code: string; ms: number }> = {
+  "1m": { code: "1m", ms: 60_000 },
+  "3m": { code: "3m", ms: 3 * 60_000 },
+  "5m": { code: "5m", ms: 5 * 60_000 },
+  "15m": { code: "15m", ms: 15 * 60_000 },
+  "30m": { code: "30m", ms: 30 * 60_000 },
+  "1h": { code: "1H", ms: 60 * 60_000 },
+  "4h": { code: "4H", ms: 4 * 60 * 60_000 },
+  "1d": { code: "1Dutc", ms: 24 * 60 * 60_000 },
+};
+
+interface OkxResponse<T> {
+  code?: string;
+  msg?: string;
+  data?: T[];
+}
+
+interface OkxTradeResponse {
+  tradeId?: string;
+  px?: string;
+  sz?: string;
+  side?: string;
+  ts?: string;
+}
+
+interface OkxInstrument {
+  instId?: string;
+  tickSz?: string;
+  lotSz?: string;
+}
+
+interface OkxFundingRate {
+  fundingRate?: string;
+  realizedRate?: string;
+  fundingTime?: string;
+}
+
+interface OkxBook {
+  asks?: unknown;
+  bids?: unknown;
+  ts?: string;
+  seqId?: number;
+  prevSeqId?: number;
+}
+
+// Trade and book sizes on swaps are in contracts, not base units; the
+// footprint only compares them against each other so they are left as-is.
+export const okxSwapAdapter: MarketDataAdapter = {
+  id: "okx-swap",
+  label: "OKX Perpetual Swap",
+  depthSnapshotSource: "stream",
+  depthSequence: OKX_SEQUENCE,
+  fetchServerTime,
+  fetchAggTrades,
+  fetchKlines,
+  fetchSymbolMarketConfig,
+  fetchDepthSnapshot,
+  fetchFundingRates,
+  tradeStream: (symbol) => subscription("trades", toOkxInstId(symbol)),
+  depthStream: (symbol) => subscription("books", toOkxInstId(symbol)),
+  parseTradeMessage: parseOkxTradeMessage,
+  parseDepthMessage: parseOkxDepthMessage,
+};
+
+// BTCUSDT -> BTC-USDT-SWAP; ids that already carry dashes pass through.
+export function toOkxInstId(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  if (upper.includes("-")) {
+    return upper;
+  }
+  const quote = QUOTE_ASSETS.find((asset) => upper.endsWith(asset) && upper.length > asset.length);
+  if (!quote) {
+    return `${upper}-SWAP`;
+  }
+  return `${upper.slice(0, -quote.length)}-${quote}-SWAP`;
+}
+
+async function fetchServerTime(): Promise<number> {
+  const payload = await request<{ ts?: string }>("/public/time", {});
+  const serverTime = safeNumber(payload[0]?.ts);
+  if (serverTime === null) {
+    throw new Error("Invalid server time response from OKX");
+  }
+  return serverTime;
+}
+
+// The public endpoint only returns the latest trades; `fromId` cannot page.
+async function fetchAggTrades(params: FetchAggTradesParams): Promise<Trade[]> {
+  const { symbol, startTime, endTime, limit = MAX_TRADE_LIMIT } = params;
+  const payload = await request<OkxTradeResponse>("/market/trades", {
+    instId: toOkxInstId(symbol),
+    limit: String(Math.min(Math.max(Math.floor(limit), 1), MAX_TRADE_LIMIT)),
+  });
+  const trades: Trade[] = [];
+  for (const item of payload) {
+    const trade = mapTrade(item.tradeId, item.px, item.sz, item.ts, item.side);
+    if (!trade) {
+      continue;
+    }
+    if (typeof startTime === "number" && trade.timestamp < startTime) {
+      continue;
+    }
+    if (typeof endTime === "number" && trade.timestamp > endTime) {
+      continue;
+    }
+    trades.push(trade);
+  }
+  trades.sort((a, b) => (a.timestamp - b.timestamp) || (a.tradeId - b.tradeId));
+  return trades;
+}
+
+async function fetchKlines(params: FetchKlinesParams): Promise<Kline[]> {
+  const { symbol, interval, limit, startTime, endTime } = params;
+  const mapping = KLINE_BARS[interval];
+  if (!mapping) {
+    throw new Error(`Unsupported OKX kline interval: ${interval}`);
+  }
+  const requested = typeof limit === "number" && Number.isFinite(limit) ? limit : MAX_KLINE_LIMIT;
+  const query: Record<string, string> = {
+    instId: toOkxInstId(symbol),
+    bar: mapping.code,
+    limit: String(Math.min(Math.max(Math.floor(requested), 1), MAX_KLINE_LIMIT)),
+  };
+  // `after` returns candles older than the cursor, `before` newer ones.
+  if (typeof endTime === "number" && Number.isFinite(endTime)) {
+    query.after = String(Math.max(0, Math.floor(endTime)) + 1);
+  }
+  if (typeof startTime === "number" && Number.isFinite(startTime)) {
+    query.before = String(Math.max(0, Math.floor(startTime) - 1));
+  }
+
+  const payload = await request<unknown>("/market/candles", query);
+  const klines: Kline[] = [];
+  for (const entry of payload) {
+    if (!Array.isArray(entry) || entry.length < 6) {
+      continue;
+    }
+    const openTime = safeNumber(entry[0]);
+    const open = safeNumber(entry[1]);
+    const high = safeNumber(entry[2]);
+    const low = safeNumber(entry[3]);
+    const close = safeNumber(entry[4]);
+    const volume = safeNumber(entry[5]);
+    if (openTime === null || open === null || high === null || low === null || close === null) {
+      continue;
+    }
+    klines.push({
+      openTime: Math.trunc(openTime),
+      closeTime: Math.trunc(openTime) + mapping.ms - 1,
+      open,
+      high,
+      low,
+      close,
+      volume: volume !== null ? Math.max(0, volume) : 0,
+      // OKX candles do not report a trade count.
+      trades: 0,
+    });
+  }
+  // OKX lists candles newest first.
+  klines.sort((a, b) => a.openTime - b.openTime);
+  return klines;
+}
+
+async function fetchSymbolMarketConfig(symbol: string): Promise<SymbolMarketConfig | null> {
+  const instId = toOkxInstId(symbol);
+  const payload = await request<OkxInstrument>("/public/instruments", { instType: "SWAP", instId });
+  const info = payload.find((item) => item.instId === instId);
+  if (!info) {
+    return null;
+  }
+  const tickSize = sanitizeStep(safeNumber(info.tickSz), 0.1);
+  const stepSize = sanitizeStep(safeNumber(info.lotSz), tickSize);
+  return {
+    tickSize,
+    stepSize,
+    minPriceStep: tickSize,
+    maxPriceStep: sanitizeStep(tickSize * 40, tickSize * 40, tickSize),
+    // OKX sizes orders in contracts and publishes no notional floor.
+    minNotional: 0,
+  };
+}
+
+async function fetchFundingRates(params: FetchFundingRatesParams): Promise<FundingRate[]> {
+  const { symbol, startTime, endTime, limit = MAX_FUNDING_LIMIT } = params;
+  const query: Record<string, string> = {
+    instId: toOkxInstId(symbol),
+    limit: String(Math.min(Math.max(Math.floor(limit), 1), MAX_FUNDING_LIMIT)),
+  };
+  // Same cursors as candles: `after` pages back, `before` forward.
+  if (typeof endTime === "number" && Number.isFinite(endTime)) {
+    query.after = String(Math.max(0, Math.floor(endTime)) + 1);
+  }
+  if (typeof startTime === "number" && Number.isFinite(startTime)) {
+    query.before = String(Math.max(0, Math.floor(startTime) - 1));
+  }
+  const payload = await request<OkxFundingRate>("/public/funding-rate-history", query);
+  const rates: FundingRate[] = [];
+  for (const item of payload) {
+    const time = safeNumber(item.fundingTime);
+    const rate = safeNumber(item.realizedRate ?? item.fundingRate);
+    if (time !== null && rate !== null) {
+      rates.push({ time: Math.trunc(time), rate });
+    }
+  }
+  rates.sort((a, b) => a.time - b.time);
+  return rates;
+}
+
+// REST books carry no seqId, so this snapshot cannot be stitched onto the
+// stream; the live book is seeded from the channel's own snapshot instead.
+async function fetchDepthSnapshot(symbol: string, limit?: number): Promise<DepthSnapshot> {
+  ensureFetch();
+  const url = new URL(`${OKX_REST}/market/books`);
+  const depth = Math.min(Math.max(Math.floor(limit ?? MAX_BOOK_DEPTH), 1), MAX_BOOK_DEPTH);
+  url.searchParams.set("instId", toOkxInstId(symbol));
+  url.searchParams.set("sz", String(depth));
+  const response = await fetchDepthSnapshotResponse(url.toString());
+  const payload = (await response.json()) as OkxResponse<OkxBook>;
+  const book = payload.data?.[0];
+  if (!book) {
+    throw new Error("Invalid depth snapshot response from OKX");
+  }
+  return {
+    lastUpdateId: 0,
+    bids: mapDepthEntries(book.bids, depth),
+    asks: mapDepthEntries(book.asks, depth),
+    timestamp: safeNumber(book.ts) ?? Date.now(),
+  };
+}
+
+export function parseOkxTradeMessage(raw: string): Trade[] {
+  const parsed = parseChannelMessage(raw, "trades");
+  if (!parsed) {
+    return [];
+  }
+  const trades: Trade[] = [];
+  for (const item of parsed.data) {
+    if (!isRecord(item)) {
+      continue;
+    }
+    const trade = mapTrade(item.tradeId, item.px, item.sz, item.ts, item.side);
+    if (trade) {
+      trades.push(trade);
+    }
+  }
+  return trades;
+}
+
+export function parseOkxDepthMessage(raw: string): DepthStreamMessage[] {
+  const parsed = parseChannelMessage(raw, "books");
+  if (!parsed) {
+    return [];
+  }
+  const messages: DepthStreamMessage[] = [];
+  for (const item of parsed.data) {
+    if (!isRecord(item)) {
+      continue;
+    }
+    const book = item as OkxBook;
+    const seqId = safeNumber(book.seqId);
+    if (seqId === null) {
+      continue;
+    }
+    const timestamp = safeNumber(book.ts) ?? Date.now();
+    const bids = mapDepthEntries(book.bids);
+    const asks = mapDepthEntries(book.asks);
+    if (parsed.action === "snapshot") {
+      messages.push({
+        type: "snapshot",
+        snapshot: { lastUpdateId: Math.trunc(seqId), bids, asks, timestamp },
+      });
+      continue;
+    }
+    const prevSeqId = safeNumber(book.prevSeqId);
+    messages.push({
+      type: "diff",
+      diff: {
+        firstUpdateId: Math.trunc(seqId),
+        finalUpdateId: Math.trunc(seqId),
+        ...(prevSeqId !== null ? { previousUpdateId: Math.trunc(prevSeqId) } : {}),
+        eventTime: timestamp,
+        transactionTime: timestamp,
+        bids,
+        asks,
+      },
+    });
+  }
+  return messages;
+}
+
+// The heartbeat reply is a bare "pong" rather than JSON.
+function parseChannelMessage(raw: string, channel: string): { action?: string; data: unknown[] } | null {
+  if (raw === "pong") {
+    return null;
+  }
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed) || !isRecord(parsed.arg) || parsed.arg.channel !== channel) {
+    return null;
+  }
+  if (!Array.isArray(parsed.data)) {
+    return null;
+  }
+  return {
+    action: typeof parsed.action === "string" ? parsed.action : undefined,
+    data: parsed.data,
+  };
+}
+
+function subscription(channel: string, instId: string) {
+  return {
+    url: OKX_PUBLIC_STREAM,
+    subscribe: [JSON.stringify({ op: "subscribe", args: [{ channel, instId }] })],
+    heartbeat: { intervalMs: HEARTBEAT_MS, message: "ping" },
+  };
+}
+
+function mapTrade(id: unknown, price: unknown, size: unknown, time: unknown, side: unknown): Trade | null {
+  const priceValue = safeNumber(price);
+  const quantity = safeNumber(size);
+  const timestamp = safeNumber(time);
+  if (priceValue === null || quantity === null || timestamp === null) {
+    return null;
+  }
+  const tradeId = safeNumber(id);
+  return {
+    tradeId: tradeId !== null ? Math.trunc(tradeId) : Math.trunc(timestamp),
+    price: priceValue,
+    quantity,
+    timestamp: Math.trunc(timestamp),
+    // `side` is the taker side.
+    isBuyerMaker: side === "sell",
+  };
+}
+
+async function request<T>(path: string, query: Record<string, string>): Promise<T[]> {
+  ensureFetch();
+  const url = new URL(`${OKX_REST}${path}`);
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.set(key, value);
+  }
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(`Failed to fetch OKX ${path}: ${response.status}`);
+  }
+  const payload = (await response.json()) as OkxResponse<T>;
+  if (payload.code !== undefined && payload.code !== "0") {
+    throw new Error(`OKX ${path} error ${payload.code}: ${payload.msg ?? "unknown"}`);
+  }
+  return Array.isArray(payload.data) ? payload.data : [];
+}
@@ -0,0 +1,252 @@
+import type { ConnectionStatus, Trade } from "@/types";
+
+import type { MarketDataAdapter, StreamStatusMeta, StreamSubscription, WSHandlers } from "./types";
+
+const MAX_BACKOFF = 30_000;
+
+interface MarketTradeStreamOptions {
+  handlers?: WSHandlers;
+}
+
+export class MarketTradeStream {
+  private ws: WebSocket | null = null;
+
+  private reconnectAttempts = 0;
+
+  private reconnectTimer: number | null = null;
+
+  private heartbeatTimer: number | null = null;
+
+  private shouldReconnect = true;
+
+  private currentStatus: ConnectionStatus = "connecting";
+
+  private readonly adapter: MarketDataAdapter;
+
+  private readonly subscription: StreamSubscription;
+
+  private readonly handlers: WSHandlers;
+
+  constructor(adapter: MarketDataAdapter, symbol: string, options?: MarketTradeStreamOptions) {
+    const opts = options ?? {};
+    this.adapter = adapter;
+    this.handlers = opts.handlers ? { ...opts.handlers } : {};
+    this.subscription = adapter.tradeStream(symbol);
+  }
+
+  connect() {
+    this.clearTimer();
+    this.shouldReconnect = true;
+    this.reconnectAttempts = 0;
+    this.openConnection();
+  }
+
+  disconnect() {
+    this.shouldReconnect = false;
+    this.clearTimer();
+    this.clearHeartbeat();
+    this.ws?.close();
+    this.ws = null;
+    this.setStatus("disconnected", { attempts: this.reconnectAttempts });
+  }
+
+  private openConnection() {
+    this.clearTimer();
+    const phase: ConnectionStatus = this.reconnectAttempts === 0 ? "connecting" : "reconnecting";
+    this.setStatus(phase, { attempts: this.reconnectAttempts });
+
+    try {
+      this.ws = new WebSocket(this.subscription.url);
+    } catch (error) {
+      this.scheduleReconnect();
+      this.emitError(error);
+      return;
+    }
+
+    this.ws.onopen = () => {
+      const attempts = this.reconnectAttempts;
+      this.reconnectAttempts = 0;
+      for (const frame of this.subscription.subscribe ?? []) {
+        this.ws?.send(frame);
+      }
+      this.startHeartbeat();
+      this.setStatus("connected", { attempts });
+      this.handleOpen();
+    };
+
+    this.ws.onmessage = (event) => {
+      const dispatch = (raw: string) => {
+        this.dispatchMessage(raw);
+      };
+
+      if (typeof event.data === "string") {
+        dispatch(event.data);
+      } else if (event.data instanceof Blob) {
+        event.data
+          .text()
+          .then(dispatch)
+          .catch((error) => {
+            this.emitError(error);
+          });
+      } else {
+        devWarn(`[${this.adapter.id}] Received unsupported WebSocket message type`, event.data);
+      }
+    };
+
+    this.ws.onerror = (event) => {
+      this.setStatus("reconnecting", { attempts: this.reconnectAttempts });
+      const payload = event instanceof ErrorEvent ? event.error ?? event.message : event;
+      this.emitError(payload);
+      this.ws?.close();
+    };
+
+    this.ws.onclose = (event) => {
+      this.clearHeartbeat();
+      this.handleClose(event);
+      if (this.shouldReconnect) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus("disconnected", { attempts: this.reconnectAttempts });
+      }
+    };
+  }
+
+  private dispatchMessage(raw: string) {
+    let trades: Trade[];
+    try {
+      trades = this.adapter.parseTradeMessage(raw);
+    } catch (error) {
+      this.emitError(error);
+      return;
+    }
+    if (!trades.length) {
+      return;
+    }
+    const handler = this.handlers.onTrade;
+    if (typeof handler !== "function") {
+      devWarn(`[${this.adapter.id}] Dropped trade message because onTrade handler is not a function.`);
+      return;
+    }
+    for (const trade of trades) {
+      try {
+        handler(trade);
+      } catch (error) {
+        this.emitError(error);
+      }
+    }
+  }
+
+  private startHeartbeat() {
+    this.clearHeartbeat();
+    const heartbeat = this.subscription.heartbeat;
+    if (!heartbeat) {
+      return;
+    }
+    this.heartbeatTimer = window.setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(heartbeat.message);
+      }
+    }, heartbeat.intervalMs);
+  }
+
+  private clearHeartbeat() {
+    if (this.heartbeatTimer !== null) {
+      window.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private scheduleReconnect() {
+    this.reconnectAttempts += 1;
+    const delay = Math.min(MAX_BACKOFF, 1000 * 2 ** (this.reconnectAttempts - 1));
+    this.clearTimer();
+    this.setStatus("reconnecting", { attempts: this.reconnectAttempts, nextRetryMs: delay });
+    this.reconnectTimer = window.setTimeout(() => this.openConnection(), delay);
+  }
+
+  private clearTimer() {
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: ConnectionStatus, meta?: StreamStatusMeta) {
+    const unchanged = this.currentStatus === status;
+    this.currentStatus = status;
+
+    if (unchanged && !meta) {
+      return;
+    }
+
+    const payload: StreamStatusMeta | undefined = meta
+      ? { ...meta }
+      : { attempts: this.reconnectAttempts };
+
+    if (payload && payload.attempts === undefined) {
+      payload.attempts = this.reconnectAttempts;
+    }
+
+    const handler = this.handlers.onStatusChange;
+    if (typeof handler === "function") {
+      try {
+        handler(status, payload);
+      } catch (error) {
+        this.emitError(error);
+      }
+    }
+  }
+
+  private handleOpen() {
+    const handler = this.handlers.onOpen;
+    if (typeof handler === "function") {
+      try {
+        handler();
+      } catch (error) {
+        this.emitError(error);
+      }
+    }
+  }
+
+  private handleClose(event?: CloseEvent) {
+    const handler = this.handlers.onClose;
+    if (typeof handler === "function") {
+      try {
+        handler(event);
+      } catch (error) {
+        this.emitError(error);
+      }
+    }
+  }
+
+  private emitError(error: unknown) {
+    const handler = this.handlers.onError;
+    if (typeof handler === "function") {
+      try {
+        handler(error);
+        return;
+      } catch (handlerError) {
+        devWarn(`[${this.adapter.id}] onError handler threw`, handlerError);
+      }
+    }
+
+    if (!isProduction()) {
+      console.error(`[${this.adapter.id}] Stream error`, error);
+    }
+  }
+}
+
+function isProduction(): boolean {
+  return typeof process !== "undefined" && process.env?.NODE_ENV === "production";
+}
+
+function devWarn(message: string, ...args: unknown[]): void {
+  if (isProduction()) {
+    return;
+  }
+  if (args.length) {
+    console.warn(message, ...args);
+  } else {
+    console.warn(message);
+  }
+}
@@ -0,0 +1,102 @@
+import type { DepthSequencePolicy } from "@/lib/depth/sequence";
+import type {
+  ConnectionStatus,
+  DepthSnapshot,
+  DepthStreamMessage,
+  ExchangeId,
+  FundingRate,
+  SymbolMarketConfig,
+  Trade,
+} from "@/types";
+
+export type { ExchangeId };
+
+export type KlineInterval = "1m" | "3m" | "5m" | "15m" | "30m" | "1h" | "4h" | "1d";
+
+export interface FetchKlinesParams {
+  symbol: string;
+  interval: KlineInterval | string;
+  limit?: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface Kline {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+}
+
+export interface FetchAggTradesParams {
+  symbol: string;
+  startTime?: number;
+  endTime?: number;
+  fromId?: number;
+  limit?: number;
+}
+
+export interface FetchFundingRatesParams {
+  symbol: string;
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+}
+
+export interface StreamStatusMeta {
+  attempts?: number;
+  nextRetryMs?: number;
+  scope?: "ws" | "snapshot";
+  level?: "success" | "info" | "warning" | "error";
+  message?: string;
+  statusCode?: number;
+}
+
+export interface WSHandlers {
+  onTrade?: (trade: Trade) => void;
+  onDepth?: (payload: unknown) => void;
+  onStatusChange?: (status: ConnectionStatus, meta?: StreamStatusMeta) => void;
+  onError?: (error: unknown) => void;
+  onOpen?: () => void;
+  onClose?: (event?: CloseEvent) => void;
+}
+
+export interface StreamSubscription {
+  url: string;
+  // Frames sent right after the socket opens, for venues that subscribe by message.
+  subscribe?: string[];
+  // Keep-alive frame for venues that drop idle sockets.
+  heartbeat?: { intervalMs: number; message: string };
+}
+
+// Base URLs an adapter talks to; overridden to target a local mock exchange.
+export interface ExchangeEndpoints {
+  restBase: string;
+  streamBase: string;
+}
+
+export interface MarketDataAdapter {
+  readonly id: ExchangeId;
+  readonly label: string;
+  // "rest": a REST snapshot is stitched onto buffered diffs (Binance).
+  // "stream": the depth channel pushes its own snapshot on subscribe.
+  readonly depthSnapshotSource: "rest" | "stream";
+  readonly depthSequence: DepthSequencePolicy;
+  fetchServerTime(): Promise<number>;
+  fetchAggTrades(params: FetchAggTradesParams): Promise<Trade[]>;
+  fetchKlines(params: FetchKlinesParams): Promise<Kline[]>;
+  fetchSymbolMarketConfig(symbol: string): Promise<SymbolMarketConfig | null>;
+  fetchDepthSnapshot(symbol: string, limit?: number): Promise<DepthSnapshot>;
+  // Settled funding, oldest first; empty on spot markets.
+  fetchFundingRates(params: FetchFundingRatesParams): Promise<FundingRate[]>;
+  tradeStream(symbol: string): StreamSubscription;
+  depthStream(symbol: string, levels: number): StreamSubscription;
+  // Both parsers return an empty list for frames they do not handle
+  // (acks, pongs) and throw on malformed JSON.
+  parseTradeMessage(raw: string): Trade[];
+  parseDepthMessage(raw: string): DepthStreamMessage[];
+}
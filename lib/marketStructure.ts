@@ -0,0 +1,121 @@
+import type { FootprintBar, MarketStructure, StructureBreak, StructureTrend, SwingLabel, SwingPivot } from "@/types";
+
+// Bars on each side a pivot has to clear.
+export const DEFAULT_SWING_STRENGTH = 2;
+
+export interface MarketStructureOptions {
+  strength?: number;
+}
+
+// Fractal swing pivots over the traded bars, plus every close through the
+// latest unbroken swing: a BOS when it follows the trend, a CHOCH when it
+// flips it.
+export function buildMarketStructure(bars: FootprintBar[], options: MarketStructureOptions = {}): MarketStructure {
+  const strength = Math.max(1, Math.floor(options.strength ?? DEFAULT_SWING_STRENGTH));
+  const traded = bars.filter((bar) => !bar.skeleton && bar.totalVolume > 0);
+  const pivots = findSwingPivots(traded, strength);
+
+  const breaks: StructureBreak[] = [];
+  let trend: StructureTrend = "range";
+  let activeHigh: SwingPivot | null = null;
+  let activeLow: SwingPivot | null = null;
+  let cursor = 0;
+
+  for (const bar of traded) {
+    while (cursor < pivots.length && pivots[cursor].confirmedAt <= bar.startTime) {
+      const pivot = pivots[cursor];
+      if (pivot.kind === "high") {
+        activeHigh = pivot;
+      } else {
+        activeLow = pivot;
+      }
+      cursor += 1;
+    }
+    if (activeHigh && bar.closePrice > activeHigh.price) {
+      breaks.push({
+        kind: trend === "down" ? "choch" : "bos",
+        direction: "up",
+        time: bar.startTime,
+        price: activeHigh.price,
+        pivotTime: activeHigh.time,
+      });
+      trend = "up";
+      activeHigh = null;
+    } else if (activeLow && bar.closePrice < activeLow.price) {
+      breaks.push({
+        kind: trend === "up" ? "choch" : "bos",
+        direction: "down",
+        time: bar.startTime,
+        price: activeLow.price,
+        pivotTime: activeLow.time,
+      });
+      trend = "down";
+      activeLow = null;
+    }
+  }
+
+  return { pivots, breaks, trend };
+}
+
+// Pivots known at the close of `bars[index]` that no later bar has traded
+// through, most recent first.
+export function getIntactPivots(structure: MarketStructure, bars: FootprintBar[], index: number): SwingPivot[] {
+  const bar = bars[index];
+  if (!bar) {
+    return [];
+  }
+  const known = structure.pivots.filter((pivot) => pivot.confirmedAt <= bar.startTime).reverse();
+  const intact: SwingPivot[] = [];
+  let highest = Number.NEGATIVE_INFINITY;
+  let lowest = Number.POSITIVE_INFINITY;
+  let cursor = index;
+  for (const pivot of known) {
+    while (cursor >= 0 && bars[cursor].startTime > pivot.time) {
+      const item = bars[cursor];
+      if (!item.skeleton && item.totalVolume > 0) {
+        highest = Math.max(highest, item.highPrice);
+        lowest = Math.min(lowest, item.lowPrice);
+      }
+      cursor -= 1;
+    }
+    if (pivot.kind === "high" ? highest <= pivot.price : lowest >= pivot.price) {
+      intact.push(pivot);
+    }
+  }
+  return intact;
+}
+
+function findSwingPivots(bars: FootprintBar[], strength: number): SwingPivot[] {
+  const pivots: SwingPivot[] = [];
+  let lastHigh: SwingPivot | null = null;
+  let lastLow: SwingPivot | null = null;
+  for (let index = strength; index < bars.length - strength; index += 1) {
+    const bar = bars[index];
+    const confirmedAt = bars[index + strength].startTime;
+    if (isPivot(bars, index, strength, "high")) {
+      const label: SwingLabel | null = lastHigh ? (bar.highPrice > lastHigh.price ? "HH" : "LH") : null;
+      lastHigh = { kind: "high", time: bar.startTime, price: bar.highPrice, label, confirmedAt };
+      pivots.push(lastHigh);
+    }
+    if (isPivot(bars, index, strength, "low")) {
+      const label: SwingLabel | null = lastLow ? (bar.lowPrice > lastLow.price ? "HL" : "LL") : null;
+      lastLow = { kind: "low", time: bar.startTime, price: bar.lowPrice, label, confirmedAt };
+      pivots.push(lastLow);
+    }
+  }
+  return pivots;
+}
+
+// Strictly beyond the bars before it, at least level with the bars after it,
+// so equal highs or lows only count once.
+function isPivot(bars: FootprintBar[], index: number, strength: number, kind: SwingPivot["kind"]): boolean {
+  const price = kind === "high" ? bars[index].highPrice : bars[index].lowPrice;
+  for (let offset = 1; offset <= strength; offset += 1) {
+    const before = bars[index - offset];
+    const after = bars[index + offset];
+    if (kind === "high" ? before.highPrice >= price || after.highPrice > price : before.lowPrice <= price || after.lowPrice < price) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,563 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+
+import { systemClock, type Clock } from "@/lib/clock";
+import { DepthOrderBook } from "@/lib/depth/book";
+import type { ExchangeEndpoints } from "@/lib/exchanges/types";
+import { FUNDING_INTERVAL_MS } from "@/lib/trading/funding";
+import type { DepthDiff, DepthLevel, ReplayEvent, Trade } from "@/types";
+
+import { createSeededRandom, type MockMarketSource } from "./source";
+import { acceptWebSocket, type MockSocket } from "./websocket";
+
+export interface MockExchangeFaults {
+  // Drops every open socket on this schedule.
+  disconnectEveryMs?: number;
+  // Chance per depth update that a few update ids are skipped.
+  gapProbability?: number;
+  // Chance per tick that two trades in the batch are sent swapped.
+  outOfOrderProbability?: number;
+  // Chance per REST depth request that it fails with `snapshotFailureStatus`.
+  snapshotFailureRate?: number;
+  snapshotFailureStatus?: number;
+}
+
+export interface MockExchangeOptions {
+  source: MockMarketSource;
+  symbol?: string;
+  host?: string;
+  // 0 picks a free port.
+  port?: number;
+  // Interval of the emit loop; 0 leaves ticking to the caller.
+  tickMs?: number;
+  // Tape generated before start, served by the REST history endpoints.
+  historyMs?: number;
+  tickSize?: number;
+  stepSize?: number;
+  // Rate every funding settlement reports.
+  fundingRate?: number;
+  faults?: MockExchangeFaults;
+  seed?: number;
+  clock?: Clock;
+}
+
+// Base URLs in the shape the Binance adapters expect.
+export interface MockExchangeEndpoints {
+  futures: ExchangeEndpoints;
+  spot: ExchangeEndpoints;
+}
+
+interface StoredTrade {
+  id: number;
+  trade: Trade;
+}
+
+interface StreamClient {
+  socket: MockSocket;
+  streams: Set<string>;
+}
+
+const REST_PREFIXES = ["/fapi/v1", "/api/v3"];
+const MAX_STORED_TRADES = 50_000;
+const MAX_AGG_TRADE_LIMIT = 1000;
+const MAX_KLINE_LIMIT = 1500;
+const MAX_FUNDING_LIMIT = 1000;
+const BOOK_LEVELS = 1000;
+const DEFAULT_GAP_SIZE = 5;
+const INITIAL_UPDATE_ID = 1_000;
+
+const KLINE_INTERVAL_MS: Record<string, number> = {
+  "1m": 60_000,
+  "3m": 3 * 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "30m": 30 * 60_000,
+  "1h": 60 * 60_000,
+  "4h": 4 * 60 * 60_000,
+  "1d": 24 * 60 * 60_000,
+};
+
+// Serves a market source with Binance's combined-stream and REST payloads so
+// the app and integration tests can run offline, with optional faults.
+export class MockExchangeServer {
+  private readonly options: Required<Omit<MockExchangeOptions, "faults">>;
+
+  private faults: MockExchangeFaults;
+
+  private readonly random: () => number;
+
+  private readonly book = new DepthOrderBook({ maxLevels: BOOK_LEVELS });
+
+  private server: Server | null = null;
+
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  private clients = new Set<StreamClient>();
+
+  private trades: StoredTrade[] = [];
+
+  private nextTradeId = 1;
+
+  private lastUpdateId = INITIAL_UPDATE_ID;
+
+  private pendingGap = 0;
+
+  private pendingSwaps = 0;
+
+  private pendingSnapshotFailures: number[] = [];
+
+  private lastDisconnectAt = 0;
+
+  constructor(options: MockExchangeOptions) {
+    this.options = {
+      source: options.source,
+      symbol: (options.symbol ?? "BTCUSDT").toUpperCase(),
+      host: options.host ?? "127.0.0.1",
+      port: options.port ?? 0,
+      tickMs: Math.max(0, options.tickMs ?? 100),
+      historyMs: Math.max(0, options.historyMs ?? 30 * 60_000),
+      tickSize: options.tickSize ?? 0.1,
+      stepSize: options.stepSize ?? 0.001,
+      fundingRate: options.fundingRate ?? 0.0001,
+      seed: options.seed ?? 1,
+      clock: options.clock ?? systemClock,
+    };
+    this.faults = { ...(options.faults ?? {}) };
+    this.random = createSeededRandom(this.options.seed);
+  }
+
+  async start(): Promise<MockExchangeEndpoints> {
+    if (this.server) {
+      throw new Error("Mock exchange already running");
+    }
+    const now = this.options.clock();
+    this.options.source.start(now - this.options.historyMs);
+    // History is stored but not broadcast; nobody is connected yet.
+    this.ingest(this.options.source.pull(now), false);
+    this.lastDisconnectAt = now;
+
+    const server = createServer((request, response) => this.handleRequest(request, response));
+    server.on("upgrade", (request, socket) => this.handleUpgrade(request, socket));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    if (this.options.tickMs > 0) {
+      this.tickTimer = setInterval(() => this.tick(), this.options.tickMs);
+    }
+    return this.getEndpoints();
+  }
+
+  async stop(): Promise<void> {
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    for (const client of this.clients) {
+      client.socket.terminate();
+    }
+    this.clients.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  getEndpoints(): MockExchangeEndpoints {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error("Mock exchange is not running");
+    }
+    const origin = `${this.options.host}:${address.port}`;
+    const streamBase = `ws://${origin}/stream?streams=`;
+    return {
+      futures: { restBase: `http://${origin}/fapi/v1`, streamBase },
+      spot: { restBase: `http://${origin}/api/v3`, streamBase },
+    };
+  }
+
+  getConnectionCount(): number {
+    return this.clients.size;
+  }
+
+  getLastUpdateId(): number {
+    return this.lastUpdateId;
+  }
+
+  setFaults(partial: MockExchangeFaults) {
+    this.faults = { ...this.faults, ...partial };
+  }
+
+  // Emits everything the source has due up to the current clock.
+  tick() {
+    const now = this.options.clock();
+    const disconnectEvery = this.faults.disconnectEveryMs ?? 0;
+    if (disconnectEvery > 0 && now - this.lastDisconnectAt >= disconnectEvery) {
+      this.dropConnections();
+    }
+    this.ingest(this.options.source.pull(now), true);
+  }
+
+  // `clean` sends a close frame; otherwise the TCP connection is cut.
+  dropConnections(options?: { clean?: boolean }) {
+    this.lastDisconnectAt = this.options.clock();
+    for (const client of Array.from(this.clients)) {
+      if (options?.clean) {
+        client.socket.close();
+      } else {
+        client.socket.terminate();
+      }
+    }
+    this.clients.clear();
+  }
+
+  // The next depth update skips `size` ids, as if events were lost in transit.
+  injectDepthGap(size = DEFAULT_GAP_SIZE) {
+    this.pendingGap += Math.max(1, Math.floor(size));
+  }
+
+  // Each pending swap sends a later trade ahead of an earlier one.
+  injectOutOfOrderTrades(count = 1) {
+    this.pendingSwaps += Math.max(1, Math.floor(count));
+  }
+
+  failNextSnapshots(count = 1, status = 503) {
+    for (let index = 0; index < Math.max(1, Math.floor(count)); index += 1) {
+      this.pendingSnapshotFailures.push(status);
+    }
+  }
+
+  private ingest(events: ReplayEvent[], broadcast: boolean) {
+    const trades: StoredTrade[] = [];
+    for (const event of events) {
+      if (event.kind === "trade") {
+        const stored = { id: this.nextTradeId, trade: { ...event.trade, tradeId: this.nextTradeId } };
+        this.nextTradeId += 1;
+        this.trades.push(stored);
+        trades.push(stored);
+        continue;
+      }
+      const message = event.message;
+      if (message.type === "snapshot") {
+        // Binance never pushes snapshots; the book is replaced silently and
+        // clients pick it up on their next REST refresh.
+        this.book.applySnapshot({ ...message.snapshot, lastUpdateId: this.lastUpdateId });
+        continue;
+      }
+      const diff = this.numberDiff(message.diff);
+      if (broadcast) {
+        this.broadcast("depth", depthUpdatePayload(this.options.symbol, diff));
+      }
+    }
+    if (this.trades.length > MAX_STORED_TRADES) {
+      this.trades = this.trades.slice(-MAX_STORED_TRADES);
+    }
+    if (broadcast && trades.length) {
+      this.applySwaps(trades);
+      for (const stored of trades) {
+        this.broadcast("aggTrade", aggTradePayload(this.options.symbol, stored));
+      }
+    }
+  }
+
+  private numberDiff(source: DepthDiff): DepthDiff {
+    let gap = this.pendingGap;
+    this.pendingGap = 0;
+    if (!gap && (this.faults.gapProbability ?? 0) > this.random()) {
+      gap = DEFAULT_GAP_SIZE;
+    }
+    // Recorded diffs keep their original id span; synthetic ones use one id.
+    const span = Math.max(1, source.finalUpdateId - source.firstUpdateId + 1);
+    const firstUpdateId = this.lastUpdateId + 1 + gap;
+    const finalUpdateId = firstUpdateId + span - 1;
+    const diff: DepthDiff = {
+      ...source,
+      firstUpdateId,
+      finalUpdateId,
+      // The id of the event that was "lost" when a gap is injected.
+      previousUpdateId: firstUpdateId - 1,
+    };
+    // The server's own book never sees the gap.
+    this.book.applyDiff({ ...diff, firstUpdateId: this.lastUpdateId + 1 });
+    this.lastUpdateId = finalUpdateId;
+    return diff;
+  }
+
+  private applySwaps(trades: StoredTrade[]) {
+    let swaps = this.pendingSwaps;
+    this.pendingSwaps = 0;
+    if (!swaps && (this.faults.outOfOrderProbability ?? 0) > this.random()) {
+      swaps = 1;
+    }
+    for (let index = trades.length - 1; index > 0 && swaps > 0; index -= 2) {
+      [trades[index - 1], trades[index]] = [trades[index], trades[index - 1]];
+      swaps -= 1;
+    }
+    // Carry the remainder to the next batch when this one was too small.
+    this.pendingSwaps += swaps;
+  }
+
+  private broadcast(kind: "aggTrade" | "depth", data: Record<string, unknown>) {
+    const symbol = this.options.symbol.toLowerCase();
+    for (const client of this.clients) {
+      for (const stream of client.streams) {
+        const matches =
+          kind === "aggTrade" ? stream === `${symbol}@aggTrade` : stream.startsWith(`${symbol}@depth`);
+        if (matches) {
+          client.socket.send(JSON.stringify({ stream, data }));
+        }
+      }
+    }
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex) {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname !== "/stream" && url.pathname !== "/ws") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    const mock = acceptWebSocket(request, socket);
+    if (!mock) {
+      return;
+    }
+    const streams = (url.searchParams.get("streams") ?? "")
+      .split("/")
+      .map((stream) => stream.trim())
+      .filter(Boolean);
+    const client: StreamClient = { socket: mock, streams: new Set(streams) };
+    this.clients.add(client);
+    mock.onClose(() => {
+      this.clients.delete(client);
+    });
+  }
+
+  private handleRequest(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const prefix = REST_PREFIXES.find((candidate) => url.pathname.startsWith(`${candidate}/`));
+    const route = prefix ? url.pathname.slice(prefix.length) : null;
+    const params = url.searchParams;
+
+    switch (route) {
+      case "/time":
+        sendJson(response, 200, { serverTime: this.options.clock() });
+        return;
+      case "/aggTrades":
+        sendJson(response, 200, this.queryAggTrades(params));
+        return;
+      case "/klines":
+        sendJson(response, 200, this.queryKlines(params));
+        return;
+      case "/fundingRate":
+        sendJson(response, 200, this.queryFundingRates(params));
+        return;
+      case "/exchangeInfo":
+        sendJson(response, 200, this.exchangeInfo(params.get("symbol")));
+        return;
+      case "/depth":
+        this.handleDepth(params, response);
+        return;
+      default:
+        sendJson(response, 404, { code: -1, msg: `Unknown endpoint ${url.pathname}` });
+    }
+  }
+
+  private handleDepth(params: URLSearchParams, response: ServerResponse) {
+    let failure = this.pendingSnapshotFailures.shift();
+    if (failure === undefined && (this.faults.snapshotFailureRate ?? 0) > this.random()) {
+      failure = this.faults.snapshotFailureStatus ?? 503;
+    }
+    if (failure !== undefined) {
+      sendJson(response, failure, { code: -1, msg: "Injected snapshot failure" });
+      return;
+    }
+    const limit = clampInteger(params.get("limit"), 1, BOOK_LEVELS, 100);
+    const now = this.options.clock();
+    sendJson(response, 200, {
+      lastUpdateId: this.lastUpdateId,
+      E: now,
+      T: now,
+      bids: this.book.getLevels("bid").slice(0, limit).map(toLevelTuple),
+      asks: this.book.getLevels("ask").slice(0, limit).map(toLevelTuple),
+    });
+  }
+
+  private queryAggTrades(params: URLSearchParams) {
+    if (!this.matchesSymbol(params.get("symbol"))) {
+      return [];
+    }
+    const limit = clampInteger(params.get("limit"), 1, MAX_AGG_TRADE_LIMIT, 500);
+    const fromId = params.has("fromId") ? Number(params.get("fromId")) : null;
+    const startTime = params.has("startTime") ? Number(params.get("startTime")) : null;
+    const endTime = params.has("endTime") ? Number(params.get("endTime")) : null;
+    const selected: StoredTrade[] = [];
+    for (const stored of this.trades) {
+      if (fromId !== null && stored.id < fromId) {
+        continue;
+      }
+      if (startTime !== null && stored.trade.timestamp < startTime) {
+        continue;
+      }
+      if (endTime !== null && stored.trade.timestamp > endTime) {
+        break;
+      }
+      selected.push(stored);
+      if (selected.length >= limit) {
+        break;
+      }
+    }
+    // Without a window Binance returns the most recent trades.
+    const result = fromId === null && startTime === null && endTime === null ? this.trades.slice(-limit) : selected;
+    return result.map((stored) => aggTradePayload(this.options.symbol, stored));
+  }
+
+  private queryKlines(params: URLSearchParams) {
+    const intervalMs = KLINE_INTERVAL_MS[params.get("interval") ?? ""];
+    if (!intervalMs || !this.matchesSymbol(params.get("symbol"))) {
+      return [];
+    }
+    const limit = clampInteger(params.get("limit"), 1, MAX_KLINE_LIMIT, 500);
+    const startTime = params.has("startTime") ? Number(params.get("startTime")) : -Infinity;
+    const endTime = params.has("endTime") ? Number(params.get("endTime")) : Infinity;
+    const buckets = new Map<number, unknown[]>();
+    for (const { trade } of this.trades) {
+      if (trade.timestamp < startTime || trade.timestamp > endTime) {
+        continue;
+      }
+      const openTime = Math.floor(trade.timestamp / intervalMs) * intervalMs;
+      const kline = buckets.get(openTime);
+      const quote = trade.price * trade.quantity;
+      if (!kline) {
+        buckets.set(openTime, [
+          openTime,
+          String(trade.price),
+          String(trade.price),
+          String(trade.price),
+          String(trade.price),
+          String(trade.quantity),
+          openTime + intervalMs - 1,
+          String(quote),
+          1,
+          String(trade.isBuyerMaker ? 0 : trade.quantity),
+          String(trade.isBuyerMaker ? 0 : quote),
+          "0",
+        ]);
+        continue;
+      }
+      kline[2] = String(Math.max(Number(kline[2]), trade.price));
+      kline[3] = String(Math.min(Number(kline[3]), trade.price));
+      kline[4] = String(trade.price);
+      kline[5] = String(Number(kline[5]) + trade.quantity);
+      kline[7] = String(Number(kline[7]) + quote);
+      kline[8] = Number(kline[8]) + 1;
+      if (!trade.isBuyerMaker) {
+        kline[9] = String(Number(kline[9]) + trade.quantity);
+        kline[10] = String(Number(kline[10]) + quote);
+      }
+    }
+    const klines = Array.from(buckets.values()).sort((a, b) => Number(a[0]) - Number(b[0]));
+    return params.has("startTime") ? klines.slice(0, limit) : klines.slice(-limit);
+  }
+
+  // Settlements on the 8h grid; without a start, the latest `limit` of them.
+  private queryFundingRates(params: URLSearchParams) {
+    if (!this.matchesSymbol(params.get("symbol"))) {
+      return [];
+    }
+    const limit = clampInteger(params.get("limit"), 1, MAX_FUNDING_LIMIT, 100);
+    const endTime = params.has("endTime") ? Number(params.get("endTime")) : this.options.clock();
+    const last = Math.floor(endTime / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS;
+    const first = params.has("startTime")
+      ? Math.ceil(Number(params.get("startTime")) / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS
+      : last - (limit - 1) * FUNDING_INTERVAL_MS;
+    const rates: Array<{ symbol: string; fundingTime: number; fundingRate: string }> = [];
+    for (let time = first; time <= last && rates.length < limit; time += FUNDING_INTERVAL_MS) {
+      rates.push({ symbol: this.options.symbol, fundingTime: time, fundingRate: String(this.options.fundingRate) });
+    }
+    return rates;
+  }
+
+  private exchangeInfo(symbol: string | null) {
+    if (symbol && !this.matchesSymbol(symbol)) {
+      return { symbols: [] };
+    }
+    return {
+      symbols: [
+        {
+          symbol: this.options.symbol,
+          filters: [
+            {
+              filterType: "PRICE_FILTER",
+              tickSize: String(this.options.tickSize),
+              minPrice: String(this.options.tickSize),
+              maxPrice: "1000000",
+            },
+            { filterType: "LOT_SIZE", stepSize: String(this.options.stepSize) },
+            { filterType: "MIN_NOTIONAL", notional: "5" },
+          ],
+        },
+      ],
+    };
+  }
+
+  private matchesSymbol(symbol: string | null): boolean {
+    return !symbol || symbol.toUpperCase() === this.options.symbol;
+  }
+}
+
+function aggTradePayload(symbol: string, stored: StoredTrade) {
+  const { trade } = stored;
+  return {
+    e: "aggTrade",
+    E: trade.timestamp,
+    s: symbol,
+    a: stored.id,
+    p: String(trade.price),
+    q: String(trade.quantity),
+    f: stored.id,
+    l: stored.id,
+    T: trade.timestamp,
+    m: trade.isBuyerMaker,
+  };
+}
+
+function depthUpdatePayload(symbol: string, diff: DepthDiff) {
+  return {
+    e: "depthUpdate",
+    E: diff.eventTime,
+    T: diff.transactionTime,
+    s: symbol,
+    U: diff.firstUpdateId,
+    u: diff.finalUpdateId,
+    pu: diff.previousUpdateId,
+    b: diff.bids.map(toLevelTuple),
+    a: diff.asks.map(toLevelTuple),
+  };
+}
+
+function toLevelTuple(level: DepthLevel): [string, string] {
+  return [String(level.price), String(level.quantity)];
+}
+
+function clampInteger(value: string | null, min: number, max: number, fallback: number): number {
+  const numeric = Number(value);
+  if (value === null || !Number.isFinite(numeric)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.floor(numeric)));
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    // The app fetches from another origin during development.
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body));
+}
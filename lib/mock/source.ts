@@ -0,0 +1,217 @@
+import { decodeChunk } from "@/lib/replay/codec";
+import type { RecorderStorage } from "@/lib/replay/storage";
+import type { DepthLevel, DepthStreamMessage, ReplayEvent, Trade } from "@/types";
+
+// Feeds the mock exchange. `start` anchors the tape at a server time and
+// `pull` returns everything due up to `until`, already on server time.
+// Depth update ids are placeholders; the server numbers them itself.
+export interface MockMarketSource {
+  start(now: number): void;
+  pull(until: number): ReplayEvent[];
+}
+
+export interface SyntheticSourceOptions {
+  seed?: number;
+  startPrice?: number;
+  tickSize?: number;
+  tradesPerSecond?: number;
+  depthIntervalMs?: number;
+  depthLevels?: number;
+}
+
+export interface DatasetSourceOptions {
+  // Tape milliseconds per server millisecond.
+  speed?: number;
+  // Restart from the beginning once the tape runs out.
+  loop?: boolean;
+}
+
+const DEFAULT_SYNTHETIC: Required<SyntheticSourceOptions> = {
+  seed: 1,
+  startPrice: 100,
+  tickSize: 0.1,
+  tradesPerSecond: 20,
+  depthIntervalMs: 100,
+  depthLevels: 50,
+};
+
+// Random-walk tape with a book that follows the last price.
+export function createSyntheticSource(options?: SyntheticSourceOptions): MockMarketSource {
+  const config = { ...DEFAULT_SYNTHETIC, ...(options ?? {}) };
+  const random = createSeededRandom(config.seed);
+  const tradeSpacing = 1_000 / Math.max(0.1, config.tradesPerSecond);
+  let price = config.startPrice;
+  let nextTradeAt = 0;
+  let nextDepthAt = 0;
+  let tradeId = 0;
+  let snapshotSent = false;
+  let quotedPrice = price;
+
+  const roundPrice = (value: number) => Number((Math.round(value / config.tickSize) * config.tickSize).toFixed(8));
+
+  const buildLevels = (side: "bid" | "ask", count: number): DepthLevel[] => {
+    const levels: DepthLevel[] = [];
+    for (let index = 0; index < count; index += 1) {
+      const offset = (index + 1) * config.tickSize;
+      levels.push({
+        price: roundPrice(side === "bid" ? price - offset : price + offset),
+        quantity: Number((0.5 + random() * 5).toFixed(3)),
+      });
+    }
+    return levels;
+  };
+
+  // Levels the price walked through are pulled so the book never crosses.
+  const crossedLevels = (): { bids: DepthLevel[]; asks: DepthLevel[] } => {
+    const removed: DepthLevel[] = [];
+    const steps = Math.round(Math.abs(price - quotedPrice) / config.tickSize);
+    for (let index = 0; index < steps; index += 1) {
+      const level = price > quotedPrice ? quotedPrice + (index + 1) * config.tickSize : price + index * config.tickSize;
+      removed.push({ price: roundPrice(level), quantity: 0 });
+    }
+    const up = price > quotedPrice;
+    quotedPrice = price;
+    return up ? { bids: [], asks: removed } : { bids: removed, asks: [] };
+  };
+
+  return {
+    start(now) {
+      nextTradeAt = now;
+      nextDepthAt = now;
+      snapshotSent = false;
+    },
+    pull(until) {
+      const events: ReplayEvent[] = [];
+      if (!snapshotSent) {
+        snapshotSent = true;
+        quotedPrice = price;
+        events.push({
+          kind: "depth",
+          timestamp: nextDepthAt,
+          message: {
+            type: "snapshot",
+            snapshot: {
+              lastUpdateId: 0,
+              bids: buildLevels("bid", config.depthLevels),
+              asks: buildLevels("ask", config.depthLevels),
+              timestamp: nextDepthAt,
+            },
+          },
+        });
+      }
+      while (nextTradeAt <= until || nextDepthAt <= until) {
+        if (nextTradeAt <= nextDepthAt) {
+          const step = random() < 0.5 ? -1 : 1;
+          price = Math.max(config.tickSize, roundPrice(price + (random() < 0.3 ? step * config.tickSize : 0)));
+          tradeId += 1;
+          const trade: Trade = {
+            tradeId,
+            price,
+            quantity: Number((0.01 + random() * 2).toFixed(3)),
+            timestamp: Math.floor(nextTradeAt),
+            isBuyerMaker: random() < 0.5,
+          };
+          events.push({ kind: "trade", timestamp: trade.timestamp, trade });
+          nextTradeAt += tradeSpacing * (0.5 + random());
+        } else {
+          const timestamp = Math.floor(nextDepthAt);
+          const removed = crossedLevels();
+          const message: DepthStreamMessage = {
+            type: "diff",
+            diff: {
+              firstUpdateId: 0,
+              finalUpdateId: 0,
+              eventTime: timestamp,
+              transactionTime: timestamp,
+              bids: [...removed.bids, ...buildLevels("bid", 3)],
+              asks: [...removed.asks, ...buildLevels("ask", 3)],
+            },
+          };
+          events.push({ kind: "depth", timestamp, message });
+          nextDepthAt += config.depthIntervalMs;
+        }
+      }
+      return events;
+    },
+  };
+}
+
+// Replays recorded events with their original spacing, shifted to server time.
+export function createDatasetSource(events: ReplayEvent[], options?: DatasetSourceOptions): MockMarketSource {
+  const tape = [...events].sort((a, b) => a.timestamp - b.timestamp);
+  const speed = options?.speed && options.speed > 0 ? options.speed : 1;
+  const loop = options?.loop ?? true;
+  const tapeStart = tape.length ? tape[0].timestamp : 0;
+  const tapeDuration = tape.length ? tape[tape.length - 1].timestamp - tapeStart + 1 : 0;
+  let anchor = 0;
+  let cursor = 0;
+
+  const toServerTime = (timestamp: number) => anchor + Math.floor((timestamp - tapeStart) / speed);
+
+  return {
+    start(now) {
+      anchor = now;
+      cursor = 0;
+    },
+    pull(until) {
+      const due: ReplayEvent[] = [];
+      while (tape.length) {
+        if (cursor >= tape.length) {
+          if (!loop) {
+            break;
+          }
+          anchor += Math.ceil(tapeDuration / speed);
+          cursor = 0;
+        }
+        const event = tape[cursor];
+        const timestamp = toServerTime(event.timestamp);
+        if (timestamp > until) {
+          break;
+        }
+        due.push(shiftEvent(event, timestamp));
+        cursor += 1;
+      }
+      return due;
+    },
+  };
+}
+
+export async function loadDatasetEvents(storage: RecorderStorage, datasetId: string): Promise<ReplayEvent[]> {
+  const chunks = await storage.listChunks(datasetId);
+  const events: ReplayEvent[] = [];
+  for (const chunk of chunks) {
+    const payload = await storage.getChunkData(chunk.id);
+    if (!payload) {
+      continue;
+    }
+    events.push(...decodeChunk(payload, chunk));
+  }
+  return events;
+}
+
+// Mulberry32; deterministic tapes and fault schedules for a given seed.
+export function createSeededRandom(seed: number): () => number {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function shiftEvent(event: ReplayEvent, timestamp: number): ReplayEvent {
+  if (event.kind === "trade") {
+    return { kind: "trade", timestamp, trade: { ...event.trade, timestamp } };
+  }
+  const message = event.message;
+  if (message.type === "snapshot") {
+    return { kind: "depth", timestamp, message: { type: "snapshot", snapshot: { ...message.snapshot, timestamp } } };
+  }
+  return {
+    kind: "depth",
+    timestamp,
+    message: { type: "diff", diff: { ...message.diff, eventTime: timestamp, transactionTime: timestamp } },
+  };
+}
@@ -0,0 +1,234 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { request } from "node:http";
+import type { Duplex } from "node:stream";
+
+// Just enough of RFC 6455 for the mock exchange: unfragmented text frames,
+// ping/pong and close. Node 20 ships neither a WebSocket server nor a client.
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+interface DecodedFrame {
+  opcode: number;
+  payload: Buffer;
+}
+
+export class MockSocket {
+  private readonly socket: Duplex;
+
+  // Clients must mask what they send; servers must not.
+  private readonly masked: boolean;
+
+  private buffer = Buffer.alloc(0);
+
+  private closed = false;
+
+  private readonly messageListeners = new Set<(text: string) => void>();
+
+  private readonly closeListeners = new Set<() => void>();
+
+  constructor(socket: Duplex, masked: boolean) {
+    this.socket = socket;
+    this.masked = masked;
+    socket.on("data", (chunk: Buffer) => this.handleData(chunk));
+    socket.on("close", () => this.handleClose());
+    socket.on("error", () => this.handleClose());
+  }
+
+  isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string) {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, "utf8"), this.masked));
+    }
+  }
+
+  // A clean close frame followed by the end of the TCP stream.
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.socket.write(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0), this.masked));
+    this.socket.end();
+    this.handleClose();
+  }
+
+  // Drops the TCP connection without a close frame, like a network failure.
+  terminate() {
+    this.socket.destroy();
+    this.handleClose();
+  }
+
+  onMessage(listener: (text: string) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => {
+      this.closeListeners.delete(listener);
+    };
+  }
+
+  private handleData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const decoded = decodeFrame(this.buffer);
+      if (!decoded) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(decoded.consumed);
+      this.handleFrame(decoded.frame);
+    }
+  }
+
+  private handleFrame(frame: DecodedFrame) {
+    if (frame.opcode === OPCODE_TEXT) {
+      const text = frame.payload.toString("utf8");
+      for (const listener of this.messageListeners) {
+        listener(text);
+      }
+    } else if (frame.opcode === OPCODE_PING) {
+      this.socket.write(encodeFrame(OPCODE_PONG, frame.payload, this.masked));
+    } else if (frame.opcode === OPCODE_CLOSE) {
+      this.close();
+    }
+  }
+
+  private handleClose() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const listener of this.closeListeners) {
+      listener();
+    }
+  }
+}
+
+// Completes the server side of the opening handshake; null when the request
+// is not a WebSocket upgrade.
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): MockSocket | null {
+  const key = request.headers["sec-websocket-key"];
+  if (typeof key !== "string" || request.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+  const accept = createHash("sha1").update(`${key}${HANDSHAKE_GUID}`).digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+  return new MockSocket(socket, false);
+}
+
+// Minimal client for Node-side tests and scripts.
+export function connectWebSocket(url: string): Promise<MockSocket> {
+  const target = new URL(url.replace(/^ws/, "http"));
+  const key = randomBytes(16).toString("base64");
+  return new Promise((resolve, reject) => {
+    const req = request({
+      hostname: target.hostname,
+      port: target.port,
+      path: `${target.pathname}${target.search}`,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": key,
+        "Sec-WebSocket-Version": "13",
+      },
+    });
+    req.on("upgrade", (_response, socket, head) => {
+      if (head.length) {
+        socket.unshift(head);
+      }
+      resolve(new MockSocket(socket, true));
+    });
+    req.on("response", (response) => {
+      reject(new Error(`WebSocket upgrade rejected: ${response.statusCode}`));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+function encodeFrame(opcode: number, payload: Buffer, masked: boolean): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65_536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeUInt32BE(Math.floor(length / 0x100000000), 2);
+    header.writeUInt32BE(length >>> 0, 6);
+  }
+  header[0] = 0x80 | opcode;
+  if (!masked) {
+    return Buffer.concat([header, payload]);
+  }
+  header[1] |= 0x80;
+  const mask = randomBytes(4);
+  const body = Buffer.from(payload);
+  for (let index = 0; index < body.length; index += 1) {
+    body[index] ^= mask[index % 4];
+  }
+  return Buffer.concat([header, mask, body]);
+}
+
+function decodeFrame(buffer: Buffer): { frame: DecodedFrame; consumed: number } | null {
+  if (buffer.length < 2) {
+    return null;
+  }
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return null;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return null;
+    }
+    length = buffer.readUInt32BE(2) * 0x100000000 + buffer.readUInt32BE(6);
+    offset = 10;
+  }
+  const maskOffset = offset;
+  if (masked) {
+    offset += 4;
+  }
+  if (buffer.length < offset + length) {
+    return null;
+  }
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let index = 0; index < payload.length; index += 1) {
+      payload[index] ^= buffer[maskOffset + (index % 4)];
+    }
+  }
+  return { frame: { opcode, payload }, consumed: offset + length };
+}
@@ -0,0 +1,224 @@
+import { FootprintAggregator, parseTimeframe, timeframeToMs } from "@/lib/aggregator";
+import type {
+  DepthStreamMessage,
+  FootprintState,
+  HigherTimeframeContext,
+  HistoricalFootprintBarSeed,
+  SignalControlState,
+  Timeframe,
+  Trade,
+  VwapAnchor,
+} from "@/types";
+
+export interface MultiTimeframeSettings {
+  activeTimeframe: Timeframe;
+  // Timeframes kept up to date in the background; the active one is always included.
+  timeframes: Timeframe[];
+  priceStep: number;
+  maxBars: number;
+  depthSequence?: string;
+}
+
+export const DEFAULT_CONTEXT_TIMEFRAMES: Timeframe[] = ["1m", "5m", "15m"];
+
+// Trades kept to build a timeframe added later; the hook's history seeds
+// cover what came before them.
+const RECENT_TRADE_LIMIT = 20_000;
+
+export class MultiTimeframeAggregator {
+  private settings: MultiTimeframeSettings;
+
+  private aggregators = new Map<Timeframe, FootprintAggregator>();
+
+  private signalConfig: SignalControlState | null = null;
+
+  private vwapAnchors: VwapAnchor[] = [];
+
+  private recentTrades: Trade[] = [];
+
+  constructor(settings: MultiTimeframeSettings) {
+    this.settings = { ...settings, timeframes: [...settings.timeframes] };
+    this.syncAggregators();
+  }
+
+  getActiveTimeframe(): Timeframe {
+    return this.settings.activeTimeframe;
+  }
+
+  getTimeframes(): Timeframe[] {
+    return Array.from(this.aggregators.keys());
+  }
+
+  // Switching to a configured timeframe only changes which aggregator is
+  // reported, as it already holds its bars. Any other one is built from the
+  // recent trades and the current book, maintained while active and dropped
+  // once the user leaves it.
+  setActiveTimeframe(timeframe: Timeframe): FootprintState {
+    this.settings.activeTimeframe = timeframe;
+    this.syncAggregators();
+    this.publishContexts();
+    return this.getState();
+  }
+
+  updateSettings(
+    partial: Partial<Omit<MultiTimeframeSettings, "activeTimeframe">>,
+    options?: { reset?: boolean },
+  ) {
+    this.settings = {
+      ...this.settings,
+      ...partial,
+      timeframes: partial.timeframes ? [...partial.timeframes] : this.settings.timeframes,
+    };
+    if (options?.reset) {
+      this.recentTrades = [];
+    }
+    this.syncAggregators();
+    for (const aggregator of this.aggregators.values()) {
+      aggregator.updateSettings(
+        {
+          priceStep: this.settings.priceStep,
+          maxBars: this.settings.maxBars,
+          depthSequence: this.settings.depthSequence,
+        },
+        { reset: options?.reset },
+      );
+    }
+    this.publishContexts();
+  }
+
+  updateSignalConfig(config: SignalControlState) {
+    this.signalConfig = config;
+    for (const aggregator of this.aggregators.values()) {
+      aggregator.updateSignalConfig(config);
+    }
+  }
+
+  setVwapAnchors(anchors: VwapAnchor[]) {
+    this.vwapAnchors = anchors.map((anchor) => ({ ...anchor }));
+    for (const aggregator of this.aggregators.values()) {
+      aggregator.setVwapAnchors(this.vwapAnchors);
+    }
+  }
+
+  reset() {
+    this.recentTrades = [];
+    for (const aggregator of this.aggregators.values()) {
+      aggregator.reset();
+    }
+  }
+
+  ingestTrades(trades: Trade[]): FootprintState {
+    this.recentTrades = this.recentTrades.concat(trades);
+    if (this.recentTrades.length > RECENT_TRADE_LIMIT) {
+      this.recentTrades = this.recentTrades.slice(-RECENT_TRADE_LIMIT);
+    }
+    for (const [timeframe, aggregator] of this.aggregators) {
+      if (timeframe !== this.settings.activeTimeframe) {
+        aggregator.appendTrades(trades);
+      }
+    }
+    this.publishContexts();
+    return this.getActiveAggregator().ingestTrades(trades);
+  }
+
+  ingestDepth(messages: DepthStreamMessage[]): FootprintState {
+    for (const [timeframe, aggregator] of this.aggregators) {
+      if (timeframe !== this.settings.activeTimeframe) {
+        aggregator.appendDepth(messages);
+      }
+    }
+    return this.getActiveAggregator().ingestDepth(messages);
+  }
+
+  seedSkeletonBars(seeds: HistoricalFootprintBarSeed[], timeframe: Timeframe = this.settings.activeTimeframe) {
+    this.aggregators.get(timeframe)?.seedSkeletonBars(seeds);
+  }
+
+  getState(): FootprintState {
+    return this.getActiveAggregator().getState();
+  }
+
+  private getActiveAggregator(): FootprintAggregator {
+    const aggregator = this.aggregators.get(this.settings.activeTimeframe);
+    if (!aggregator) {
+      throw new Error(`Timeframe not maintained: ${this.settings.activeTimeframe}`);
+    }
+    return aggregator;
+  }
+
+  private syncAggregators() {
+    const wanted = new Set<Timeframe>([this.settings.activeTimeframe, ...this.settings.timeframes]);
+    // Every aggregator follows the same book, so any of them can hand it over.
+    const bookSource = this.aggregators.values().next().value ?? null;
+    for (const timeframe of Array.from(this.aggregators.keys())) {
+      if (!wanted.has(timeframe)) {
+        this.aggregators.delete(timeframe);
+      }
+    }
+    for (const timeframe of wanted) {
+      if (this.aggregators.has(timeframe)) {
+        continue;
+      }
+      const aggregator = new FootprintAggregator({
+        timeframeMs: timeframeToMs(timeframe),
+        barSpec: parseTimeframe(timeframe),
+        priceStep: this.settings.priceStep,
+        maxBars: this.settings.maxBars,
+        depthSequence: this.settings.depthSequence,
+      });
+      if (this.signalConfig) {
+        aggregator.updateSignalConfig(this.signalConfig);
+      }
+      if (this.vwapAnchors.length) {
+        aggregator.setVwapAnchors(this.vwapAnchors);
+      }
+      // Trades first, while the book is empty: against the current book the
+      // old prints would start absorption tracking.
+      aggregator.appendTrades(this.recentTrades);
+      if (bookSource) {
+        aggregator.copyBookFrom(bookSource);
+      }
+      this.aggregators.set(timeframe, aggregator);
+    }
+  }
+
+  private publishContexts() {
+    const contexts = new Map<Timeframe, HigherTimeframeContext | null>();
+    for (const [timeframe, aggregator] of this.aggregators) {
+      const contextTimeframe = resolveContextTimeframe(timeframe, this.getTimeframes());
+      if (!contextTimeframe) {
+        aggregator.pushHigherTimeframeContext(null);
+        continue;
+      }
+      if (!contexts.has(contextTimeframe)) {
+        contexts.set(
+          contextTimeframe,
+          this.aggregators.get(contextTimeframe)?.getTimeframeContext(contextTimeframe) ?? null,
+        );
+      }
+      const context = contexts.get(contextTimeframe);
+      if (context) {
+        aggregator.pushHigherTimeframeContext(context);
+      }
+    }
+  }
+}
+
+// The largest maintained time-bar timeframe above the given one serves as context.
+export function resolveContextTimeframe(timeframe: Timeframe, available: Timeframe[]): Timeframe | null {
+  const spec = parseTimeframe(timeframe);
+  const baseMs = spec.type === "time" ? spec.size : 0;
+  let best: Timeframe | null = null;
+  let bestMs = baseMs;
+  for (const candidate of available) {
+    const candidateSpec = parseTimeframe(candidate);
+    if (candidateSpec.type !== "time") {
+      continue;
+    }
+    if (candidateSpec.size > bestMs) {
+      best = candidate;
+      bestMs = candidateSpec.size;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,296 @@
+import { FootprintAggregator, parseTimeframe, timeframeToMs } from "@/lib/aggregator";
+import { TapeClock, getDayKey } from "@/lib/clock";
+import { getMarketDataAdapter } from "@/lib/exchanges";
+import { createDefaultSignalControlState } from "@/lib/signals";
+import { TradingEngine, createDailyPerformance } from "@/lib/trading/engine";
+import type {
+  ClosedTrade,
+  DailyPerformance,
+  DepthStreamMessage,
+  FootprintState,
+  FundingRate,
+  ObjectiveInvalidationKpis,
+  Position,
+  ReplayEvent,
+  SignalControlState,
+  Timeframe,
+  Trade,
+  TradingSettings,
+  TradingState,
+  TradingTimelineEntry,
+} from "@/types";
+
+import { decodeChunk } from "./codec";
+import type { RecorderStorage } from "./storage";
+
+export interface BacktestOptions {
+  timeframe?: Timeframe;
+  priceStep?: number;
+  maxBars?: number;
+  // Positions in the dataset's chunk list, end exclusive.
+  chunkRange?: { start: number; end: number };
+  // Chunks before the range that only warm up bars and percentile history.
+  warmupChunks?: number;
+  signalConfig?: Partial<SignalControlState>;
+  tradingSettings?: Partial<TradingSettings>;
+  // Funding settlements over the dataset; none accrues without them.
+  fundingRates?: FundingRate[];
+  onProgress?: (progress: number) => void;
+}
+
+export interface BacktestResult {
+  datasetId: string;
+  symbol: string;
+  timeframe: Timeframe;
+  priceStep: number;
+  startTime: number | null;
+  endTime: number | null;
+  tradesProcessed: number;
+  depthUpdatesProcessed: number;
+  signalCount: number;
+  trades: ClosedTrade[];
+  openPositions: Position[];
+  overall: DailyPerformance;
+  daily: DailyPerformance[];
+  kpis: ObjectiveInvalidationKpis[];
+  timeline: TradingTimelineEntry[];
+  state: TradingState;
+}
+
+// Batching mirrors how useFootprint feeds the worker in live/replay mode so
+// signals are evaluated at the same cadence as in the browser.
+const TRADE_BATCH_SIZE = 150;
+const TRADE_FLUSH_INTERVAL_MS = 200;
+const DEPTH_BATCH_SIZE = 6;
+const DEPTH_FLUSH_INTERVAL_MS = 80;
+const DEFAULT_MAX_BARS = 400;
+
+export async function runBacktest(
+  storage: RecorderStorage,
+  datasetId: string,
+  options: BacktestOptions = {},
+): Promise<BacktestResult> {
+  const dataset = await storage.getDataset(datasetId);
+  if (!dataset) {
+    throw new Error("Backtest dataset not found");
+  }
+
+  const timeframe = options.timeframe ?? dataset.timeframe;
+  const priceStep = options.priceStep ?? dataset.priceStep;
+  const timeframeMs = timeframeToMs(timeframe);
+
+  const allChunks = await storage.listChunks(datasetId);
+  const rangeStart = clampIndex(options.chunkRange?.start ?? 0, allChunks.length);
+  const rangeEnd = clampIndex(options.chunkRange?.end ?? allChunks.length, allChunks.length);
+  const warmupStart = clampIndex(rangeStart - Math.max(0, options.warmupChunks ?? 0), allChunks.length);
+  const warmupChunks = allChunks.slice(warmupStart, rangeStart);
+  const chunks = allChunks.slice(rangeStart, Math.max(rangeStart, rangeEnd));
+
+  const aggregator = new FootprintAggregator({
+    timeframeMs,
+    barSpec: parseTimeframe(timeframe),
+    priceStep,
+    maxBars: options.maxBars ?? DEFAULT_MAX_BARS,
+  });
+  const defaultConfig = createDefaultSignalControlState();
+  aggregator.updateSignalConfig({
+    mode: options.signalConfig?.mode ?? defaultConfig.mode,
+    evaluation: options.signalConfig?.evaluation ?? defaultConfig.evaluation,
+    enabledStrategies: {
+      ...defaultConfig.enabledStrategies,
+      ...(options.signalConfig?.enabledStrategies ?? {}),
+    },
+    overrides: { ...(options.signalConfig?.overrides ?? {}) },
+    strategyParams: { ...(options.signalConfig?.strategyParams ?? {}) },
+  });
+
+  const clock = new TapeClock(warmupChunks[0]?.startTime ?? chunks[0]?.startTime ?? dataset.startTime ?? 0);
+  const trades: ClosedTrade[] = [];
+  const timeline: TradingTimelineEntry[] = [];
+  const kpis: ObjectiveInvalidationKpis[] = [];
+  const signalIds = new Set<string>();
+
+  const engine = new TradingEngine({
+    priceStep,
+    timeframeMs,
+    settings: options.tradingSettings,
+    clock: clock.now,
+    depthSequence: getMarketDataAdapter(dataset.exchange).depthSequence,
+    onTradeClosed: (trade) => {
+      trades.push(trade);
+    },
+    onTimelineEntry: (entry) => {
+      timeline.push(entry);
+    },
+  });
+  if (options.fundingRates) {
+    engine.updateFundingRates(options.fundingRates);
+  }
+
+  let tradeBatch: Trade[] = [];
+  let tradeBatchStart = 0;
+  let depthBatch: DepthStreamMessage[] = [];
+  let depthBatchStart = 0;
+  let tradesProcessed = 0;
+  let depthUpdatesProcessed = 0;
+  let currentDay: string | null = null;
+  let warming = warmupChunks.length > 0;
+  const warmupSignalIds = new Set<string>();
+
+  const syncState = (state: FootprintState) => {
+    if (warming) {
+      for (const signal of state.signals) {
+        warmupSignalIds.add(signal.id);
+      }
+      return;
+    }
+    const signals = warmupSignalIds.size
+      ? state.signals.filter((signal) => !warmupSignalIds.has(signal.id))
+      : state.signals;
+    for (const signal of signals) {
+      signalIds.add(signal.id);
+    }
+    engine.syncSignals(signals, state.bars);
+  };
+
+  const flushTrades = () => {
+    if (!tradeBatch.length) {
+      return;
+    }
+    const batch = tradeBatch;
+    tradeBatch = [];
+    syncState(aggregator.ingestTrades(batch));
+  };
+
+  const flushDepth = () => {
+    if (!depthBatch.length) {
+      return;
+    }
+    const batch = depthBatch;
+    depthBatch = [];
+    syncState(aggregator.ingestDepth(batch));
+  };
+
+  const closeDay = () => {
+    const state = engine.getState();
+    if (currentDay && state.kpis.day === currentDay) {
+      kpis.push(state.kpis);
+    }
+  };
+
+  const processEvent = (event: ReplayEvent) => {
+    const day = getDayKey(event.timestamp);
+    if (!warming && currentDay !== null && day !== currentDay) {
+      flushTrades();
+      flushDepth();
+      closeDay();
+    }
+    currentDay = day;
+    clock.advance(event.timestamp);
+
+    if (event.kind === "trade") {
+      flushDepth();
+      if (!warming) {
+        tradesProcessed += 1;
+        // Fills are checked tick by tick before the aggregator sees the trade,
+        // exactly like pushTrade() does in the hook.
+        engine.handleTrade(event.trade);
+      }
+      if (!tradeBatch.length) {
+        tradeBatchStart = event.timestamp;
+      }
+      tradeBatch.push(event.trade);
+      if (
+        tradeBatch.length >= TRADE_BATCH_SIZE ||
+        event.timestamp - tradeBatchStart >= TRADE_FLUSH_INTERVAL_MS
+      ) {
+        flushTrades();
+      }
+      return;
+    }
+
+    flushTrades();
+    if (!warming) {
+      depthUpdatesProcessed += 1;
+    }
+    // The engine mirrors the book for queue-aware fills, warmup included.
+    engine.handleDepth(event.message);
+    if (!depthBatch.length) {
+      depthBatchStart = event.timestamp;
+    }
+    depthBatch.push(event.message);
+    if (
+      event.message.type === "snapshot" ||
+      depthBatch.length >= DEPTH_BATCH_SIZE ||
+      event.timestamp - depthBatchStart >= DEPTH_FLUSH_INTERVAL_MS
+    ) {
+      flushDepth();
+    }
+  };
+
+  for (const chunk of warmupChunks) {
+    const payload = await storage.getChunkData(chunk.id);
+    if (payload) {
+      for (const event of decodeChunk(payload, chunk)) {
+        processEvent(event);
+      }
+    }
+  }
+  flushTrades();
+  flushDepth();
+  warming = false;
+  currentDay = null;
+
+  for (let index = 0; index < chunks.length; index += 1) {
+    const chunk = chunks[index];
+    const payload = await storage.getChunkData(chunk.id);
+    if (payload) {
+      for (const event of decodeChunk(payload, chunk)) {
+        processEvent(event);
+      }
+    }
+    options.onProgress?.((index + 1) / chunks.length);
+  }
+
+  flushTrades();
+  flushDepth();
+  closeDay();
+
+  const finalState = engine.getState();
+  const startingBalance = finalState.settings.startingBalance;
+  const days = Array.from(new Set(trades.map((trade) => trade.day))).sort();
+  let dayStartBalance = startingBalance;
+  const daily = days.map((day) => {
+    const dayTrades = trades.filter((trade) => trade.day === day);
+    const performance = createDailyPerformance(day, dayTrades, dayStartBalance);
+    dayStartBalance += performance.totals.netPnl;
+    return performance;
+  });
+  const overallLabel = days.length > 1 ? `${days[0]}..${days[days.length - 1]}` : days[0] ?? "";
+
+  return {
+    datasetId,
+    symbol: dataset.symbol,
+    timeframe,
+    priceStep,
+    startTime: chunks[0]?.startTime ?? null,
+    endTime: chunks[chunks.length - 1]?.endTime ?? null,
+    tradesProcessed,
+    depthUpdatesProcessed,
+    signalCount: signalIds.size,
+    trades,
+    openPositions: finalState.positions,
+    overall: createDailyPerformance(overallLabel, trades, startingBalance),
+    daily,
+    kpis,
+    timeline: timeline.map((entry) => ({ ...entry })),
+    state: finalState,
+  };
+}
+
+function clampIndex(value: number, length: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(Math.max(0, Math.floor(value)), length);
+}
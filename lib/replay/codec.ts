@@ -0,0 +1,232 @@
+import { deflate, inflate } from "pako";
+
+import type {
+  DepthLevel,
+  DepthStreamMessage,
+  RecordingChunkMeta,
+  ReplayEvent,
+  Trade,
+} from "@/types";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Trades are stored as bare JSON lines (the original chunk format); depth
+// messages are tagged so older trade-only chunks keep decoding unchanged.
+export function encodeChunk(events: ReplayEvent[]): Uint8Array {
+  const lines = events.map((event) =>
+    event.kind === "trade"
+      ? JSON.stringify(event.trade)
+      : JSON.stringify({ kind: "depth", message: event.message }),
+  );
+  return deflate(encoder.encode(lines.join("\n")), { level: 6 });
+}
+
+export function decodeChunk(
+  payload: Uint8Array,
+  meta: RecordingChunkMeta,
+): ReplayEvent[] {
+  const bytes = meta.compressed ? inflate(payload) : payload;
+  const text = decoder.decode(bytes);
+  const trades: SequencedEvent[] = [];
+  const depth: SequencedEvent[] = [];
+  let sequence = 0;
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (isRecord(parsed) && parsed.kind === "depth") {
+        const message = normalizeDepthMessage(parsed.message);
+        if (message) {
+          depth.push({
+            sequence,
+            event: {
+              kind: "depth",
+              timestamp: getDepthMessageTimestamp(message),
+              message,
+            },
+          });
+        }
+      } else {
+        const trade = normalizeTrade(parsed);
+        if (trade) {
+          trades.push({
+            sequence,
+            event: { kind: "trade", timestamp: trade.timestamp, trade },
+          });
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to parse replay chunk entry", error);
+    }
+    sequence += 1;
+  }
+
+  trades.sort(compareTrades);
+  return mergeByTimestamp(trades, depth);
+}
+
+export function getDepthMessageTimestamp(message: DepthStreamMessage): number {
+  if (message.type === "snapshot") {
+    return message.snapshot.timestamp;
+  }
+  return message.diff.transactionTime || message.diff.eventTime;
+}
+
+interface SequencedEvent {
+  sequence: number;
+  event: ReplayEvent;
+}
+
+function compareTrades(a: SequencedEvent, b: SequencedEvent): number {
+  const tradeA = a.event.kind === "trade" ? a.event.trade : null;
+  const tradeB = b.event.kind === "trade" ? b.event.trade : null;
+  return (
+    a.event.timestamp - b.event.timestamp ||
+    (tradeA && tradeB ? tradeA.tradeId - tradeB.tradeId : 0) ||
+    a.sequence - b.sequence
+  );
+}
+
+// Depth messages are never reordered among themselves: update ids must be
+// applied in the order they were received, even if exchange timestamps jitter.
+function mergeByTimestamp(
+  trades: SequencedEvent[],
+  depth: SequencedEvent[],
+): ReplayEvent[] {
+  const merged: ReplayEvent[] = [];
+  let tradeIndex = 0;
+  let depthIndex = 0;
+
+  while (tradeIndex < trades.length || depthIndex < depth.length) {
+    const trade = trades[tradeIndex];
+    const update = depth[depthIndex];
+    if (!update) {
+      merged.push(trade.event);
+      tradeIndex += 1;
+      continue;
+    }
+    if (!trade) {
+      merged.push(update.event);
+      depthIndex += 1;
+      continue;
+    }
+    const depthFirst =
+      update.event.timestamp < trade.event.timestamp ||
+      (update.event.timestamp === trade.event.timestamp &&
+        update.sequence < trade.sequence);
+    if (depthFirst) {
+      merged.push(update.event);
+      depthIndex += 1;
+    } else {
+      merged.push(trade.event);
+      tradeIndex += 1;
+    }
+  }
+
+  return merged;
+}
+
+function normalizeTrade(value: unknown): Trade | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const price = Number(value.price);
+  const quantity = Number(value.quantity);
+  const timestamp = Number(value.timestamp);
+  if (
+    !Number.isFinite(price) ||
+    !Number.isFinite(quantity) ||
+    !Number.isFinite(timestamp)
+  ) {
+    return null;
+  }
+  const tradeIdRaw = value.tradeId ?? value.id ?? timestamp;
+  const tradeId = Number.isFinite(Number(tradeIdRaw))
+    ? Math.trunc(Number(tradeIdRaw))
+    : Math.trunc(timestamp);
+  return {
+    tradeId,
+    price,
+    quantity,
+    timestamp,
+    isBuyerMaker: Boolean(value.isBuyerMaker),
+  };
+}
+
+function normalizeDepthMessage(value: unknown): DepthStreamMessage | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  if (value.type === "snapshot" && isRecord(value.snapshot)) {
+    const snapshot = value.snapshot;
+    const lastUpdateId = Number(snapshot.lastUpdateId);
+    const timestamp = Number(snapshot.timestamp);
+    if (!Number.isFinite(lastUpdateId) || !Number.isFinite(timestamp)) {
+      return null;
+    }
+    return {
+      type: "snapshot",
+      snapshot: {
+        lastUpdateId: Math.trunc(lastUpdateId),
+        timestamp,
+        bids: normalizeLevels(snapshot.bids),
+        asks: normalizeLevels(snapshot.asks),
+      },
+    };
+  }
+  if (value.type === "diff" && isRecord(value.diff)) {
+    const diff = value.diff;
+    const firstUpdateId = Number(diff.firstUpdateId);
+    const finalUpdateId = Number(diff.finalUpdateId);
+    const eventTime = Number(diff.eventTime);
+    const transactionTime = Number(diff.transactionTime ?? diff.eventTime);
+    const previousUpdateId = Number(diff.previousUpdateId);
+    if (
+      !Number.isFinite(firstUpdateId) ||
+      !Number.isFinite(finalUpdateId) ||
+      !Number.isFinite(eventTime)
+    ) {
+      return null;
+    }
+    return {
+      type: "diff",
+      diff: {
+        firstUpdateId: Math.trunc(firstUpdateId),
+        finalUpdateId: Math.trunc(finalUpdateId),
+        ...(Number.isFinite(previousUpdateId) ? { previousUpdateId: Math.trunc(previousUpdateId) } : {}),
+        eventTime,
+        transactionTime: Number.isFinite(transactionTime) ? transactionTime : eventTime,
+        bids: normalizeLevels(diff.bids),
+        asks: normalizeLevels(diff.asks),
+      },
+    };
+  }
+  return null;
+}
+
+function normalizeLevels(value: unknown): DepthLevel[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const levels: DepthLevel[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+    const price = Number(entry.price);
+    const quantity = Number(entry.quantity);
+    if (Number.isFinite(price) && Number.isFinite(quantity)) {
+      levels.push({ price, quantity });
+    }
+  }
+  return levels;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
@@ -1,15 +1,22 @@
-import { deflate } from "pako";
-
+import { systemClock, type Clock } from "@/lib/clock";
+import { DepthGapError, DepthOrderBook } from "@/lib/depth/book";
+import { getMarketDataAdapter } from "@/lib/exchanges";
 import type {
+  DepthStreamMessage,
+  ExchangeId,
   RecordingChunkMeta,
   RecordingDatasetSummary,
+  ReplayEvent,
   Timeframe,
   Trade,
 } from "@/types";
 
+import { encodeChunk, getDepthMessageTimestamp } from "./codec";
 import { createRecorderStorage, type RecorderStorage } from "./storage";
 
 export interface RecorderContext {
+  // Picks the depth sequence rules for the mirrored book.
+  exchange?: ExchangeId;
   symbol: string;
   timeframe: Timeframe;
   priceStep: number;
@@ -22,6 +29,8 @@ export interface RecorderOptions {
   chunkTradeTarget?: number;
   maxDatasets?: number;
   maxTotalBytes?: number;
+  // Server-offset-corrected in live mode so dataset timestamps line up with trades.
+  clock?: Clock;
   onDatasetUpdate?: (dataset: RecordingDatasetSummary) => void;
 }
 
@@ -30,8 +39,6 @@ const DEFAULT_CHUNK_TRADE_TARGET = 10_000;
 const DEFAULT_MAX_DATASETS = 6;
 const DEFAULT_MAX_TOTAL_BYTES = 300 * 1024 * 1024; // ~300MB
 
-const encoder = new TextEncoder();
-
 export class AggTradeRecorder {
   private readonly storage: RecorderStorage;
 
@@ -39,7 +46,19 @@ export class AggTradeRecorder {
 
   private activeDataset: RecordingDatasetSummary | null = null;
 
-  private chunkBuffer: Trade[] = [];
+  private chunkBuffer: ReplayEvent[] = [];
+
+  private chunkTradeCount = 0;
+
+  private chunkDepthCount = 0;
+
+  // Mirror of the live book so every chunk can open with a snapshot and be
+  // replayed on its own.
+  private readonly depthBook = new DepthOrderBook();
+
+  private depthSynced = false;
+
+  private depthSymbol: string | null = null;
 
   private chunkStartTime: number | null = null;
 
@@ -58,6 +77,7 @@ export class AggTradeRecorder {
       chunkTradeTarget: options?.chunkTradeTarget ?? DEFAULT_CHUNK_TRADE_TARGET,
       maxDatasets: options?.maxDatasets ?? DEFAULT_MAX_DATASETS,
       maxTotalBytes: options?.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES,
+      clock: options?.clock ?? systemClock,
       onDatasetUpdate: options?.onDatasetUpdate ?? (() => {}),
     };
   }
@@ -77,10 +97,20 @@ export class AggTradeRecorder {
   async start(context: RecorderContext): Promise<RecordingDatasetSummary> {
     await this.flushPending(true);
 
-    const now = Date.now();
+    const now = this.options.clock();
+    if (this.depthSymbol !== context.symbol) {
+      this.resetDepthBook();
+      this.depthSymbol = context.symbol;
+    }
+    const sequence = getMarketDataAdapter(context.exchange).depthSequence;
+    if (sequence.id !== this.depthBook.getSequencePolicy().id) {
+      this.depthBook.setSequencePolicy(sequence);
+      this.depthSynced = false;
+    }
     const dataset: RecordingDatasetSummary = {
-      id: context.datasetId ?? generateDatasetId(),
+      id: context.datasetId ?? generateDatasetId(now),
       label: context.label ?? buildDefaultLabel(context.symbol, now),
+      ...(context.exchange ? { exchange: context.exchange } : {}),
       symbol: context.symbol,
       timeframe: context.timeframe,
       priceStep: context.priceStep,
@@ -89,6 +119,7 @@ export class AggTradeRecorder {
       startTime: null,
       endTime: null,
       totalTrades: 0,
+      totalDepthUpdates: 0,
       totalBytes: 0,
       chunkCount: 0,
       durationMs: 0,
@@ -96,6 +127,8 @@ export class AggTradeRecorder {
 
     this.activeDataset = dataset;
     this.chunkBuffer = [];
+    this.chunkTradeCount = 0;
+    this.chunkDepthCount = 0;
     this.chunkStartTime = null;
     this.chunkEndTime = null;
     this.chunkIndex = 0;
@@ -117,9 +150,13 @@ export class AggTradeRecorder {
     }
     this.activeDataset = null;
     this.chunkBuffer = [];
+    this.chunkTradeCount = 0;
+    this.chunkDepthCount = 0;
     this.chunkStartTime = null;
     this.chunkEndTime = null;
     this.chunkIndex = 0;
+    this.depthSymbol = null;
+    this.resetDepthBook();
   }
 
   async record(trade: Trade): Promise<void> {
@@ -127,29 +164,94 @@ export class AggTradeRecorder {
       return;
     }
 
-    this.chunkBuffer.push({ ...trade });
+    this.appendEvent({ kind: "trade", timestamp: trade.timestamp, trade: { ...trade } });
+
+    if (this.shouldFlush()) {
+      await this.queueFlush();
+    }
+  }
+
+  async recordDepth(message: DepthStreamMessage): Promise<void> {
+    const timestamp = getDepthMessageTimestamp(message);
 
-    if (this.chunkStartTime === null || trade.timestamp < this.chunkStartTime) {
-      this.chunkStartTime = trade.timestamp;
+    if (this.activeDataset) {
+      this.appendEvent({ kind: "depth", timestamp, message: cloneDepthMessage(message) });
     }
-    if (this.chunkEndTime === null || trade.timestamp > this.chunkEndTime) {
-      this.chunkEndTime = trade.timestamp;
+
+    this.applyDepthToBook(message);
+
+    if (this.activeDataset && this.shouldFlush()) {
+      await this.queueFlush();
+    }
+  }
+
+  async listDatasets(): Promise<RecordingDatasetSummary[]> {
+    return this.storage.listDatasets();
+  }
+
+  private appendEvent(event: ReplayEvent) {
+    if (!this.activeDataset) {
+      return;
+    }
+
+    if (!this.chunkBuffer.length && this.depthSynced) {
+      const opensWithSnapshot =
+        event.kind === "depth" && event.message.type === "snapshot";
+      if (!opensWithSnapshot) {
+        this.pushEvent({
+          kind: "depth",
+          timestamp: event.timestamp,
+          message: {
+            type: "snapshot",
+            snapshot: {
+              lastUpdateId: this.depthBook.getLastUpdateId(),
+              bids: this.depthBook.getLevels("bid"),
+              asks: this.depthBook.getLevels("ask"),
+              timestamp: event.timestamp,
+            },
+          },
+        });
+      }
+    }
+
+    this.pushEvent(event);
+  }
+
+  private pushEvent(event: ReplayEvent) {
+    if (!this.activeDataset) {
+      return;
+    }
+    const timestamp = event.timestamp;
+    this.chunkBuffer.push(event);
+
+    if (this.chunkStartTime === null || timestamp < this.chunkStartTime) {
+      this.chunkStartTime = timestamp;
+    }
+    if (this.chunkEndTime === null || timestamp > this.chunkEndTime) {
+      this.chunkEndTime = timestamp;
     }
 
     if (
       this.activeDataset.startTime === null ||
-      trade.timestamp < this.activeDataset.startTime
+      timestamp < this.activeDataset.startTime
     ) {
-      this.activeDataset.startTime = trade.timestamp;
+      this.activeDataset.startTime = timestamp;
     }
     if (
       this.activeDataset.endTime === null ||
-      trade.timestamp > this.activeDataset.endTime
+      timestamp > this.activeDataset.endTime
     ) {
-      this.activeDataset.endTime = trade.timestamp;
+      this.activeDataset.endTime = timestamp;
     }
 
-    this.activeDataset.totalTrades += 1;
+    if (event.kind === "trade") {
+      this.chunkTradeCount += 1;
+      this.activeDataset.totalTrades += 1;
+    } else {
+      this.chunkDepthCount += 1;
+      this.activeDataset.totalDepthUpdates =
+        (this.activeDataset.totalDepthUpdates ?? 0) + 1;
+    }
     if (
       this.activeDataset.startTime !== null &&
       this.activeDataset.endTime !== null
@@ -159,15 +261,31 @@ export class AggTradeRecorder {
         this.activeDataset.endTime - this.activeDataset.startTime,
       );
     }
-    this.activeDataset.updatedAt = Date.now();
+    this.activeDataset.updatedAt = this.options.clock();
+  }
 
-    if (this.shouldFlush()) {
-      await this.queueFlush();
+  private applyDepthToBook(message: DepthStreamMessage) {
+    if (message.type === "snapshot") {
+      this.depthBook.applySnapshot(message.snapshot);
+      this.depthSynced = true;
+      return;
+    }
+    if (!this.depthSynced) {
+      return;
+    }
+    try {
+      this.depthBook.applyDiff(message.diff);
+    } catch (error) {
+      if (!(error instanceof DepthGapError)) {
+        console.warn("Recorder depth mirror failed", error);
+      }
+      this.resetDepthBook();
     }
   }
 
-  async listDatasets(): Promise<RecordingDatasetSummary[]> {
-    return this.storage.listDatasets();
+  private resetDepthBook() {
+    this.depthBook.reset();
+    this.depthSynced = false;
   }
 
   private shouldFlush(): boolean {
@@ -224,17 +342,18 @@ export class AggTradeRecorder {
       return;
     }
 
-    const trades = this.chunkBuffer;
+    const events = this.chunkBuffer;
+    const tradeCount = this.chunkTradeCount;
+    const depthCount = this.chunkDepthCount;
     this.chunkBuffer = [];
+    this.chunkTradeCount = 0;
+    this.chunkDepthCount = 0;
     const startTime = this.chunkStartTime;
     const endTime = this.chunkEndTime;
     this.chunkStartTime = null;
     this.chunkEndTime = null;
 
-    const encoded = encoder.encode(
-      trades.map((trade) => JSON.stringify(trade)).join("\n"),
-    );
-    const compressed = deflate(encoded, { level: 6 });
+    const compressed = encodeChunk(events);
 
     const chunkMeta: RecordingChunkMeta = {
       id: `${this.activeDataset.id}-${String(this.chunkIndex).padStart(6, "0")}`,
@@ -242,9 +361,10 @@ export class AggTradeRecorder {
       index: this.chunkIndex,
       startTime,
       endTime,
-      tradeCount: trades.length,
+      tradeCount,
+      depthCount,
       byteLength: compressed.byteLength,
-      storedAt: Date.now(),
+      storedAt: this.options.clock(),
       compressed: true,
     };
 
@@ -322,14 +442,14 @@ export class AggTradeRecorder {
   }
 }
 
-function generateDatasetId(): string {
+function generateDatasetId(now: number): string {
   if (
     typeof crypto !== "undefined" &&
     typeof crypto.randomUUID === "function"
   ) {
     return `dataset-${crypto.randomUUID()}`;
   }
-  return `dataset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return `dataset-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
 function buildDefaultLabel(symbol: string, timestamp: number): string {
@@ -340,6 +460,27 @@ function buildDefaultLabel(symbol: string, timestamp: number): string {
   return `${symbol.toUpperCase()} ${iso}`;
 }
 
+function cloneDepthMessage(message: DepthStreamMessage): DepthStreamMessage {
+  if (message.type === "snapshot") {
+    return {
+      type: "snapshot",
+      snapshot: {
+        ...message.snapshot,
+        bids: message.snapshot.bids.map((level) => ({ ...level })),
+        asks: message.snapshot.asks.map((level) => ({ ...level })),
+      },
+    };
+  }
+  return {
+    type: "diff",
+    diff: {
+      ...message.diff,
+      bids: message.diff.bids.map((level) => ({ ...level })),
+      asks: message.diff.asks.map((level) => ({ ...level })),
+    },
+  };
+}
+
 function cloneDataset(
   dataset: RecordingDatasetSummary,
 ): RecordingDatasetSummary {
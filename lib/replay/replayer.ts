@@ -1,19 +1,19 @@
-import { inflate } from "pako";
-
 import type {
+  DepthStreamMessage,
   RecordingChunkMeta,
   RecordingDatasetSummary,
+  ReplayEvent,
   ReplaySpeed,
   ReplayStatus,
   Trade,
 } from "@/types";
 
+import { decodeChunk } from "./codec";
 import type { RecorderStorage } from "./storage";
 
-const decoder = new TextDecoder();
-
 export interface ReplayCallbacks {
   onTrade: (trade: Trade) => void;
+  onDepth?: (message: DepthStreamMessage) => void;
   onProgress?: (progress: number) => void;
   onComplete?: () => void;
   onStatusChange?: (status: ReplayStatus) => void;
@@ -37,7 +37,7 @@ export class AggTradeReplayer {
 
   private chunkIndex = 0;
 
-  private buffer: Trade[] = [];
+  private buffer: ReplayEvent[] = [];
 
   private status: ReplayStatus = "idle";
 
@@ -53,6 +53,7 @@ export class AggTradeReplayer {
 
   private callbacks: Required<ReplayCallbacks> = {
     onTrade: () => {},
+    onDepth: () => {},
     onProgress: () => {},
     onComplete: () => {},
     onStatusChange: () => {},
@@ -80,6 +81,7 @@ export class AggTradeReplayer {
     this.accelerated = Boolean(options.accelerated);
     this.callbacks = {
       onTrade: options.onTrade,
+      onDepth: options.onDepth ?? (() => {}),
       onProgress: options.onProgress ?? (() => {}),
       onComplete: options.onComplete ?? (() => {}),
       onStatusChange: options.onStatusChange ?? (() => {}),
@@ -182,8 +184,8 @@ export class AggTradeReplayer {
         }
         continue;
       }
-      const trade = this.buffer.shift()!;
-      this.deliverTrade(trade);
+      const event = this.buffer.shift()!;
+      this.deliverEvent(event);
     }
 
     if (this.status === "playing") {
@@ -226,12 +228,12 @@ export class AggTradeReplayer {
     let delivered = 0;
 
     while (this.buffer.length) {
-      const trade = this.buffer[0];
-      if (trade.timestamp > targetTimestamp) {
+      const event = this.buffer[0];
+      if (event.timestamp > targetTimestamp) {
         break;
       }
       this.buffer.shift();
-      this.deliverTrade(trade);
+      this.deliverEvent(event);
       delivered += 1;
     }
 
@@ -262,9 +264,13 @@ export class AggTradeReplayer {
     return this.baseTimestamp + elapsedSim;
   }
 
-  private deliverTrade(trade: Trade) {
-    this.callbacks.onTrade(trade);
-    this.lastDeliveredTimestamp = trade.timestamp;
+  private deliverEvent(event: ReplayEvent) {
+    if (event.kind === "trade") {
+      this.callbacks.onTrade(event.trade);
+    } else {
+      this.callbacks.onDepth(event.message);
+    }
+    this.lastDeliveredTimestamp = event.timestamp;
     this.reportProgress();
   }
 
@@ -310,11 +316,11 @@ export class AggTradeReplayer {
       return false;
     }
     try {
-      const trades = decodeChunk(payload, meta);
-      if (trades.length) {
-        this.buffer.push(...trades);
+      const events = decodeChunk(payload, meta);
+      if (events.length) {
+        this.buffer.push(...events);
         if (!this.baseTimestamp) {
-          this.baseTimestamp = trades[0].timestamp;
+          this.baseTimestamp = events[0].timestamp;
         }
         return true;
       }
@@ -336,58 +342,6 @@ export class AggTradeReplayer {
   }
 }
 
-function decodeChunk(payload: Uint8Array, meta: RecordingChunkMeta): Trade[] {
-  const bytes = meta.compressed ? inflate(payload) : payload;
-  const text = decoder.decode(bytes);
-  const lines = text
-    .split("\n")
-    .map((line) => line.trim())
-    .filter(Boolean);
-  const trades: Trade[] = [];
-
-  for (const line of lines) {
-    try {
-      const parsed = JSON.parse(line);
-      const trade = normalizeTrade(parsed);
-      if (trade) {
-        trades.push(trade);
-      }
-    } catch (error) {
-      console.warn("Failed to parse replay trade", error);
-    }
-  }
-
-  trades.sort((a, b) => a.timestamp - b.timestamp || a.tradeId - b.tradeId);
-  return trades;
-}
-
-function normalizeTrade(value: any): Trade | null {
-  if (!value) {
-    return null;
-  }
-  const price = Number(value.price);
-  const quantity = Number(value.quantity);
-  const timestamp = Number(value.timestamp);
-  if (
-    !Number.isFinite(price) ||
-    !Number.isFinite(quantity) ||
-    !Number.isFinite(timestamp)
-  ) {
-    return null;
-  }
-  const tradeIdRaw = value.tradeId ?? value.id ?? timestamp;
-  const tradeId = Number.isFinite(Number(tradeIdRaw))
-    ? Math.trunc(Number(tradeIdRaw))
-    : Math.trunc(timestamp);
-  return {
-    tradeId,
-    price,
-    quantity,
-    timestamp,
-    isBuyerMaker: Boolean(value.isBuyerMaker),
-  };
-}
-
 function now(): number {
   if (
     typeof performance !== "undefined" &&
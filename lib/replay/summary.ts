@@ -1,9 +1,8 @@
-import { inflate } from "pako";
-
-import { FootprintAggregator, timeframeToMs } from "@/lib/aggregator";
+import { FootprintAggregator, parseTimeframe, timeframeToMs } from "@/lib/aggregator";
 import { MODE_PRESETS, createDefaultSignalControlState } from "@/lib/signals";
 import type {
-  RecordingChunkMeta,
+  DepthStreamMessage,
+  ReplayEvent,
   ReplayMetrics,
   ReplayModeSummary,
   SignalControlState,
@@ -11,9 +10,32 @@ import type {
   Trade,
 } from "@/types";
 
+import { decodeChunk } from "./codec";
 import type { RecorderStorage } from "./storage";
+import { computeSweepMetrics, type SweepMetrics } from "./sweep";
+import { runWalkForward, type WalkForwardOptions } from "./walkforward";
+
+export interface WalkForwardSummaryRow {
+  window: number;
+  trainStart: number | null;
+  trainEnd: number | null;
+  testStart: number | null;
+  testEnd: number | null;
+  parameters: string;
+  inSample: SweepMetrics;
+  outOfSample: SweepMetrics;
+}
 
-const decoder = new TextDecoder();
+export interface WalkForwardSummary {
+  datasetId: string;
+  rows: WalkForwardSummaryRow[];
+  outOfSample: SweepMetrics & {
+    windows: number;
+    profitableWindows: number;
+    // Mean out-of-sample expectancy over mean in-sample expectancy.
+    efficiency: number | null;
+  };
+}
 
 export async function computeReplayMetrics(
   storage: RecorderStorage,
@@ -33,6 +55,7 @@ export async function computeReplayMetrics(
   const estimatedBars = estimateMaxBars(dataset.durationMs, timeframeMs);
   const aggregator = new FootprintAggregator({
     timeframeMs,
+    barSpec: parseTimeframe(dataset.timeframe),
     priceStep: dataset.priceStep,
     maxBars: estimatedBars,
   });
@@ -42,10 +65,7 @@ export async function computeReplayMetrics(
     if (!payload) {
       continue;
     }
-    const trades = decodeChunk(payload, chunk);
-    if (trades.length) {
-      aggregator.ingestTrades(trades);
-    }
+    ingestEvents(aggregator, decodeChunk(payload, chunk));
   }
 
   const defaultConfig = createDefaultSignalControlState();
@@ -55,8 +75,10 @@ export async function computeReplayMetrics(
   for (const mode of modes) {
     const config: SignalControlState = {
       mode,
+      evaluation: defaultConfig.evaluation,
       enabledStrategies: { ...defaultConfig.enabledStrategies },
       overrides: {},
+      strategyParams: {},
     };
     aggregator.updateSignalConfig(config);
     const state = aggregator.getState();
@@ -72,6 +94,69 @@ export async function computeReplayMetrics(
   return { perMode };
 }
 
+export async function computeWalkForwardSummary(
+  storage: RecorderStorage,
+  datasetId: string,
+  options: WalkForwardOptions,
+): Promise<WalkForwardSummary> {
+  const result = await runWalkForward(storage, datasetId, options);
+
+  const rows = result.windows.map<WalkForwardSummaryRow>((window) => ({
+    window: window.index + 1,
+    trainStart: window.train.startTime,
+    trainEnd: window.train.endTime,
+    testStart: window.test.startTime,
+    testEnd: window.test.endTime,
+    parameters: formatParameters({ ...window.overrides, ...window.trading }),
+    inSample: window.inSample,
+    outOfSample: window.outOfSample,
+  }));
+
+  const pooled = computeSweepMetrics(result.windows.flatMap((window) => window.trades));
+  const meanInSample = average(rows.map((row) => row.inSample.expectancy));
+  const meanOutOfSample = average(rows.map((row) => row.outOfSample.expectancy));
+
+  return {
+    datasetId,
+    rows,
+    outOfSample: {
+      ...pooled,
+      windows: rows.length,
+      profitableWindows: rows.filter((row) => row.outOfSample.netR > 0).length,
+      efficiency: meanInSample > 0 ? meanOutOfSample / meanInSample : null,
+    },
+  };
+}
+
+// Consecutive events of the same kind are batched, preserving tape order.
+function ingestEvents(aggregator: FootprintAggregator, events: ReplayEvent[]) {
+  let trades: Trade[] = [];
+  let depth: DepthStreamMessage[] = [];
+
+  for (const event of events) {
+    if (event.kind === "trade") {
+      if (depth.length) {
+        aggregator.ingestDepth(depth);
+        depth = [];
+      }
+      trades.push(event.trade);
+    } else {
+      if (trades.length) {
+        aggregator.ingestTrades(trades);
+        trades = [];
+      }
+      depth.push(event.message);
+    }
+  }
+
+  if (depth.length) {
+    aggregator.ingestDepth(depth);
+  }
+  if (trades.length) {
+    aggregator.ingestTrades(trades);
+  }
+}
+
 function estimateMaxBars(
   durationMs: number | null,
   timeframeMs: number,
@@ -83,54 +168,16 @@ function estimateMaxBars(
   return Math.max(400, expectedBars + 200);
 }
 
-function decodeChunk(payload: Uint8Array, meta: RecordingChunkMeta): Trade[] {
-  const bytes = meta.compressed ? inflate(payload) : payload;
-  const text = decoder.decode(bytes);
-  const trades: Trade[] = [];
-
-  for (const line of text.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed) {
-      continue;
-    }
-    try {
-      const parsed = JSON.parse(trimmed);
-      const trade = normalizeTrade(parsed);
-      if (trade) {
-        trades.push(trade);
-      }
-    } catch (error) {
-      console.warn("Failed to parse replay chunk entry", error);
-    }
-  }
-
-  trades.sort((a, b) => a.timestamp - b.timestamp || a.tradeId - b.tradeId);
-  return trades;
+function formatParameters(values: Record<string, number | boolean | null | undefined>): string {
+  return Object.entries(values)
+    .filter((entry) => entry[1] !== undefined && entry[1] !== null)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(" ");
 }
 
-function normalizeTrade(value: any): Trade | null {
-  if (!value) {
-    return null;
-  }
-  const price = Number(value.price);
-  const quantity = Number(value.quantity);
-  const timestamp = Number(value.timestamp);
-  if (
-    !Number.isFinite(price) ||
-    !Number.isFinite(quantity) ||
-    !Number.isFinite(timestamp)
-  ) {
-    return null;
+function average(values: number[]): number {
+  if (!values.length) {
+    return 0;
   }
-  const tradeIdRaw = value.tradeId ?? value.id ?? timestamp;
-  const tradeId = Number.isFinite(Number(tradeIdRaw))
-    ? Math.trunc(Number(tradeIdRaw))
-    : Math.trunc(timestamp);
-  return {
-    tradeId,
-    price,
-    quantity,
-    timestamp,
-    isBuyerMaker: Boolean(value.isBuyerMaker),
-  };
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
 }
@@ -0,0 +1,265 @@
+import { createDailyPerformance } from "@/lib/trading/engine";
+import type {
+  ClosedTrade,
+  DetectorOverrides,
+  SignalControlState,
+  TradingSettings,
+} from "@/types";
+
+import { runBacktest, type BacktestOptions } from "./backtest";
+import type { RecorderStorage } from "./storage";
+
+export type SweepRange = number[] | { min: number; max: number; step: number };
+
+export type SweepDetectorField =
+  | "stackRatio"
+  | "stackLevels"
+  | "minScore"
+  | "minDeltaPercentile"
+  | "minVolumePercentile"
+  | "keyLevelDistancePercent"
+  | "depthAbsorptionWindowSec"
+  | "depthAbsorptionMinDurationSec"
+  | "depthReplenishFactor"
+  | "depthMaxTickProgress"
+  | "depthSweepTickThreshold"
+  | "depthSweepDeltaThreshold"
+  | "depthSweepWindowSec"
+  | "depthSweepMinLevels"
+  | "depthSpoofWindowSec"
+  | "depthSpoofSizeThreshold";
+
+export type SweepTradingField = "retestWindowMinutes" | "partialTakePercent" | "timeStopMinutes";
+
+export interface SweepRanges {
+  detector?: Partial<Record<SweepDetectorField, SweepRange>>;
+  trading?: Partial<Record<SweepTradingField, SweepRange>>;
+}
+
+export type SweepRankKey = "expectancy" | "netR" | "winRate" | "maxDrawdown";
+
+export interface SweepOptions {
+  ranges: SweepRanges;
+  signalConfig?: Partial<SignalControlState>;
+  tradingSettings?: Partial<TradingSettings>;
+  backtest?: Pick<BacktestOptions, "timeframe" | "priceStep" | "maxBars" | "chunkRange" | "warmupChunks">;
+  rankBy?: SweepRankKey;
+  maxCombinations?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface SweepMetrics {
+  trades: number;
+  expectancy: number;
+  netR: number;
+  winRate: number;
+  maxDrawdownR: number;
+}
+
+export interface SweepDatasetResult {
+  datasetId: string;
+  metrics: SweepMetrics;
+}
+
+export interface SweepCombinationResult {
+  rank: number;
+  overrides: DetectorOverrides;
+  trading: Partial<Pick<TradingSettings, SweepTradingField>>;
+  metrics: SweepMetrics;
+  perDataset: SweepDatasetResult[];
+  stability: {
+    profitableDatasets: number;
+    netRStdDev: number;
+  };
+}
+
+export interface SweepResult {
+  datasetIds: string[];
+  rankBy: SweepRankKey;
+  combinations: number;
+  results: SweepCombinationResult[];
+}
+
+interface SweepAxis {
+  scope: "detector" | "trading";
+  field: SweepDetectorField | SweepTradingField;
+  values: number[];
+}
+
+const DEFAULT_MAX_COMBINATIONS = 500;
+const RANK_ORDER: SweepRankKey[] = ["expectancy", "netR", "winRate", "maxDrawdown"];
+
+export async function runParameterSweep(
+  storage: RecorderStorage,
+  datasetIds: string[],
+  options: SweepOptions,
+): Promise<SweepResult> {
+  const rankBy = options.rankBy ?? "expectancy";
+  const axes = buildAxes(options.ranges);
+  const total = axes.reduce((count, axis) => count * axis.values.length, 1);
+  const maxCombinations = options.maxCombinations ?? DEFAULT_MAX_COMBINATIONS;
+  if (total > maxCombinations) {
+    throw new Error(`Sweep grid too large: ${total} combinations (max ${maxCombinations})`);
+  }
+
+  const baseOverrides = options.signalConfig?.overrides ?? {};
+  const baseTrading = options.tradingSettings ?? {};
+  const results: SweepCombinationResult[] = [];
+  let completed = 0;
+
+  for (const combination of expandAxes(axes)) {
+    const overrides: DetectorOverrides = {};
+    const trading: Partial<Pick<TradingSettings, SweepTradingField>> = {};
+    for (const [axis, value] of combination) {
+      if (axis.scope === "detector") {
+        overrides[axis.field as SweepDetectorField] = value;
+      } else {
+        trading[axis.field as SweepTradingField] = value;
+      }
+    }
+
+    const perDataset: SweepDatasetResult[] = [];
+    const pooled: ClosedTrade[] = [];
+    for (const datasetId of datasetIds) {
+      const backtest = await runBacktest(storage, datasetId, {
+        ...options.backtest,
+        signalConfig: {
+          ...options.signalConfig,
+          overrides: { ...baseOverrides, ...overrides },
+        },
+        tradingSettings: { ...baseTrading, ...trading },
+      });
+      perDataset.push({ datasetId, metrics: computeSweepMetrics(backtest.trades) });
+      pooled.push(...backtest.trades);
+    }
+
+    const metrics = computeSweepMetrics(pooled);
+    metrics.maxDrawdownR = perDataset.reduce(
+      (worst, item) => Math.max(worst, item.metrics.maxDrawdownR),
+      0,
+    );
+
+    results.push({
+      rank: 0,
+      overrides,
+      trading,
+      metrics,
+      perDataset,
+      stability: {
+        profitableDatasets: perDataset.filter((item) => item.metrics.netR > 0).length,
+        netRStdDev: standardDeviation(perDataset.map((item) => item.metrics.netR)),
+      },
+    });
+
+    completed += 1;
+    options.onProgress?.(completed, total);
+  }
+
+  results.sort((a, b) => compareMetrics(a.metrics, b.metrics, rankBy));
+  results.forEach((item, index) => {
+    item.rank = index + 1;
+  });
+
+  return {
+    datasetIds: [...datasetIds],
+    rankBy,
+    combinations: total,
+    results,
+  };
+}
+
+export function computeSweepMetrics(trades: ClosedTrade[]): SweepMetrics {
+  const { totals } = createDailyPerformance("", trades);
+  return {
+    trades: totals.trades,
+    expectancy: totals.expectancy,
+    netR: totals.netR,
+    winRate: totals.winRate,
+    maxDrawdownR: computeMaxDrawdown(trades),
+  };
+}
+
+export function expandSweepRange(range: SweepRange): number[] {
+  if (Array.isArray(range)) {
+    return range.filter((value) => Number.isFinite(value));
+  }
+  const { min, max, step } = range;
+  if (!Number.isFinite(min) || !Number.isFinite(max) || !Number.isFinite(step) || step <= 0 || max < min) {
+    return Number.isFinite(min) ? [min] : [];
+  }
+  const values: number[] = [];
+  const count = Math.floor((max - min) / step + 1e-9);
+  for (let index = 0; index <= count; index += 1) {
+    values.push(Number((min + index * step).toFixed(10)));
+  }
+  return values;
+}
+
+function buildAxes(ranges: SweepRanges): SweepAxis[] {
+  const axes: SweepAxis[] = [];
+  for (const [field, range] of Object.entries(ranges.detector ?? {})) {
+    if (!range) {
+      continue;
+    }
+    const values = expandSweepRange(range);
+    if (values.length) {
+      axes.push({ scope: "detector", field: field as SweepDetectorField, values });
+    }
+  }
+  for (const [field, range] of Object.entries(ranges.trading ?? {})) {
+    if (!range) {
+      continue;
+    }
+    const values = expandSweepRange(range);
+    if (values.length) {
+      axes.push({ scope: "trading", field: field as SweepTradingField, values });
+    }
+  }
+  return axes;
+}
+
+function* expandAxes(axes: SweepAxis[]): Generator<Array<[SweepAxis, number]>> {
+  if (!axes.length) {
+    yield [];
+    return;
+  }
+  const [head, ...rest] = axes;
+  for (const value of head.values) {
+    for (const tail of expandAxes(rest)) {
+      yield [[head, value], ...tail];
+    }
+  }
+}
+
+function computeMaxDrawdown(trades: ClosedTrade[]): number {
+  const ordered = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const trade of ordered) {
+    equity += trade.realizedR;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+  return maxDrawdown;
+}
+
+function compareMetrics(a: SweepMetrics, b: SweepMetrics, rankBy: SweepRankKey): number {
+  const order = [rankBy, ...RANK_ORDER.filter((key) => key !== rankBy)];
+  for (const key of order) {
+    const diff = key === "maxDrawdown" ? a.maxDrawdownR - b.maxDrawdownR : b[key] - a[key];
+    if (Math.abs(diff) > 1e-9) {
+      return diff;
+    }
+  }
+  return b.trades - a.trades;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
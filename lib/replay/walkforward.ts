@@ -0,0 +1,111 @@
+import type { ClosedTrade, DetectorOverrides, TradingSettings } from "@/types";
+
+import { runBacktest } from "./backtest";
+import type { RecorderStorage } from "./storage";
+import {
+  computeSweepMetrics,
+  runParameterSweep,
+  type SweepMetrics,
+  type SweepOptions,
+  type SweepTradingField,
+} from "./sweep";
+
+export interface WalkForwardOptions extends Omit<SweepOptions, "onProgress"> {
+  trainChunks: number;
+  testChunks: number;
+  stepChunks?: number;
+  onProgress?: (completedWindows: number, totalWindows: number) => void;
+}
+
+export interface WalkForwardRange {
+  startChunk: number;
+  endChunk: number;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  train: WalkForwardRange;
+  test: WalkForwardRange;
+  overrides: DetectorOverrides;
+  trading: Partial<Pick<TradingSettings, SweepTradingField>>;
+  inSample: SweepMetrics;
+  outOfSample: SweepMetrics;
+  trades: ClosedTrade[];
+}
+
+export interface WalkForwardResult {
+  datasetId: string;
+  windows: WalkForwardWindow[];
+}
+
+export async function runWalkForward(
+  storage: RecorderStorage,
+  datasetId: string,
+  options: WalkForwardOptions,
+): Promise<WalkForwardResult> {
+  const trainChunks = Math.max(1, Math.floor(options.trainChunks));
+  const testChunks = Math.max(1, Math.floor(options.testChunks));
+  const stepChunks = Math.max(1, Math.floor(options.stepChunks ?? testChunks));
+
+  const chunks = await storage.listChunks(datasetId);
+  const starts: number[] = [];
+  for (let start = 0; start + trainChunks + testChunks <= chunks.length; start += stepChunks) {
+    starts.push(start);
+  }
+
+  const toRange = (startChunk: number, endChunk: number): WalkForwardRange => ({
+    startChunk,
+    endChunk,
+    startTime: chunks[startChunk]?.startTime ?? null,
+    endTime: chunks[endChunk - 1]?.endTime ?? null,
+  });
+
+  const windows: WalkForwardWindow[] = [];
+  for (let index = 0; index < starts.length; index += 1) {
+    const trainStart = starts[index];
+    const testStart = trainStart + trainChunks;
+    const testEnd = testStart + testChunks;
+
+    const sweep = await runParameterSweep(storage, [datasetId], {
+      ...options,
+      backtest: {
+        ...options.backtest,
+        chunkRange: { start: trainStart, end: testStart },
+        warmupChunks: 0,
+      },
+      onProgress: undefined,
+    });
+    const best = sweep.results[0];
+    const overrides = best?.overrides ?? {};
+    const trading = best?.trading ?? {};
+
+    // The test window is warmed up with the train tape so percentile and ATR
+    // history match what a live session would have seen.
+    const test = await runBacktest(storage, datasetId, {
+      ...options.backtest,
+      chunkRange: { start: testStart, end: testEnd },
+      warmupChunks: trainChunks,
+      signalConfig: {
+        ...options.signalConfig,
+        overrides: { ...(options.signalConfig?.overrides ?? {}), ...overrides },
+      },
+      tradingSettings: { ...options.tradingSettings, ...trading },
+    });
+
+    windows.push({
+      index,
+      train: toRange(trainStart, testStart),
+      test: toRange(testStart, testEnd),
+      overrides,
+      trading,
+      inSample: best?.metrics ?? computeSweepMetrics([]),
+      outOfSample: computeSweepMetrics(test.trades),
+      trades: test.trades,
+    });
+    options.onProgress?.(index + 1, starts.length);
+  }
+
+  return { datasetId, windows };
+}
@@ -5,3 +5,12 @@ import {
 } from "./signals/engine";
 
 export { MODE_PRESETS, SignalEngine, createDefaultSignalControlState };
+export {
+  formatSignalStrategy,
+  getSignalStrategies,
+  getSignalStrategy,
+  getSignalStrategyIds,
+  registerSignalStrategy,
+  unregisterSignalStrategy,
+} from "./signals/strategies";
+export type { DetectionContext, KeyLevelContext, SignalStrategyDefinition, StrategyHit } from "./signals/strategies";
@@ -1,27 +1,51 @@
+import { DEFAULT_DEPTH_THRESHOLDS } from "@/lib/depth/analytics";
+import { buildMarketStructure } from "@/lib/marketStructure";
+import { buildVolumeProfiles, findNakedPocs } from "@/lib/volumeProfile";
+import { getVwapLevels, SESSION_VWAP_ANCHOR_ID, VwapEngine, type VwapLevel } from "@/lib/vwap";
 import type {
+  BarSpec,
   DetectorOverrides,
   FootprintBar,
   FootprintSignal,
+  HigherTimeframeContext,
+  MarketStructure,
   SignalControlState,
   SignalMode,
+  SignalRepaintStats,
   SignalStats,
-  SignalStrategy,
   SignalSide,
   SignalEvidenceItem,
+  StrategyKeyLevel,
   TradingSession,
+  VolumeProfile,
+  VwapAnchor,
+  VwapSeries,
 } from "@/types";
 
+import {
+  getSignalStrategies,
+  resolveStrategyParams,
+  type ActiveThresholds,
+  type DayStats,
+  type DetectionContext,
+  type KeyLevel,
+  type KeyLevelMatch,
+  type StrategyHit,
+  type WeekStats,
+} from "./strategies";
+import { clamp, computeStackedImbalance, percentileRank } from "./strategies/shared";
+
 const MAX_SIGNAL_HISTORY = 150;
 const PERCENTILE_LOOKBACK = 240;
 const ATR_LOOKBACK = 120;
-const ABSORPTION_LOOKBACK = 12;
-const DIVERGENCE_LOOKBACK = 16;
-const POC_LOOKBACK = 6;
+// Closed days whose untouched POCs still count as key levels.
+const MAX_NAKED_POC_DAYS = 5;
 const DAY_MS = 86_400_000;
 const WEEK_MS = DAY_MS * 7;
-const PRICE_STEP_MULTIPLIER_STOP = 2;
-const PRICE_STEP_MULTIPLIER_TARGET_1 = 1.0;
-const PRICE_STEP_MULTIPLIER_TARGET_2 = 1.8;
+const MAX_HTF_CONTEXTS = 500;
+const HTF_TREND_ALIGNED_BONUS = 6;
+const HTF_TREND_AGAINST_PENALTY = 8;
+const HTF_POC_BONUS = 4;
 
 interface ModePreset {
   id: SignalMode;
@@ -39,8 +63,46 @@ interface ModePreset {
   maxSignalsPerDay: number | null;
   avoidLowLiquidity: boolean;
   atrPercentileRange: [number, number] | null;
+  depthAbsorptionWindowSec: number;
+  depthAbsorptionMinDurationSec: number;
+  depthReplenishFactor: number;
+  depthMaxTickProgress: number;
+  depthSweepTickThreshold: number;
+  depthSweepWindowSec: number;
+  depthSweepDeltaThreshold: number;
+  depthSweepMinLevels: number;
+  depthSpoofWindowSec: number;
+  depthSpoofSizeThreshold: number;
 }
 
+type DepthPreset = Pick<
+  ModePreset,
+  | "depthAbsorptionWindowSec"
+  | "depthAbsorptionMinDurationSec"
+  | "depthReplenishFactor"
+  | "depthMaxTickProgress"
+  | "depthSweepTickThreshold"
+  | "depthSweepWindowSec"
+  | "depthSweepDeltaThreshold"
+  | "depthSweepMinLevels"
+  | "depthSpoofWindowSec"
+  | "depthSpoofSizeThreshold"
+>;
+
+// Every mode starts from the depth analytics defaults, in seconds.
+const DEPTH_PRESET: DepthPreset = {
+  depthAbsorptionWindowSec: DEFAULT_DEPTH_THRESHOLDS.absorptionWindowMs / 1000,
+  depthAbsorptionMinDurationSec: DEFAULT_DEPTH_THRESHOLDS.absorptionMinDurationMs / 1000,
+  depthReplenishFactor: DEFAULT_DEPTH_THRESHOLDS.replenishmentFactor,
+  depthMaxTickProgress: DEFAULT_DEPTH_THRESHOLDS.maxTickProgress,
+  depthSweepTickThreshold: DEFAULT_DEPTH_THRESHOLDS.sweepTickThreshold,
+  depthSweepWindowSec: DEFAULT_DEPTH_THRESHOLDS.sweepWindowMs / 1000,
+  depthSweepDeltaThreshold: DEFAULT_DEPTH_THRESHOLDS.sweepDeltaThreshold,
+  depthSweepMinLevels: DEFAULT_DEPTH_THRESHOLDS.sweepMinLevels,
+  depthSpoofWindowSec: DEFAULT_DEPTH_THRESHOLDS.spoofWindowMs / 1000,
+  depthSpoofSizeThreshold: DEFAULT_DEPTH_THRESHOLDS.spoofSizeThreshold,
+};
+
 export const MODE_PRESETS: Record<SignalMode, ModePreset> = {
   conservative: {
     id: "conservative",
@@ -58,6 +120,7 @@ export const MODE_PRESETS: Record<SignalMode, ModePreset> = {
     maxSignalsPerDay: 2,
     avoidLowLiquidity: true,
     atrPercentileRange: [0.25, 0.8],
+    ...DEPTH_PRESET,
   },
   standard: {
     id: "standard",
@@ -75,6 +138,7 @@ export const MODE_PRESETS: Record<SignalMode, ModePreset> = {
     maxSignalsPerDay: 6,
     avoidLowLiquidity: false,
     atrPercentileRange: [0.15, 0.9],
+    ...DEPTH_PRESET,
   },
   aggressive: {
     id: "aggressive",
@@ -92,117 +156,30 @@ export const MODE_PRESETS: Record<SignalMode, ModePreset> = {
     maxSignalsPerDay: null,
     avoidLowLiquidity: false,
     atrPercentileRange: null,
+    ...DEPTH_PRESET,
   },
 };
 
 export function createDefaultSignalControlState(): SignalControlState {
   return {
     mode: "conservative",
-    enabledStrategies: {
-      "absorption-failure": true,
-      "poc-migration": true,
-      "delta-divergence": true,
-    },
+    evaluation: "bar-close",
+    enabledStrategies: Object.fromEntries(
+      getSignalStrategies().map((strategy) => [strategy.id, strategy.defaultEnabled]),
+    ),
     overrides: {},
+    strategyParams: {},
   };
 }
 
-interface ActiveThresholds {
-  minScore: number;
-  stackRatio: number;
-  stackLevels: number;
-  minDeltaPercentile: number;
-  minVolumePercentile: number;
-  keyLevelDistancePercent: number;
-  requireKeyLevel: boolean;
-  requireConfluence: boolean;
-  minStrategies: number;
-  maxSignalsPerSession: number | null;
-  maxSignalsPerDay: number | null;
-  avoidLowLiquidity: boolean;
-  atrPercentileRange: [number, number] | null;
-}
-
-interface StackInfo {
-  levels: number;
-  ratio: number;
-  maxObservedRatio: number;
-  anchorPrice: number | null;
-  cumulativeVolume: number;
-}
-
-interface KeyLevel {
-  label: string;
-  price: number;
-}
-
-interface KeyLevelMatch extends KeyLevel {
-  distancePercent: number;
-}
-
-interface DayStats {
-  high: number;
-  low: number;
-  poc: number | null;
-}
-
-interface WeekStats {
-  high: number;
-  low: number;
-}
-
-interface PocMigration {
-  direction: 1 | -1;
-  drift: number;
-  steps: number;
-  lookback: number;
-  aligned: boolean;
-  averageDeltaSign: number;
-}
-
-interface StrategyHit {
-  strategy: SignalStrategy;
-  side: SignalSide;
-  rawScore: number;
-  stackRatio: number;
-  stackLevels: number;
-  deltaPercentile: number;
-  volumePercentile: number;
-  atrPercentile: number;
-  keyMatch: KeyLevelMatch | null;
-  keyLevelDistance: number | null;
-  entry: number;
-  stop: number;
-  target1: number;
-  target2: number;
-  evidence: SignalEvidenceItem[];
-  pocDrift?: number;
-}
-
-interface DetectionContext {
-  bars: FootprintBar[];
-  index: number;
-  bar: FootprintBar;
-  session: TradingSession;
-  thresholds: ActiveThresholds;
-  deltaPercentile: number;
-  volumePercentile: number;
-  atrPercentile: number;
-  stackBid: StackInfo;
-  stackAsk: StackInfo;
-  keyMatch: KeyLevelMatch | null;
-  pocMigration: PocMigration | null;
-  prevDayStats: DayStats | undefined;
-  prevWeekStats: WeekStats | undefined;
-  previousPoc: number | null;
-  sessionVwap: number | null;
-}
-
 export class SignalEngine {
   private priceStep: number;
 
   private timeframeMs: number;
 
+  // Time bars of timeframeMs unless the aggregator says otherwise.
+  private barSpec: BarSpec | null;
+
   private config: SignalControlState;
 
   private signals: FootprintSignal[] = [];
@@ -235,15 +212,29 @@ export class SignalEngine {
 
   private emittedKeys = new Set<string>();
 
-  constructor(options: { priceStep: number; timeframeMs: number; config?: SignalControlState }) {
+  private htfContexts: HigherTimeframeContext[] = [];
+
+  // Signals of the forming bar in intrabar mode, re-evaluated on every pass.
+  private provisional: FootprintSignal[] = [];
+
+  private repaint: SignalRepaintStats = createRepaintStats();
+
+  // Levels published by strategies, as of the latest bar.
+  private strategyLevels: StrategyKeyLevel[] = [];
+
+  private vwap = new VwapEngine();
+
+  constructor(options: { priceStep: number; timeframeMs: number; barSpec?: BarSpec; config?: SignalControlState }) {
     this.priceStep = options.priceStep;
     this.timeframeMs = options.timeframeMs;
+    this.barSpec = options.barSpec ? { ...options.barSpec } : null;
     this.config = options.config ?? createDefaultSignalControlState();
   }
 
   updateConfig(config: Partial<SignalControlState>) {
     this.config = {
       mode: config.mode ?? this.config.mode,
+      evaluation: config.evaluation ?? this.config.evaluation,
       enabledStrategies: {
         ...this.config.enabledStrategies,
         ...(config.enabledStrategies ?? {}),
@@ -252,16 +243,28 @@ export class SignalEngine {
         ...this.config.overrides,
         ...(config.overrides ?? {}),
       },
+      strategyParams: {
+        ...this.config.strategyParams,
+        ...(config.strategyParams ?? {}),
+      },
     };
   }
 
-  updateSettings(settings: { priceStep?: number; timeframeMs?: number }) {
+  updateSettings(settings: { priceStep?: number; timeframeMs?: number; barSpec?: BarSpec }) {
     if (typeof settings.priceStep === "number" && settings.priceStep > 0) {
       this.priceStep = settings.priceStep;
     }
     if (typeof settings.timeframeMs === "number" && settings.timeframeMs > 0) {
       this.timeframeMs = settings.timeframeMs;
     }
+    if (settings.barSpec) {
+      this.barSpec = { ...settings.barSpec };
+    }
+  }
+
+  // Anchored VWAPs and their bands count as key levels next to the session VWAP.
+  setVwapAnchors(anchors: VwapAnchor[]) {
+    this.vwap.setAnchors(anchors);
   }
 
   reset() {
@@ -285,17 +288,57 @@ export class SignalEngine {
     this.dailySignalCounts.clear();
     this.sessionSignalCounts.clear();
     this.emittedKeys.clear();
+    this.provisional = [];
+    this.repaint = createRepaintStats();
+    this.strategyLevels = [];
+    this.vwap.reset();
   }
 
-  process(bars: FootprintBar[]): { signals: FootprintSignal[]; stats: SignalStats } {
+  // Contexts are kept as a timeline so re-evaluating history never sees
+  // higher-timeframe data from after the bar closed.
+  pushHigherTimeframeContext(context: HigherTimeframeContext | null) {
+    if (!context) {
+      this.htfContexts = [];
+      return;
+    }
+    const last = this.htfContexts[this.htfContexts.length - 1];
+    if (
+      last &&
+      last.timeframe === context.timeframe &&
+      last.barStart === context.barStart &&
+      last.pocPrice === context.pocPrice &&
+      last.deltaTrend === context.deltaTrend
+    ) {
+      return;
+    }
+    if (last && context.asOf < last.asOf) {
+      return;
+    }
+    this.htfContexts.push({ ...context });
+    if (this.htfContexts.length > MAX_HTF_CONTEXTS) {
+      this.htfContexts.shift();
+    }
+  }
+
+  // The last bar is treated as forming: it is only evaluated in intrabar mode,
+  // provisionally, and its signals resolve once a later bar shows up.
+  // `now` stamps provisional signals; it defaults to the bar end.
+  process(
+    bars: FootprintBar[],
+    options?: { now?: number },
+  ): { signals: FootprintSignal[]; stats: SignalStats; levels: StrategyKeyLevel[] } {
     if (!bars.length) {
       this.reset();
-      return { signals: this.signals, stats: this.signalStats };
+      return { signals: this.signals, stats: this.signalStats, levels: [] };
     }
 
     const sorted = [...bars].sort((a, b) => a.startTime - b.startTime);
-    const dayStats = buildDayStats(sorted);
+    const dayProfiles = buildVolumeProfiles(sorted, "day", { priceStep: this.priceStep });
+    const dayStats = buildDayStats(sorted, dayProfiles);
     const weekStats = buildWeekStats(sorted);
+    const vwapSeries = this.vwap.update(sorted);
+    const structure = buildMarketStructure(sorted);
+    const lastIndex = sorted.length - 1;
 
     for (let index = 0; index < sorted.length; index += 1) {
       const bar = sorted[index];
@@ -303,13 +346,38 @@ export class SignalEngine {
         continue;
       }
 
-      this.evaluateBar({
+      if (index === lastIndex) {
+        this.updateProvisional(
+          this.config.evaluation === "intrabar"
+            ? this.evaluateBar({
+                bars: sorted,
+                index,
+                bar,
+                dayStats,
+                weekStats,
+                dayProfiles,
+                vwapSeries,
+                structure,
+                commit: false,
+              })
+            : [],
+          options?.now ?? bar.endTime,
+        );
+        continue;
+      }
+
+      const confirmed = this.evaluateBar({
         bars: sorted,
         index,
         bar,
         dayStats,
         weekStats,
+        dayProfiles,
+        vwapSeries,
+        structure,
+        commit: true,
       });
+      this.resolveProvisional(bar, confirmed);
 
       this.barKeys.add(bar.startTime);
       if (this.barKeys.size > 800) {
@@ -321,21 +389,74 @@ export class SignalEngine {
     }
 
     this.updateStats(sorted);
+    this.strategyLevels = this.collectStrategyLevels(sorted, lastIndex);
 
     return {
-      signals: [...this.signals],
-      stats: { ...this.signalStats, sessionCount: { ...this.signalStats.sessionCount } },
+      signals: [...this.signals, ...this.provisional],
+      stats: {
+        ...this.signalStats,
+        sessionCount: { ...this.signalStats.sessionCount },
+        repaint: { ...this.repaint },
+      },
+      levels: this.strategyLevels.map((level) => ({ ...level })),
     };
   }
 
+  private updateProvisional(signals: FootprintSignal[], now: number) {
+    const previous = new Map(this.provisional.map((signal) => [signal.id, signal]));
+    this.provisional = signals.map((signal) => {
+      const provisionalAt = previous.get(signal.id)?.provisionalAt ?? now;
+      return { ...signal, timestamp: provisionalAt, provisionalAt };
+    });
+  }
+
+  // Provisional signals of a bar that just closed either match a confirmed
+  // signal (same id) or are kept as cancelled so consumers can drop them.
+  private resolveProvisional(bar: FootprintBar, confirmed: FootprintSignal[]) {
+    const resolved = this.provisional.filter((signal) => signal.barTime === bar.startTime);
+    if (!resolved.length) {
+      return;
+    }
+    this.provisional = this.provisional.filter((signal) => signal.barTime !== bar.startTime);
+
+    for (const provisional of resolved) {
+      const match = confirmed.find((signal) => signal.id === provisional.id);
+      if (match) {
+        const changed = !haveSameLevels(provisional, match);
+        match.provisionalAt = provisional.provisionalAt;
+        match.repainted = changed;
+        this.repaint.confirmed += 1;
+        if (changed) {
+          this.repaint.changed += 1;
+        }
+        continue;
+      }
+      this.pushSignal({ ...provisional, timestamp: bar.endTime, lifecycle: "cancelled", repainted: true });
+      this.repaint.cancelled += 1;
+    }
+  }
+
+  private pushSignal(signal: FootprintSignal) {
+    this.signals.push(signal);
+    this.signals.sort((a, b) => a.barTime - b.barTime);
+    while (this.signals.length > MAX_SIGNAL_HISTORY) {
+      this.signals.shift();
+    }
+  }
+
   private evaluateBar(args: {
     bars: FootprintBar[];
     index: number;
     bar: FootprintBar;
     dayStats: Map<string, DayStats>;
     weekStats: Map<string, WeekStats>;
-  }) {
-    const { bars, index, bar, dayStats, weekStats } = args;
+    dayProfiles: VolumeProfile[];
+    vwapSeries: VwapSeries[];
+    structure: MarketStructure;
+    // False for the forming bar: nothing is recorded, signals are only returned.
+    commit: boolean;
+  }): FootprintSignal[] {
+    const { bars, index, bar, dayStats, weekStats, dayProfiles, vwapSeries, structure, commit } = args;
     const thresholds = this.getActiveThresholds();
     const dayKey = getDayKey(bar.startTime);
     const session = getTradingSession(bar.startTime);
@@ -355,47 +476,65 @@ export class SignalEngine {
     const prevDayStats = dayStats.get(getDayKey(bar.startTime - DAY_MS));
     const prevWeekStats = weekStats.get(getWeekKey(bar.startTime - WEEK_MS));
     const previousPoc = index > 0 ? bars[index - 1].pocPrice ?? null : null;
-    const sessionVwap = computeSessionVwap(bars, index);
+    const vwapLevels = vwapSeries.flatMap((series) => getVwapLevels(series, bar.startTime));
+    const sessionVwap =
+      vwapLevels.find((level) => level.anchorId === SESSION_VWAP_ANCHOR_ID && level.band === 0)?.price ?? null;
+    const closedDays = dayProfiles.filter((profile) => profile.endTime < bar.startTime).slice(-MAX_NAKED_POC_DAYS);
+    const nakedPocs = findNakedPocs(closedDays, bars, bar.startTime).flatMap((profile) =>
+      profile.poc === null ? [] : [profile.poc],
+    );
 
     const keyLevels = collectKeyLevels({
       prevDay: prevDayStats,
       prevWeek: prevWeekStats,
-      sessionVwap,
+      vwapLevels,
       previousPoc,
+      nakedPocs,
     });
+    // Levels left by the bar itself are not key levels for it yet.
+    for (const level of this.collectStrategyLevels(bars, index)) {
+      if (level.barTime < bar.startTime) {
+        keyLevels.push({ label: level.label, price: level.price });
+      }
+    }
     const keyMatch = findClosestKeyLevel(bar.closePrice, keyLevels);
 
-    const pocMigration = computePocMigration(bars, index, this.priceStep);
-
     const context: DetectionContext = {
       bars,
       index,
       bar,
+      priceStep: this.priceStep,
       session,
       thresholds,
       deltaPercentile,
       volumePercentile,
       atrPercentile,
+      volumeHistory: this.volumeHistory,
       stackBid,
       stackAsk,
       keyMatch,
-      pocMigration,
+      keyLevels,
+      structure,
       prevDayStats,
       prevWeekStats,
       previousPoc,
       sessionVwap,
     };
 
-    const hits: StrategyHit[] = [];
-    hits.push(...this.detectAbsorption(context));
-    hits.push(...this.detectPocMigration(context));
-    hits.push(...this.detectDeltaDivergence(context));
-
-    const enabledHits = hits.filter((hit) => this.config.enabledStrategies[hit.strategy]);
+    const enabledHits: StrategyHit[] = [];
+    for (const strategy of getSignalStrategies()) {
+      if (!(this.config.enabledStrategies[strategy.id] ?? strategy.defaultEnabled)) {
+        continue;
+      }
+      const params = resolveStrategyParams(strategy, this.config.strategyParams?.[strategy.id]);
+      enabledHits.push(...strategy.detect(context, params));
+    }
     if (!enabledHits.length) {
-      this.pushHistories(absDelta, totalVolume, trueRange);
-      this.prevClose = bar.closePrice;
-      return;
+      if (commit) {
+        this.pushHistories(absDelta, totalVolume, trueRange);
+        this.prevClose = bar.closePrice;
+      }
+      return [];
     }
 
     const grouped = new Map<SignalSide, StrategyHit[]>();
@@ -408,12 +547,31 @@ export class SignalEngine {
       }
     }
 
+    const signals: FootprintSignal[] = [];
     for (const [side, sideHits] of grouped.entries()) {
-      this.createSignalFromHits({ side, hits: sideHits, context, dayKey });
+      const signal = this.createSignalFromHits({ side, hits: sideHits, context, dayKey, commit });
+      if (signal) {
+        signals.push(signal);
+      }
     }
 
-    this.pushHistories(absDelta, totalVolume, trueRange);
-    this.prevClose = bar.closePrice;
+    if (commit) {
+      this.pushHistories(absDelta, totalVolume, trueRange);
+      this.prevClose = bar.closePrice;
+    }
+    return signals;
+  }
+
+  private collectStrategyLevels(bars: FootprintBar[], index: number): StrategyKeyLevel[] {
+    const levels: StrategyKeyLevel[] = [];
+    for (const strategy of getSignalStrategies()) {
+      if (!strategy.keyLevels || !(this.config.enabledStrategies[strategy.id] ?? strategy.defaultEnabled)) {
+        continue;
+      }
+      const params = resolveStrategyParams(strategy, this.config.strategyParams?.[strategy.id]);
+      levels.push(...strategy.keyLevels({ bars, index, priceStep: this.priceStep }, params));
+    }
+    return levels;
   }
 
   private createSignalFromHits(params: {
@@ -421,10 +579,11 @@ export class SignalEngine {
     hits: StrategyHit[];
     context: DetectionContext;
     dayKey: string;
-  }) {
-    const { side, hits, context, dayKey } = params;
+    commit: boolean;
+  }): FootprintSignal | null {
+    const { side, hits, context, dayKey, commit } = params;
     if (!hits.length) {
-      return;
+      return null;
     }
 
     const thresholds = context.thresholds;
@@ -441,48 +600,49 @@ export class SignalEngine {
 
     const baseScore = Math.max(...hits.map((hit) => hit.rawScore));
     const confluenceBonus = Math.max(0, strategies.length - 1) * 7;
-    const finalScore = Math.min(100, baseScore + confluenceBonus);
+    const htf = this.scoreHigherTimeframe(side, context.bar, thresholds.keyLevelDistancePercent);
+    const finalScore = clamp(baseScore + confluenceBonus + htf.score, 0, 100);
 
     if (thresholds.avoidLowLiquidity && (context.session === "asia" || context.session === "other")) {
-      return;
+      return null;
     }
 
     if (thresholds.requireKeyLevel) {
       if (!keyMatch || keyLevelDistance === null || keyLevelDistance > thresholds.keyLevelDistancePercent) {
-        return;
+        return null;
       }
     } else if (keyLevelDistance !== null && keyLevelDistance > thresholds.keyLevelDistancePercent * 1.8) {
-      return;
+      return null;
     }
 
     if (stackRatio < thresholds.stackRatio || stackLevels < thresholds.stackLevels) {
-      return;
+      return null;
     }
     if (deltaPercentile < thresholds.minDeltaPercentile) {
-      return;
+      return null;
     }
     if (volumePercentile < thresholds.minVolumePercentile) {
-      return;
+      return null;
     }
     if (thresholds.atrPercentileRange) {
       const [minAtr, maxAtr] = thresholds.atrPercentileRange;
       if (atrPercentile < minAtr || atrPercentile > maxAtr) {
-        return;
+        return null;
       }
     }
 
     const meetsConfluence = strategies.length >= thresholds.minStrategies;
     if (thresholds.requireConfluence && !meetsConfluence && finalScore < thresholds.minScore) {
-      return;
+      return null;
     }
     if (!thresholds.requireConfluence && finalScore < thresholds.minScore) {
-      return;
+      return null;
     }
 
     if (thresholds.maxSignalsPerDay !== null) {
       const dayCount = this.dailySignalCounts.get(dayKey) ?? 0;
       if (dayCount >= thresholds.maxSignalsPerDay) {
-        return;
+        return null;
       }
     }
 
@@ -493,17 +653,19 @@ export class SignalEngine {
     ) {
       const sessionCount = this.sessionSignalCounts.get(sessionKey) ?? 0;
       if (sessionCount >= thresholds.maxSignalsPerSession) {
-        return;
+        return null;
       }
     }
 
     const signalKey = `${context.bar.startTime}-${side}-${strategies.sort().join("|")}`;
     if (this.emittedKeys.has(signalKey)) {
-      return;
+      return null;
     }
-    this.emittedKeys.add(signalKey);
 
     const mergedEvidence = mergeEvidence(hits, keyMatch);
+    if (htf.evidence) {
+      mergedEvidence.push(htf.evidence);
+    }
 
     const entry = roundToStep(bestHit.entry, this.priceStep);
     const stop = roundToStep(bestHit.stop, this.priceStep);
@@ -511,7 +673,8 @@ export class SignalEngine {
     const target2 = roundToStep(bestHit.target2, this.priceStep);
 
     const signal: FootprintSignal = {
-      id: `${context.bar.startTime}-${Math.random().toString(36).slice(2, 7)}`,
+      // Bars of other timeframes can share a start time.
+      id: `${this.getBarKey()}-${context.bar.startTime}-${side}-${strategies.join("+")}`,
       timestamp: context.bar.endTime,
       barTime: context.bar.startTime,
       barIndex: context.index,
@@ -534,290 +697,18 @@ export class SignalEngine {
           }
         : null,
       evidence: mergedEvidence,
+      lifecycle: commit ? "confirmed" : "provisional",
     };
 
-    this.signals.push(signal);
-    this.signals.sort((a, b) => a.barTime - b.barTime);
-    while (this.signals.length > MAX_SIGNAL_HISTORY) {
-      this.signals.shift();
+    if (!commit) {
+      return signal;
     }
 
+    this.emittedKeys.add(signalKey);
+    this.pushSignal(signal);
     this.dailySignalCounts.set(dayKey, (this.dailySignalCounts.get(dayKey) ?? 0) + 1);
     this.sessionSignalCounts.set(sessionKey, (this.sessionSignalCounts.get(sessionKey) ?? 0) + 1);
-  }
-
-  private detectAbsorption(context: DetectionContext): StrategyHit[] {
-    const { bar, bars, index, thresholds, stackBid, stackAsk, keyMatch, deltaPercentile, volumePercentile, atrPercentile } = context;
-    const results: StrategyHit[] = [];
-    const lookback = Math.min(index, ABSORPTION_LOOKBACK);
-    const previousBars = bars.slice(Math.max(0, index - lookback), index);
-    const prevHigh = previousBars.length ? Math.max(...previousBars.map((item) => item.highPrice)) : bar.highPrice;
-    const prevLow = previousBars.length ? Math.min(...previousBars.map((item) => item.lowPrice)) : bar.lowPrice;
-
-    const range = Math.max(bar.highPrice - bar.lowPrice, this.priceStep * 2);
-    const closePosition = (bar.closePrice - bar.lowPrice) / range;
-
-    const longConditions = [
-      stackBid.levels >= Math.max(1, thresholds.stackLevels - 1),
-      stackBid.ratio >= Math.max(1.5, thresholds.stackRatio * 0.8),
-      bar.totalDelta < 0,
-      closePosition > 0.55,
-      bar.lowPrice <= prevLow + this.priceStep * 0.5,
-    ];
-
-    if (longConditions.every(Boolean)) {
-      const stackStrength = average([stackBid.ratio / Math.max(thresholds.stackRatio, 1), stackBid.maxObservedRatio / (thresholds.stackRatio * 1.2)]);
-      const levelStrength = stackBid.levels / Math.max(thresholds.stackLevels, 1);
-      const imbalanceScore = clamp(stackStrength * 25 + levelStrength * 15, 0, 40);
-      const deltaScore = clamp(deltaPercentile * 25, 0, 25);
-      const volumeScore = clamp(volumePercentile * 20, 0, 20);
-      const keyScore = keyMatch ? clamp((thresholds.keyLevelDistancePercent - keyMatch.distancePercent) / thresholds.keyLevelDistancePercent * 12, 0, 12) : 0;
-      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
-      const reversalBonus = closePosition > 0.65 ? 6 : 0;
-
-      const rawScore = clamp(imbalanceScore + deltaScore + volumeScore + keyScore + atrScore + reversalBonus, 0, 100);
-
-      const entry = bar.closePrice;
-      const stop = bar.lowPrice - this.priceStep * PRICE_STEP_MULTIPLIER_STOP;
-      const target1 = entry + range * PRICE_STEP_MULTIPLIER_TARGET_1;
-      const target2 = entry + range * PRICE_STEP_MULTIPLIER_TARGET_2;
-
-      const evidence: SignalEvidenceItem[] = [
-        { label: "Stack", value: `${stackBid.ratio.toFixed(2)}× / ${stackBid.levels} niveles` },
-        { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
-        { label: "Volumen", value: `P${Math.round(volumePercentile * 100)}` },
-        { label: "Cierre", value: `${(closePosition * 100).toFixed(1)}% del rango` },
-      ];
-
-      results.push({
-        strategy: "absorption-failure",
-        side: "long",
-        rawScore,
-        stackRatio: stackBid.ratio,
-        stackLevels: stackBid.levels,
-        deltaPercentile,
-        volumePercentile,
-        atrPercentile,
-        keyMatch,
-        keyLevelDistance: keyMatch?.distancePercent ?? null,
-        entry,
-        stop,
-        target1,
-        target2,
-        evidence,
-      });
-    }
-
-    const closePositionShort = (bar.closePrice - bar.lowPrice) / Math.max(bar.highPrice - bar.lowPrice, this.priceStep * 2);
-    const shortConditions = [
-      stackAsk.levels >= Math.max(1, thresholds.stackLevels - 1),
-      stackAsk.ratio >= Math.max(1.5, thresholds.stackRatio * 0.8),
-      bar.totalDelta > 0,
-      closePositionShort < 0.45,
-      bar.highPrice >= prevHigh - this.priceStep * 0.5,
-    ];
-
-    if (shortConditions.every(Boolean)) {
-      const stackStrength = average([stackAsk.ratio / Math.max(thresholds.stackRatio, 1), stackAsk.maxObservedRatio / (thresholds.stackRatio * 1.2)]);
-      const levelStrength = stackAsk.levels / Math.max(thresholds.stackLevels, 1);
-      const imbalanceScore = clamp(stackStrength * 25 + levelStrength * 15, 0, 40);
-      const deltaScore = clamp(deltaPercentile * 25, 0, 25);
-      const volumeScore = clamp(volumePercentile * 20, 0, 20);
-      const keyScore = keyMatch ? clamp((thresholds.keyLevelDistancePercent - keyMatch.distancePercent) / thresholds.keyLevelDistancePercent * 12, 0, 12) : 0;
-      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
-      const reversalBonus = closePositionShort < 0.35 ? 6 : 0;
-
-      const rawScore = clamp(imbalanceScore + deltaScore + volumeScore + keyScore + atrScore + reversalBonus, 0, 100);
-
-      const entry = bar.closePrice;
-      const stop = bar.highPrice + this.priceStep * PRICE_STEP_MULTIPLIER_STOP;
-      const target1 = entry - (bar.highPrice - bar.lowPrice) * PRICE_STEP_MULTIPLIER_TARGET_1;
-      const target2 = entry - (bar.highPrice - bar.lowPrice) * PRICE_STEP_MULTIPLIER_TARGET_2;
-
-      const evidence: SignalEvidenceItem[] = [
-        { label: "Stack", value: `${stackAsk.ratio.toFixed(2)}× / ${stackAsk.levels} niveles` },
-        { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
-        { label: "Volumen", value: `P${Math.round(volumePercentile * 100)}` },
-        { label: "Cierre", value: `${(closePositionShort * 100).toFixed(1)}% del rango` },
-      ];
-
-      results.push({
-        strategy: "absorption-failure",
-        side: "short",
-        rawScore,
-        stackRatio: stackAsk.ratio,
-        stackLevels: stackAsk.levels,
-        deltaPercentile,
-        volumePercentile,
-        atrPercentile,
-        keyMatch,
-        keyLevelDistance: keyMatch?.distancePercent ?? null,
-        entry,
-        stop,
-        target1,
-        target2,
-        evidence,
-      });
-    }
-
-    return results;
-  }
-
-  private detectPocMigration(context: DetectionContext): StrategyHit[] {
-    const { pocMigration, bar, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
-    if (!pocMigration) {
-      return [];
-    }
-
-    const side: SignalSide = pocMigration.direction > 0 ? "long" : "short";
-    const stackInfo = pocMigration.direction > 0 ? context.stackBid : context.stackAsk;
-
-    const driftStrength = clamp(Math.abs(pocMigration.drift) / (this.priceStep * 4), 0, 1.5);
-    const stepsStrength = clamp(pocMigration.steps / Math.max(2, thresholds.stackLevels), 0, 1.5);
-    const alignmentBonus = pocMigration.aligned ? 10 : 0;
-    const deltaScore = clamp(deltaPercentile * 20, 0, 20);
-    const volumeScore = clamp(volumePercentile * 15, 0, 15);
-    const keyScore = keyMatch ? clamp((thresholds.keyLevelDistancePercent - keyMatch.distancePercent) / thresholds.keyLevelDistancePercent * 10, 0, 10) : 0;
-    const stackScore = clamp((stackInfo.ratio / Math.max(thresholds.stackRatio, 1)) * 15, 0, 20);
-    const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
-
-    const rawScore = clamp(driftStrength * 28 + stepsStrength * 18 + alignmentBonus + deltaScore + volumeScore + stackScore + keyScore + atrScore, 0, 100);
-
-    const range = Math.max(bar.highPrice - bar.lowPrice, this.priceStep * 2);
-    const entry = bar.closePrice;
-    const stop = side === "long" ? bar.lowPrice - this.priceStep * PRICE_STEP_MULTIPLIER_STOP : bar.highPrice + this.priceStep * PRICE_STEP_MULTIPLIER_STOP;
-    const directionMultiplier = side === "long" ? 1 : -1;
-    const target1 = entry + directionMultiplier * range * PRICE_STEP_MULTIPLIER_TARGET_1;
-    const target2 = entry + directionMultiplier * range * PRICE_STEP_MULTIPLIER_TARGET_2;
-
-    const evidence: SignalEvidenceItem[] = [
-      { label: "POC drift", value: `${directionMultiplier > 0 ? "+" : "-"}${Math.round(Math.abs(pocMigration.drift) / this.priceStep)} ticks` },
-      { label: "Pasos", value: `${pocMigration.steps} barras` },
-      { label: "Alineación", value: pocMigration.aligned ? "Sí" : "No" },
-      { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
-    ];
-
-    return [
-      {
-        strategy: "poc-migration",
-        side,
-        rawScore,
-        stackRatio: stackInfo.ratio,
-        stackLevels: stackInfo.levels,
-        deltaPercentile,
-        volumePercentile,
-        atrPercentile,
-        keyMatch,
-        keyLevelDistance: keyMatch?.distancePercent ?? null,
-        entry,
-        stop,
-        target1,
-        target2,
-        evidence,
-        pocDrift: pocMigration.drift,
-      },
-    ];
-  }
-
-  private detectDeltaDivergence(context: DetectionContext): StrategyHit[] {
-    const { bars, index, bar, stackBid, stackAsk, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
-    const slice = bars.slice(Math.max(0, index - DIVERGENCE_LOOKBACK), index);
-    if (!slice.length) {
-      return [];
-    }
-
-    const prevHigh = Math.max(...slice.map((item) => item.highPrice));
-    const prevLow = Math.min(...slice.map((item) => item.lowPrice));
-    const prevCumHigh = Math.max(...slice.map((item) => item.cumulativeDelta));
-    const prevCumLow = Math.min(...slice.map((item) => item.cumulativeDelta));
-
-    const results: StrategyHit[] = [];
-
-    if (bar.highPrice >= prevHigh - this.priceStep * 0.25 && bar.totalDelta < 0 && bar.cumulativeDelta <= prevCumHigh) {
-      const divergenceStrength = clamp((prevCumHigh - bar.cumulativeDelta) / Math.max(1, Math.abs(prevCumHigh)), 0, 1.2);
-      const stackStrength = stackAsk.ratio / Math.max(thresholds.stackRatio, 1);
-      const stackLevelStrength = stackAsk.levels / Math.max(thresholds.stackLevels, 1);
-      const deltaScore = clamp(deltaPercentile * 22, 0, 22);
-      const volumeScore = clamp(volumePercentile * 15, 0, 15);
-      const keyScore = keyMatch ? clamp((thresholds.keyLevelDistancePercent - keyMatch.distancePercent) / thresholds.keyLevelDistancePercent * 10, 0, 10) : 0;
-      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
-
-      const rawScore = clamp(divergenceStrength * 30 + stackStrength * 18 + stackLevelStrength * 12 + deltaScore + volumeScore + keyScore + atrScore, 0, 100);
-
-      const range = Math.max(bar.highPrice - bar.lowPrice, this.priceStep * 2);
-      const entry = bar.closePrice;
-      const stop = bar.highPrice + this.priceStep * PRICE_STEP_MULTIPLIER_STOP;
-      const target1 = entry - range * PRICE_STEP_MULTIPLIER_TARGET_1;
-      const target2 = entry - range * PRICE_STEP_MULTIPLIER_TARGET_2;
-
-      const evidence: SignalEvidenceItem[] = [
-        { label: "Divergencia", value: `${(divergenceStrength * 100).toFixed(1)}%` },
-        { label: "CumDelta", value: `${bar.cumulativeDelta.toFixed(2)} vs ${prevCumHigh.toFixed(2)}` },
-        { label: "Stack", value: `${stackAsk.ratio.toFixed(2)}× / ${stackAsk.levels}` },
-      ];
-
-      results.push({
-        strategy: "delta-divergence",
-        side: "short",
-        rawScore,
-        stackRatio: stackAsk.ratio,
-        stackLevels: stackAsk.levels,
-        deltaPercentile,
-        volumePercentile,
-        atrPercentile,
-        keyMatch,
-        keyLevelDistance: keyMatch?.distancePercent ?? null,
-        entry,
-        stop,
-        target1,
-        target2,
-        evidence,
-      });
-    }
-
-    if (bar.lowPrice <= prevLow + this.priceStep * 0.25 && bar.totalDelta > 0 && bar.cumulativeDelta >= prevCumLow) {
-      const divergenceStrength = clamp((bar.cumulativeDelta - prevCumLow) / Math.max(1, Math.abs(prevCumLow)), 0, 1.2);
-      const stackStrength = stackBid.ratio / Math.max(thresholds.stackRatio, 1);
-      const stackLevelStrength = stackBid.levels / Math.max(thresholds.stackLevels, 1);
-      const deltaScore = clamp(deltaPercentile * 22, 0, 22);
-      const volumeScore = clamp(volumePercentile * 15, 0, 15);
-      const keyScore = keyMatch ? clamp((thresholds.keyLevelDistancePercent - keyMatch.distancePercent) / thresholds.keyLevelDistancePercent * 10, 0, 10) : 0;
-      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
-
-      const rawScore = clamp(divergenceStrength * 30 + stackStrength * 18 + stackLevelStrength * 12 + deltaScore + volumeScore + keyScore + atrScore, 0, 100);
-
-      const range = Math.max(bar.highPrice - bar.lowPrice, this.priceStep * 2);
-      const entry = bar.closePrice;
-      const stop = bar.lowPrice - this.priceStep * PRICE_STEP_MULTIPLIER_STOP;
-      const target1 = entry + range * PRICE_STEP_MULTIPLIER_TARGET_1;
-      const target2 = entry + range * PRICE_STEP_MULTIPLIER_TARGET_2;
-
-      const evidence: SignalEvidenceItem[] = [
-        { label: "Divergencia", value: `${(divergenceStrength * 100).toFixed(1)}%` },
-        { label: "CumDelta", value: `${bar.cumulativeDelta.toFixed(2)} vs ${prevCumLow.toFixed(2)}` },
-        { label: "Stack", value: `${stackBid.ratio.toFixed(2)}× / ${stackBid.levels}` },
-      ];
-
-      results.push({
-        strategy: "delta-divergence",
-        side: "long",
-        rawScore,
-        stackRatio: stackBid.ratio,
-        stackLevels: stackBid.levels,
-        deltaPercentile,
-        volumePercentile,
-        atrPercentile,
-        keyMatch,
-        keyLevelDistance: keyMatch?.distancePercent ?? null,
-        entry,
-        stop,
-        target1,
-        target2,
-        evidence,
-      });
-    }
-
-    return results;
+    return signal;
   }
 
   private getActiveThresholds(): ActiveThresholds {
@@ -855,6 +746,60 @@ export class SignalEngine {
     }
   }
 
+  private scoreHigherTimeframe(
+    side: SignalSide,
+    bar: FootprintBar,
+    keyLevelDistancePercent: number,
+  ): { score: number; evidence: SignalEvidenceItem | null } {
+    let context: HigherTimeframeContext | null = null;
+    for (let index = this.htfContexts.length - 1; index >= 0; index -= 1) {
+      if (this.htfContexts[index].asOf <= bar.endTime) {
+        context = this.htfContexts[index];
+        break;
+      }
+    }
+    if (!context) {
+      return { score: 0, evidence: null };
+    }
+
+    let score = 0;
+    const direction = side === "long" ? "up" : "down";
+    if (context.deltaTrend === direction) {
+      score += HTF_TREND_ALIGNED_BONUS;
+    } else if (context.deltaTrend !== "flat") {
+      score -= HTF_TREND_AGAINST_PENALTY;
+    }
+
+    let pocText = "POC n/d";
+    if (context.pocPrice !== null && bar.closePrice > 0) {
+      const distancePercent = (Math.abs(bar.closePrice - context.pocPrice) / bar.closePrice) * 100;
+      if (distancePercent <= keyLevelDistancePercent) {
+        score += HTF_POC_BONUS;
+      }
+      pocText = `POC ${roundToStep(context.pocPrice, this.priceStep)} (${distancePercent.toFixed(2)}%)`;
+    }
+
+    const trendLabel = context.deltaTrend === "up" ? "Delta alcista" : context.deltaTrend === "down" ? "Delta bajista" : "Delta neutral";
+    return {
+      score,
+      evidence: { label: `Contexto ${context.timeframe}`, value: `${trendLabel} · ${pocText}` },
+    };
+  }
+
+  private getBarKey(): string {
+    return this.barSpec ? `${this.barSpec.type}${this.barSpec.size}` : `time${this.timeframeMs}`;
+  }
+
+  private estimateBarsPerDay(sorted: FootprintBar[]): number {
+    const nominal = Math.max(1, Math.round(DAY_MS / this.timeframeMs));
+    if (!this.barSpec || this.barSpec.type === "time" || sorted.length < 2) {
+      return nominal;
+    }
+    // Tick, volume and range bars have no fixed length: use the observed bar density.
+    const span = sorted[sorted.length - 1].endTime - sorted[0].startTime;
+    return span > 0 ? Math.max(1, Math.round((sorted.length / span) * DAY_MS)) : nominal;
+  }
+
   private updateStats(sorted: FootprintBar[]) {
     if (!sorted.length) {
       this.signalStats = {
@@ -880,11 +825,13 @@ export class SignalEngine {
       other: this.sessionSignalCounts.get(`${dayKey}-other`) ?? 0,
     };
 
-    const barsPerDay = Math.max(1, Math.round(DAY_MS / this.timeframeMs));
+    const barsPerDay = this.estimateBarsPerDay(sorted);
     const lookbackBars = Math.min(barsPerDay, sorted.length);
     const cutoffIndex = Math.max(0, sorted.length - lookbackBars);
     const cutoffTime = sorted[cutoffIndex]?.startTime ?? latestBar.startTime;
-    const signalsInWindow = this.signals.filter((signal) => signal.barTime >= cutoffTime).length;
+    const signalsInWindow = this.signals.filter(
+      (signal) => signal.barTime >= cutoffTime && signal.lifecycle !== "cancelled",
+    ).length;
     const estimatePerDay = lookbackBars > 0 ? (signalsInWindow / lookbackBars) * barsPerDay : 0;
 
     this.signalStats = {
@@ -896,23 +843,12 @@ export class SignalEngine {
   }
 }
 
-function clamp(value: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, value));
+function createRepaintStats(): SignalRepaintStats {
+  return { confirmed: 0, changed: 0, cancelled: 0 };
 }
 
-function average(values: number[]) {
-  if (!values.length) {
-    return 0;
-  }
-  return values.reduce((sum, value) => sum + value, 0) / values.length;
-}
-
-function percentileRank(history: number[], value: number): number {
-  if (!history.length || !Number.isFinite(value)) {
-    return 0;
-  }
-  const lessOrEqual = history.filter((item) => item <= value).length;
-  return clamp(lessOrEqual / history.length, 0, 1);
+function haveSameLevels(a: FootprintSignal, b: FootprintSignal): boolean {
+  return a.entry === b.entry && a.stop === b.stop && a.target1 === b.target1 && a.target2 === b.target2;
 }
 
 function computeTrueRange(bar: FootprintBar, prevClose: number | null): number {
@@ -925,79 +861,6 @@ function computeTrueRange(bar: FootprintBar, prevClose: number | null): number {
   return Math.max(highLow, highClose, lowClose);
 }
 
-function computeStackedImbalance(
-  levels: FootprintBar["levels"],
-  side: "bid" | "ask",
-  threshold: number,
-): StackInfo {
-  if (!levels.length) {
-    return { levels: 0, ratio: 0, maxObservedRatio: 0, anchorPrice: null, cumulativeVolume: 0 };
-  }
-  const sorted = [...levels].sort((a, b) => a.price - b.price);
-  let best: StackInfo = {
-    levels: 0,
-    ratio: 0,
-    maxObservedRatio: 0,
-    anchorPrice: null,
-    cumulativeVolume: 0,
-  };
-  let currentLevels = 0;
-  let currentMinRatio = Number.POSITIVE_INFINITY;
-  let currentVolume = 0;
-  let currentPrices: number[] = [];
-  let maxObserved = 0;
-
-  const pushBest = () => {
-    if (currentLevels === 0) {
-      return;
-    }
-    if (currentLevels > best.levels || (currentLevels === best.levels && currentMinRatio > best.ratio)) {
-      best = {
-        levels: currentLevels,
-        ratio: currentMinRatio,
-        maxObservedRatio: Math.max(maxObserved, best.maxObservedRatio),
-        anchorPrice: currentPrices.length ? currentPrices[currentPrices.length - 1] : best.anchorPrice,
-        cumulativeVolume: currentVolume,
-      };
-    }
-  };
-
-  for (const level of sorted) {
-    const ratio = side === "bid"
-      ? (level.bidVol + 1e-6) / (level.askVol + 1e-6)
-      : (level.askVol + 1e-6) / (level.bidVol + 1e-6);
-    if (ratio > maxObserved) {
-      maxObserved = ratio;
-    }
-    if (ratio >= threshold) {
-      currentLevels += 1;
-      currentMinRatio = Math.min(currentMinRatio, ratio);
-      currentVolume += level.totalVolume;
-      currentPrices.push(level.price);
-    } else {
-      pushBest();
-      currentLevels = 0;
-      currentMinRatio = Number.POSITIVE_INFINITY;
-      currentVolume = 0;
-      currentPrices = [];
-    }
-  }
-
-  pushBest();
-
-  if (best.levels === 0) {
-    best.maxObservedRatio = Math.max(best.maxObservedRatio, maxObserved);
-  }
-
-  return {
-    levels: best.levels,
-    ratio: best.ratio || maxObserved,
-    maxObservedRatio: Math.max(best.maxObservedRatio, maxObserved),
-    anchorPrice: best.anchorPrice,
-    cumulativeVolume: best.cumulativeVolume,
-  };
-}
-
 function getDayKey(timestamp: number): string {
   const date = new Date(timestamp);
   return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}-${String(date.getUTCDate()).padStart(2, "0")}`;
@@ -1034,37 +897,25 @@ function getTradingSession(timestamp: number): TradingSession {
   return "other";
 }
 
-function buildDayStats(bars: FootprintBar[]): Map<string, DayStats> {
-  const raw = new Map<string, { high: number; low: number; volumeByPrice: Map<number, number> }>();
+function buildDayStats(bars: FootprintBar[], profiles: VolumeProfile[]): Map<string, DayStats> {
+  const result = new Map<string, DayStats>();
   for (const bar of bars) {
     const key = getDayKey(bar.startTime);
-    let stats = raw.get(key);
+    const stats = result.get(key);
     if (!stats) {
-      stats = { high: bar.highPrice, low: bar.lowPrice, volumeByPrice: new Map() };
-      raw.set(key, stats);
+      result.set(key, { high: bar.highPrice, low: bar.lowPrice, poc: null, vah: null, val: null });
     } else {
       stats.high = Math.max(stats.high, bar.highPrice);
       stats.low = Math.min(stats.low, bar.lowPrice);
     }
-    for (const level of bar.levels) {
-      stats.volumeByPrice.set(
-        level.price,
-        (stats.volumeByPrice.get(level.price) ?? 0) + level.totalVolume,
-      );
-    }
   }
-
-  const result = new Map<string, DayStats>();
-  for (const [key, stats] of raw.entries()) {
-    let poc: number | null = null;
-    let maxVolume = 0;
-    for (const [price, volume] of stats.volumeByPrice.entries()) {
-      if (volume > maxVolume) {
-        maxVolume = volume;
-        poc = price;
-      }
+  for (const profile of profiles) {
+    const stats = result.get(profile.key);
+    if (stats) {
+      stats.poc = profile.poc;
+      stats.vah = profile.vah;
+      stats.val = profile.val;
     }
-    result.set(key, { high: stats.high, low: stats.low, poc });
   }
   return result;
 }
@@ -1087,8 +938,9 @@ function buildWeekStats(bars: FootprintBar[]): Map<string, WeekStats> {
 function collectKeyLevels(args: {
   prevDay?: DayStats;
   prevWeek?: WeekStats;
-  sessionVwap: number | null;
+  vwapLevels: VwapLevel[];
   previousPoc: number | null;
+  nakedPocs: number[];
 }): KeyLevel[] {
   const levels: KeyLevel[] = [];
   if (args.prevDay) {
@@ -1097,17 +949,26 @@ function collectKeyLevels(args: {
     if (args.prevDay.poc !== null) {
       levels.push({ label: "POC previo", price: args.prevDay.poc });
     }
+    if (args.prevDay.vah !== null && args.prevDay.val !== null) {
+      levels.push({ label: "VAH previo", price: args.prevDay.vah });
+      levels.push({ label: "VAL previo", price: args.prevDay.val });
+    }
   }
   if (args.prevWeek) {
     levels.push({ label: "Semanal High", price: args.prevWeek.high });
     levels.push({ label: "Semanal Low", price: args.prevWeek.low });
   }
-  if (args.sessionVwap !== null && Number.isFinite(args.sessionVwap)) {
-    levels.push({ label: "VWAP sesión", price: args.sessionVwap });
+  for (const level of args.vwapLevels) {
+    if (Number.isFinite(level.price)) {
+      levels.push({ label: level.label, price: level.price });
+    }
   }
   if (args.previousPoc !== null && Number.isFinite(args.previousPoc)) {
     levels.push({ label: "POC último", price: args.previousPoc });
   }
+  for (const poc of args.nakedPocs) {
+    levels.push({ label: "POC virgen", price: poc });
+  }
   return levels;
 }
 
@@ -1125,69 +986,6 @@ function findClosestKeyLevel(price: number, levels: KeyLevel[]): KeyLevelMatch |
   return closest;
 }
 
-function computeSessionVwap(bars: FootprintBar[], index: number): number | null {
-  const bar = bars[index];
-  const dayKey = getDayKey(bar.startTime);
-  const session = getTradingSession(bar.startTime);
-  let volume = 0;
-  let priceVolume = 0;
-  for (let i = index; i >= 0; i -= 1) {
-    const candidate = bars[i];
-    if (getDayKey(candidate.startTime) !== dayKey) {
-      break;
-    }
-    if (getTradingSession(candidate.startTime) !== session) {
-      break;
-    }
-    const refPrice = candidate.pocPrice ?? (candidate.highPrice + candidate.lowPrice) / 2;
-    volume += candidate.totalVolume;
-    priceVolume += refPrice * candidate.totalVolume;
-  }
-  if (volume <= 0) {
-    return null;
-  }
-  return priceVolume / volume;
-}
-
-function computePocMigration(
-  bars: FootprintBar[],
-  index: number,
-  priceStep: number,
-): PocMigration | null {
-  const slice = bars.slice(Math.max(0, index - POC_LOOKBACK + 1), index + 1).filter((bar) => typeof bar.pocPrice === "number");
-  if (slice.length < 3) {
-    return null;
-  }
-  const pocPrices = slice.map((bar) => bar.pocPrice as number);
-  const first = pocPrices[0];
-  const last = pocPrices[pocPrices.length - 1];
-  const drift = last - first;
-  if (Math.abs(drift) < priceStep * 2) {
-    return null;
-  }
-  const direction: 1 | -1 = drift > 0 ? 1 : -1;
-  let aligned = true;
-  for (let i = 1; i < pocPrices.length; i += 1) {
-    const stepDirection = Math.sign(pocPrices[i] - pocPrices[i - 1]) || direction;
-    if (stepDirection !== direction) {
-      aligned = false;
-      break;
-    }
-  }
-  const steps = pocPrices.length - 1;
-  const avgDelta = average(slice.map((bar) => bar.totalDelta));
-  const averageDeltaSign = Math.sign(avgDelta);
-  const alignedDelta = averageDeltaSign === direction || averageDeltaSign === 0;
-  return {
-    direction,
-    drift,
-    steps,
-    lookback: slice.length,
-    aligned: aligned && alignedDelta,
-    averageDeltaSign,
-  };
-}
-
 function roundToStep(price: number, step: number): number {
   if (!Number.isFinite(price) || step <= 0) {
     return price;
@@ -1210,14 +1008,3 @@ function mergeEvidence(hits: StrategyHit[], keyMatch: KeyLevelMatch | null): Sig
   }
   return Array.from(map.entries()).map(([label, value]) => ({ label, value }));
 }
-
-function atrPercentileContribution(percentile: number, range: [number, number] | null): number {
-  if (!range) {
-    return 4;
-  }
-  const [min, max] = range;
-  if (percentile >= min && percentile <= max) {
-    return 6;
-  }
-  return Math.max(0, 6 - Math.abs(percentile - clamp((min + max) / 2, 0, 1)) * 12);
-}
@@ -0,0 +1,161 @@
+import type { SignalEvidenceItem } from "@/types";
+
+import { atrPercentileContribution, average, clamp, keyLevelScore, resolveStructureExits } from "./shared";
+import type { SignalStrategyDefinition, StrategyHit } from "./types";
+
+export type AbsorptionParams = {
+  lookback: number;
+  stopTicks: number;
+  target1Range: number;
+  target2Range: number;
+  structureExits: number;
+};
+
+// Passive size absorbs aggression at the edge of the recent range and the bar
+// closes back inside it.
+export const absorptionFailureStrategy: SignalStrategyDefinition<AbsorptionParams> = {
+  id: "absorption-failure",
+  label: "Absorción + fallo",
+  shortLabel: "Absorción",
+  defaultEnabled: true,
+  defaultParams: {
+    lookback: 12,
+    stopTicks: 2,
+    target1Range: 1.0,
+    target2Range: 1.8,
+    structureExits: 0,
+  },
+  detect(context, params) {
+    const { bar, bars, index, priceStep, thresholds, stackBid, stackAsk, keyMatch, deltaPercentile, volumePercentile, atrPercentile } = context;
+    const results: StrategyHit[] = [];
+    const lookback = Math.min(index, params.lookback);
+    const previousBars = bars.slice(Math.max(0, index - lookback), index);
+    const prevHigh = previousBars.length ? Math.max(...previousBars.map((item) => item.highPrice)) : bar.highPrice;
+    const prevLow = previousBars.length ? Math.min(...previousBars.map((item) => item.lowPrice)) : bar.lowPrice;
+
+    const range = Math.max(bar.highPrice - bar.lowPrice, priceStep * 2);
+    const closePosition = (bar.closePrice - bar.lowPrice) / range;
+
+    const longConditions = [
+      stackBid.levels >= Math.max(1, thresholds.stackLevels - 1),
+      stackBid.ratio >= Math.max(1.5, thresholds.stackRatio * 0.8),
+      bar.totalDelta < 0,
+      closePosition > 0.55,
+      bar.lowPrice <= prevLow + priceStep * 0.5,
+    ];
+
+    if (longConditions.every(Boolean)) {
+      const stackStrength = average([stackBid.ratio / Math.max(thresholds.stackRatio, 1), stackBid.maxObservedRatio / (thresholds.stackRatio * 1.2)]);
+      const levelStrength = stackBid.levels / Math.max(thresholds.stackLevels, 1);
+      const imbalanceScore = clamp(stackStrength * 25 + levelStrength * 15, 0, 40);
+      const deltaScore = clamp(deltaPercentile * 25, 0, 25);
+      const volumeScore = clamp(volumePercentile * 20, 0, 20);
+      const keyScore = keyLevelScore(keyMatch, thresholds, 12);
+      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+      const reversalBonus = closePosition > 0.65 ? 6 : 0;
+
+      const rawScore = clamp(imbalanceScore + deltaScore + volumeScore + keyScore + atrScore + reversalBonus, 0, 100);
+
+      const entry = bar.closePrice;
+      const { stop, target1, target2, swing } = resolveStructureExits(context, {
+        side: "long",
+        entry,
+        exits: {
+          stop: bar.lowPrice - priceStep * params.stopTicks,
+          target1: entry + range * params.target1Range,
+          target2: entry + range * params.target2Range,
+        },
+        stopTicks: params.stopTicks,
+        enabled: params.structureExits > 0,
+      });
+
+      const evidence: SignalEvidenceItem[] = [
+        { label: "Stack", value: `${stackBid.ratio.toFixed(2)}× / ${stackBid.levels} niveles` },
+        { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
+        { label: "Volumen", value: `P${Math.round(volumePercentile * 100)}` },
+        { label: "Cierre", value: `${(closePosition * 100).toFixed(1)}% del rango` },
+        ...(swing ? [{ label: "Swing", value: swing.price.toFixed(2) }] : []),
+      ];
+
+      results.push({
+        strategy: "absorption-failure",
+        side: "long",
+        rawScore,
+        stackRatio: stackBid.ratio,
+        stackLevels: stackBid.levels,
+        deltaPercentile,
+        volumePercentile,
+        atrPercentile,
+        keyMatch,
+        keyLevelDistance: keyMatch?.distancePercent ?? null,
+        entry,
+        stop,
+        target1,
+        target2,
+        evidence,
+      });
+    }
+
+    const shortConditions = [
+      stackAsk.levels >= Math.max(1, thresholds.stackLevels - 1),
+      stackAsk.ratio >= Math.max(1.5, thresholds.stackRatio * 0.8),
+      bar.totalDelta > 0,
+      closePosition < 0.45,
+      bar.highPrice >= prevHigh - priceStep * 0.5,
+    ];
+
+    if (shortConditions.every(Boolean)) {
+      const stackStrength = average([stackAsk.ratio / Math.max(thresholds.stackRatio, 1), stackAsk.maxObservedRatio / (thresholds.stackRatio * 1.2)]);
+      const levelStrength = stackAsk.levels / Math.max(thresholds.stackLevels, 1);
+      const imbalanceScore = clamp(stackStrength * 25 + levelStrength * 15, 0, 40);
+      const deltaScore = clamp(deltaPercentile * 25, 0, 25);
+      const volumeScore = clamp(volumePercentile * 20, 0, 20);
+      const keyScore = keyLevelScore(keyMatch, thresholds, 12);
+      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+      const reversalBonus = closePosition < 0.35 ? 6 : 0;
+
+      const rawScore = clamp(imbalanceScore + deltaScore + volumeScore + keyScore + atrScore + reversalBonus, 0, 100);
+
+      const entry = bar.closePrice;
+      const { stop, target1, target2, swing } = resolveStructureExits(context, {
+        side: "short",
+        entry,
+        exits: {
+          stop: bar.highPrice + priceStep * params.stopTicks,
+          target1: entry - (bar.highPrice - bar.lowPrice) * params.target1Range,
+          target2: entry - (bar.highPrice - bar.lowPrice) * params.target2Range,
+        },
+        stopTicks: params.stopTicks,
+        enabled: params.structureExits > 0,
+      });
+
+      const evidence: SignalEvidenceItem[] = [
+        { label: "Stack", value: `${stackAsk.ratio.toFixed(2)}× / ${stackAsk.levels} niveles` },
+        { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
+        { label: "Volumen", value: `P${Math.round(volumePercentile * 100)}` },
+        { label: "Cierre", value: `${(closePosition * 100).toFixed(1)}% del rango` },
+        ...(swing ? [{ label: "Swing", value: swing.price.toFixed(2) }] : []),
+      ];
+
+      results.push({
+        strategy: "absorption-failure",
+        side: "short",
+        rawScore,
+        stackRatio: stackAsk.ratio,
+        stackLevels: stackAsk.levels,
+        deltaPercentile,
+        volumePercentile,
+        atrPercentile,
+        keyMatch,
+        keyLevelDistance: keyMatch?.distancePercent ?? null,
+        entry,
+        stop,
+        target1,
+        target2,
+        evidence,
+      });
+    }
+
+    return results;
+  },
+};
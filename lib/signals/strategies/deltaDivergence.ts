@@ -0,0 +1,145 @@
+import type { SignalEvidenceItem } from "@/types";
+
+import { atrPercentileContribution, clamp, keyLevelScore, resolveStructureExits } from "./shared";
+import type { SignalStrategyDefinition, StrategyHit } from "./types";
+
+export type DeltaDivergenceParams = {
+  lookback: number;
+  stopTicks: number;
+  target1Range: number;
+  target2Range: number;
+  structureExits: number;
+};
+
+// Price makes a new extreme while cumulative delta does not follow.
+export const deltaDivergenceStrategy: SignalStrategyDefinition<DeltaDivergenceParams> = {
+  id: "delta-divergence",
+  label: "Divergencia delta",
+  shortLabel: "Divergencia",
+  defaultEnabled: true,
+  defaultParams: {
+    lookback: 16,
+    stopTicks: 2,
+    target1Range: 1.0,
+    target2Range: 1.8,
+    structureExits: 0,
+  },
+  detect(context, params) {
+    const { bars, index, bar, priceStep, stackBid, stackAsk, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
+    const slice = bars.slice(Math.max(0, index - params.lookback), index);
+    if (!slice.length) {
+      return [];
+    }
+
+    const prevHigh = Math.max(...slice.map((item) => item.highPrice));
+    const prevLow = Math.min(...slice.map((item) => item.lowPrice));
+    const prevCumHigh = Math.max(...slice.map((item) => item.cumulativeDelta));
+    const prevCumLow = Math.min(...slice.map((item) => item.cumulativeDelta));
+
+    const results: StrategyHit[] = [];
+
+    if (bar.highPrice >= prevHigh - priceStep * 0.25 && bar.totalDelta < 0 && bar.cumulativeDelta <= prevCumHigh) {
+      const divergenceStrength = clamp((prevCumHigh - bar.cumulativeDelta) / Math.max(1, Math.abs(prevCumHigh)), 0, 1.2);
+      const stackStrength = stackAsk.ratio / Math.max(thresholds.stackRatio, 1);
+      const stackLevelStrength = stackAsk.levels / Math.max(thresholds.stackLevels, 1);
+      const deltaScore = clamp(deltaPercentile * 22, 0, 22);
+      const volumeScore = clamp(volumePercentile * 15, 0, 15);
+      const keyScore = keyLevelScore(keyMatch, thresholds, 10);
+      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+
+      const rawScore = clamp(divergenceStrength * 30 + stackStrength * 18 + stackLevelStrength * 12 + deltaScore + volumeScore + keyScore + atrScore, 0, 100);
+
+      const range = Math.max(bar.highPrice - bar.lowPrice, priceStep * 2);
+      const entry = bar.closePrice;
+      const { stop, target1, target2, swing } = resolveStructureExits(context, {
+        side: "short",
+        entry,
+        exits: {
+          stop: bar.highPrice + priceStep * params.stopTicks,
+          target1: entry - range * params.target1Range,
+          target2: entry - range * params.target2Range,
+        },
+        stopTicks: params.stopTicks,
+        enabled: params.structureExits > 0,
+      });
+
+      const evidence: SignalEvidenceItem[] = [
+        { label: "Divergencia", value: `${(divergenceStrength * 100).toFixed(1)}%` },
+        { label: "CumDelta", value: `${bar.cumulativeDelta.toFixed(2)} vs ${prevCumHigh.toFixed(2)}` },
+        { label: "Stack", value: `${stackAsk.ratio.toFixed(2)}× / ${stackAsk.levels}` },
+        ...(swing ? [{ label: "Swing", value: swing.price.toFixed(2) }] : []),
+      ];
+
+      results.push({
+        strategy: "delta-divergence",
+        side: "short",
+        rawScore,
+        stackRatio: stackAsk.ratio,
+        stackLevels: stackAsk.levels,
+        deltaPercentile,
+        volumePercentile,
+        atrPercentile,
+        keyMatch,
+        keyLevelDistance: keyMatch?.distancePercent ?? null,
+        entry,
+        stop,
+        target1,
+        target2,
+        evidence,
+      });
+    }
+
+    if (bar.lowPrice <= prevLow + priceStep * 0.25 && bar.totalDelta > 0 && bar.cumulativeDelta >= prevCumLow) {
+      const divergenceStrength = clamp((bar.cumulativeDelta - prevCumLow) / Math.max(1, Math.abs(prevCumLow)), 0, 1.2);
+      const stackStrength = stackBid.ratio / Math.max(thresholds.stackRatio, 1);
+      const stackLevelStrength = stackBid.levels / Math.max(thresholds.stackLevels, 1);
+      const deltaScore = clamp(deltaPercentile * 22, 0, 22);
+      const volumeScore = clamp(volumePercentile * 15, 0, 15);
+      const keyScore = keyLevelScore(keyMatch, thresholds, 10);
+      const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+
+      const rawScore = clamp(divergenceStrength * 30 + stackStrength * 18 + stackLevelStrength * 12 + deltaScore + volumeScore + keyScore + atrScore, 0, 100);
+
+      const range = Math.max(bar.highPrice - bar.lowPrice, priceStep * 2);
+      const entry = bar.closePrice;
+      const { stop, target1, target2, swing } = resolveStructureExits(context, {
+        side: "long",
+        entry,
+        exits: {
+          stop: bar.lowPrice - priceStep * params.stopTicks,
+          target1: entry + range * params.target1Range,
+          target2: entry + range * params.target2Range,
+        },
+        stopTicks: params.stopTicks,
+        enabled: params.structureExits > 0,
+      });
+
+      const evidence: SignalEvidenceItem[] = [
+        { label: "Divergencia", value: `${(divergenceStrength * 100).toFixed(1)}%` },
+        { label: "CumDelta", value: `${bar.cumulativeDelta.toFixed(2)} vs ${prevCumLow.toFixed(2)}` },
+        { label: "Stack", value: `${stackBid.ratio.toFixed(2)}× / ${stackBid.levels}` },
+        ...(swing ? [{ label: "Swing", value: swing.price.toFixed(2) }] : []),
+      ];
+
+      results.push({
+        strategy: "delta-divergence",
+        side: "long",
+        rawScore,
+        stackRatio: stackBid.ratio,
+        stackLevels: stackBid.levels,
+        deltaPercentile,
+        volumePercentile,
+        atrPercentile,
+        keyMatch,
+        keyLevelDistance: keyMatch?.distancePercent ?? null,
+        entry,
+        stop,
+        target1,
+        target2,
+        evidence,
+      });
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,84 @@
+import type { SignalStrategy, SignalStrategyParams } from "@/types";
+
+import { absorptionFailureStrategy } from "./absorption";
+import { deltaDivergenceStrategy } from "./deltaDivergence";
+import { openingRangeStrategy } from "./openingRange";
+import { pocMigrationStrategy } from "./pocMigration";
+import { trappedTradersStrategy } from "./trappedTraders";
+import { unfinishedAuctionStrategy } from "./unfinishedAuction";
+import type { SignalStrategyDefinition } from "./types";
+
+export type {
+  ActiveThresholds,
+  DayStats,
+  DetectionContext,
+  KeyLevel,
+  KeyLevelContext,
+  KeyLevelMatch,
+  SignalStrategyDefinition,
+  StackInfo,
+  StrategyHit,
+  WeekStats,
+} from "./types";
+
+// Registration order is evaluation and display order. The worker and the UI
+// each hold their own copy, so a strategy must be registered from a module
+// both import (this one, or one imported next to SignalEngine).
+const REGISTRY = new Map<SignalStrategy, SignalStrategyDefinition>();
+
+export function registerSignalStrategy<P extends SignalStrategyParams>(definition: SignalStrategyDefinition<P>) {
+  REGISTRY.set(definition.id, withRecordParams(definition));
+}
+
+export function unregisterSignalStrategy(id: SignalStrategy): boolean {
+  return REGISTRY.delete(id);
+}
+
+export function getSignalStrategies(): SignalStrategyDefinition[] {
+  return Array.from(REGISTRY.values());
+}
+
+export function getSignalStrategy(id: SignalStrategy): SignalStrategyDefinition | undefined {
+  return REGISTRY.get(id);
+}
+
+export function getSignalStrategyIds(): SignalStrategy[] {
+  return Array.from(REGISTRY.keys());
+}
+
+export function formatSignalStrategy(id: SignalStrategy): string {
+  return REGISTRY.get(id)?.shortLabel ?? id;
+}
+
+export function resolveStrategyParams(
+  definition: SignalStrategyDefinition,
+  overrides?: Partial<SignalStrategyParams>,
+): SignalStrategyParams {
+  const params: SignalStrategyParams = { ...definition.defaultParams };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+// The registry passes every strategy a plain record; laying it over the
+// strategy's defaults guarantees each key its own params type declares.
+function withRecordParams<P extends SignalStrategyParams>(definition: SignalStrategyDefinition<P>): SignalStrategyDefinition {
+  const { keyLevels } = definition;
+  return {
+    ...definition,
+    detect: (context, params) => definition.detect(context, { ...definition.defaultParams, ...params }),
+    keyLevels: keyLevels
+      ? (context, params) => keyLevels.call(definition, context, { ...definition.defaultParams, ...params })
+      : undefined,
+  };
+}
+
+registerSignalStrategy(absorptionFailureStrategy);
+registerSignalStrategy(pocMigrationStrategy);
+registerSignalStrategy(deltaDivergenceStrategy);
+registerSignalStrategy(unfinishedAuctionStrategy);
+registerSignalStrategy(trappedTradersStrategy);
+registerSignalStrategy(openingRangeStrategy);
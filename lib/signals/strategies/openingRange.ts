@@ -0,0 +1,248 @@
+import type { FootprintBar, SignalEvidenceItem, SignalSide, StrategyKeyLevel } from "@/types";
+
+import { atrPercentileContribution, clamp, keyLevelScore } from "./shared";
+import type { DetectionContext, KeyLevelContext, SignalStrategyDefinition, StackInfo, StrategyHit } from "./types";
+
+export type OpeningRangeParams = {
+  // Session opens in UTC hours (13.5 = 13:30); a negative hour disables the session.
+  euOpenHour: number;
+  usOpenHour: number;
+  // 60 minutes builds the initial balance, shorter windows an opening range.
+  rangeMinutes: number;
+  // With depth on the bar, also require a sweep in the breakout direction (1 = on).
+  requireSweep: number;
+  stopTicks: number;
+  // Targets beyond the broken edge, in multiples of the range height.
+  target1Extension: number;
+  target2Extension: number;
+};
+
+export interface OpeningRange {
+  session: "eu" | "us";
+  openTime: number;
+  // First bar time after the range is complete.
+  endTime: number;
+  high: number;
+  low: number;
+}
+
+const STRATEGY_ID = "opening-range";
+
+const HOUR_MS = 3_600_000;
+
+// A range stops producing breakouts at the next open, or after this long.
+const MAX_RANGE_HOURS = 8;
+
+// The first bar closing outside the session's opening range, backed by
+// stacked aggression, strong delta and, when depth is recorded, a sweep.
+export const openingRangeStrategy: SignalStrategyDefinition<OpeningRangeParams> = {
+  id: STRATEGY_ID,
+  label: "Ruptura rango de apertura",
+  shortLabel: "Apertura",
+  defaultEnabled: true,
+  defaultParams: {
+    euOpenHour: 7,
+    usOpenHour: 12,
+    rangeMinutes: 60,
+    requireSweep: 1,
+    stopTicks: 2,
+    target1Extension: 0.5,
+    target2Extension: 1,
+  },
+  // Enter on the break of the signal bar, not on a pullback into it.
+  entryType: "stop",
+  detect(context, params) {
+    const { bars, index, bar, priceStep, thresholds, deltaPercentile, stackBid, stackAsk } = context;
+    if (index < 1 || bar.skeleton || bar.totalVolume <= 0 || deltaPercentile < thresholds.minDeltaPercentile) {
+      return [];
+    }
+    const previous = bars[index - 1];
+    const results: StrategyHit[] = [];
+
+    for (const range of findOpeningRanges({ bars, index, priceStep }, params)) {
+      if (bar.closePrice > range.high && previous.closePrice <= range.high && bar.totalDelta > 0) {
+        const hit = buildHit(context, { range, side: "long", stack: stackAsk, params });
+        if (hit) {
+          results.push(hit);
+        }
+      }
+      if (bar.closePrice < range.low && previous.closePrice >= range.low && bar.totalDelta < 0) {
+        const hit = buildHit(context, { range, side: "short", stack: stackBid, params });
+        if (hit) {
+          results.push(hit);
+        }
+      }
+    }
+    return results;
+  },
+  keyLevels(context, params) {
+    const levels: StrategyKeyLevel[] = [];
+    for (const range of findOpeningRanges(context, params)) {
+      const prefix = `${range.session.toUpperCase()} ${getRangeName(params)}`;
+      const height = range.high - range.low;
+      const id = `${STRATEGY_ID}-${range.session}-${range.openTime}`;
+      const level = (suffix: string, label: string, price: number, type: StrategyKeyLevel["type"]): StrategyKeyLevel => ({
+        id: `${id}-${suffix}`,
+        strategy: STRATEGY_ID,
+        label,
+        price,
+        type,
+        barTime: range.openTime,
+      });
+      levels.push(level("high", `${prefix}H`, range.high, "ib-high"), level("low", `${prefix}L`, range.low, "ib-low"));
+      if (height > 0) {
+        for (const multiple of new Set([params.target1Extension, params.target2Extension])) {
+          if (multiple > 0) {
+            levels.push(
+              level(`high-x${multiple}`, `${prefix}H ${multiple}x`, range.high + height * multiple, "ib-extension"),
+              level(`low-x${multiple}`, `${prefix}L ${multiple}x`, range.low - height * multiple, "ib-extension"),
+            );
+          }
+        }
+      }
+    }
+    return levels;
+  },
+};
+
+// Completed ranges still open for breakouts at `index`.
+export function findOpeningRanges(
+  context: KeyLevelContext,
+  params: Pick<OpeningRangeParams, "euOpenHour" | "usOpenHour" | "rangeMinutes">,
+): OpeningRange[] {
+  const { bars, index } = context;
+  const bar = bars[index];
+  if (!bar) {
+    return [];
+  }
+  const rangeMs = Math.max(1, params.rangeMinutes) * 60_000;
+  const opens = getRecentOpens(bar.startTime, params);
+  const ranges: OpeningRange[] = [];
+
+  opens.forEach((open, position) => {
+    const endTime = open.time + rangeMs;
+    const nextOpen = opens[position + 1]?.time ?? Number.POSITIVE_INFINITY;
+    const expiresAt = Math.min(nextOpen, open.time + MAX_RANGE_HOURS * HOUR_MS);
+    if (bar.startTime < endTime || bar.startTime >= expiresAt) {
+      return;
+    }
+    let high = Number.NEGATIVE_INFINITY;
+    let low = Number.POSITIVE_INFINITY;
+    for (let cursor = index; cursor >= 0; cursor -= 1) {
+      const item = bars[cursor];
+      if (item.startTime < open.time) {
+        break;
+      }
+      if (item.startTime >= endTime || item.skeleton || item.totalVolume <= 0) {
+        continue;
+      }
+      high = Math.max(high, item.highPrice);
+      low = Math.min(low, item.lowPrice);
+    }
+    if (Number.isFinite(high) && Number.isFinite(low)) {
+      ranges.push({ session: open.session, openTime: open.time, endTime, high, low });
+    }
+  });
+  return ranges;
+}
+
+// Enabled opens from the previous day up to `timestamp`, oldest first.
+function getRecentOpens(
+  timestamp: number,
+  params: Pick<OpeningRangeParams, "euOpenHour" | "usOpenHour">,
+): Array<{ session: "eu" | "us"; time: number }> {
+  const date = new Date(timestamp);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const sessions: Array<{ session: "eu" | "us"; hour: number }> = [
+    { session: "eu", hour: params.euOpenHour },
+    { session: "us", hour: params.usOpenHour },
+  ];
+  const opens: Array<{ session: "eu" | "us"; time: number }> = [];
+  for (const day of [dayStart - 24 * HOUR_MS, dayStart]) {
+    for (const { session, hour } of sessions) {
+      if (hour >= 0 && hour < 24) {
+        opens.push({ session, time: day + hour * HOUR_MS });
+      }
+    }
+  }
+  return opens.filter((open) => open.time <= timestamp).sort((a, b) => a.time - b.time);
+}
+
+function buildHit(
+  context: DetectionContext,
+  args: { range: OpeningRange; side: SignalSide; stack: StackInfo; params: OpeningRangeParams },
+): StrategyHit | null {
+  const { bar, priceStep, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
+  const { range, side, stack, params } = args;
+  if (stack.levels < thresholds.stackLevels || stack.ratio < thresholds.stackRatio) {
+    return null;
+  }
+  const isLong = side === "long";
+  const sweep = findSweep(bar, isLong ? "up" : "down");
+  if (params.requireSweep > 0 && bar.depth && !sweep) {
+    return null;
+  }
+
+  const stackScore = clamp(
+    (stack.ratio / Math.max(thresholds.stackRatio, 1)) * 15 + (stack.levels / Math.max(thresholds.stackLevels, 1)) * 15,
+    0,
+    30,
+  );
+  const deltaScore = clamp(deltaPercentile * 25, 0, 25);
+  const volumeScore = clamp(volumePercentile * 15, 0, 15);
+  const keyScore = keyLevelScore(keyMatch, thresholds, 8);
+  const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+  const sweepBonus = sweep ? 12 : 0;
+  const rawScore = clamp(stackScore + deltaScore + volumeScore + keyScore + atrScore + sweepBonus, 0, 100);
+
+  const height = Math.max(range.high - range.low, priceStep * 2);
+  const edge = isLong ? range.high : range.low;
+  const direction = isLong ? 1 : -1;
+  const entry = bar.closePrice;
+  const stop = isLong
+    ? Math.min(bar.lowPrice, range.high) - priceStep * params.stopTicks
+    : Math.max(bar.highPrice, range.low) + priceStep * params.stopTicks;
+  // Breakouts closing past an extension still aim half a range further.
+  const distance = (price: number) => direction * (price - entry);
+  let target1 = edge + direction * height * params.target1Extension;
+  if (distance(target1) < height * 0.5) {
+    target1 = entry + direction * height * 0.5;
+  }
+  let target2 = edge + direction * height * params.target2Extension;
+  if (distance(target2) <= distance(target1)) {
+    target2 = target1 + direction * height * 0.5;
+  }
+
+  const evidence: SignalEvidenceItem[] = [
+    { label: "Rango", value: `${range.session.toUpperCase()} ${range.low.toFixed(2)} – ${range.high.toFixed(2)}` },
+    { label: "Stack", value: `${stack.ratio.toFixed(2)}× / ${stack.levels} niveles` },
+    { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
+    { label: "Sweep", value: sweep ? `${sweep.levelsCleared} niveles` : bar.depth ? "no" : "sin depth" },
+  ];
+
+  return {
+    strategy: STRATEGY_ID,
+    side,
+    rawScore,
+    stackRatio: stack.ratio,
+    stackLevels: stack.levels,
+    deltaPercentile,
+    volumePercentile,
+    atrPercentile,
+    keyMatch,
+    keyLevelDistance: keyMatch?.distancePercent ?? null,
+    entry,
+    stop,
+    target1,
+    target2,
+    evidence,
+  };
+}
+
+function findSweep(bar: FootprintBar, direction: "up" | "down") {
+  return bar.depth?.sweeps.find((sweep) => sweep.direction === direction) ?? null;
+}
+
+function getRangeName(params: Pick<OpeningRangeParams, "rangeMinutes">): string {
+  return params.rangeMinutes >= 60 ? "IB" : "OR";
+}
@@ -0,0 +1,142 @@
+import type { FootprintBar, SignalEvidenceItem, SignalSide } from "@/types";
+
+import { atrPercentileContribution, average, clamp, keyLevelScore, resolveStructureExits } from "./shared";
+import type { SignalStrategyDefinition } from "./types";
+
+export type PocMigrationParams = {
+  lookback: number;
+  minDriftTicks: number;
+  stopTicks: number;
+  target1Range: number;
+  target2Range: number;
+  structureExits: number;
+};
+
+interface PocMigration {
+  direction: 1 | -1;
+  drift: number;
+  steps: number;
+  lookback: number;
+  aligned: boolean;
+  averageDeltaSign: number;
+}
+
+// The point of control walks in one direction over the last bars.
+export const pocMigrationStrategy: SignalStrategyDefinition<PocMigrationParams> = {
+  id: "poc-migration",
+  label: "Migración de POC",
+  shortLabel: "POC",
+  defaultEnabled: true,
+  defaultParams: {
+    lookback: 6,
+    minDriftTicks: 2,
+    stopTicks: 2,
+    target1Range: 1.0,
+    target2Range: 1.8,
+    structureExits: 0,
+  },
+  detect(context, params) {
+    const { bars, index, bar, priceStep, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
+    const pocMigration = computePocMigration(bars, index, priceStep, params);
+    if (!pocMigration) {
+      return [];
+    }
+
+    const side: SignalSide = pocMigration.direction > 0 ? "long" : "short";
+    const stackInfo = pocMigration.direction > 0 ? context.stackBid : context.stackAsk;
+
+    const driftStrength = clamp(Math.abs(pocMigration.drift) / (priceStep * 4), 0, 1.5);
+    const stepsStrength = clamp(pocMigration.steps / Math.max(2, thresholds.stackLevels), 0, 1.5);
+    const alignmentBonus = pocMigration.aligned ? 10 : 0;
+    const deltaScore = clamp(deltaPercentile * 20, 0, 20);
+    const volumeScore = clamp(volumePercentile * 15, 0, 15);
+    const keyScore = keyLevelScore(keyMatch, thresholds, 10);
+    const stackScore = clamp((stackInfo.ratio / Math.max(thresholds.stackRatio, 1)) * 15, 0, 20);
+    const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+
+    const rawScore = clamp(driftStrength * 28 + stepsStrength * 18 + alignmentBonus + deltaScore + volumeScore + stackScore + keyScore + atrScore, 0, 100);
+
+    const range = Math.max(bar.highPrice - bar.lowPrice, priceStep * 2);
+    const entry = bar.closePrice;
+    const directionMultiplier = side === "long" ? 1 : -1;
+    const { stop, target1, target2, swing } = resolveStructureExits(context, {
+      side,
+      entry,
+      exits: {
+        stop: side === "long" ? bar.lowPrice - priceStep * params.stopTicks : bar.highPrice + priceStep * params.stopTicks,
+        target1: entry + directionMultiplier * range * params.target1Range,
+        target2: entry + directionMultiplier * range * params.target2Range,
+      },
+      stopTicks: params.stopTicks,
+      enabled: params.structureExits > 0,
+    });
+
+    const evidence: SignalEvidenceItem[] = [
+      { label: "POC drift", value: `${directionMultiplier > 0 ? "+" : "-"}${Math.round(Math.abs(pocMigration.drift) / priceStep)} ticks` },
+      { label: "Pasos", value: `${pocMigration.steps} barras` },
+      { label: "Alineación", value: pocMigration.aligned ? "Sí" : "No" },
+      { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
+      ...(swing ? [{ label: "Swing", value: swing.price.toFixed(2) }] : []),
+    ];
+
+    return [
+      {
+        strategy: "poc-migration",
+        side,
+        rawScore,
+        stackRatio: stackInfo.ratio,
+        stackLevels: stackInfo.levels,
+        deltaPercentile,
+        volumePercentile,
+        atrPercentile,
+        keyMatch,
+        keyLevelDistance: keyMatch?.distancePercent ?? null,
+        entry,
+        stop,
+        target1,
+        target2,
+        evidence,
+      },
+    ];
+  },
+};
+
+function computePocMigration(
+  bars: FootprintBar[],
+  index: number,
+  priceStep: number,
+  params: PocMigrationParams,
+): PocMigration | null {
+  const slice = bars.slice(Math.max(0, index - params.lookback + 1), index + 1).filter((bar) => typeof bar.pocPrice === "number");
+  if (slice.length < 3) {
+    return null;
+  }
+  const pocPrices = slice.map((bar) => bar.pocPrice as number);
+  const first = pocPrices[0];
+  const last = pocPrices[pocPrices.length - 1];
+  const drift = last - first;
+  if (Math.abs(drift) < priceStep * params.minDriftTicks) {
+    return null;
+  }
+  const direction: 1 | -1 = drift > 0 ? 1 : -1;
+  let aligned = true;
+  for (let i = 1; i < pocPrices.length; i += 1) {
+    const stepDirection = Math.sign(pocPrices[i] - pocPrices[i - 1]) || direction;
+    if (stepDirection !== direction) {
+      aligned = false;
+      break;
+    }
+  }
+  const steps = pocPrices.length - 1;
+  const avgDelta = average(slice.map((bar) => bar.totalDelta));
+  const averageDeltaSign = Math.sign(avgDelta);
+  const alignedDelta = averageDeltaSign === direction || averageDeltaSign === 0;
+  return {
+    direction,
+    drift,
+    steps,
+    lookback: slice.length,
+    aligned: aligned && alignedDelta,
+    averageDeltaSign,
+  };
+}
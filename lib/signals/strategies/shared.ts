@@ -0,0 +1,170 @@
+import { getIntactPivots } from "@/lib/marketStructure";
+import type { FootprintBar, SignalSide, SwingPivot } from "@/types";
+
+import type { ActiveThresholds, DetectionContext, KeyLevelMatch, StackInfo } from "./types";
+
+// A structural stop further than this many bar ranges keeps the bar stop.
+const MAX_STRUCTURE_STOP_RANGES = 3;
+
+export interface TradeExits {
+  stop: number;
+  target1: number;
+  target2: number;
+}
+
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function average(values: number[]) {
+  if (!values.length) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function atrPercentileContribution(percentile: number, range: [number, number] | null): number {
+  if (!range) {
+    return 4;
+  }
+  const [min, max] = range;
+  if (percentile >= min && percentile <= max) {
+    return 6;
+  }
+  return Math.max(0, 6 - Math.abs(percentile - clamp((min + max) / 2, 0, 1)) * 12);
+}
+
+// Closer to the key level scores higher, up to `weight` points at the level itself.
+export function keyLevelScore(keyMatch: KeyLevelMatch | null, thresholds: ActiveThresholds, weight: number): number {
+  if (!keyMatch) {
+    return 0;
+  }
+  const distance = thresholds.keyLevelDistancePercent;
+  return clamp(((distance - keyMatch.distancePercent) / distance) * weight, 0, weight);
+}
+
+export function percentileRank(history: number[], value: number): number {
+  if (!history.length || !Number.isFinite(value)) {
+    return 0;
+  }
+  const lessOrEqual = history.filter((item) => item <= value).length;
+  return clamp(lessOrEqual / history.length, 0, 1);
+}
+
+export function computeStackedImbalance(
+  levels: FootprintBar["levels"],
+  side: "bid" | "ask",
+  threshold: number,
+): StackInfo {
+  if (!levels.length) {
+    return { levels: 0, ratio: 0, maxObservedRatio: 0, startPrice: null, anchorPrice: null, cumulativeVolume: 0 };
+  }
+  const sorted = [...levels].sort((a, b) => a.price - b.price);
+  let best: StackInfo = {
+    levels: 0,
+    ratio: 0,
+    maxObservedRatio: 0,
+    startPrice: null,
+    anchorPrice: null,
+    cumulativeVolume: 0,
+  };
+  let currentLevels = 0;
+  let currentMinRatio = Number.POSITIVE_INFINITY;
+  let currentVolume = 0;
+  let currentPrices: number[] = [];
+  let maxObserved = 0;
+
+  const pushBest = () => {
+    if (currentLevels === 0) {
+      return;
+    }
+    if (currentLevels > best.levels || (currentLevels === best.levels && currentMinRatio > best.ratio)) {
+      best = {
+        levels: currentLevels,
+        ratio: currentMinRatio,
+        maxObservedRatio: Math.max(maxObserved, best.maxObservedRatio),
+        startPrice: currentPrices.length ? currentPrices[0] : best.startPrice,
+        anchorPrice: currentPrices.length ? currentPrices[currentPrices.length - 1] : best.anchorPrice,
+        cumulativeVolume: currentVolume,
+      };
+    }
+  };
+
+  for (const level of sorted) {
+    const ratio = side === "bid"
+      ? (level.bidVol + 1e-6) / (level.askVol + 1e-6)
+      : (level.askVol + 1e-6) / (level.bidVol + 1e-6);
+    if (ratio > maxObserved) {
+      maxObserved = ratio;
+    }
+    if (ratio >= threshold) {
+      currentLevels += 1;
+      currentMinRatio = Math.min(currentMinRatio, ratio);
+      currentVolume += level.totalVolume;
+      currentPrices.push(level.price);
+    } else {
+      pushBest();
+      currentLevels = 0;
+      currentMinRatio = Number.POSITIVE_INFINITY;
+      currentVolume = 0;
+      currentPrices = [];
+    }
+  }
+
+  pushBest();
+
+  if (best.levels === 0) {
+    best.maxObservedRatio = Math.max(best.maxObservedRatio, maxObserved);
+  }
+
+  return {
+    levels: best.levels,
+    ratio: best.ratio || maxObserved,
+    maxObservedRatio: Math.max(best.maxObservedRatio, maxObserved),
+    startPrice: best.startPrice,
+    anchorPrice: best.anchorPrice,
+    cumulativeVolume: best.cumulativeVolume,
+  };
+}
+
+// Stop beyond the last intact swing against the trade, targets at the next
+// intact opposing swings or key levels at least 1R away. The bar-based exits
+// are kept wherever structure has nothing better. Strategies opt in through a
+// structureExits param above 0; it defaults to 0 so stock exits stay bar-based.
+export function resolveStructureExits(
+  context: DetectionContext,
+  args: { side: SignalSide; entry: number; exits: TradeExits; stopTicks: number; enabled: boolean },
+): TradeExits & { swing: SwingPivot | null } {
+  const { side, entry, exits, stopTicks } = args;
+  if (!args.enabled) {
+    return { ...exits, swing: null };
+  }
+  const { bars, index, bar, priceStep, structure, keyLevels } = context;
+  const direction = side === "long" ? 1 : -1;
+  const range = Math.max(bar.highPrice - bar.lowPrice, priceStep);
+  const pivots = getIntactPivots(structure, bars, index);
+
+  let stop = exits.stop;
+  const swing =
+    pivots.find((pivot) => pivot.kind === (side === "long" ? "low" : "high") && direction * (entry - pivot.price) > 0) ?? null;
+  const swingStop = swing ? swing.price - direction * priceStep * stopTicks : null;
+  const usedSwing =
+    swingStop !== null && direction * (stop - swingStop) > 0 && Math.abs(entry - swingStop) <= range * MAX_STRUCTURE_STOP_RANGES;
+  if (usedSwing) {
+    stop = swingStop;
+  }
+
+  const risk = Math.abs(entry - stop);
+  const candidates = [
+    ...pivots.filter((pivot) => pivot.kind === (side === "long" ? "high" : "low")).map((pivot) => pivot.price),
+    ...keyLevels.map((level) => level.price),
+  ]
+    .filter((price) => Number.isFinite(price) && direction * (price - entry) >= risk)
+    .sort((a, b) => direction * (a - b));
+  const target1 = candidates[0] ?? exits.target1;
+  const target2 =
+    candidates.find((price) => direction * (price - target1) >= priceStep) ??
+    target1 + direction * Math.abs(exits.target2 - exits.target1);
+
+  return { stop, target1, target2, swing: usedSwing ? swing : null };
+}
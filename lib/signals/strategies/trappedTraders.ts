@@ -0,0 +1,180 @@
+import type { FootprintBar, SignalEvidenceItem, SignalSide } from "@/types";
+
+import { atrPercentileContribution, clamp, computeStackedImbalance, keyLevelScore, percentileRank } from "./shared";
+import type { ActiveThresholds, DetectionContext, SignalStrategyDefinition, StackInfo, StrategyHit } from "./types";
+
+export type TrappedTradersParams = {
+  // Bars after the trap bar in which price may close back through the zone.
+  maxConfirmBars: number;
+  // Trapped volume percentile against recent bar volumes.
+  minTrapPercentile: number;
+  stopTicks: number;
+  target1Range: number;
+  target2Range: number;
+};
+
+export interface TrapZone {
+  low: number;
+  high: number;
+  stack: StackInfo;
+  // Volume traded from the zone out to the bar extreme.
+  volume: number;
+}
+
+interface Trap {
+  side: SignalSide;
+  bar: FootprintBar;
+  // Bars between the trap bar and the one closing through it.
+  offset: number;
+  zone: TrapZone;
+  percentile: number;
+}
+
+const STRATEGY_ID = "trapped-traders";
+
+// Aggressors pile in at a bar extreme and the following bars close back
+// through their zone: buyers at the high (or sellers at the low) are now
+// underwater and their exits fuel the reversal.
+export const trappedTradersStrategy: SignalStrategyDefinition<TrappedTradersParams> = {
+  id: STRATEGY_ID,
+  label: "Traders atrapados",
+  shortLabel: "Atrapados",
+  defaultEnabled: true,
+  defaultParams: {
+    maxConfirmBars: 3,
+    minTrapPercentile: 0.4,
+    stopTicks: 2,
+    target1Range: 1.0,
+    target2Range: 1.8,
+  },
+  // The trap is confirmed at the close; take the next open.
+  entryType: "bar-open",
+  detect(context, params) {
+    const { bar } = context;
+    if (bar.skeleton || bar.totalVolume <= 0) {
+      return [];
+    }
+    const results: StrategyHit[] = [];
+    for (const side of ["long", "short"] as const) {
+      const trap = findTrap(context, side, params);
+      if (trap) {
+        results.push(buildHit(context, trap, params));
+      }
+    }
+    return results;
+  },
+};
+
+// Shorts trapped at a low for longs, longs trapped at a high for shorts.
+// Only the first close through the zone counts.
+function findTrap(context: DetectionContext, side: SignalSide, params: TrappedTradersParams): Trap | null {
+  const { bars, index, bar, priceStep, thresholds, volumeHistory } = context;
+  for (let offset = 1; offset <= params.maxConfirmBars; offset += 1) {
+    const trapIndex = index - offset;
+    if (trapIndex < 0) {
+      break;
+    }
+    const trapBar = bars[trapIndex];
+    if (trapBar.skeleton) {
+      continue;
+    }
+    const zone = findTrapZone(trapBar, side === "long" ? "bid" : "ask", thresholds, priceStep);
+    if (!zone) {
+      continue;
+    }
+    const closesThrough = (item: FootprintBar) => (side === "long" ? item.closePrice > zone.high : item.closePrice < zone.low);
+    const releases = (item: FootprintBar) => (side === "long" ? item.lowPrice < trapBar.lowPrice : item.highPrice > trapBar.highPrice);
+    const between = bars.slice(trapIndex + 1, index);
+    if (between.some((item) => !item.skeleton && (closesThrough(item) || releases(item)))) {
+      continue;
+    }
+    if (!closesThrough(bar) || releases(bar)) {
+      continue;
+    }
+    const percentile = percentileRank(volumeHistory, zone.volume);
+    if (percentile < params.minTrapPercentile) {
+      continue;
+    }
+    return { side, bar: trapBar, offset, zone, percentile };
+  }
+  return null;
+}
+
+// Stacked aggression in the outer half of the bar, with delta on the same side.
+export function findTrapZone(
+  bar: FootprintBar,
+  aggressor: "bid" | "ask",
+  thresholds: Pick<ActiveThresholds, "stackRatio" | "stackLevels">,
+  priceStep: number,
+): TrapZone | null {
+  if (aggressor === "ask" ? bar.totalDelta <= 0 : bar.totalDelta >= 0) {
+    return null;
+  }
+  const stack = computeStackedImbalance(bar.levels, aggressor, thresholds.stackRatio);
+  if (stack.startPrice === null || stack.anchorPrice === null || stack.levels < thresholds.stackLevels) {
+    return null;
+  }
+  const low = stack.startPrice;
+  const high = stack.anchorPrice;
+  const middle = bar.lowPrice + Math.max(bar.highPrice - bar.lowPrice, priceStep * 2) / 2;
+  if (aggressor === "ask" ? low < middle : high > middle) {
+    return null;
+  }
+  const tolerance = priceStep * 0.5;
+  const volume = bar.levels
+    .filter((level) => (aggressor === "ask" ? level.price >= low - tolerance : level.price <= high + tolerance))
+    .reduce((sum, level) => sum + level.totalVolume, 0);
+  return { low, high, stack, volume };
+}
+
+function buildHit(context: DetectionContext, trap: Trap, params: TrappedTradersParams): StrategyHit {
+  const { bar, priceStep, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
+  const { zone, side } = trap;
+  const isLong = side === "long";
+
+  const trapScore = clamp(trap.percentile * 30, 0, 30);
+  const stackScore = clamp(
+    (zone.stack.ratio / Math.max(thresholds.stackRatio, 1)) * 10 + (zone.stack.levels / Math.max(thresholds.stackLevels, 1)) * 10,
+    0,
+    20,
+  );
+  const deltaScore = clamp(deltaPercentile * 15, 0, 15);
+  const keyScore = keyLevelScore(keyMatch, thresholds, 12);
+  const atrScore = atrPercentileContribution(atrPercentile, thresholds.atrPercentileRange);
+  const reversalBonus = (isLong ? bar.totalDelta > 0 : bar.totalDelta < 0) ? 8 : 0;
+  const speedBonus = trap.offset === 1 ? 6 : 0;
+
+  const rawScore = clamp(trapScore + stackScore + deltaScore + keyScore + atrScore + reversalBonus + speedBonus, 0, 100);
+
+  const range = Math.max(trap.bar.highPrice - trap.bar.lowPrice, priceStep * 2);
+  const entry = bar.closePrice;
+  const stop = isLong ? zone.low - priceStep * params.stopTicks : zone.high + priceStep * params.stopTicks;
+  const direction = isLong ? 1 : -1;
+  const target1 = entry + direction * range * params.target1Range;
+  const target2 = entry + direction * range * params.target2Range;
+
+  const evidence: SignalEvidenceItem[] = [
+    { label: "Atrapados", value: `P${Math.round(trap.percentile * 100)} · ${zone.volume.toFixed(2)}` },
+    { label: "Zona", value: `${zone.low.toFixed(2)} – ${zone.high.toFixed(2)}` },
+    { label: "Stack", value: `${zone.stack.ratio.toFixed(2)}× / ${zone.stack.levels} niveles` },
+    { label: "Barras", value: `${trap.offset}` },
+  ];
+
+  return {
+    strategy: STRATEGY_ID,
+    side,
+    rawScore,
+    stackRatio: zone.stack.ratio,
+    stackLevels: zone.stack.levels,
+    deltaPercentile,
+    volumePercentile,
+    atrPercentile,
+    keyMatch,
+    keyLevelDistance: keyMatch?.distancePercent ?? null,
+    entry,
+    stop,
+    target1,
+    target2,
+    evidence,
+  };
+}
@@ -0,0 +1,127 @@
+import type {
+  EntryOrderType,
+  FootprintBar,
+  MarketStructure,
+  SignalEvidenceItem,
+  SignalSide,
+  SignalStrategy,
+  SignalStrategyParams,
+  StrategyKeyLevel,
+  TradingSession,
+} from "@/types";
+
+export interface ActiveThresholds {
+  minScore: number;
+  stackRatio: number;
+  stackLevels: number;
+  minDeltaPercentile: number;
+  minVolumePercentile: number;
+  keyLevelDistancePercent: number;
+  requireKeyLevel: boolean;
+  requireConfluence: boolean;
+  minStrategies: number;
+  maxSignalsPerSession: number | null;
+  maxSignalsPerDay: number | null;
+  avoidLowLiquidity: boolean;
+  atrPercentileRange: [number, number] | null;
+}
+
+export interface StackInfo {
+  levels: number;
+  ratio: number;
+  maxObservedRatio: number;
+  // Lowest and highest price of the run.
+  startPrice: number | null;
+  anchorPrice: number | null;
+  cumulativeVolume: number;
+}
+
+export interface KeyLevel {
+  label: string;
+  price: number;
+}
+
+export interface KeyLevelMatch extends KeyLevel {
+  distancePercent: number;
+}
+
+export interface DayStats {
+  high: number;
+  low: number;
+  poc: number | null;
+  // 70% value area of the day's volume profile.
+  vah: number | null;
+  val: number | null;
+}
+
+export interface WeekStats {
+  high: number;
+  low: number;
+}
+
+// Everything SignalEngine knows about the bar being evaluated.
+export interface DetectionContext {
+  bars: FootprintBar[];
+  index: number;
+  bar: FootprintBar;
+  priceStep: number;
+  session: TradingSession;
+  thresholds: ActiveThresholds;
+  deltaPercentile: number;
+  volumePercentile: number;
+  atrPercentile: number;
+  // Volumes of the closed bars before this one, for percentile ranks.
+  volumeHistory: number[];
+  stackBid: StackInfo;
+  stackAsk: StackInfo;
+  keyMatch: KeyLevelMatch | null;
+  // Every key level known at the bar; `keyMatch` is the closest one.
+  keyLevels: KeyLevel[];
+  // Pivots carry their confirmation time; later ones are not known yet.
+  structure: MarketStructure;
+  prevDayStats: DayStats | undefined;
+  prevWeekStats: WeekStats | undefined;
+  previousPoc: number | null;
+  sessionVwap: number | null;
+}
+
+export interface KeyLevelContext {
+  bars: FootprintBar[];
+  index: number;
+  priceStep: number;
+}
+
+// One detector firing on one side; SignalEngine merges hits into signals.
+export interface StrategyHit {
+  strategy: SignalStrategy;
+  side: SignalSide;
+  rawScore: number;
+  stackRatio: number;
+  stackLevels: number;
+  deltaPercentile: number;
+  volumePercentile: number;
+  atrPercentile: number;
+  keyMatch: KeyLevelMatch | null;
+  keyLevelDistance: number | null;
+  entry: number;
+  stop: number;
+  target1: number;
+  target2: number;
+  evidence: SignalEvidenceItem[];
+}
+
+export interface SignalStrategyDefinition<P extends SignalStrategyParams = SignalStrategyParams> {
+  id: SignalStrategy;
+  // Controls toggle.
+  label: string;
+  // Tables, badges and timeline notes.
+  shortLabel: string;
+  defaultEnabled: boolean;
+  defaultParams: P;
+  detect(context: DetectionContext, params: P): StrategyHit[];
+  // Levels still open at `index`; they join the key levels every strategy
+  // scores against and are drawn on the chart.
+  keyLevels?(context: KeyLevelContext, params: P): StrategyKeyLevel[];
+  // How the trading engine enters this strategy's signals; "touch" if unset.
+  entryType?: EntryOrderType;
+}
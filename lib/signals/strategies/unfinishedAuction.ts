@@ -0,0 +1,262 @@
+import { getSessionStart } from "@/lib/clock";
+import type { FootprintBar, SignalEvidenceItem, StrategyKeyLevel } from "@/types";
+
+import { clamp } from "./shared";
+import type { DetectionContext, KeyLevelContext, SignalStrategyDefinition, StackInfo, StrategyHit } from "./types";
+
+export type UnfinishedAuctionParams = {
+  // Bars searched back for extremes nobody has revisited yet.
+  lookback: number;
+  // Bars a level must age before it is traded toward.
+  minAgeBars: number;
+  // Furthest level traded toward, in ranges of the signal bar.
+  maxDistanceRanges: number;
+  // Extreme-level volume over the bar's average level volume that makes it poor.
+  poorVolumeRatio: number;
+  stopTicks: number;
+  // Second target beyond the level, in ranges of the signal bar.
+  target2Extension: number;
+};
+
+export interface UnfinishedAuction {
+  side: "high" | "low";
+  price: number;
+  barIndex: number;
+  barTime: number;
+  // Extreme level with heavy volume instead of a thin tail.
+  poor: boolean;
+  // The extreme is also the session's.
+  session: boolean;
+}
+
+const STRATEGY_ID = "unfinished-auction";
+
+// Bar extremes where both sides still traded: the auction did not finish
+// and price tends to come back to it.
+export const unfinishedAuctionStrategy: SignalStrategyDefinition<UnfinishedAuctionParams> = {
+  id: STRATEGY_ID,
+  label: "Subasta inacabada",
+  shortLabel: "Subasta",
+  defaultEnabled: true,
+  defaultParams: {
+    lookback: 60,
+    minAgeBars: 1,
+    maxDistanceRanges: 4,
+    poorVolumeRatio: 0.7,
+    stopTicks: 2,
+    target2Extension: 0.5,
+  },
+  detect(context, params) {
+    const { bar, bars, index, priceStep, stackBid, stackAsk } = context;
+    const auctions = findOpenUnfinishedAuctions({ bars, index, priceStep }, params).filter(
+      (auction) => index - auction.barIndex >= params.minAgeBars,
+    );
+    if (!auctions.length) {
+      return [];
+    }
+
+    const range = Math.max(bar.highPrice - bar.lowPrice, priceStep * 2);
+    const closePosition = (bar.closePrice - bar.lowPrice) / range;
+    const maxDistance = range * params.maxDistanceRanges;
+    const results: StrategyHit[] = [];
+
+    const above = nearest(auctions, "high", bar.closePrice);
+    if (above && above.price - bar.closePrice <= maxDistance && bar.totalDelta > 0 && closePosition > 0.5) {
+      const distance = above.price - bar.closePrice;
+      results.push(
+        buildHit(context, {
+          auction: above,
+          side: "long",
+          distance,
+          maxDistance,
+          stack: stackAsk,
+          stop: bar.lowPrice - priceStep * params.stopTicks,
+          target2: above.price + range * params.target2Extension,
+        }),
+      );
+    }
+
+    const below = nearest(auctions, "low", bar.closePrice);
+    if (below && bar.closePrice - below.price <= maxDistance && bar.totalDelta < 0 && closePosition < 0.5) {
+      const distance = bar.closePrice - below.price;
+      results.push(
+        buildHit(context, {
+          auction: below,
+          side: "short",
+          distance,
+          maxDistance,
+          stack: stackBid,
+          stop: bar.highPrice + priceStep * params.stopTicks,
+          target2: below.price - range * params.target2Extension,
+        }),
+      );
+    }
+
+    return results;
+  },
+  keyLevels(context, params) {
+    return findOpenUnfinishedAuctions(context, params).map(
+      (auction): StrategyKeyLevel => ({
+        id: `${STRATEGY_ID}-${auction.side}-${auction.barTime}`,
+        strategy: STRATEGY_ID,
+        label: formatAuctionLabel(auction),
+        price: auction.price,
+        type: auction.side === "high" ? "unfinished-high" : "unfinished-low",
+        barTime: auction.barTime,
+      }),
+    );
+  },
+};
+
+// Unfinished extremes from the lookback window that no later bar has traded
+// through, newest first.
+export function findOpenUnfinishedAuctions(
+  context: KeyLevelContext,
+  params: Pick<UnfinishedAuctionParams, "lookback" | "poorVolumeRatio">,
+): UnfinishedAuction[] {
+  const { bars, index, priceStep } = context;
+  const start = Math.max(0, index - params.lookback + 1);
+  const tolerance = priceStep * 0.5;
+  const open: UnfinishedAuction[] = [];
+  let laterHigh = Number.NEGATIVE_INFINITY;
+  let laterLow = Number.POSITIVE_INFINITY;
+
+  for (let barIndex = index; barIndex >= start; barIndex -= 1) {
+    const bar = bars[barIndex];
+    for (const auction of findBarAuctions(bar, barIndex, params.poorVolumeRatio)) {
+      const revisited = auction.side === "high" ? laterHigh > auction.price + tolerance : laterLow < auction.price - tolerance;
+      if (!revisited) {
+        auction.session = isSessionExtreme(bars, barIndex, index, auction);
+        open.push(auction);
+      }
+    }
+    if (!bar.skeleton && bar.totalVolume > 0) {
+      laterHigh = Math.max(laterHigh, bar.highPrice);
+      laterLow = Math.min(laterLow, bar.lowPrice);
+    }
+  }
+  return open;
+}
+
+function findBarAuctions(bar: FootprintBar, barIndex: number, poorVolumeRatio: number): UnfinishedAuction[] {
+  const traded = bar.levels.filter((level) => level.totalVolume > 0);
+  if (bar.skeleton || traded.length < 2) {
+    return [];
+  }
+  const sorted = [...traded].sort((a, b) => a.price - b.price);
+  const averageVolume = sorted.reduce((sum, level) => sum + level.totalVolume, 0) / sorted.length;
+  const auctions: UnfinishedAuction[] = [];
+  const extremes: Array<{ side: "high" | "low"; level: (typeof sorted)[number] }> = [
+    { side: "high", level: sorted[sorted.length - 1] },
+    { side: "low", level: sorted[0] },
+  ];
+  for (const { side, level } of extremes) {
+    // A finished auction has one side at zero at the extreme.
+    if (level.askVol <= 0 || level.bidVol <= 0) {
+      continue;
+    }
+    auctions.push({
+      side,
+      price: level.price,
+      barIndex,
+      barTime: bar.startTime,
+      poor: level.totalVolume >= averageVolume * poorVolumeRatio,
+      session: false,
+    });
+  }
+  return auctions;
+}
+
+function isSessionExtreme(bars: FootprintBar[], barIndex: number, index: number, auction: UnfinishedAuction): boolean {
+  const sessionStart = getSessionStart(bars[barIndex].startTime);
+  for (let cursor = index; cursor >= 0; cursor -= 1) {
+    const bar = bars[cursor];
+    if (bar.startTime < sessionStart) {
+      break;
+    }
+    if (cursor === barIndex || bar.skeleton || bar.totalVolume <= 0) {
+      continue;
+    }
+    if (auction.side === "high" ? bar.highPrice > auction.price : bar.lowPrice < auction.price) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function nearest(auctions: UnfinishedAuction[], side: "high" | "low", price: number): UnfinishedAuction | null {
+  let best: UnfinishedAuction | null = null;
+  for (const auction of auctions) {
+    if (auction.side !== side) {
+      continue;
+    }
+    if (side === "high" ? auction.price <= price : auction.price >= price) {
+      continue;
+    }
+    if (!best || Math.abs(auction.price - price) < Math.abs(best.price - price)) {
+      best = auction;
+    }
+  }
+  return best;
+}
+
+// Aggression toward the level (ask stack for longs, bid stack for shorts)
+// carries the score; poor and session extremes are the likeliest revisits.
+function buildHit(
+  context: DetectionContext,
+  args: {
+    auction: UnfinishedAuction;
+    side: "long" | "short";
+    distance: number;
+    maxDistance: number;
+    stack: StackInfo;
+    stop: number;
+    target2: number;
+  },
+): StrategyHit {
+  const { bar, priceStep, thresholds, deltaPercentile, volumePercentile, atrPercentile, keyMatch } = context;
+  const { auction, distance, stack } = args;
+  const proximity = clamp(1 - distance / Math.max(args.maxDistance, priceStep), 0, 1);
+  const stackScore = clamp((stack.ratio / Math.max(thresholds.stackRatio, 1)) * 15, 0, 20);
+  const rawScore = clamp(
+    30 +
+      (auction.poor ? 10 : 0) +
+      (auction.session ? 10 : 0) +
+      proximity * 10 +
+      clamp(deltaPercentile * 20, 0, 20) +
+      clamp(volumePercentile * 10, 0, 10) +
+      stackScore,
+    0,
+    100,
+  );
+
+  const evidence: SignalEvidenceItem[] = [
+    { label: "Subasta", value: formatAuctionLabel(auction) },
+    { label: "Distancia", value: `${Math.round(distance / priceStep)} ticks` },
+    { label: "|Delta|", value: `P${Math.round(deltaPercentile * 100)}` },
+  ];
+
+  return {
+    strategy: STRATEGY_ID,
+    side: args.side,
+    rawScore,
+    stackRatio: stack.ratio,
+    stackLevels: stack.levels,
+    deltaPercentile,
+    volumePercentile,
+    atrPercentile,
+    keyMatch,
+    keyLevelDistance: keyMatch?.distancePercent ?? null,
+    entry: bar.closePrice,
+    stop: args.stop,
+    target1: auction.price,
+    target2: args.target2,
+    evidence,
+  };
+}
+
+function formatAuctionLabel(auction: UnfinishedAuction): string {
+  const extreme = auction.side === "high" ? "High" : "Low";
+  const kind = auction.poor ? `Poor ${extreme}` : `UA ${extreme}`;
+  return auction.session ? `Sess ${kind}` : kind;
+}
@@ -0,0 +1,221 @@
+import type { EquityPoint, MarginMode, Position, SignalSide } from "@/types";
+
+// Flat maintenance rate; venues tier it by notional, this is their first tier.
+export const MAINTENANCE_MARGIN_RATE = 0.005;
+export const MAX_LEVERAGE = 125;
+export const MAX_EQUITY_POINTS = 2000;
+
+export const MARGIN_MODE_LABELS: Record<MarginMode, string> = {
+  isolated: "Aislado",
+  cross: "Cruzado",
+};
+
+export interface TradingAccountSnapshot {
+  balance: number;
+  curve: EquityPoint[];
+}
+
+// Rounds a quantity down to the venue's lot step; a zero step leaves it as is.
+export function floorToStep(quantity: number, step: number): number {
+  if (!(step > 0)) {
+    return quantity;
+  }
+  return Number((Math.floor(quantity / step + 1e-9) * step).toFixed(12));
+}
+
+export function getMaintenanceMargin(position: Pick<Position, "entryFillPrice" | "remainingSize">): number {
+  return position.entryFillPrice * position.remainingSize * MAINTENANCE_MARGIN_RATE;
+}
+
+// Price at which an isolated position's margin is used up down to the
+// maintenance level.
+export function computeIsolatedLiquidation(
+  position: Pick<Position, "side" | "entryFillPrice" | "remainingSize" | "margin" | "size">,
+): number | null {
+  if (position.remainingSize <= 0 || position.size <= 0) {
+    return null;
+  }
+  const margin = position.margin * (position.remainingSize / position.size);
+  const buffer = margin - getMaintenanceMargin(position);
+  return toLiquidationPrice(position.side, position.entryFillPrice, buffer / position.remainingSize);
+}
+
+// Cross positions share the balance, and on one symbol they share a single
+// price where equity drops to the combined maintenance margin. Null when the
+// book is flat or hedged, or the price would be below zero.
+export function computeCrossLiquidation(positions: Position[], balance: number): number | null {
+  let netQuantity = 0;
+  let netCost = 0;
+  let maintenance = 0;
+  for (const position of positions) {
+    const direction = position.side === "long" ? 1 : -1;
+    netQuantity += direction * position.remainingSize;
+    netCost += direction * position.remainingSize * position.entryFillPrice;
+    maintenance += getMaintenanceMargin(position);
+  }
+  if (Math.abs(netQuantity) < 1e-12) {
+    return null;
+  }
+  const price = (maintenance - balance + netCost) / netQuantity;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+// Margin still posted: the initial margin for the size left.
+export function getPostedMargin(position: Pick<Position, "margin" | "remainingSize" | "size">): number {
+  return position.size > 0 ? position.margin * (position.remainingSize / position.size) : 0;
+}
+
+export function getUnrealizedPnl(position: Pick<Position, "side" | "entryFillPrice" | "lastPrice" | "remainingSize">): number {
+  const direction = position.side === "long" ? 1 : -1;
+  return (position.lastPrice - position.entryFillPrice) * position.remainingSize * direction;
+}
+
+// The paper wallet positions draw margin from. A standalone engine owns one;
+// a workspace shares one between its symbol engines, so balance, posted
+// margin and cross liquidation span every symbol. Each engine stays the
+// owner of its positions and registers a reader for them.
+export class TradingAccount {
+  private balance: number;
+
+  private curve: EquityPoint[];
+
+  private books = new Map<string, () => Position[]>();
+
+  private listeners = new Set<() => void>();
+
+  // Copy of the balance and equity curve; emit() drops it.
+  private snapshot: TradingAccountSnapshot | null = null;
+
+  constructor(snapshot: TradingAccountSnapshot) {
+    this.balance = Number.isFinite(snapshot.balance) ? snapshot.balance : 0;
+    this.curve = snapshot.curve.map((point) => ({ ...point }));
+  }
+
+  addBook(key: string, getPositions: () => Position[]): void {
+    this.books.set(key, getPositions);
+  }
+
+  removeBook(key: string): void {
+    this.books.delete(key);
+  }
+
+  getBalance(): number {
+    return this.balance;
+  }
+
+  getUsedMargin(): number {
+    let used = 0;
+    for (const position of this.getPositions()) {
+      used += getPostedMargin(position);
+    }
+    return used;
+  }
+
+  getUnrealizedPnl(): number {
+    let unrealized = 0;
+    for (const position of this.getPositions()) {
+      unrealized += getUnrealizedPnl(position);
+    }
+    return unrealized;
+  }
+
+  // What one book's cross positions can lose before liquidation: the
+  // balance plus the other books' open PnL, less their maintenance margin.
+  getCrossBalance(key: string): number {
+    let buffer = this.balance;
+    for (const [bookKey, getPositions] of this.books) {
+      if (bookKey === key) {
+        continue;
+      }
+      for (const position of getPositions()) {
+        buffer += getUnrealizedPnl(position) - getMaintenanceMargin(position);
+      }
+    }
+    return buffer;
+  }
+
+  // Realized PnL, fees and funding; positive credits the balance.
+  apply(amount: number): void {
+    if (!amount) {
+      return;
+    }
+    this.balance += amount;
+    this.emit();
+  }
+
+  recordEquity(time: number): void {
+    this.curve = appendEquityPoint(this.curve, { time, balance: this.balance });
+    this.emit();
+  }
+
+  // Starts over at `balance`; refused while any book holds positions.
+  reset(balance: number): boolean {
+    if (this.getPositions().length) {
+      return false;
+    }
+    this.balance = balance;
+    this.curve = [];
+    this.emit();
+    return true;
+  }
+
+  // Takes over a persisted account, as long as nothing has traded on this one.
+  restore(snapshot: TradingAccountSnapshot): boolean {
+    if (this.curve.length || this.getPositions().length || !Number.isFinite(snapshot.balance)) {
+      return false;
+    }
+    this.balance = snapshot.balance;
+    this.curve = snapshot.curve.map((point) => ({ ...point }));
+    this.emit();
+    return true;
+  }
+
+  // A new starting balance only rebases an account that has not traded.
+  rebase(balance: number): boolean {
+    if (this.curve.length || this.getPositions().length || balance === this.balance) {
+      return false;
+    }
+    this.balance = balance;
+    this.emit();
+    return true;
+  }
+
+  getSnapshot(): TradingAccountSnapshot {
+    if (!this.snapshot) {
+      this.snapshot = { balance: this.balance, curve: this.curve.map((point) => ({ ...point })) };
+    }
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getPositions(): Position[] {
+    const positions: Position[] = [];
+    for (const getPositions of this.books.values()) {
+      positions.push(...getPositions());
+    }
+    return positions;
+  }
+
+  private emit(): void {
+    this.snapshot = null;
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+export function appendEquityPoint(curve: EquityPoint[], point: EquityPoint): EquityPoint[] {
+  const next = [...curve, point];
+  return next.length > MAX_EQUITY_POINTS ? next.slice(next.length - MAX_EQUITY_POINTS) : next;
+}
+
+function toLiquidationPrice(side: SignalSide, entry: number, distance: number): number | null {
+  const price = side === "long" ? entry - distance : entry + distance;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
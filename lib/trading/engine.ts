@@ -1,10 +1,16 @@
 import type {
+  ChartKeyLevel,
   ClosedTrade,
   DailyPerformance,
   DepthBarMetrics,
+  DepthStreamMessage,
   DepthSweepEvent,
+  EntryOrderType,
+  ExitPlan,
+  ExitStopPolicy,
   FootprintBar,
   FootprintSignal,
+  FundingRate,
   InvalidationActionOption,
   InvalidationActionType,
   InvalidationEvent,
@@ -26,11 +32,58 @@ import type {
   TradeFirstHit,
   TradeResult,
   TradingSession,
+  TradingAccountState,
   TradingSettings,
   TradingState,
   TradingTimelineEntry,
+  TradingTimelinePhase,
+  TradingTimelineTradeEntry,
 } from "@/types";
+import { getDayKey, systemClock, type Clock } from "@/lib/clock";
+import { DepthGapError, DepthOrderBook } from "@/lib/depth/book";
+import type { DepthSequencePolicy } from "@/lib/depth/sequence";
+import { formatSignalStrategy, getSignalStrategy, getSignalStrategyIds } from "@/lib/signals/strategies";
+import {
+  MAX_LEVERAGE,
+  TradingAccount,
+  computeCrossLiquidation,
+  computeIsolatedLiquidation,
+  floorToStep,
+  type TradingAccountSnapshot,
+} from "@/lib/trading/account";
+import {
+  ENTRY_ORDER_LABELS,
+  advanceEntryQueue,
+  entryRestsInBook,
+  entryTakesLiquidity,
+  getEntryBookSide,
+  getEntryFillFraction,
+  resolveEntryFill,
+  resolveEntryOrderPrice,
+  syncEntryQueue,
+} from "@/lib/trading/entryOrders";
+import {
+  EXIT_STOP_POLICY_LABELS,
+  buildTradeLegs,
+  cloneExitPlans,
+  cloneTradeLegs,
+  computeAtr,
+  findStructureTrail,
+  getDefaultExitPlan,
+  normalizeExitPlans,
+  type ExitLevelCandidates,
+} from "@/lib/trading/exitPlan";
+import {
+  computeFundingPayment,
+  findFundingRate,
+  getFundingTimes,
+  normalizeFundingRates,
+} from "@/lib/trading/funding";
 import { DEFAULT_GUARDRAIL_SETTINGS, RiskGuardrailManager, cloneGuardrailSettings } from "@/lib/trading/guardrails";
+import type { PortfolioRiskManager } from "@/lib/trading/portfolio";
+import { SignalJournal, type SignalJournalOptions } from "@/lib/trading/signalJournal";
+import { computeBookImpact } from "@/lib/trading/slippage";
+import type { VwapLevel } from "@/lib/vwap";
 
 const DEFAULT_INVALIDATION_SETTINGS: InvalidationSettings = {
   aggressiveness: "moderate",
@@ -80,14 +133,25 @@ const DEFAULT_OBJECTIVE_INVALIDATION_SETTINGS: ObjectiveInvalidationSettings = {
 
 const DEFAULT_TRADING_SETTINGS: TradingSettings = {
   autoTake: true,
+  startingBalance: 10_000,
+  leverage: 10,
+  marginMode: "isolated",
   riskPerTradePercent: 1,
-  feesPercent: 0.01,
+  makerFeePercent: 0.02,
+  takerFeePercent: 0.05,
   slippageTicks: 0.5,
+  slippageModel: "flat",
   partialTakePercent: 0.5,
   timeStopMinutes: 15,
   retestWindowMinutes: 5,
   beOffsetTicks: 0.5,
   invalidationBars: 0,
+  outcomeHorizonBars: 20,
+  vwapTargets: false,
+  exitPlans: {},
+  entryTypes: {},
+  limitOffsetTicks: 2,
+  queueFills: false,
   invalidations: { ...DEFAULT_INVALIDATION_SETTINGS },
   objectiveInvalidation: { ...DEFAULT_OBJECTIVE_INVALIDATION_SETTINGS },
   guardrails: cloneGuardrailSettings(DEFAULT_GUARDRAIL_SETTINGS),
@@ -98,11 +162,28 @@ interface TradingEngineOptions {
   timeframeMs: number;
   settings?: Partial<TradingSettings>;
   history?: ClosedTrade[];
+  // Persisted paper account; a fresh one starts at `startingBalance`.
+  account?: TradingAccountSnapshot;
+  // Workspace mode: balance and margin come from an account shared across
+  // symbols; `account` is then ignored.
+  sharedAccount?: { account: TradingAccount; symbol: string };
+  // Lot step and minimum order value of the symbol; 0 when unknown.
+  stepSize?: number;
+  minNotional?: number;
+  // Tape clock in replay/backtest; server-offset clock is applied via updateClockOffset.
+  clock?: Clock;
+  // Workspace mode: entries are also checked against limits shared across symbols.
+  portfolio?: { manager: PortfolioRiskManager; symbol: string };
+  // Sequencing of the depth stream fed to handleDepth().
+  depthSequence?: DepthSequencePolicy;
+  onTradeClosed?: (trade: ClosedTrade) => void;
+  onTimelineEntry?: (entry: TradingTimelineEntry) => void;
 }
 
 export interface TradingPersistenceSnapshot {
   settings: TradingSettings;
   history: ClosedTrade[];
+  account: TradingAccountSnapshot;
 }
 
 const MAX_SIGNAL_CACHE = 400;
@@ -113,9 +194,11 @@ const MAX_TIMELINE_ENTRIES = 200;
 const PRICE_EPSILON = 1e-8;
 const PNL_EPSILON = 1e-9;
 const INVALIDATION_COOLDOWN_MS = 60_000;
+// Signals whose own first target is closer than this are not traded.
+const MIN_REWARD_R = 2;
+const POC_LEVEL_TYPES = new Set<ChartKeyLevel["type"]>(["prior-day-poc", "profile-poc", "naked-poc"]);
 
 const SESSION_KEYS: TradingSession[] = ["asia", "eu", "us", "other"];
-const STRATEGY_KEYS: SignalStrategy[] = ["absorption-failure", "poc-migration", "delta-divergence"];
 
 const INVALIDATION_WEIGHTS: Record<InvalidationTriggerId, number> = {
   "opposite-signal": 40,
@@ -143,20 +226,23 @@ const INVALIDATION_ACTIONS: Record<InvalidationActionType, InvalidationActionOpt
   hold: { type: "hold", label: "Mantener" },
 };
 
+const EXIT_REASON_LABELS: Record<TradeExitReason, string> = {
+  tp2: "Objetivo final",
+  stop: "Stop",
+  breakeven: "Stop en BE",
+  "trail-stop": "Trailing stop",
+  "time-stop": "Time stop",
+  liquidation: "Liquidación",
+  invalidation: "Cierre por invalidación",
+  cancelled: "Cancelada",
+};
+
 const INVALIDATION_RECOMMENDATIONS: Record<InvalidationSeverity, string> = {
   high: "Cerrar la posición de inmediato.",
   medium: "Reducir 50% y mover el SL a -0.5R.",
   low: "Mantener y mover el SL a BE/-0.5R.",
 };
 
-function getDayKey(timestamp: number): string {
-  const date = new Date(timestamp);
-  const year = date.getUTCFullYear();
-  const month = `${date.getUTCMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getUTCDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
 function directionFromSide(side: SignalSide): 1 | -1 {
   return side === "long" ? 1 : -1;
 }
@@ -169,6 +255,14 @@ function applyExitSlippage(side: SignalSide, price: number, slippage: number): n
   return side === "long" ? price - slippage : price + slippage;
 }
 
+function mapStrategyRecord<T, R>(source: Record<SignalStrategy, T>, map: (value: T) => R): Record<SignalStrategy, R> {
+  const result: Record<SignalStrategy, R> = {};
+  for (const [strategy, value] of Object.entries(source)) {
+    result[strategy] = map(value);
+  }
+  return result;
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
@@ -232,11 +326,7 @@ function cloneObjectiveKpis(source: ObjectiveInvalidationKpis): ObjectiveInvalid
       us: cloneObjectiveKpiBucket(source.perSession.us),
       other: cloneObjectiveKpiBucket(source.perSession.other),
     },
-    perStrategy: {
-      "absorption-failure": cloneObjectiveKpiBucket(source.perStrategy["absorption-failure"]),
-      "poc-migration": cloneObjectiveKpiBucket(source.perStrategy["poc-migration"]),
-      "delta-divergence": cloneObjectiveKpiBucket(source.perStrategy["delta-divergence"]),
-    },
+    perStrategy: mapStrategyRecord(source.perStrategy, cloneObjectiveKpiBucket),
   };
 }
 
@@ -284,6 +374,9 @@ interface SummaryAccumulator {
   losers: number;
   breakeven: number;
   netR: number;
+  netPnl: number;
+  fees: number;
+  funding: number;
   winR: number;
   lossR: number;
 }
@@ -367,6 +460,9 @@ function createSummaryAccumulator(): SummaryAccumulator {
     losers: 0,
     breakeven: 0,
     netR: 0,
+    netPnl: 0,
+    fees: 0,
+    funding: 0,
     winR: 0,
     lossR: 0,
   };
@@ -377,6 +473,9 @@ function reduceTrades(trades: ClosedTrade[]): SummaryAccumulator {
   for (const trade of trades) {
     acc.trades += 1;
     acc.netR += trade.realizedR;
+    acc.netPnl += trade.realizedPnl;
+    acc.fees += trade.feesPaid;
+    acc.funding += trade.fundingPaid ?? 0;
     if (trade.realizedPnl > PNL_EPSILON) {
       acc.winners += 1;
       acc.winR += trade.realizedR;
@@ -390,10 +489,10 @@ function reduceTrades(trades: ClosedTrade[]): SummaryAccumulator {
   return acc;
 }
 
-function accumulatorToSummary(acc: SummaryAccumulator, riskFraction: number) {
+function accumulatorToSummary(acc: SummaryAccumulator, startBalance: number) {
   const trades = acc.trades;
   const netR = acc.netR;
-  const netPercent = netR * riskFraction;
+  const netPercent = startBalance > 0 ? acc.netPnl / startBalance : 0;
   const avgR = trades ? netR / trades : 0;
   const winRate = trades ? acc.winners / trades : 0;
   const lossRate = trades ? acc.losers / trades : 0;
@@ -407,7 +506,10 @@ function accumulatorToSummary(acc: SummaryAccumulator, riskFraction: number) {
     losers: acc.losers,
     breakeven: acc.breakeven,
     netR,
+    netPnl: acc.netPnl,
     netPercent,
+    fees: acc.fees,
+    funding: acc.funding,
     avgR,
     expectancy,
     winRate,
@@ -415,34 +517,32 @@ function accumulatorToSummary(acc: SummaryAccumulator, riskFraction: number) {
   };
 }
 
-function createDailyPerformance(day: string, trades: ClosedTrade[], riskFraction: number): DailyPerformance {
-  const totals = accumulatorToSummary(reduceTrades(trades), riskFraction);
+// `startBalance` is the account balance before these trades; without one
+// the percentages stay at zero.
+export function createDailyPerformance(day: string, trades: ClosedTrade[], startBalance = 0): DailyPerformance {
+  const totals = accumulatorToSummary(reduceTrades(trades), startBalance);
 
   const bySession = SESSION_KEYS.reduce<Record<TradingSession, ReturnType<typeof accumulatorToSummary>>>(
     (acc, session) => {
       const filtered = trades.filter((trade) => trade.session === session);
-      acc[session] = accumulatorToSummary(reduceTrades(filtered), riskFraction);
+      acc[session] = accumulatorToSummary(reduceTrades(filtered), startBalance);
       return acc;
     },
     {
-      asia: accumulatorToSummary(createSummaryAccumulator(), riskFraction),
-      eu: accumulatorToSummary(createSummaryAccumulator(), riskFraction),
-      us: accumulatorToSummary(createSummaryAccumulator(), riskFraction),
-      other: accumulatorToSummary(createSummaryAccumulator(), riskFraction),
+      asia: accumulatorToSummary(createSummaryAccumulator(), startBalance),
+      eu: accumulatorToSummary(createSummaryAccumulator(), startBalance),
+      us: accumulatorToSummary(createSummaryAccumulator(), startBalance),
+      other: accumulatorToSummary(createSummaryAccumulator(), startBalance),
     },
   );
 
-  const byStrategy = STRATEGY_KEYS.reduce<Record<SignalStrategy, ReturnType<typeof accumulatorToSummary>>>(
+  const byStrategy = getSignalStrategyIds().reduce<Record<SignalStrategy, ReturnType<typeof accumulatorToSummary>>>(
     (acc, strategy) => {
       const filtered = trades.filter((trade) => trade.strategy === strategy);
-      acc[strategy] = accumulatorToSummary(reduceTrades(filtered), riskFraction);
+      acc[strategy] = accumulatorToSummary(reduceTrades(filtered), startBalance);
       return acc;
     },
-    {
-      "absorption-failure": accumulatorToSummary(createSummaryAccumulator(), riskFraction),
-      "poc-migration": accumulatorToSummary(createSummaryAccumulator(), riskFraction),
-      "delta-divergence": accumulatorToSummary(createSummaryAccumulator(), riskFraction),
-    },
+    {},
   );
 
   return {
@@ -454,24 +554,20 @@ function createDailyPerformance(day: string, trades: ClosedTrade[], riskFraction
       us: bySession.us,
       other: bySession.other,
     },
-    byStrategy: {
-      "absorption-failure": byStrategy["absorption-failure"],
-      "poc-migration": byStrategy["poc-migration"],
-      "delta-divergence": byStrategy["delta-divergence"],
-    },
+    byStrategy,
   };
 }
 
 function clonePending(items: PendingTrade[]): PendingTrade[] {
-  return items.map((item) => ({ ...item }));
+  return items.map((item) => ({ ...item, legs: cloneTradeLegs(item.legs), queue: item.queue ? { ...item.queue } : null }));
 }
 
 function clonePositions(items: Position[]): Position[] {
-  return items.map((item) => ({ ...item }));
+  return items.map((item) => ({ ...item, legs: cloneTradeLegs(item.legs) }));
 }
 
 function cloneClosed(items: ClosedTrade[]): ClosedTrade[] {
-  return items.map((item) => ({ ...item }));
+  return items.map((item) => (item.legs ? { ...item, legs: cloneTradeLegs(item.legs) } : { ...item }));
 }
 
 export class TradingEngine {
@@ -481,6 +577,18 @@ export class TradingEngine {
 
   private clockOffsetMs = 0;
 
+  private stepSize: number;
+
+  private minNotional: number;
+
+  private readonly clock: Clock;
+
+  private readonly portfolio?: { manager: PortfolioRiskManager; symbol: string };
+
+  private readonly onTradeClosed?: (trade: ClosedTrade) => void;
+
+  private readonly onTimelineEntry?: (entry: TradingTimelineEntry) => void;
+
   private settings: TradingSettings;
 
   private guardrails: RiskGuardrailManager;
@@ -501,14 +609,32 @@ export class TradingEngine {
 
   private timelineSeq = 0;
 
+  private invalidationSeq = 0;
+
   private lastBars: FootprintBar[] = [];
 
+  private vwapLevels: VwapLevel[] = [];
+
+  private keyLevels: ChartKeyLevel[] = [];
+
+  private depthBook: DepthOrderBook;
+
+  private depthSynced = false;
+
+  private journal: SignalJournal;
+
   private positionMeta = new Map<string, PositionMeta>();
 
   private daily: DailyPerformance;
 
   private objectiveKpis: ObjectiveInvalidationKpis;
 
+  private account: TradingAccount;
+
+  private readonly accountKey: string;
+
+  private fundingRates: FundingRate[] = [];
+
   private lastPrice: number | null = null;
 
   private lastTimestamp = 0;
@@ -518,6 +644,13 @@ export class TradingEngine {
   constructor(options: TradingEngineOptions) {
     this.priceStep = options.priceStep;
     this.timeframeMs = options.timeframeMs;
+    this.stepSize = Math.max(0, options.stepSize ?? 0);
+    this.minNotional = Math.max(0, options.minNotional ?? 0);
+    this.clock = options.clock ?? systemClock;
+    this.portfolio = options.portfolio;
+    this.onTradeClosed = options.onTradeClosed;
+    this.onTimelineEntry = options.onTimelineEntry;
+    this.depthBook = new DepthOrderBook({ sequence: options.depthSequence });
 
     const providedSettings = options.settings ?? {};
     const {
@@ -535,6 +668,8 @@ export class TradingEngine {
     this.settings = {
       ...DEFAULT_TRADING_SETTINGS,
       ...restSettings,
+      exitPlans: normalizeExitPlans(restSettings.exitPlans ?? {}),
+      entryTypes: { ...(restSettings.entryTypes ?? {}) },
       invalidations: {
         ...DEFAULT_INVALIDATION_SETTINGS,
         ...(providedInvalidations ?? {}),
@@ -548,26 +683,39 @@ export class TradingEngine {
         ...this.settings.guardrails,
         ...(providedGuardrails ?? {}),
       },
-      now: Date.now(),
+      now: this.now(),
+      clock: () => this.now(),
     });
 
     this.settings.guardrails = this.guardrails.getSettings();
+    this.journal = new SignalJournal(this.getJournalOptions());
+
+    this.account = options.sharedAccount?.account ?? new TradingAccount(
+      options.account && Number.isFinite(options.account.balance)
+        ? options.account
+        : { balance: this.settings.startingBalance, curve: [] },
+    );
+    this.accountKey = options.sharedAccount?.symbol ?? "";
+    this.account.addBook(this.accountKey, () => this.positions);
+    if (options.sharedAccount) {
+      this.account.rebase(this.settings.startingBalance);
+    }
 
     if (options.history?.length) {
       this.history = cloneClosed(options.history).slice(-MAX_HISTORY);
       this.closed = cloneClosed(this.history.slice(-MAX_CLOSED_CACHE));
     }
 
-    const riskFraction = this.settings.riskPerTradePercent / 100;
-    const day = this.getCurrentDayKey();
-    const trades = this.history.filter((trade) => trade.day === day);
-    this.daily = createDailyPerformance(day, trades, riskFraction);
+    this.daily = this.buildDailyPerformance();
     this.objectiveKpis = this.buildObjectiveKpis();
+    this.portfolio?.manager.addSymbol(this.portfolio.symbol, this.history);
   }
 
   get defaultSettings(): TradingSettings {
     return {
       ...DEFAULT_TRADING_SETTINGS,
+      exitPlans: {},
+      entryTypes: {},
       invalidations: { ...DEFAULT_INVALIDATION_SETTINGS },
       objectiveInvalidation: { ...DEFAULT_OBJECTIVE_INVALIDATION_SETTINGS },
       guardrails: cloneGuardrailSettings(DEFAULT_GUARDRAIL_SETTINGS),
@@ -577,19 +725,37 @@ export class TradingEngine {
   getSettings(): TradingSettings {
     return {
       ...this.settings,
+      exitPlans: cloneExitPlans(this.settings.exitPlans),
+      entryTypes: { ...this.settings.entryTypes },
       invalidations: { ...this.settings.invalidations },
       objectiveInvalidation: { ...this.settings.objectiveInvalidation },
       guardrails: cloneGuardrailSettings(this.settings.guardrails),
     };
   }
 
-  updateMarketContext(context: { priceStep?: number; timeframeMs?: number }) {
+  updateMarketContext(context: {
+    priceStep?: number;
+    timeframeMs?: number;
+    depthSequence?: DepthSequencePolicy;
+    stepSize?: number;
+    minNotional?: number;
+  }) {
     if (typeof context.priceStep === "number" && context.priceStep > 0 && Math.abs(context.priceStep - this.priceStep) > PRICE_EPSILON) {
       this.priceStep = context.priceStep;
     }
     if (typeof context.timeframeMs === "number" && context.timeframeMs > 0 && context.timeframeMs !== this.timeframeMs) {
       this.timeframeMs = context.timeframeMs;
     }
+    if (typeof context.stepSize === "number" && context.stepSize >= 0) {
+      this.stepSize = context.stepSize;
+    }
+    if (typeof context.minNotional === "number" && context.minNotional >= 0) {
+      this.minNotional = context.minNotional;
+    }
+    if (context.depthSequence && context.depthSequence.id !== this.depthBook.getSequencePolicy().id) {
+      this.depthBook.setSequencePolicy(context.depthSequence);
+      this.depthSynced = false;
+    }
   }
 
   updateClockOffset(offsetMs: number): boolean {
@@ -658,26 +824,97 @@ export class TradingEngine {
     next.partialTakePercent = clamp(next.partialTakePercent, 0, 1);
     next.retestWindowMinutes = Math.max(0, next.retestWindowMinutes);
     next.slippageTicks = Math.max(0, next.slippageTicks);
-    next.feesPercent = Math.max(0, next.feesPercent);
+    next.makerFeePercent = Math.max(0, next.makerFeePercent);
+    next.takerFeePercent = Math.max(0, next.takerFeePercent);
     next.riskPerTradePercent = Math.max(0, next.riskPerTradePercent);
+    next.startingBalance = Math.max(0, next.startingBalance);
+    next.leverage = clamp(next.leverage, 1, MAX_LEVERAGE);
     next.beOffsetTicks = Math.max(0, next.beOffsetTicks);
     next.invalidationBars = Math.max(0, Math.floor(next.invalidationBars));
+    next.outcomeHorizonBars = Math.max(1, Math.floor(next.outcomeHorizonBars));
+    next.exitPlans = normalizeExitPlans(next.exitPlans);
+    next.entryTypes = { ...next.entryTypes };
+    next.limitOffsetTicks = Math.max(0, next.limitOffsetTicks);
 
     const changed = JSON.stringify(this.settings) !== JSON.stringify(next) || guardrailsChanged;
     if (!changed) {
       return false;
     }
 
+    const previous = this.settings;
     this.settings = {
       ...next,
       invalidations: nextInvalidations,
       guardrails: guardrailSettings,
     };
+    if (next.startingBalance !== previous.startingBalance) {
+      this.account.rebase(next.startingBalance);
+    }
+    if (next.marginMode !== previous.marginMode) {
+      this.updateLiquidationPrices();
+    }
+    this.journal.updateOptions(this.getJournalOptions());
     this.updateDailyPerformance();
     this.bumpVersion();
     return true;
   }
 
+  // Latest VWAP and band prices, for "vwap" exit targets.
+  updateVwapLevels(levels: VwapLevel[]) {
+    this.vwapLevels = levels.filter((level) => Number.isFinite(level.price)).map((level) => ({ ...level }));
+  }
+
+  // Key levels on the chart, for "key-level" and "poc" exit targets.
+  updateKeyLevels(levels: ChartKeyLevel[]) {
+    this.keyLevels = levels.filter((level) => Number.isFinite(level.price)).map((level) => ({ ...level }));
+  }
+
+  // Funding settlements of the symbol, replacing the previous series; open
+  // positions pay them as trades cross each settlement time.
+  updateFundingRates(rates: FundingRate[]) {
+    this.fundingRates = normalizeFundingRates(rates);
+  }
+
+  // Mirrors the order book for queue-aware entries and depth slippage. Gaps
+  // drop the mirror until the next snapshot; queues keep their last position
+  // meanwhile.
+  handleDepth(message: DepthStreamMessage): boolean {
+    let changed = false;
+    if (message.type === "snapshot") {
+      this.depthBook.applySnapshot(message.snapshot);
+      this.depthSynced = true;
+      for (const pending of this.pending) {
+        if (pending.queue) {
+          changed = syncEntryQueue(pending, this.depthBook.getQuantity(getEntryBookSide(pending.side), pending.entry)) || changed;
+        }
+      }
+    } else if (this.depthSynced) {
+      try {
+        for (const change of this.depthBook.applyDiff(message.diff)) {
+          for (const pending of this.pending) {
+            if (
+              pending.queue &&
+              getEntryBookSide(pending.side) === change.side &&
+              Math.abs(change.price - pending.entry) < PRICE_EPSILON
+            ) {
+              changed = syncEntryQueue(pending, change.currentQuantity) || changed;
+            }
+          }
+        }
+      } catch (error) {
+        if (!(error instanceof DepthGapError)) {
+          console.warn("Trading depth mirror failed", error);
+        }
+        this.depthBook.reset();
+        this.depthSynced = false;
+      }
+    }
+    if (changed) {
+      this.bumpVersion();
+    }
+    return changed;
+  }
+
   syncSignals(signals: FootprintSignal[], bars?: FootprintBar[]): boolean {
     let changed = false;
 
@@ -687,7 +924,46 @@ export class TradingEngine {
     for (const signal of signals) {
       const existing = this.signals.get(signal.id);
       this.signals.set(signal.id, signal);
-      if (!existing) {
+      const lifecycle = signal.lifecycle ?? "confirmed";
+      const previousLifecycle = existing ? existing.lifecycle ?? "confirmed" : null;
+
+      if (lifecycle === "cancelled") {
+        if (previousLifecycle !== null && previousLifecycle !== "cancelled") {
+          this.journal.discard(signal.id);
+          this.cancelSignal(signal);
+          changed = true;
+        }
+        continue;
+      }
+      if (existing !== signal) {
+        this.journal.record(signal);
+      }
+      if (lifecycle === "provisional") {
+        // Provisional signals are shown and can be taken by hand, but auto-take
+        // and invalidations wait for the bar to close.
+        if (!existing) {
+          changed = true;
+          this.logTradeEvent({
+            signalId: signal.id,
+            positionId: null,
+            phase: "signal",
+            timestamp: signal.timestamp,
+            side: signal.side,
+            auto: false,
+            label: "Señal provisional",
+            note: "Vela en formación",
+            entry: signal.entry,
+            stop: signal.stop,
+            target1: signal.target1,
+            target2: signal.target2,
+          });
+        } else if (existing !== signal) {
+          changed = true;
+        }
+        continue;
+      }
+
+      if (previousLifecycle === null || previousLifecycle === "provisional") {
         newSignals.push(signal);
         changed = true;
         this.logTradeEvent({
@@ -697,7 +973,7 @@ export class TradingEngine {
           timestamp: signal.timestamp,
           side: signal.side,
           auto: this.settings.autoTake,
-          label: "Señal detectada",
+          label: previousLifecycle === "provisional" ? "Señal confirmada al cierre" : "Señal detectada",
           note: signal.keyLevel ? `Nivel ${signal.keyLevel.label}` : undefined,
           entry: signal.entry,
           stop: signal.stop,
@@ -722,6 +998,10 @@ export class TradingEngine {
       }
     }
 
+    if (barsChanged && this.journal.updateBars(this.lastBars)) {
+      changed = true;
+    }
+
     if (this.signals.size > MAX_SIGNAL_CACHE) {
       const toDelete = this.signals.size - MAX_SIGNAL_CACHE;
       let removed = 0;
@@ -761,7 +1041,7 @@ export class TradingEngine {
 
   takeSignal(signalId: string): PendingTrade | null {
     const signal = this.signals.get(signalId);
-    if (!signal) {
+    if (!signal || signal.lifecycle === "cancelled") {
       return null;
     }
 
@@ -781,7 +1061,8 @@ export class TradingEngine {
     if (index === -1) {
       return false;
     }
-    this.pending.splice(index, 1);
+    const [pending] = this.pending.splice(index, 1);
+    this.journal.mark(pending.signalId, "rejected", this.lastTimestamp || this.now(), { rejection: "manual" });
     this.bumpVersion();
     return true;
   }
@@ -801,12 +1082,17 @@ export class TradingEngine {
     this.lastPrice = trade.price;
     this.lastTimestamp = trade.timestamp;
 
-    let changed = false;
+    let changed = this.settleFunding(trade.timestamp);
+    // Other symbols on a shared account move the cross buffer between our trades.
+    if (this.settings.marginMode === "cross" && this.positions.length) {
+      this.updateLiquidationPrices();
+    }
 
     if (this.pending.length) {
       for (let index = this.pending.length - 1; index >= 0; index -= 1) {
         const pending = this.pending[index];
-        if (trade.timestamp >= pending.expiresAt) {
+        const expired = trade.timestamp >= pending.expiresAt;
+        if (expired && !pending.queue?.filled) {
           this.logTradeEvent({
             signalId: pending.signalId,
             positionId: null,
@@ -822,18 +1108,42 @@ export class TradingEngine {
             target2: pending.target2,
           });
           this.pending.splice(index, 1);
+          this.journal.mark(pending.signalId, "expired", pending.expiresAt);
           changed = true;
           continue;
         }
 
-        const shouldFill =
-          pending.side === "long" ? trade.price <= pending.entry + PRICE_EPSILON : trade.price >= pending.entry - PRICE_EPSILON;
-
-        if (shouldFill) {
+        if (!expired && advanceEntryQueue(pending, trade)) {
+          changed = true;
+        }
+        // A partly filled order keeps its fill when the window runs out.
+        const fillReference = expired ? pending.entry : resolveEntryFill(pending, trade);
+        if (fillReference !== null) {
           this.pending.splice(index, 1);
-          const position = this.openPositionFromPending(pending, trade);
-          if (position) {
+          const opened = this.openPositionFromPending(pending, trade, fillReference);
+          if ("rejection" in opened) {
+            this.logTradeEvent({
+              signalId: pending.signalId,
+              positionId: null,
+              phase: "cancelled",
+              timestamp: trade.timestamp,
+              side: pending.side,
+              auto: pending.auto,
+              label: "Entrada anulada",
+              note: opened.rejection,
+              price: fillReference,
+              entry: pending.entry,
+              stop: pending.stop,
+            });
+            this.journal.mark(pending.signalId, "expired", trade.timestamp);
+            changed = true;
+          } else {
+            const { position } = opened;
+            const fillFraction = getEntryFillFraction(pending);
             this.positions.push(position);
+            this.account.apply(-position.feesPaid);
+            this.updateLiquidationPrices();
+            this.journal.mark(position.signalId, "filled", position.entryTime);
             this.logTradeEvent({
               signalId: position.signalId,
               positionId: position.id,
@@ -842,6 +1152,7 @@ export class TradingEngine {
               side: position.side,
               auto: pending.auto,
               label: "Entrada ejecutada",
+              note: fillFraction < 1 ? `Llenado parcial ${Math.round(fillFraction * 100)}%` : undefined,
               price: position.entryFillPrice,
               entry: position.entryPrice,
               stop: position.stopPrice,
@@ -854,6 +1165,10 @@ export class TradingEngine {
       }
     }
 
+    if (this.journal.observe(trade)) {
+      changed = true;
+    }
+
     if (!this.positions.length) {
       if (changed) {
         this.bumpVersion();
@@ -876,19 +1191,25 @@ export class TradingEngine {
       }
       position.lastPrice = trade.price;
 
-      if (!position.target1Hit) {
+      // Legs fill in order; the last one closes the position.
+      let finalTargetHit = false;
+      for (let legIndex = 0; legIndex < position.legs.length; legIndex += 1) {
+        const leg = position.legs[legIndex];
+        if (leg.filledAt !== null) {
+          continue;
+        }
         const targetHit =
-          direction > 0
-            ? trade.price >= position.target1 - PRICE_EPSILON
-            : trade.price <= position.target1 + PRICE_EPSILON;
-        if (targetHit) {
-          changed = this.handleTarget1(position, trade) || changed;
+          direction > 0 ? trade.price >= leg.target - PRICE_EPSILON : trade.price <= leg.target + PRICE_EPSILON;
+        if (!targetHit) {
+          break;
+        }
+        if (legIndex === position.legs.length - 1) {
+          finalTargetHit = true;
+          break;
         }
+        changed = this.fillLeg(position, legIndex, trade) || changed;
       }
-
-      const target2Hit =
-        direction > 0 ? trade.price >= position.target2 - PRICE_EPSILON : trade.price <= position.target2 + PRICE_EPSILON;
-      if (target2Hit) {
+      if (finalTargetHit) {
         if (position.firstHit === "none") {
           position.firstHit = "tp2";
         }
@@ -897,13 +1218,36 @@ export class TradingEngine {
         continue;
       }
 
+      if (position.trailing) {
+        changed = this.trailStop(position) || changed;
+      }
+
+      // Only a liquidation price inside the stop can be reached before it.
+      const liquidation = position.liquidationPrice;
+      if (
+        liquidation !== null &&
+        (liquidation - position.stopPrice) * direction > PRICE_EPSILON &&
+        (trade.price - liquidation) * direction <= PRICE_EPSILON
+      ) {
+        if (position.firstHit === "none") {
+          position.firstHit = "stop";
+        }
+        this.closePosition(index, liquidation, trade.timestamp, "liquidation");
+        changed = true;
+        continue;
+      }
+
       const stopHit =
         direction > 0 ? trade.price <= position.stopPrice + PRICE_EPSILON : trade.price >= position.stopPrice - PRICE_EPSILON;
       if (stopHit) {
         if (position.firstHit === "none") {
           position.firstHit = position.target1Hit ? "tp1" : "stop";
         }
-        const reason: TradeExitReason = position.target1Hit ? "breakeven" : "stop";
+        const reason: TradeExitReason = position.trailing
+          ? "trail-stop"
+          : (position.stopPrice - position.entryPrice) * direction >= -PRICE_EPSILON
+            ? "breakeven"
+            : "stop";
         this.closePosition(index, position.stopPrice, trade.timestamp, reason);
         changed = true;
         continue;
@@ -930,6 +1274,35 @@ export class TradingEngine {
     return changed;
   }
 
+  // A provisional signal that did not survive its bar close: orders taken
+  // from it are withdrawn; open positions are left to the trader.
+  private cancelSignal(signal: FootprintSignal): boolean {
+    let changed = false;
+    for (let index = this.pending.length - 1; index >= 0; index -= 1) {
+      const pending = this.pending[index];
+      if (pending.signalId !== signal.id) {
+        continue;
+      }
+      this.pending.splice(index, 1);
+      changed = true;
+      this.logTradeEvent({
+        signalId: pending.signalId,
+        positionId: null,
+        phase: "cancelled",
+        timestamp: signal.timestamp,
+        side: pending.side,
+        auto: pending.auto,
+        label: "Pendiente cancelado",
+        note: "Señal provisional cancelada al cierre",
+        entry: pending.entry,
+        stop: pending.stop,
+        target1: pending.target1,
+        target2: pending.target2,
+      });
+    }
+    return changed;
+  }
+
   private handleLegacyInvalidation(signal: FootprintSignal): boolean {
     if (!this.settings.invalidationBars) {
       return false;
@@ -962,6 +1335,17 @@ export class TradingEngine {
     return changed;
   }
 
+  // Starts the paper account over at `startingBalance`; not while positions
+  // are open.
+  resetAccount(): boolean {
+    if (!this.account.reset(this.settings.startingBalance)) {
+      return false;
+    }
+    this.updateDailyPerformance();
+    this.bumpVersion();
+    return true;
+  }
+
   resetDay(day?: string): void {
     const targetDay = day ?? this.getCurrentDayKey();
     this.history = this.history.filter((trade) => trade.day !== targetDay);
@@ -995,9 +1379,12 @@ export class TradingEngine {
       "realizedPnl",
       "realizedR",
       "feesPaid",
+      "slippageCost",
+      "fundingPaid",
       "mfe",
       "mae",
       "day",
+      "legs",
     ];
 
     const rows = this.history.map((trade) =>
@@ -1019,9 +1406,12 @@ export class TradingEngine {
         trade.realizedPnl.toFixed(6),
         trade.realizedR.toFixed(4),
         trade.feesPaid.toFixed(6),
+        (trade.slippageCost ?? 0).toFixed(6),
+        (trade.fundingPaid ?? 0).toFixed(6),
         trade.mfe.toFixed(4),
         trade.mae.toFixed(4),
         trade.day,
+        trade.legs ? `${trade.legs.filter((leg) => leg.filledAt !== null).length}/${trade.legs.length}` : "",
       ].join(","),
     );
 
@@ -1032,9 +1422,12 @@ export class TradingEngine {
     return {
       settings: {
         ...this.settings,
+        exitPlans: cloneExitPlans(this.settings.exitPlans),
+        entryTypes: { ...this.settings.entryTypes },
         invalidations: { ...this.settings.invalidations },
         objectiveInvalidation: { ...this.settings.objectiveInvalidation },
       },
+      account: this.getAccountState(),
       pending: clonePending(this.pending),
       positions: clonePositions(this.positions),
       closed: cloneClosed(this.closed),
@@ -1048,11 +1441,7 @@ export class TradingEngine {
           us: { ...this.daily.bySession.us },
           other: { ...this.daily.bySession.other },
         },
-        byStrategy: {
-          "absorption-failure": { ...this.daily.byStrategy["absorption-failure"] },
-          "poc-migration": { ...this.daily.byStrategy["poc-migration"] },
-          "delta-divergence": { ...this.daily.byStrategy["delta-divergence"] },
-        },
+        byStrategy: mapStrategyRecord(this.daily.byStrategy, (summary) => ({ ...summary })),
       },
       invalidations: this.invalidations.map((event) => ({
         ...event,
@@ -1068,6 +1457,7 @@ export class TradingEngine {
       timeline: this.timeline.map((entry) => ({ ...entry })),
       guardrails: this.guardrails.getState(),
       kpis: cloneObjectiveKpis(this.objectiveKpis),
+      signalJournal: this.journal.getState(),
       version: this.version,
     };
   }
@@ -1076,14 +1466,57 @@ export class TradingEngine {
     return {
       settings: {
         ...this.settings,
+        exitPlans: cloneExitPlans(this.settings.exitPlans),
+        entryTypes: { ...this.settings.entryTypes },
         invalidations: { ...this.settings.invalidations },
         objectiveInvalidation: { ...this.settings.objectiveInvalidation },
         guardrails: cloneGuardrailSettings(this.settings.guardrails),
       },
       history: cloneClosed(this.history),
+      account: this.account.getSnapshot(),
+    };
+  }
+
+  private getAccountState(): TradingAccountState {
+    const balance = this.account.getBalance();
+    const usedMargin = this.account.getUsedMargin();
+    const { curve } = this.account.getSnapshot();
+    return {
+      balance,
+      equity: balance + this.account.getUnrealizedPnl(),
+      usedMargin,
+      availableBalance: balance - usedMargin,
+      curve: curve.map((point) => ({ ...point })),
     };
   }
 
+  // Base quantity that risks `riskPerTradePercent` of the balance between
+  // entry and stop, capped by the free margin and rounded down to the lot
+  // step; 0 when that falls under the venue's minimum order.
+  private sizeOrder(entry: number, riskPerUnit: number, fraction = 1): number {
+    if (riskPerUnit < PRICE_EPSILON || entry <= 0) {
+      return 0;
+    }
+    const balance = this.account.getBalance();
+    const riskBudget = balance * (this.settings.riskPerTradePercent / 100) * fraction;
+    const maxSize = (Math.max(0, balance - this.account.getUsedMargin()) * this.settings.leverage) / entry;
+    const size = floorToStep(Math.min(riskBudget / riskPerUnit, maxSize), this.stepSize);
+    return size > 0 && size * entry >= this.minNotional - PRICE_EPSILON ? size : 0;
+  }
+
+  private updateLiquidationPrices(): void {
+    if (this.settings.marginMode === "cross") {
+      const price = computeCrossLiquidation(this.positions, this.account.getCrossBalance(this.accountKey));
+      for (const position of this.positions) {
+        position.liquidationPrice = price;
+      }
+      return;
+    }
+    for (const position of this.positions) {
+      position.liquidationPrice = computeIsolatedLiquidation(position);
+    }
+  }
+
   private createPendingFromSignal(signal: FootprintSignal, auto: boolean): {
     pending: PendingTrade | null;
     guardrailsChanged: boolean;
@@ -1102,6 +1535,10 @@ export class TradingEngine {
     }
 
     if (!evaluation.allowed) {
+      this.journal.mark(signal.id, "rejected", signal.timestamp, {
+        rejection: "guardrail",
+        reason: evaluation.block?.reason,
+      });
       return { pending: null, guardrailsChanged: evaluation.changed };
     }
 
@@ -1111,23 +1548,42 @@ export class TradingEngine {
     }
 
     const direction = directionFromSide(signal.side);
-    const providedTarget1 = Number.isFinite(signal.target1) ? signal.target1 : signal.entry + direction * riskPerUnit * 2;
+    const minTargetPrice = signal.entry + direction * riskPerUnit * MIN_REWARD_R;
+    const providedTarget1 = Number.isFinite(signal.target1) ? signal.target1 : minTargetPrice;
     const rrToProvidedTarget = Math.abs(providedTarget1 - signal.entry) / Math.max(riskPerUnit, PRICE_EPSILON);
-    if (rrToProvidedTarget + PRICE_EPSILON < 2) {
+    if (rrToProvidedTarget + PRICE_EPSILON < MIN_REWARD_R) {
+      this.journal.mark(signal.id, "rejected", signal.timestamp, { rejection: "min-rr" });
       return { pending: null, guardrailsChanged: evaluation.changed };
     }
 
-    const target1Price = signal.entry + direction * riskPerUnit * 2;
-    const target2Price = signal.entry + direction * riskPerUnit * 3;
+    const entryType = this.getEntryType(signal.strategy);
+    const signalBar = this.lastBars.find((bar) => bar.startTime === signal.barTime) ?? null;
+    const entry = resolveEntryOrderPrice(entryType, {
+      side: signal.side,
+      entry: signal.entry,
+      priceStep: this.priceStep,
+      offsetTicks: this.settings.limitOffsetTicks,
+      barHigh: signalBar?.highPrice ?? null,
+      barLow: signalBar?.lowPrice ?? null,
+    });
+    const legs = buildTradeLegs(this.getExitPlan(signal.strategy), {
+      side: signal.side,
+      entry,
+      stop: signal.stop,
+      priceStep: this.priceStep,
+      candidates: this.getExitCandidates(signal),
+    });
+    const target1 = legs[0].target;
+    const target2 = legs[legs.length - 1].target;
 
     const keyLevel = signal.keyLevel;
     if (keyLevel && Number.isFinite(keyLevel.price)) {
       const levelPrice = keyLevel.price;
       let blocked = false;
       if (direction > 0) {
-        blocked = levelPrice > signal.entry + PRICE_EPSILON && levelPrice < target1Price - PRICE_EPSILON;
+        blocked = levelPrice > signal.entry + PRICE_EPSILON && levelPrice < minTargetPrice - PRICE_EPSILON;
       } else {
-        blocked = levelPrice < signal.entry - PRICE_EPSILON && levelPrice > target1Price + PRICE_EPSILON;
+        blocked = levelPrice < signal.entry - PRICE_EPSILON && levelPrice > minTargetPrice + PRICE_EPSILON;
       }
       if (blocked) {
         this.logTradeEvent({
@@ -1141,35 +1597,91 @@ export class TradingEngine {
           note: `Nivel ${keyLevel.label} bloquea antes de 2R`,
           entry: signal.entry,
           stop: signal.stop,
-          target1: Number(target1Price.toFixed(6)),
-          target2: Number(target2Price.toFixed(6)),
+          target1,
+          target2,
+        });
+        this.journal.mark(signal.id, "rejected", signal.timestamp, {
+          rejection: "key-level",
+          reason: `Nivel ${keyLevel.label} bloquea antes de 2R`,
         });
         return { pending: null, guardrailsChanged: evaluation.changed };
       }
     }
 
-    const target1 = Number(target1Price.toFixed(6));
-    const target2 = Number(target2Price.toFixed(6));
+    const orderEntry = Number(entry.toFixed(6));
+    const orderSize = this.sizeOrder(orderEntry, Math.abs(orderEntry - signal.stop));
+    if (orderSize <= 0) {
+      const reason = "Tamaño bajo el mínimo del símbolo o sin margen libre";
+      this.logTradeEvent({
+        signalId: signal.id,
+        positionId: null,
+        phase: "rejected",
+        timestamp: signal.timestamp,
+        side: signal.side,
+        auto,
+        label: "Descartada por tamaño",
+        note: reason,
+        entry: orderEntry,
+        stop: signal.stop,
+        target1,
+        target2,
+      });
+      this.journal.mark(signal.id, "rejected", signal.timestamp, { rejection: "account", reason });
+      return { pending: null, guardrailsChanged: evaluation.changed };
+    }
+
+    if (this.portfolio) {
+      const portfolioCheck = this.portfolio.manager.evaluateEntry({
+        symbol: this.portfolio.symbol,
+        now: this.now(),
+        signal,
+        auto,
+        exposure: this.getExposure(),
+      });
+      if (!portfolioCheck.allowed) {
+        this.journal.mark(signal.id, "rejected", signal.timestamp, {
+          rejection: "portfolio",
+          reason: portfolioCheck.block?.reason,
+        });
+        return { pending: null, guardrailsChanged: true };
+      }
+    }
 
+    // Resting orders wait out the retest window; market orders get one bar.
     const retestWindow = Math.max(0, this.settings.retestWindowMinutes) * 60_000;
+    const activeFrom = entryType === "bar-open" ? signal.barTime + this.timeframeMs : signal.timestamp;
+    const marketOrder = entryType === "market" || entryType === "bar-open";
     const pending: PendingTrade = {
       id: signal.id,
       signalId: signal.id,
       side: signal.side,
       strategy: signal.strategy,
       session: signal.session,
-      entry: signal.entry,
+      entry: orderEntry,
       stop: signal.stop,
       target1,
       target2,
+      legs,
       createdAt: signal.timestamp,
-      expiresAt: signal.timestamp + retestWindow,
-      entryType: "touch",
+      activeFrom,
+      expiresAt: marketOrder ? activeFrom + this.timeframeMs : signal.timestamp + retestWindow,
+      entryType,
+      // Joins the back of the queue resting at the order price.
+      queue:
+        this.settings.queueFills && entryRestsInBook(entryType) && this.depthSynced
+          ? {
+              ahead: this.depthBook.getQuantity(getEntryBookSide(signal.side), orderEntry),
+              size: orderSize,
+              filled: 0,
+              firstFillAt: null,
+            }
+          : null,
       auto,
       barIndex: signal.barIndex,
     };
 
     this.pending.push(pending);
+    this.journal.mark(signal.id, "pending", pending.createdAt);
     this.logTradeEvent({
       signalId: signal.id,
       positionId: null,
@@ -1178,7 +1690,10 @@ export class TradingEngine {
       side: signal.side,
       auto,
       label: auto ? "Auto-sim pendiente" : "Pendiente manual",
-      note: this.settings.retestWindowMinutes ? `Ventana ${Math.round(this.settings.retestWindowMinutes)}m` : undefined,
+      note:
+        !marketOrder && this.settings.retestWindowMinutes
+          ? `${ENTRY_ORDER_LABELS[entryType]} · ventana ${Math.round(this.settings.retestWindowMinutes)}m`
+          : ENTRY_ORDER_LABELS[entryType],
       entry: pending.entry,
       stop: pending.stop,
       target1: pending.target1,
@@ -1187,29 +1702,63 @@ export class TradingEngine {
     return { pending, guardrailsChanged: evaluation.changed };
   }
 
-  private openPositionFromPending(pending: PendingTrade, trade: Trade): Position | null {
-    const slippage = this.settings.slippageTicks * this.priceStep;
-    const fillPrice = applyEntrySlippage(pending.side, pending.entry, slippage);
+  private getEntryType(strategy: SignalStrategy): EntryOrderType {
+    return this.settings.entryTypes[strategy] ?? getSignalStrategy(strategy)?.entryType ?? "touch";
+  }
 
-    const riskPerUnit = Math.abs(pending.entry - pending.stop);
-    if (riskPerUnit < PRICE_EPSILON) {
-      return null;
+  private getExitPlan(strategy: SignalStrategy): ExitPlan {
+    return this.settings.exitPlans[strategy] ?? getDefaultExitPlan(this.settings);
+  }
+
+  // Levels structural exit targets can sit on, by anchor.
+  private getExitCandidates(signal: FootprintSignal): ExitLevelCandidates {
+    const keyLevels = this.keyLevels
+      .filter((level) => !POC_LEVEL_TYPES.has(level.type) && level.type !== "session-vwap")
+      .map((level) => ({ label: level.label, price: level.price }));
+    if (signal.keyLevel && Number.isFinite(signal.keyLevel.price)) {
+      keyLevels.push({ label: signal.keyLevel.label, price: signal.keyLevel.price });
     }
+    return {
+      signal: [
+        { label: "T1 señal", price: signal.target1 },
+        { label: "T2 señal", price: signal.target2 },
+      ].filter((level) => Number.isFinite(level.price)),
+      "key-level": keyLevels,
+      vwap: this.vwapLevels.map((level) => ({ label: level.label, price: level.price })),
+      poc: this.keyLevels
+        .filter((level) => POC_LEVEL_TYPES.has(level.type))
+        .map((level) => ({ label: level.label, price: level.price })),
+    };
+  }
 
-    const riskFraction = this.settings.riskPerTradePercent / 100;
-    if (riskFraction <= 0) {
-      return null;
+  // `fillReference` is the order price for limits and the print otherwise.
+  private openPositionFromPending(
+    pending: PendingTrade,
+    trade: Trade,
+    fillReference: number,
+  ): { position: Position } | { rejection: string } {
+    const riskPerUnit = (fillReference - pending.stop) * directionFromSide(pending.side);
+    if (riskPerUnit < PRICE_EPSILON) {
+      return { rejection: "Precio de entrada más allá del stop" };
     }
 
-    const size = riskFraction / riskPerUnit;
-    const partialSize = size * clamp(this.settings.partialTakePercent, 0, 1);
+    // A partial queue fill trades a smaller position at the same R.
+    const size = this.sizeOrder(fillReference, riskPerUnit, getEntryFillFraction(pending));
+    if (size <= 0) {
+      return { rejection: "Tamaño bajo el mínimo del símbolo o sin margen libre" };
+    }
+    const riskAmount = size * riskPerUnit;
+    const slippage = entryTakesLiquidity(pending.entryType) ? this.getMarketSlippage(pending.side === "long", size) : 0;
+    const fillPrice = applyEntrySlippage(pending.side, fillReference, slippage);
+    const legs = cloneTradeLegs(pending.legs);
+    const partialSize = legs.length > 1 ? size * legs[0].size : 0;
     const remainingSize = size;
+    const entryTime = pending.queue?.firstFillAt ?? trade.timestamp;
     const timeStopAt = this.settings.timeStopMinutes
-      ? trade.timestamp + Math.max(0, this.settings.timeStopMinutes) * 60_000
+      ? entryTime + Math.max(0, this.settings.timeStopMinutes) * 60_000
       : null;
 
-    const feeRate = this.settings.feesPercent / 100;
-    const entryFee = Math.abs(fillPrice * size) * feeRate;
+    const entryFee = Math.abs(fillPrice * size) * this.getFeeRate(!entryTakesLiquidity(pending.entryType));
 
     const position: Position = {
       id: pending.id,
@@ -1218,25 +1767,32 @@ export class TradingEngine {
       strategy: pending.strategy,
       session: pending.session,
       auto: pending.auto,
-      entryPrice: pending.entry,
+      entryPrice: fillReference,
       entryFillPrice: fillPrice,
       originalStop: pending.stop,
       stopPrice: pending.stop,
       target1: pending.target1,
       target2: pending.target2,
-      entryTime: trade.timestamp,
+      legs,
+      trailing: null,
+      entryTime,
       entryBarIndex: pending.barIndex,
       size,
       remainingSize,
       partialSize,
-      riskAmount: riskFraction,
+      riskAmount,
       riskPerUnit,
+      margin: (fillPrice * size) / this.settings.leverage,
+      liquidationPrice: null,
       timeStopAt,
       target1Hit: false,
       firstHit: "none",
       realizedPnl: -entryFee,
-      realizedR: -entryFee / riskFraction,
+      realizedR: -entryFee / riskAmount,
       feesPaid: entryFee,
+      slippageCost: slippage * size,
+      fundingPaid: 0,
+      fundingSettledAt: entryTime,
       mfe: 0,
       mae: 0,
       lastPrice: trade.price,
@@ -1244,7 +1800,7 @@ export class TradingEngine {
 
     this.initializePositionMeta(position);
 
-    return position;
+    return { position };
   }
 
   private updateBars(bars: FootprintBar[]): boolean {
@@ -1325,69 +1881,111 @@ export class TradingEngine {
     return { bar: this.lastBars.length ? this.lastBars[this.lastBars.length - 1] : null, index: this.lastBars.length - 1 };
   }
 
-  private handleTarget1(position: Position, trade: Trade): boolean {
-    if (position.target1Hit) {
-      return false;
-    }
-
-    const closeSize = position.partialSize > 0 ? Math.min(position.partialSize, position.remainingSize) : 0;
-    if (closeSize <= 0 || closeSize >= position.remainingSize) {
+  // Closes a leg's share at its target (a zero share only moves the stop)
+  // and applies the leg's stop policy.
+  private fillLeg(position: Position, legIndex: number, trade: Trade): boolean {
+    const leg = position.legs[legIndex];
+    const closeSize = Math.min(leg.size * position.size, position.remainingSize);
+    leg.filledAt = trade.timestamp;
+
+    let price = trade.price;
+    if (closeSize > PRICE_EPSILON && closeSize < position.remainingSize - PRICE_EPSILON) {
+      // Targets rest in the book, so they keep the flat ticks.
+      const slippage = this.settings.slippageTicks * this.priceStep;
+      const exitFill = applyExitSlippage(position.side, leg.target, slippage);
+      const exitFee = Math.abs(exitFill * closeSize) * this.getFeeRate(true);
+      const direction = directionFromSide(position.side);
+      const gross = (exitFill - position.entryFillPrice) * closeSize * direction;
+      const net = gross - exitFee;
+
+      position.realizedPnl += net;
+      position.realizedR += net / position.riskAmount;
+      position.feesPaid += exitFee;
+      position.slippageCost += slippage * closeSize;
+      position.remainingSize -= closeSize;
+      leg.fillPrice = exitFill;
+      leg.realizedR = net / position.riskAmount;
+      price = exitFill;
+      this.account.apply(net);
+      this.updateLiquidationPrices();
+    }
+
+    if (legIndex === 0) {
       position.target1Hit = true;
-      position.firstHit = position.firstHit === "none" ? "tp1" : position.firstHit;
-      position.stopPrice = this.computeBreakEvenStop(position);
-      this.logTradeEvent({
-        signalId: position.signalId,
-        positionId: position.id,
-        phase: "tp1-be",
-        timestamp: trade.timestamp,
-        side: position.side,
-        auto: position.auto,
-        label: "TP1 ejecutado",
-        note: "50% cerrado y SL a BE",
-        price: trade.price,
-        entry: position.entryPrice,
-        stop: position.stopPrice,
-        target1: position.target1,
-        target2: position.target2,
-      });
-      return true;
     }
-
-    const slippage = this.settings.slippageTicks * this.priceStep;
-    const exitFill = applyExitSlippage(position.side, position.target1, slippage);
-    const feeRate = this.settings.feesPercent / 100;
-    const exitFee = Math.abs(exitFill * closeSize) * feeRate;
-    const direction = directionFromSide(position.side);
-    const gross = (exitFill - position.entryFillPrice) * closeSize * direction;
-    const net = gross - exitFee;
-
-    position.realizedPnl += net;
-    position.realizedR += net / position.riskAmount;
-    position.feesPaid += exitFee;
-    position.remainingSize -= closeSize;
-    position.target1Hit = true;
     if (position.firstHit === "none") {
       position.firstHit = "tp1";
     }
-    position.stopPrice = this.computeBreakEvenStop(position);
+    this.applyStopPolicy(position, leg.stopPolicy);
+
+    const closedShare = leg.fillPrice !== null ? `${Math.round(leg.size * 100)}% cerrado` : "Sin cierre parcial";
     this.logTradeEvent({
       signalId: position.signalId,
       positionId: position.id,
-      phase: "tp1-be",
+      phase: "target",
       timestamp: trade.timestamp,
       side: position.side,
       auto: position.auto,
-      label: "TP1 ejecutado",
-      note: "50% cerrado y SL a BE",
-      price: exitFill,
+      label: `TP${legIndex + 1} ejecutado`,
+      note: `${closedShare} · ${EXIT_STOP_POLICY_LABELS[leg.stopPolicy]}`,
+      price,
       entry: position.entryPrice,
       stop: position.stopPrice,
       target1: position.target1,
       target2: position.target2,
+      leg: legIndex + 1,
     });
     return true;
   }
 
+  private applyStopPolicy(position: Position, policy: ExitStopPolicy): void {
+    switch (policy) {
+      case "breakeven":
+        this.moveStop(position, position.entryPrice);
+        break;
+      case "breakeven-offset":
+        this.moveStop(position, this.computeBreakEvenStop(position));
+        break;
+      case "atr-trail":
+      case "structure-trail":
+        position.trailing = policy;
+        this.trailStop(position);
+        break;
+      default:
+        break;
+    }
+  }
+
+  // Trails on closed bars only, so a forming bar cannot drag the stop.
+  private trailStop(position: Position): boolean {
+    const bars = this.lastBars.slice(0, -1);
+    let level: number | null = null;
+    if (position.trailing === "atr-trail") {
+      const plan = this.getExitPlan(position.strategy);
+      const atr = computeAtr(bars, plan.atrBars);
+      level = atr !== null ? position.lastPrice - directionFromSide(position.side) * atr * plan.atrMultiple : null;
+    } else if (position.trailing === "structure-trail") {
+      level = findStructureTrail(bars, {
+        side: position.side,
+        since: position.entryTime,
+        priceStep: this.priceStep,
+        stackLevels: this.settings.invalidations.stackedImbalanceLevels,
+        stackRatio: this.settings.invalidations.stackedImbalanceRatio,
+      });
+    }
+    return level !== null && this.moveStop(position, level);
+  }
+
+  // Stops only tighten, and never through the last price.
+  private moveStop(position: Position, price: number): boolean {
+    const direction = directionFromSide(position.side);
+    if ((price - position.stopPrice) * direction <= PRICE_EPSILON || (position.lastPrice - price) * direction <= PRICE_EPSILON) {
+      return false;
+    }
+    position.stopPrice = price;
+    return true;
+  }
+
   private evaluateInvalidations(context: InvalidationEvaluationContext): boolean {
     const objective = this.settings.objectiveInvalidation;
     if (objective && objective.enabled) {
@@ -2109,7 +2707,7 @@ export class TradingEngine {
     }
 
     const event: InvalidationEvent = {
-      id: `${position.id}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      id: `${position.id}-${now}-${++this.invalidationSeq}`,
       positionId: position.id,
       positionSide: position.side,
       strategy: position.strategy,
@@ -2149,7 +2747,11 @@ export class TradingEngine {
   }
 
   private pushTimeline(entry: TradingTimelineEntry): void {
-    this.pushTimeline(entry);
+    this.timeline.push(entry);
+    this.onTimelineEntry?.(entry);
+    if (this.timeline.length > MAX_TIMELINE_ENTRIES) {
+      this.timeline.splice(0, this.timeline.length - MAX_TIMELINE_ENTRIES);
+    }
   }
 
   private logTradeEvent(params: {
@@ -2168,6 +2770,7 @@ export class TradingEngine {
     price?: number;
     result?: TradeResult;
     exitReason?: TradeExitReason;
+    leg?: number;
   }): void {
     this.timelineSeq += 1;
     const entry: TradingTimelineTradeEntry = {
@@ -2205,6 +2808,9 @@ export class TradingEngine {
     if (params.exitReason) {
       entry.exitReason = params.exitReason;
     }
+    if (typeof params.leg === "number") {
+      entry.leg = params.leg;
+    }
     this.pushTimeline(entry);
   }
 
@@ -2226,10 +2832,7 @@ export class TradingEngine {
       thesisSummary: event.thesis.summary,
     };
 
-    this.timeline.push(entry);
-    if (this.timeline.length > MAX_TIMELINE_ENTRIES) {
-      this.timeline.splice(0, this.timeline.length - MAX_TIMELINE_ENTRIES);
-    }
+    this.pushTimeline(entry);
   }
 
   private resolveTimelineEvent(
@@ -2239,7 +2842,7 @@ export class TradingEngine {
     resolvedAt: number,
   ): void {
     for (const entry of this.timeline) {
-      if (entry.eventId !== eventId) {
+      if (entry.type !== "invalidation" || entry.eventId !== eventId) {
         continue;
       }
       entry.status = "resolved";
@@ -2264,15 +2867,16 @@ export class TradingEngine {
       us: createObjectiveKpiAccumulator(),
       other: createObjectiveKpiAccumulator(),
     };
-    const perStrategy: Record<SignalStrategy, ObjectiveKpiAccumulator> = {
-      "absorption-failure": createObjectiveKpiAccumulator(),
-      "poc-migration": createObjectiveKpiAccumulator(),
-      "delta-divergence": createObjectiveKpiAccumulator(),
-    };
+    const perStrategy: Record<SignalStrategy, ObjectiveKpiAccumulator> = {};
+    for (const strategy of getSignalStrategyIds()) {
+      perStrategy[strategy] = createObjectiveKpiAccumulator();
+    }
 
     for (const event of events) {
       const trade = tradeMap.get(event.positionId);
-      const buckets = [total, perSession[event.session], perStrategy[event.strategy]];
+      const strategyBucket = perStrategy[event.strategy] ?? createObjectiveKpiAccumulator();
+      perStrategy[event.strategy] = strategyBucket;
+      const buckets = [total, perSession[event.session], strategyBucket];
 
       for (const bucket of buckets) {
         bucket.events += 1;
@@ -2302,11 +2906,7 @@ export class TradingEngine {
         us: finalizeObjectiveBucket(perSession.us),
         other: finalizeObjectiveBucket(perSession.other),
       },
-      perStrategy: {
-        "absorption-failure": finalizeObjectiveBucket(perStrategy["absorption-failure"]),
-        "poc-migration": finalizeObjectiveBucket(perStrategy["poc-migration"]),
-        "delta-divergence": finalizeObjectiveBucket(perStrategy["delta-divergence"]),
-      },
+      perStrategy: mapStrategyRecord(perStrategy, finalizeObjectiveBucket),
     };
   }
 
@@ -2486,7 +3086,7 @@ export class TradingEngine {
       ];
 
       const thesisPrints = [
-        `Señal ${signal.side === "long" ? "long" : "short"} ${formatStrategy(signal.strategy)}`,
+        `Señal ${signal.side === "long" ? "long" : "short"} ${formatSignalStrategy(signal.strategy)}`,
         `Confluencias: ${signal.strategies.length}`,
         `Barras desde entrada: ${barsSinceEntry}`,
       ];
@@ -3042,18 +3642,25 @@ export class TradingEngine {
     const markerPrice = primary.markerPrice ?? position.lastPrice;
 
     const event: InvalidationEvent = {
-      id: `${position.id}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      id: `${position.id}-${now}-${++this.invalidationSeq}`,
       positionId: position.id,
       positionSide: position.side,
       strategy: position.strategy,
       triggerId: primary.id,
       triggerLabel: this.getTriggerLabel(primary.id),
       triggers: normalizedTriggers,
+      policy: "legacy",
       score,
       severity: severityLevel,
       evidence,
       recommendation,
+      thesis: {
+        summary: primary.thesis?.summary ?? this.getTriggerLabel(primary.id),
+        prints: primary.thesis?.prints ?? [],
+        depth: primary.thesis?.depth ?? [],
+      },
       actions,
+      suggestedAction: actions[0]?.type ?? "hold",
       timestamp: now,
       session: position.session,
       price: markerPrice,
@@ -3112,6 +3719,47 @@ export class TradingEngine {
     }
   }
 
+  // Price given up by a market order of `size`: the walk past the touch under
+  // "depth" slippage, the flat ticks otherwise or while no book is mirrored.
+  // Size the mirrored book cannot absorb pays the flat ticks past its last level.
+  private getMarketSlippage(buying: boolean, size: number): number {
+    const flat = this.settings.slippageTicks * this.priceStep;
+    if (this.settings.slippageModel !== "depth" || !this.depthSynced) {
+      return flat;
+    }
+    const side = buying ? "ask" : "bid";
+    return computeBookImpact(side, this.depthBook.getLevels(side), size, flat) ?? flat;
+  }
+
+  private getFeeRate(maker: boolean): number {
+    return (maker ? this.settings.makerFeePercent : this.settings.takerFeePercent) / 100;
+  }
+
+  // Charges open positions the funding of every settlement up to `timestamp`,
+  // at their last price before it.
+  private settleFunding(timestamp: number): boolean {
+    let settled = false;
+    for (const position of this.positions) {
+      for (const time of getFundingTimes(position.fundingSettledAt, timestamp)) {
+        position.fundingSettledAt = time;
+        const rate = findFundingRate(this.fundingRates, time);
+        if (rate === null) {
+          continue;
+        }
+        const payment = computeFundingPayment(position.side, position.remainingSize, position.lastPrice, rate);
+        position.fundingPaid += payment;
+        position.realizedPnl -= payment;
+        position.realizedR -= payment / position.riskAmount;
+        this.account.apply(-payment);
+        settled = true;
+      }
+    }
+    if (settled) {
+      this.updateLiquidationPrices();
+    }
+    return settled;
+  }
+
   private computeBreakEvenStop(position: Position): number {
     const offset = this.settings.beOffsetTicks * this.priceStep;
     const direction = directionFromSide(position.side);
@@ -3120,19 +3768,32 @@ export class TradingEngine {
 
   private closePosition(index: number, price: number, timestamp: number, reason: TradeExitReason) {
     const position = this.positions[index];
-    const slippage = this.settings.slippageTicks * this.priceStep;
-    const exitFill = applyExitSlippage(position.side, price, slippage);
     const size = position.remainingSize;
+    // Stops, time stops and manual exits go out at market; TP2 rests.
+    const slippage =
+      reason === "tp2" ? this.settings.slippageTicks * this.priceStep : this.getMarketSlippage(position.side === "short", size);
+    const exitFill = applyExitSlippage(position.side, price, slippage);
     const direction = directionFromSide(position.side);
-    const feeRate = this.settings.feesPercent / 100;
-    const exitFee = Math.abs(exitFill * size) * feeRate;
+    const exitFee = Math.abs(exitFill * size) * this.getFeeRate(reason === "tp2");
     const gross = (exitFill - position.entryFillPrice) * size * direction;
     const net = gross - exitFee;
 
     position.realizedPnl += net;
     position.realizedR += net / position.riskAmount;
     position.feesPaid += exitFee;
+    position.slippageCost += slippage * size;
     position.remainingSize = 0;
+    this.account.apply(net);
+    this.account.recordEquity(timestamp);
+    const finalLeg = position.legs[position.legs.length - 1];
+    if (reason === "tp2" && finalLeg) {
+      finalLeg.filledAt = timestamp;
+      finalLeg.fillPrice = exitFill;
+      finalLeg.realizedR = net / position.riskAmount;
+    }
+    if (reason === "invalidation") {
+      this.journal.mark(position.signalId, "invalidated", timestamp);
+    }
 
     const holdMinutes = (timestamp - position.entryTime) / 60_000;
     const result: TradeResult =
@@ -3151,6 +3812,7 @@ export class TradingEngine {
       entryPrice: position.entryPrice,
       entryFillPrice: position.entryFillPrice,
       exitPrice: exitFill,
+      quantity: position.size,
       entryTime: position.entryTime,
       exitTime: timestamp,
       holdMinutes,
@@ -3160,12 +3822,34 @@ export class TradingEngine {
       realizedPnl: position.realizedPnl,
       realizedR: position.realizedR,
       feesPaid: position.feesPaid,
+      slippageCost: position.slippageCost,
+      fundingPaid: position.fundingPaid,
       mfe: position.mfe,
       mae: position.mae,
       day: getDayKey(timestamp),
+      legs: cloneTradeLegs(position.legs),
     };
 
+    this.logTradeEvent({
+      signalId: position.signalId,
+      positionId: position.id,
+      phase: reason,
+      timestamp,
+      side: position.side,
+      auto: position.auto,
+      label: EXIT_REASON_LABELS[reason],
+      price: exitFill,
+      entry: position.entryPrice,
+      stop: position.stopPrice,
+      target1: position.target1,
+      target2: position.target2,
+      result,
+      exitReason: reason,
+      leg: reason === "tp2" ? position.legs.length : undefined,
+    });
+
     this.positions.splice(index, 1);
+    this.updateLiquidationPrices();
     this.positionMeta.delete(position.id);
     this.markInvalidationsClosed(position.id, reason);
     this.closed.push(closed);
@@ -3178,7 +3862,9 @@ export class TradingEngine {
     }
 
     this.guardrails.recordClosedTrade(closed);
+    this.portfolio?.manager.recordClosedTrade(this.portfolio.symbol, closed);
     this.updateDailyPerformance();
+    this.onTradeClosed?.({ ...closed });
   }
 
   private markInvalidationsClosed(positionId: string, reason: TradeExitReason): void {
@@ -3271,21 +3957,23 @@ export class TradingEngine {
       return false;
     }
 
-    const slippage = this.settings.slippageTicks * this.priceStep;
+    const slippage = this.getMarketSlippage(position.side === "short", closeSize);
     const price = this.lastPrice ?? position.lastPrice;
     const exitFill = applyExitSlippage(position.side, price, slippage);
     const direction = directionFromSide(position.side);
-    const feeRate = this.settings.feesPercent / 100;
-    const exitFee = Math.abs(exitFill * closeSize) * feeRate;
+    const exitFee = Math.abs(exitFill * closeSize) * this.getFeeRate(false);
     const gross = (exitFill - position.entryFillPrice) * closeSize * direction;
     const net = gross - exitFee;
 
     position.realizedPnl += net;
     position.realizedR += net / position.riskAmount;
     position.feesPaid += exitFee;
+    position.slippageCost += slippage * closeSize;
     position.remainingSize -= closeSize;
     position.partialSize = Math.min(position.partialSize, position.remainingSize);
     position.lastPrice = price;
+    this.account.apply(net);
+    this.updateLiquidationPrices();
 
     if (position.remainingSize <= PRICE_EPSILON) {
       this.closePosition(index, price, this.lastTimestamp || this.now(), "invalidation");
@@ -3325,8 +4013,15 @@ export class TradingEngine {
     return entry + 2 * risk * direction;
   }
 
+  private getJournalOptions(): SignalJournalOptions {
+    return {
+      horizonBars: this.settings.outcomeHorizonBars,
+      retestWindowMs: Math.max(0, this.settings.retestWindowMinutes) * 60_000,
+    };
+  }
+
   private now(): number {
-    return Date.now() + this.clockOffsetMs;
+    return this.clock() + this.clockOffsetMs;
   }
 
   private getCurrentDayKey(): string {
@@ -3334,15 +4029,28 @@ export class TradingEngine {
   }
 
   private updateDailyPerformance() {
+    this.daily = this.buildDailyPerformance();
+  }
+
+  // The day's percentage is measured against the balance before its trades
+  // and before whatever open positions have already booked.
+  private buildDailyPerformance(): DailyPerformance {
     const day = this.getCurrentDayKey();
     const trades = this.history.filter((trade) => trade.day === day);
-    const riskFraction = this.settings.riskPerTradePercent / 100;
-    this.daily = createDailyPerformance(day, trades, riskFraction);
+    const booked =
+      trades.reduce((sum, trade) => sum + trade.realizedPnl, 0) +
+      this.positions.reduce((sum, position) => sum + position.realizedPnl, 0);
+    return createDailyPerformance(day, trades, this.account.getBalance() - booked);
+  }
+
+  private getExposure(): { openPositions: number; pendingTrades: number } {
+    return { openPositions: this.positions.length, pendingTrades: this.pending.length };
   }
 
   private bumpVersion() {
     this.version += 1;
+    this.portfolio?.manager.updateExposure(this.portfolio.symbol, this.getExposure());
   }
 }
 
-export { DEFAULT_TRADING_SETTINGS, TradingEngine };
+export { DEFAULT_TRADING_SETTINGS };
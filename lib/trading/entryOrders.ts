@@ -0,0 +1,131 @@
+import type { EntryOrderType, PendingTrade, SignalSide, Trade } from "@/types";
+
+const PRICE_EPSILON = 1e-8;
+const QUANTITY_EPSILON = 1e-9;
+
+export const ENTRY_ORDER_LABELS: Record<EntryOrderType, string> = {
+  touch: "Toque (retest)",
+  limit: "Límite con offset",
+  stop: "Stop de ruptura",
+  market: "Mercado",
+  "bar-open": "Apertura siguiente vela",
+};
+
+// Resting limits fill at their price as makers. Everything else crosses the
+// spread and pays slippage and the taker fee; "touch" keeps the conservative
+// fill-on-touch model even though it queues like a limit.
+export function entryTakesLiquidity(type: EntryOrderType): boolean {
+  return type !== "limit";
+}
+
+// Entries that rest in the book and can wait in its queue.
+export function entryRestsInBook(type: EntryOrderType): boolean {
+  return type === "touch" || type === "limit";
+}
+
+export function getEntryBookSide(side: SignalSide): "bid" | "ask" {
+  return side === "long" ? "bid" : "ask";
+}
+
+// Order price for a signal: limits rest `offsetTicks` inside the entry,
+// stops sit a tick beyond the signal bar, market orders keep the signal
+// entry as a reference.
+export function resolveEntryOrderPrice(
+  type: EntryOrderType,
+  args: { side: SignalSide; entry: number; priceStep: number; offsetTicks: number; barHigh: number | null; barLow: number | null },
+): number {
+  const direction = args.side === "long" ? 1 : -1;
+  switch (type) {
+    case "limit":
+      return args.entry - direction * args.offsetTicks * args.priceStep;
+    case "stop": {
+      const extreme = args.side === "long" ? args.barHigh : args.barLow;
+      const breakout = (extreme ?? args.entry) + direction * args.priceStep;
+      return direction * (breakout - args.entry) > 0 ? breakout : args.entry;
+    }
+    default:
+      return args.entry;
+  }
+}
+
+// Reference price a trade fills the pending order at, before slippage, or
+// null when it does not fill it.
+export function resolveEntryFill(pending: PendingTrade, trade: Trade): number | null {
+  if (trade.timestamp < pending.activeFrom) {
+    return null;
+  }
+  const direction = pending.side === "long" ? 1 : -1;
+  switch (pending.entryType) {
+    case "touch":
+    case "limit": {
+      const queue = pending.queue;
+      if (!queue) {
+        return (trade.price - pending.entry) * direction <= PRICE_EPSILON ? pending.entry : null;
+      }
+      // The unfilled rest is dropped once price leaves the level.
+      const complete = queue.filled >= queue.size - QUANTITY_EPSILON;
+      const left = queue.filled > 0 && (trade.price - pending.entry) * direction > PRICE_EPSILON;
+      return complete || left ? pending.entry : null;
+    }
+    case "stop":
+      // A gap through the stop fills at the print, not the order price.
+      return (trade.price - pending.entry) * direction >= -PRICE_EPSILON
+        ? pending.side === "long"
+          ? Math.max(trade.price, pending.entry)
+          : Math.min(trade.price, pending.entry)
+        : null;
+    default:
+      return trade.price;
+  }
+}
+
+// Moves a queued order with a print. Sells into a long's bid (buys into a
+// short's offer) at the order price consume the queue ahead first and fill the
+// order with the rest; a print through the price clears the level. Returns
+// whether the queue moved.
+export function advanceEntryQueue(pending: PendingTrade, trade: Trade): boolean {
+  const queue = pending.queue;
+  if (!queue || trade.timestamp < pending.activeFrom || queue.filled >= queue.size - QUANTITY_EPSILON) {
+    return false;
+  }
+  const direction = pending.side === "long" ? 1 : -1;
+  const distance = (trade.price - pending.entry) * direction;
+  let available = 0;
+  if (distance < -PRICE_EPSILON) {
+    queue.ahead = 0;
+    available = queue.size;
+  } else if (distance <= PRICE_EPSILON && trade.isBuyerMaker === (pending.side === "long")) {
+    const consumed = Math.min(queue.ahead, trade.quantity);
+    queue.ahead -= consumed;
+    available = trade.quantity - consumed;
+  } else {
+    return false;
+  }
+  if (available > QUANTITY_EPSILON) {
+    queue.filled = Math.min(queue.size, queue.filled + available);
+    if (queue.firstFillAt === null) {
+      queue.firstFillAt = trade.timestamp;
+    }
+  }
+  return true;
+}
+
+// Share of the order a queued entry got; 1 without a queue.
+export function getEntryFillFraction(pending: PendingTrade): number {
+  const queue = pending.queue;
+  if (!queue || queue.size <= 0) {
+    return 1;
+  }
+  return Math.min(1, queue.filled / queue.size);
+}
+
+// Cancels can only shrink the queue ahead: it never exceeds what rests at
+// the level now.
+export function syncEntryQueue(pending: PendingTrade, levelQuantity: number): boolean {
+  const queue = pending.queue;
+  if (!queue || levelQuantity >= queue.ahead) {
+    return false;
+  }
+  queue.ahead = Math.max(0, levelQuantity);
+  return true;
+}
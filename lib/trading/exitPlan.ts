@@ -0,0 +1,211 @@
+import { computeStackedImbalance } from "@/lib/signals/strategies/shared";
+import type {
+  ExitPlan,
+  ExitStopPolicy,
+  ExitTarget,
+  ExitTargetAnchor,
+  FootprintBar,
+  SignalSide,
+  TradeLeg,
+  TradingSettings,
+} from "@/types";
+
+const PRICE_EPSILON = 1e-8;
+// Structural targets closer than this to the entry are skipped.
+const MIN_STRUCTURAL_TARGET_R = 1;
+const MAX_EXIT_TARGETS = 6;
+
+export const DEFAULT_ATR_MULTIPLE = 1.5;
+export const DEFAULT_ATR_BARS = 14;
+
+export const EXIT_TARGET_ANCHOR_LABELS: Record<ExitTargetAnchor, string> = {
+  r: "R fijo",
+  signal: "Objetivo señal",
+  "key-level": "Nivel clave",
+  vwap: "VWAP / banda",
+  poc: "POC",
+};
+
+export const EXIT_STOP_POLICY_LABELS: Record<ExitStopPolicy, string> = {
+  hold: "SL sin cambios",
+  breakeven: "SL a BE",
+  "breakeven-offset": "SL a BE + offset",
+  "atr-trail": "Trailing ATR",
+  "structure-trail": "Trailing imbalance/POC",
+};
+
+export interface ExitLevelCandidate {
+  label: string;
+  price: number;
+}
+
+export type ExitLevelCandidates = Partial<Record<Exclude<ExitTargetAnchor, "r">, ExitLevelCandidate[]>>;
+
+// The plan a strategy without its own ladder uses: the TP1 partial at 2R
+// with the stop to BE, and the rest at 3R or the next VWAP level.
+export function getDefaultExitPlan(
+  settings: Pick<TradingSettings, "partialTakePercent" | "vwapTargets">,
+): ExitPlan {
+  const partial = clamp(settings.partialTakePercent, 0, 1);
+  return {
+    targets: [
+      { anchor: "r", r: 2, size: partial, stopPolicy: "breakeven-offset" },
+      { anchor: settings.vwapTargets ? "vwap" : "r", r: 3, size: 1 - partial, stopPolicy: "hold" },
+    ],
+    atrMultiple: DEFAULT_ATR_MULTIPLE,
+    atrBars: DEFAULT_ATR_BARS,
+  };
+}
+
+export function normalizeExitPlan(plan: ExitPlan): ExitPlan | null {
+  const targets: ExitTarget[] = plan.targets
+    .filter((target) => Number.isFinite(target.r) && target.r > 0)
+    .slice(0, MAX_EXIT_TARGETS)
+    .map((target) => ({ ...target, size: clamp(Number.isFinite(target.size) ? target.size : 0, 0, 1) }));
+  if (!targets.length) {
+    return null;
+  }
+  return {
+    targets,
+    atrMultiple: Number.isFinite(plan.atrMultiple) && plan.atrMultiple > 0 ? plan.atrMultiple : DEFAULT_ATR_MULTIPLE,
+    atrBars: Number.isFinite(plan.atrBars) ? Math.max(1, Math.floor(plan.atrBars)) : DEFAULT_ATR_BARS,
+  };
+}
+
+export function normalizeExitPlans(plans: Record<string, ExitPlan>): Record<string, ExitPlan> {
+  const result: Record<string, ExitPlan> = {};
+  for (const [strategy, plan] of Object.entries(plans)) {
+    const normalized = normalizeExitPlan(plan);
+    if (normalized) {
+      result[strategy] = normalized;
+    }
+  }
+  return result;
+}
+
+export function cloneExitPlans(plans: Record<string, ExitPlan>): Record<string, ExitPlan> {
+  const result: Record<string, ExitPlan> = {};
+  for (const [strategy, plan] of Object.entries(plans)) {
+    result[strategy] = { ...plan, targets: plan.targets.map((target) => ({ ...target })) };
+  }
+  return result;
+}
+
+export function cloneTradeLegs(legs: TradeLeg[]): TradeLeg[] {
+  return legs.map((leg) => ({ ...leg }));
+}
+
+// Resolves a plan into priced legs. Sizes are fractions of the initial size
+// and add up to one; legs fill in order, so a target placed before the
+// previous one fills together with it.
+export function buildTradeLegs(
+  plan: ExitPlan,
+  args: { side: SignalSide; entry: number; stop: number; priceStep: number; candidates: ExitLevelCandidates },
+): TradeLeg[] {
+  const direction = args.side === "long" ? 1 : -1;
+  const risk = Math.abs(args.entry - args.stop);
+  const minDistance = risk * MIN_STRUCTURAL_TARGET_R;
+  const legs: TradeLeg[] = [];
+  let remaining = 1;
+  let previous: number | null = null;
+
+  plan.targets.forEach((target, index) => {
+    const last = index === plan.targets.length - 1;
+    const size = last ? remaining : Math.min(target.size, remaining);
+    remaining -= size;
+
+    let label: string | null = null;
+    let price = args.entry + direction * risk * target.r;
+    if (target.anchor !== "r") {
+      let best: ExitLevelCandidate | null = null;
+      for (const candidate of args.candidates[target.anchor] ?? []) {
+        const distance = direction * (candidate.price - args.entry);
+        if (distance + PRICE_EPSILON < minDistance) {
+          continue;
+        }
+        if (previous !== null && direction * (candidate.price - previous) + PRICE_EPSILON < args.priceStep) {
+          continue;
+        }
+        if (!best || distance < direction * (best.price - args.entry)) {
+          best = candidate;
+        }
+      }
+      if (best) {
+        label = best.label;
+        price = best.price;
+      }
+    }
+
+    const rounded = Number(price.toFixed(6));
+    legs.push({
+      anchor: target.anchor,
+      label,
+      target: rounded,
+      size,
+      stopPolicy: target.stopPolicy,
+      filledAt: null,
+      fillPrice: null,
+      realizedR: 0,
+    });
+    previous = rounded;
+  });
+
+  return legs;
+}
+
+// Average true range over the last `period` bars.
+export function computeAtr(bars: FootprintBar[], period: number): number | null {
+  const traded = bars.filter((bar) => !bar.skeleton && bar.totalVolume > 0);
+  if (traded.length < 2) {
+    return null;
+  }
+  const start = Math.max(1, traded.length - period);
+  let sum = 0;
+  for (let index = start; index < traded.length; index += 1) {
+    const bar = traded[index];
+    const previousClose = traded[index - 1].closePrice;
+    sum += Math.max(bar.highPrice - bar.lowPrice, Math.abs(bar.highPrice - previousClose), Math.abs(bar.lowPrice - previousClose));
+  }
+  return sum / (traded.length - start);
+}
+
+// Stop level behind the latest stack of imbalances in the trade direction
+// since `since`, or behind the last bar's POC when no stack printed.
+export function findStructureTrail(
+  bars: FootprintBar[],
+  args: { side: SignalSide; since: number; priceStep: number; stackLevels: number; stackRatio: number },
+): number | null {
+  const direction = args.side === "long" ? 1 : -1;
+  for (let index = bars.length - 1; index >= 0; index -= 1) {
+    const bar = bars[index];
+    if (bar.endTime < args.since) {
+      break;
+    }
+    const edge = findImbalanceStackEdge(bar, args);
+    if (edge !== null) {
+      return edge - direction * args.priceStep;
+    }
+  }
+  const last = bars[bars.length - 1];
+  if (!last || last.pocPrice === null || last.endTime < args.since) {
+    return null;
+  }
+  return last.pocPrice - direction * args.priceStep;
+}
+
+// Far edge (lowest level for longs) of the longest run of levels where the
+// trade side outweighs the other by `stackRatio`.
+function findImbalanceStackEdge(
+  bar: FootprintBar,
+  args: { side: SignalSide; stackLevels: number; stackRatio: number },
+): number | null {
+  const stack = computeStackedImbalance(bar.levels, args.side === "long" ? "ask" : "bid", args.stackRatio);
+  if (stack.levels < args.stackLevels) {
+    return null;
+  }
+  return args.side === "long" ? stack.startPrice : stack.anchorPrice;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
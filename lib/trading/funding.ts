@@ -0,0 +1,56 @@
+import type { FundingRate, SignalSide } from "@/types";
+
+// Settlements at 00:00, 08:00 and 16:00 UTC.
+export const FUNDING_INTERVAL_MS = 8 * 60 * 60_000;
+// Venues stamp settlements a few milliseconds off the grid.
+const FUNDING_TIME_TOLERANCE_MS = 60_000;
+const MAX_FUNDING_RATES = 1000;
+
+// Settlement times after `from`, up to and including `to`.
+export function getFundingTimes(from: number, to: number): number[] {
+  const times: number[] = [];
+  for (let time = (Math.floor(from / FUNDING_INTERVAL_MS) + 1) * FUNDING_INTERVAL_MS; time <= to; time += FUNDING_INTERVAL_MS) {
+    times.push(time);
+  }
+  return times;
+}
+
+// Rate settled at `time`. A settlement the series does not reach yet (live,
+// before the venue publishes it) reuses the previous rate; null when the
+// series has nothing within an interval of it.
+export function findFundingRate(rates: FundingRate[], time: number): number | null {
+  let low = 0;
+  let high = rates.length - 1;
+  let found: FundingRate | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (rates[middle].time <= time + FUNDING_TIME_TOLERANCE_MS) {
+      found = rates[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (!found || time - found.time > FUNDING_INTERVAL_MS + FUNDING_TIME_TOLERANCE_MS) {
+    return null;
+  }
+  return found.rate;
+}
+
+// Funding a position pays at a settlement; negative when it collects.
+export function computeFundingPayment(side: SignalSide, quantity: number, price: number, rate: number): number {
+  const direction = side === "long" ? 1 : -1;
+  return direction * quantity * price * rate;
+}
+
+// Sorted by time, one entry per settlement; bad entries are dropped.
+export function normalizeFundingRates(rates: FundingRate[]): FundingRate[] {
+  const byTime = new Map<number, FundingRate>();
+  for (const rate of rates) {
+    if (Number.isFinite(rate.time) && Number.isFinite(rate.rate)) {
+      byTime.set(rate.time, { time: rate.time, rate: rate.rate });
+    }
+  }
+  const sorted = [...byTime.values()].sort((a, b) => a.time - b.time);
+  return sorted.length > MAX_FUNDING_RATES ? sorted.slice(sorted.length - MAX_FUNDING_RATES) : sorted;
+}
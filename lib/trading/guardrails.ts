@@ -1,3 +1,4 @@
+import { computeResetAt, getDayKey, systemClock, type Clock } from "@/lib/clock";
 import {
   type ClosedTrade,
   type FootprintSignal,
@@ -59,21 +60,6 @@ function createSessionStats(): RiskGuardrailState["sessionStats"] {
   };
 }
 
-function getDayKey(timestamp: number): string {
-  const date = new Date(timestamp);
-  const year = date.getUTCFullYear();
-  const month = `${date.getUTCMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getUTCDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
-function computeResetAt(now: number): number {
-  const date = new Date(now);
-  date.setUTCHours(0, 0, 0, 0);
-  date.setUTCDate(date.getUTCDate() + 1);
-  return date.getTime();
-}
-
 function sanitizeAllowedSessions(input: TradingSession[]): TradingSession[] {
   if (!Array.isArray(input) || !input.length) {
     return [];
@@ -191,8 +177,11 @@ export class RiskGuardrailManager {
 
   private dailyStopTriggered = false;
 
-  constructor(options?: { settings?: Partial<RiskGuardrailSettings>; now?: number }) {
-    const now = options?.now ?? Date.now();
+  private readonly clock: Clock;
+
+  constructor(options?: { settings?: Partial<RiskGuardrailSettings>; now?: number; clock?: Clock }) {
+    this.clock = options?.clock ?? systemClock;
+    const now = options?.now ?? this.clock();
     this.settings = this.mergeSettings(options?.settings);
     this.parsedNews = sanitizeNewsWindows(this.settings.newsWindows);
     const day = getDayKey(now);
@@ -247,7 +236,7 @@ export class RiskGuardrailManager {
     }
     this.settings = merged;
     this.parsedNews = sanitizeNewsWindows(this.settings.newsWindows);
-    const now = Date.now();
+    const now = this.clock();
     this.ensureDay(now);
     const blocksChanged = this.refreshBlocks(now);
     if (!this.settings.enabled) {
@@ -264,7 +253,7 @@ export class RiskGuardrailManager {
     this.applyReset(now, "Reset diario automático");
   }
 
-  reset(now: number = Date.now()): void {
+  reset(now: number = this.clock()): void {
     this.applyReset(now, "Reset manual");
   }
 
@@ -356,7 +345,7 @@ export class RiskGuardrailManager {
   }
 
   recordClosedTrade(trade: ClosedTrade): boolean {
-    const now = trade.exitTime ?? Date.now();
+    const now = trade.exitTime ?? this.clock();
     this.ensureDay(now);
 
     this.state.tradesToday += 1;
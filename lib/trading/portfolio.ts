@@ -0,0 +1,332 @@
+import { computeResetAt, getDayKey, systemClock, type Clock } from "@/lib/clock";
+import type {
+  ClosedTrade,
+  FootprintSignal,
+  PortfolioGuardrailSettings,
+  PortfolioState,
+  PortfolioSymbolSummary,
+  RiskGuardrailBlock,
+  RiskGuardrailStatus,
+} from "@/types";
+
+const PRICE_EPSILON = 1e-8;
+
+export const DEFAULT_PORTFOLIO_SETTINGS: PortfolioGuardrailSettings = {
+  enabled: false,
+  maxDailyLossR: null,
+  maxTradesPerDay: null,
+  maxOpenPositions: null,
+};
+
+export interface PortfolioExposure {
+  openPositions: number;
+  pendingTrades: number;
+}
+
+// Shared by the per-symbol trading engines of a workspace. Each engine stays
+// the owner of its own book; the manager only keeps the daily totals it needs
+// to block entries across symbols.
+export class PortfolioRiskManager {
+  private settings: PortfolioGuardrailSettings;
+
+  private books = new Map<string, PortfolioSymbolSummary>();
+
+  private day: string;
+
+  private resetAt: number;
+
+  private status: RiskGuardrailStatus = "ok";
+
+  private activeBlocks: RiskGuardrailBlock[] = [];
+
+  private lastBlock: PortfolioState["lastBlock"] = null;
+
+  private listeners = new Set<() => void>();
+
+  private version = 0;
+
+  // Cached until the next change so React can read it as an external store.
+  private snapshot: PortfolioState | null = null;
+
+  private readonly clock: Clock;
+
+  constructor(options?: { settings?: Partial<PortfolioGuardrailSettings>; clock?: Clock }) {
+    this.clock = options?.clock ?? systemClock;
+    this.settings = mergeSettings(options?.settings);
+    const now = this.clock();
+    this.day = getDayKey(now);
+    this.resetAt = computeResetAt(now);
+  }
+
+  getSettings(): PortfolioGuardrailSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(partial: Partial<PortfolioGuardrailSettings>): boolean {
+    const merged = mergeSettings({ ...this.settings, ...partial });
+    if (JSON.stringify(merged) === JSON.stringify(this.settings)) {
+      return false;
+    }
+    this.settings = merged;
+    if (!this.settings.enabled) {
+      this.lastBlock = null;
+    }
+    this.ensureDay(this.clock());
+    this.refreshBlocks();
+    this.emit();
+    return true;
+  }
+
+  // Registering again (e.g. after a remount) rebuilds the book from the
+  // engine's history so today's totals are not lost or counted twice.
+  addSymbol(symbol: string, history: ClosedTrade[] = []): void {
+    const book = createBook(symbol);
+    this.books.set(symbol, book);
+    this.ensureDay(this.clock());
+    for (const trade of history) {
+      if (trade.day === this.day) {
+        applyTrade(book, trade);
+      }
+    }
+    this.refreshBlocks();
+    this.emit();
+  }
+
+  removeSymbol(symbol: string): void {
+    if (this.books.delete(symbol)) {
+      this.refreshBlocks();
+      this.emit();
+    }
+  }
+
+  updateExposure(symbol: string, exposure: PortfolioExposure): void {
+    const book = this.getBook(symbol);
+    if (book.openPositions === exposure.openPositions && book.pendingTrades === exposure.pendingTrades) {
+      return;
+    }
+    book.openPositions = exposure.openPositions;
+    book.pendingTrades = exposure.pendingTrades;
+    this.refreshBlocks();
+    this.emit();
+  }
+
+  // The caller passes its own exposure because the stored snapshot may lag
+  // behind entries created earlier in the same batch.
+  evaluateEntry(args: {
+    symbol: string;
+    now: number;
+    signal?: FootprintSignal | null;
+    auto: boolean;
+    exposure?: PortfolioExposure;
+  }): { allowed: boolean; block?: RiskGuardrailBlock } {
+    const { symbol, now, signal, auto, exposure } = args;
+    this.ensureDay(now);
+    let changed = false;
+    if (exposure) {
+      const book = this.getBook(symbol);
+      changed = book.openPositions !== exposure.openPositions || book.pendingTrades !== exposure.pendingTrades;
+      book.openPositions = exposure.openPositions;
+      book.pendingTrades = exposure.pendingTrades;
+    }
+    this.refreshBlocks();
+
+    const block = this.settings.enabled ? this.activeBlocks[0] ?? this.computeExposureBlock() : undefined;
+    if (!block) {
+      if (changed) {
+        this.emit();
+      }
+      return { allowed: true };
+    }
+
+    this.lastBlock = {
+      ...block,
+      timestamp: now,
+      symbol,
+      signalId: signal?.id,
+      auto,
+    };
+    this.emit();
+    return { allowed: false, block };
+  }
+
+  recordClosedTrade(symbol: string, trade: ClosedTrade): void {
+    this.ensureDay(trade.exitTime ?? this.clock());
+    if (trade.day !== this.day) {
+      return;
+    }
+    applyTrade(this.getBook(symbol), trade);
+    this.refreshBlocks();
+    this.emit();
+  }
+
+  reset(now: number = this.clock()): void {
+    this.applyReset(now);
+    this.emit();
+  }
+
+  getState(): PortfolioState {
+    if (this.snapshot) {
+      return this.snapshot;
+    }
+    const symbols = Array.from(this.books.values(), (book) => ({ ...book }));
+    this.snapshot = {
+      status: this.status,
+      day: this.day,
+      resetAt: this.resetAt,
+      settings: { ...this.settings },
+      tradesToday: symbols.reduce((sum, book) => sum + book.tradesToday, 0),
+      netRToday: symbols.reduce((sum, book) => sum + book.netRToday, 0),
+      openPositions: symbols.reduce((sum, book) => sum + book.openPositions, 0),
+      symbols,
+      activeBlocks: this.activeBlocks.map((block) => ({ ...block })),
+      lastBlock: this.lastBlock ? { ...this.lastBlock } : null,
+      version: this.version,
+    };
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getBook(symbol: string): PortfolioSymbolSummary {
+    let book = this.books.get(symbol);
+    if (!book) {
+      book = createBook(symbol);
+      this.books.set(symbol, book);
+    }
+    return book;
+  }
+
+  private ensureDay(now: number): void {
+    if (getDayKey(now) !== this.day) {
+      this.applyReset(now);
+      this.emit();
+    }
+  }
+
+  private applyReset(now: number): void {
+    this.day = getDayKey(now);
+    this.resetAt = computeResetAt(now);
+    for (const book of this.books.values()) {
+      book.tradesToday = 0;
+      book.netRToday = 0;
+      book.wins = 0;
+      book.losses = 0;
+    }
+    this.lastBlock = null;
+    this.refreshBlocks();
+  }
+
+  private refreshBlocks(): void {
+    if (!this.settings.enabled) {
+      this.activeBlocks = [];
+      this.status = "ok";
+      return;
+    }
+
+    let netR = 0;
+    let trades = 0;
+    for (const book of this.books.values()) {
+      netR += book.netRToday;
+      trades += book.tradesToday;
+    }
+
+    const blocks: RiskGuardrailBlock[] = [];
+    if (this.settings.maxDailyLossR !== null && netR <= -this.settings.maxDailyLossR) {
+      blocks.push({
+        source: "portfolio",
+        reason: `Pérdida diaria de cartera alcanzada (${netR.toFixed(2)}R)`,
+        until: this.resetAt,
+      });
+    }
+    if (this.settings.maxTradesPerDay !== null && trades >= this.settings.maxTradesPerDay) {
+      blocks.push({
+        source: "portfolio",
+        reason: `Límite diario de trades de cartera alcanzado (${trades})`,
+        until: this.resetAt,
+      });
+    }
+    this.activeBlocks = blocks;
+
+    if (blocks.length) {
+      this.status = "locked";
+    } else if (this.computeExposureBlock()) {
+      this.status = "limited";
+    } else {
+      this.status = "ok";
+    }
+  }
+
+  private computeExposureBlock(): RiskGuardrailBlock | undefined {
+    const maxOpen = this.settings.maxOpenPositions;
+    if (maxOpen === null) {
+      return undefined;
+    }
+    let open = 0;
+    for (const book of this.books.values()) {
+      open += book.openPositions + book.pendingTrades;
+    }
+    if (open < maxOpen) {
+      return undefined;
+    }
+    return {
+      source: "portfolio",
+      reason: `Máximo de posiciones abiertas en cartera (${open}/${maxOpen})`,
+      until: null,
+    };
+  }
+
+  private emit(): void {
+    this.version += 1;
+    this.snapshot = null;
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+function createBook(symbol: string): PortfolioSymbolSummary {
+  return {
+    symbol,
+    tradesToday: 0,
+    netRToday: 0,
+    wins: 0,
+    losses: 0,
+    openPositions: 0,
+    pendingTrades: 0,
+  };
+}
+
+function applyTrade(book: PortfolioSymbolSummary, trade: ClosedTrade): void {
+  book.tradesToday += 1;
+  book.netRToday += trade.realizedR;
+  if (trade.realizedR > PRICE_EPSILON) {
+    book.wins += 1;
+  } else if (trade.realizedR < -PRICE_EPSILON) {
+    book.losses += 1;
+  }
+}
+
+function mergeSettings(partial?: Partial<PortfolioGuardrailSettings>): PortfolioGuardrailSettings {
+  const merged: PortfolioGuardrailSettings = { ...DEFAULT_PORTFOLIO_SETTINGS, ...(partial ?? {}) };
+  if (merged.maxDailyLossR !== null && !(merged.maxDailyLossR > PRICE_EPSILON)) {
+    merged.maxDailyLossR = null;
+  }
+  if (merged.maxTradesPerDay !== null && !(merged.maxTradesPerDay >= 1)) {
+    merged.maxTradesPerDay = null;
+  }
+  if (merged.maxOpenPositions !== null && !(merged.maxOpenPositions >= 1)) {
+    merged.maxOpenPositions = null;
+  }
+  if (merged.maxTradesPerDay !== null) {
+    merged.maxTradesPerDay = Math.floor(merged.maxTradesPerDay);
+  }
+  if (merged.maxOpenPositions !== null) {
+    merged.maxOpenPositions = Math.floor(merged.maxOpenPositions);
+  }
+  return merged;
+}
@@ -0,0 +1,272 @@
+import { getSignalStrategies } from "@/lib/signals/strategies";
+import type {
+  FootprintBar,
+  FootprintSignal,
+  SignalForwardOutcome,
+  SignalHitRate,
+  SignalJournalEntry,
+  SignalJournalState,
+  SignalRejection,
+  SignalStrategy,
+  SignalTradeStatus,
+  Trade,
+} from "@/types";
+
+const MAX_JOURNAL_ENTRIES = 400;
+const TARGET_R = 2;
+const PRICE_EPSILON = 1e-8;
+
+const SCORE_BUCKETS: Array<{ key: string; label: string; min: number }> = [
+  { key: "90", label: "90+", min: 90 },
+  { key: "80", label: "80-89", min: 80 },
+  { key: "70", label: "70-79", min: 70 },
+  { key: "60", label: "60-69", min: 60 },
+  { key: "0", label: "<60", min: -Infinity },
+];
+
+interface OutcomeCounts {
+  target: number;
+  stop: number;
+  timeout: number;
+}
+
+export interface SignalJournalOptions {
+  horizonBars: number;
+  retestWindowMs: number;
+}
+
+function createCounts(): OutcomeCounts {
+  return { target: 0, stop: 0, timeout: 0 };
+}
+
+function toHitRate(key: string, label: string, counts: OutcomeCounts): SignalHitRate {
+  const resolved = counts.target + counts.stop + counts.timeout;
+  return {
+    key,
+    label,
+    resolved,
+    target: counts.target,
+    stop: counts.stop,
+    timeout: counts.timeout,
+    hitRate: resolved > 0 ? counts.target / resolved : null,
+  };
+}
+
+function scoreBucketKey(score: number): string {
+  return SCORE_BUCKETS.find((bucket) => score >= bucket.min)?.key ?? "0";
+}
+
+// Follows every confirmed signal after emission: what the trading side did
+// with it, and whether price reached 2R or the stop first. Outcome counts
+// survive pruning of old entries so hit rates cover the whole session.
+export class SignalJournal {
+  private options: SignalJournalOptions;
+
+  private entries = new Map<string, SignalJournalEntry>();
+
+  private byStrategy = new Map<SignalStrategy, OutcomeCounts>();
+
+  private byScore = new Map<string, OutcomeCounts>();
+
+  // Last bars seen, so trades between bar updates count real bars; tick,
+  // volume and range bars do not follow the clock.
+  private bars: FootprintBar[] = [];
+
+  constructor(options: SignalJournalOptions) {
+    this.options = { ...options };
+  }
+
+  updateOptions(partial: Partial<SignalJournalOptions>) {
+    this.options = { ...this.options, ...partial };
+  }
+
+  // Upserts a signal; provisional ones are listed but not followed until confirmed.
+  record(signal: FootprintSignal) {
+    const existing = this.entries.get(signal.id);
+    const provisional = signal.lifecycle === "provisional";
+    const risk = Math.abs(signal.entry - signal.stop);
+    const direction = signal.side === "long" ? 1 : -1;
+    const levels = {
+      side: signal.side,
+      strategy: signal.strategy,
+      score: signal.score,
+      session: signal.session,
+      barTime: signal.barTime,
+      entry: signal.entry,
+      stop: signal.stop,
+      target: signal.entry + direction * risk * TARGET_R,
+      provisional,
+    };
+    if (existing) {
+      // Confirmation restarts the forward window at the bar close.
+      const emittedAt = existing.provisional && !provisional ? signal.timestamp : existing.emittedAt;
+      this.entries.set(signal.id, { ...existing, ...levels, emittedAt });
+      return;
+    }
+    this.entries.set(signal.id, {
+      signalId: signal.id,
+      ...levels,
+      emittedAt: signal.timestamp,
+      status: "emitted",
+      statusAt: signal.timestamp,
+      outcome: null,
+      outcomeAt: null,
+      barsElapsed: 0,
+    });
+    this.prune();
+  }
+
+  discard(signalId: string) {
+    this.entries.delete(signalId);
+  }
+
+  mark(
+    signalId: string,
+    status: SignalTradeStatus,
+    at: number,
+    details?: { rejection?: SignalRejection; reason?: string },
+  ): boolean {
+    const entry = this.entries.get(signalId);
+    if (!entry || (entry.status === status && !details)) {
+      return false;
+    }
+    entry.status = status;
+    entry.statusAt = at;
+    entry.rejection = details?.rejection;
+    entry.reason = details?.reason;
+    return true;
+  }
+
+  // Replays finished price action over unresolved signals so outcomes also
+  // hold for signals loaded after the fact. A bar touching both levels counts
+  // as a stop.
+  updateBars(bars: FootprintBar[]): boolean {
+    this.bars = bars;
+    let changed = false;
+    for (const entry of this.entries.values()) {
+      if (entry.provisional || entry.outcome !== null) {
+        continue;
+      }
+      let barsElapsed = 0;
+      for (const bar of bars) {
+        if (bar.startTime <= entry.barTime) {
+          continue;
+        }
+        barsElapsed += 1;
+        if (barsElapsed > this.options.horizonBars) {
+          this.resolve(entry, "timeout", bar.startTime);
+          break;
+        }
+        const outcome = resolveBarOutcome(entry, bar);
+        if (outcome) {
+          this.resolve(entry, outcome, bar.endTime);
+          break;
+        }
+      }
+      if (barsElapsed > entry.barsElapsed || entry.outcome !== null) {
+        entry.barsElapsed = Math.max(entry.barsElapsed, barsElapsed);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  observe(trade: Trade): boolean {
+    let changed = false;
+    for (const entry of this.entries.values()) {
+      if (entry.provisional || trade.timestamp < entry.emittedAt) {
+        continue;
+      }
+      if (entry.status === "emitted" && trade.timestamp - entry.emittedAt > this.options.retestWindowMs) {
+        entry.status = "expired";
+        entry.statusAt = trade.timestamp;
+        changed = true;
+      }
+      if (entry.outcome !== null) {
+        continue;
+      }
+      const barsElapsed = Math.max(entry.barsElapsed, this.countBarsSince(entry.barTime, trade.timestamp));
+      if (barsElapsed !== entry.barsElapsed) {
+        entry.barsElapsed = barsElapsed;
+        changed = true;
+      }
+      if (barsElapsed > this.options.horizonBars) {
+        this.resolve(entry, "timeout", trade.timestamp);
+        changed = true;
+        continue;
+      }
+      const outcome = resolvePriceOutcome(entry, trade.price, trade.price);
+      if (outcome) {
+        this.resolve(entry, outcome, trade.timestamp);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  getState(): SignalJournalState {
+    const entries = Array.from(this.entries.values())
+      .sort((a, b) => a.emittedAt - b.emittedAt)
+      .map((entry) => ({ ...entry }));
+    const byStrategy = getSignalStrategies().map((strategy) =>
+      toHitRate(strategy.id, strategy.shortLabel, this.byStrategy.get(strategy.id) ?? createCounts()),
+    );
+    const byScore = SCORE_BUCKETS.map((bucket) =>
+      toHitRate(bucket.key, bucket.label, this.byScore.get(bucket.key) ?? createCounts()),
+    );
+    return { entries, byStrategy, byScore };
+  }
+
+  private resolve(entry: SignalJournalEntry, outcome: SignalForwardOutcome, at: number) {
+    entry.outcome = outcome;
+    entry.outcomeAt = at;
+    const strategyCounts = this.byStrategy.get(entry.strategy) ?? createCounts();
+    strategyCounts[outcome] += 1;
+    this.byStrategy.set(entry.strategy, strategyCounts);
+    const scoreKey = scoreBucketKey(entry.score);
+    const scoreCounts = this.byScore.get(scoreKey) ?? createCounts();
+    scoreCounts[outcome] += 1;
+    this.byScore.set(scoreKey, scoreCounts);
+  }
+
+  // Bars started after the signal bar and by `now`.
+  private countBarsSince(barTime: number, now: number): number {
+    let count = 0;
+    for (let index = this.bars.length - 1; index >= 0 && this.bars[index].startTime > barTime; index -= 1) {
+      if (this.bars[index].startTime <= now) {
+        count += 1;
+      }
+    }
+    return count;
+  }
+
+  private prune() {
+    while (this.entries.size > MAX_JOURNAL_ENTRIES) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        return;
+      }
+      this.entries.delete(oldest.value);
+    }
+  }
+}
+
+function resolveBarOutcome(entry: SignalJournalEntry, bar: FootprintBar): SignalForwardOutcome | null {
+  if (bar.skeleton || bar.totalVolume <= 0) {
+    return null;
+  }
+  return resolvePriceOutcome(entry, bar.lowPrice, bar.highPrice);
+}
+
+function resolvePriceOutcome(entry: SignalJournalEntry, low: number, high: number): SignalForwardOutcome | null {
+  if (entry.side === "long") {
+    if (low <= entry.stop + PRICE_EPSILON) {
+      return "stop";
+    }
+    return high >= entry.target - PRICE_EPSILON ? "target" : null;
+  }
+  if (high >= entry.stop - PRICE_EPSILON) {
+    return "stop";
+  }
+  return low <= entry.target + PRICE_EPSILON ? "target" : null;
+}
@@ -0,0 +1,49 @@
+import type { DepthLevel, SlippageModel } from "@/types";
+
+export const SLIPPAGE_MODEL_LABELS: Record<SlippageModel, string> = {
+  flat: "Ticks fijos",
+  depth: "Impacto en libro",
+};
+
+// Volume-weighted price of taking `quantity` from one side of the book, best
+// level first. Size beyond the visible book fills `beyond` past the deepest
+// level, as the book hides what rests there.
+export function walkBook(
+  side: "bid" | "ask",
+  levels: DepthLevel[],
+  quantity: number,
+  beyond = 0,
+): number | null {
+  if (!levels.length) {
+    return null;
+  }
+  if (quantity <= 0) {
+    return levels[0].price;
+  }
+  let remaining = quantity;
+  let notional = 0;
+  for (const level of levels) {
+    const taken = Math.min(level.quantity, remaining);
+    notional += taken * level.price;
+    remaining -= taken;
+    if (remaining <= 0) {
+      break;
+    }
+  }
+  if (remaining > 0) {
+    const deepest = levels[levels.length - 1].price;
+    notional += remaining * (side === "ask" ? deepest + beyond : deepest - beyond);
+  }
+  return notional / quantity;
+}
+
+// How far the average fill of `quantity` lands from the touch.
+export function computeBookImpact(
+  side: "bid" | "ask",
+  levels: DepthLevel[],
+  quantity: number,
+  beyond = 0,
+): number | null {
+  const average = walkBook(side, levels, quantity, beyond);
+  return average === null ? null : Math.abs(average - levels[0].price);
+}
@@ -0,0 +1,258 @@
+import { getDayKey, getSessionStart } from "@/lib/clock";
+import type { FootprintBar, TradingSession, VolumeProfile, VolumeProfileLevel, VolumeProfileScope } from "@/types";
+
+export const VALUE_AREA_PERCENT = 0.7;
+
+// Nodes are local extremes of the 3-level smoothed profile, measured against
+// the average level volume.
+const HVN_RATIO = 1.3;
+const LVN_RATIO = 0.5;
+
+const HOUR_MS = 3_600_000;
+const SESSION_NAMES: Record<number, TradingSession> = { 7: "eu", 12: "us", 20: "asia" };
+
+export interface VolumeProfileOptions {
+  scope?: VolumeProfileScope;
+  key?: string;
+  // Share of volume inside the value area (0.7 by default).
+  valueAreaPercent?: number;
+  // Level spacing; inferred from the bars when omitted.
+  priceStep?: number;
+}
+
+export function buildVolumeProfile(bars: FootprintBar[], options: VolumeProfileOptions = {}): VolumeProfile | null {
+  const traded = bars.filter((bar) => !bar.skeleton && bar.totalVolume > 0 && bar.levels.length);
+  if (!traded.length) {
+    return null;
+  }
+
+  const byPrice = new Map<number, VolumeProfileLevel>();
+  for (const bar of traded) {
+    for (const level of bar.levels) {
+      const entry = byPrice.get(level.price);
+      if (entry) {
+        entry.volume += level.totalVolume;
+        entry.askVol += level.askVol;
+        entry.bidVol += level.bidVol;
+      } else {
+        byPrice.set(level.price, {
+          price: level.price,
+          volume: level.totalVolume,
+          askVol: level.askVol,
+          bidVol: level.bidVol,
+        });
+      }
+    }
+  }
+  const levels = fillGaps(
+    Array.from(byPrice.values()).sort((a, b) => a.price - b.price),
+    options.priceStep ?? inferPriceStep(byPrice),
+  );
+  const totalVolume = levels.reduce((sum, level) => sum + level.volume, 0);
+  const startTime = Math.min(...traded.map((bar) => bar.startTime));
+  const endTime = Math.max(...traded.map((bar) => bar.endTime));
+  const scope = options.scope ?? "composite";
+
+  const pocIndex = findPocIndex(levels);
+  const valueArea = pocIndex >= 0 ? computeValueArea(levels, pocIndex, options.valueAreaPercent ?? VALUE_AREA_PERCENT) : null;
+  const nodes = findVolumeNodes(levels);
+
+  return {
+    scope,
+    key: options.key ?? getProfileKey(scope, startTime),
+    startTime,
+    endTime,
+    levels,
+    totalVolume,
+    poc: pocIndex >= 0 ? levels[pocIndex].price : null,
+    vah: valueArea?.high ?? null,
+    val: valueArea?.low ?? null,
+    hvns: nodes.hvns,
+    lvns: nodes.lvns,
+  };
+}
+
+// One profile per session, day or week, oldest first; "composite" folds every bar.
+export function buildVolumeProfiles(
+  bars: FootprintBar[],
+  scope: VolumeProfileScope,
+  options: Omit<VolumeProfileOptions, "scope" | "key"> = {},
+): VolumeProfile[] {
+  const groups = new Map<string, FootprintBar[]>();
+  for (const bar of bars) {
+    const key = getProfileKey(scope, bar.startTime);
+    const group = groups.get(key);
+    if (group) {
+      group.push(bar);
+    } else {
+      groups.set(key, [bar]);
+    }
+  }
+  const profiles: VolumeProfile[] = [];
+  for (const [key, group] of groups.entries()) {
+    const profile = buildVolumeProfile(group, { ...options, scope, key });
+    if (profile) {
+      profiles.push(profile);
+    }
+  }
+  return profiles.sort((a, b) => a.startTime - b.startTime);
+}
+
+// Custom range composite over bars starting in [from, to).
+export function buildCompositeProfile(
+  bars: FootprintBar[],
+  from: number,
+  to: number,
+  options: Omit<VolumeProfileOptions, "scope" | "key"> = {},
+): VolumeProfile | null {
+  return buildVolumeProfile(
+    bars.filter((bar) => bar.startTime >= from && bar.startTime < to),
+    { ...options, scope: "composite", key: `${from}-${to}` },
+  );
+}
+
+// Profiles whose POC no later bar (before `asOf`) has traded at.
+export function findNakedPocs(
+  profiles: VolumeProfile[],
+  bars: FootprintBar[],
+  asOf = Number.POSITIVE_INFINITY,
+): VolumeProfile[] {
+  return profiles.filter((profile) => {
+    if (profile.poc === null || profile.endTime >= asOf) {
+      return false;
+    }
+    const poc = profile.poc;
+    return !bars.some(
+      (bar) =>
+        bar.startTime > profile.endTime &&
+        bar.startTime < asOf &&
+        !bar.skeleton &&
+        bar.totalVolume > 0 &&
+        bar.lowPrice <= poc &&
+        bar.highPrice >= poc,
+    );
+  });
+}
+
+// Sessions are the clock's UTC sessions, named by their opening hour.
+export function getProfileKey(scope: VolumeProfileScope, timestamp: number): string {
+  switch (scope) {
+    case "session": {
+      const start = getSessionStart(timestamp);
+      const name = SESSION_NAMES[new Date(start).getUTCHours()] ?? "asia";
+      // Asia opens the evening before the day it belongs to.
+      return `${getDayKey(name === "asia" ? start + 24 * HOUR_MS : start)}-${name}`;
+    }
+    case "day":
+      return getDayKey(timestamp);
+    case "week":
+      return getDayKey(getWeekStart(timestamp));
+    default:
+      return "composite";
+  }
+}
+
+// Monday 00:00 UTC of the timestamp's week.
+function getWeekStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const weekday = (date.getUTCDay() + 6) % 7;
+  return dayStart - weekday * 24 * HOUR_MS;
+}
+
+function inferPriceStep(byPrice: Map<number, VolumeProfileLevel>): number {
+  const prices = Array.from(byPrice.keys()).sort((a, b) => a - b);
+  let step = Number.POSITIVE_INFINITY;
+  for (let index = 1; index < prices.length; index += 1) {
+    const diff = prices[index] - prices[index - 1];
+    if (diff > 1e-9 && diff < step) {
+      step = diff;
+    }
+  }
+  return Number.isFinite(step) ? step : 0;
+}
+
+// Untraded prices inside the range count as empty levels, so LVNs can sit on gaps.
+function fillGaps(levels: VolumeProfileLevel[], priceStep: number): VolumeProfileLevel[] {
+  if (levels.length < 2 || !(priceStep > 0)) {
+    return levels;
+  }
+  const filled: VolumeProfileLevel[] = [levels[0]];
+  for (let index = 1; index < levels.length; index += 1) {
+    const previous = levels[index - 1].price;
+    const missing = Math.round((levels[index].price - previous) / priceStep) - 1;
+    for (let step = 1; step <= missing; step += 1) {
+      filled.push({ price: Number((previous + step * priceStep).toFixed(8)), volume: 0, askVol: 0, bidVol: 0 });
+    }
+    filled.push(levels[index]);
+  }
+  return filled;
+}
+
+// Ties go to the level closest to the middle of the range.
+function findPocIndex(levels: VolumeProfileLevel[]): number {
+  let best = -1;
+  const middle = (levels.length - 1) / 2;
+  for (let index = 0; index < levels.length; index += 1) {
+    const volume = levels[index].volume;
+    if (volume <= 0) {
+      continue;
+    }
+    if (
+      best < 0 ||
+      volume > levels[best].volume ||
+      (volume === levels[best].volume && Math.abs(index - middle) < Math.abs(best - middle))
+    ) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+// Grows from the POC one level at a time toward the heavier neighbour.
+function computeValueArea(
+  levels: VolumeProfileLevel[],
+  pocIndex: number,
+  percent: number,
+): { low: number; high: number } {
+  const total = levels.reduce((sum, level) => sum + level.volume, 0);
+  const target = total * Math.min(1, Math.max(0, percent));
+  let lowIndex = pocIndex;
+  let highIndex = pocIndex;
+  let volume = levels[pocIndex].volume;
+  while (volume < target && (lowIndex > 0 || highIndex < levels.length - 1)) {
+    const above = highIndex < levels.length - 1 ? levels[highIndex + 1].volume : -1;
+    const below = lowIndex > 0 ? levels[lowIndex - 1].volume : -1;
+    if (above >= below) {
+      highIndex += 1;
+      volume += above;
+    } else {
+      lowIndex -= 1;
+      volume += below;
+    }
+  }
+  return { low: levels[lowIndex].price, high: levels[highIndex].price };
+}
+
+function findVolumeNodes(levels: VolumeProfileLevel[]): { hvns: number[]; lvns: number[] } {
+  if (levels.length < 3) {
+    return { hvns: [], lvns: [] };
+  }
+  const averageVolume = levels.reduce((sum, level) => sum + level.volume, 0) / levels.length;
+  const smoothed = levels.map((_, index) => {
+    const window = levels.slice(Math.max(0, index - 1), index + 2);
+    return window.reduce((sum, level) => sum + level.volume, 0) / window.length;
+  });
+  const hvns: number[] = [];
+  const lvns: number[] = [];
+  for (let index = 1; index < levels.length - 1; index += 1) {
+    const value = smoothed[index];
+    if (value > smoothed[index - 1] && value >= smoothed[index + 1] && value >= averageVolume * HVN_RATIO) {
+      hvns.push(levels[index].price);
+    }
+    if (value < smoothed[index - 1] && value <= smoothed[index + 1] && value <= averageVolume * LVN_RATIO) {
+      lvns.push(levels[index].price);
+    }
+  }
+  return { hvns, lvns };
+}
@@ -0,0 +1,183 @@
+import { getSessionStart } from "@/lib/clock";
+import type { FootprintBar, VwapAnchor, VwapPoint, VwapSeries } from "@/types";
+
+export const VWAP_BAND_MULTIPLIERS = [1, 2, 3] as const;
+
+export const SESSION_VWAP_ANCHOR_ID = "session";
+
+export interface VwapLevel {
+  anchorId: string;
+  label: string;
+  price: number;
+  // 0 for the VWAP itself, ±1/2/3 for the bands.
+  band: number;
+}
+
+interface VwapSums {
+  volume: number;
+  priceVolume: number;
+  squareVolume: number;
+}
+
+interface AnchorTrack {
+  anchor: VwapAnchor;
+  sums: VwapSums;
+  // Start of the last closed bar folded into `sums`.
+  committedTime: number;
+  points: VwapPoint[];
+}
+
+// Anchored VWAPs with standard deviation bands, folded bar by bar from the
+// footprint levels. Closed bars are added once; the forming bar is layered on
+// top of the committed sums on every update.
+export class VwapEngine {
+  private anchors: VwapAnchor[] = [];
+
+  private tracks = new Map<string, AnchorTrack>();
+
+  setAnchors(anchors: VwapAnchor[]) {
+    this.anchors = anchors.filter((anchor) => anchor.kind !== "session" && Number.isFinite(anchor.time));
+    const ids = new Set(this.anchors.map((anchor) => anchor.id));
+    for (const [id, track] of this.tracks.entries()) {
+      const anchor = this.anchors.find((item) => item.id === id);
+      if (id !== SESSION_VWAP_ANCHOR_ID && (!ids.has(id) || anchor?.time !== track.anchor.time)) {
+        this.tracks.delete(id);
+      } else if (anchor) {
+        track.anchor = anchor;
+      }
+    }
+  }
+
+  reset() {
+    this.tracks.clear();
+  }
+
+  // Bars ascending by start time; the last one is treated as forming. The
+  // session VWAP comes first and restarts at every session open, then user
+  // anchors in the order they were set.
+  update(bars: FootprintBar[]): VwapSeries[] {
+    if (!bars.length) {
+      this.reset();
+      return [];
+    }
+    const last = bars[bars.length - 1];
+    const closed = bars.slice(0, -1);
+    const lastClosedTime = closed.length ? closed[closed.length - 1].startTime : Number.NEGATIVE_INFINITY;
+    const windowStart = bars[0].startTime;
+
+    const sessionAnchor: VwapAnchor = {
+      id: SESSION_VWAP_ANCHOR_ID,
+      kind: "session",
+      time: getSessionStart(last.startTime),
+      label: "VWAP sesión",
+    };
+    const result: VwapSeries[] = [];
+    for (const anchor of [sessionAnchor, ...this.anchors]) {
+      const rolling = anchor.kind === "session";
+      let track = this.tracks.get(anchor.id);
+      // Rebuild when an anchor moved, the tape was cleared or the bars were replaced.
+      if (
+        !track ||
+        (!rolling && track.anchor.time !== anchor.time) ||
+        track.committedTime > lastClosedTime ||
+        (track.committedTime >= windowStart && !closed.some((bar) => bar.startTime === track?.committedTime))
+      ) {
+        track = {
+          anchor: rolling ? { ...anchor, time: Number.NEGATIVE_INFINITY } : anchor,
+          sums: createSums(),
+          committedTime: Number.NEGATIVE_INFINITY,
+          points: [],
+        };
+        this.tracks.set(anchor.id, track);
+      }
+
+      for (const bar of closed) {
+        if (bar.startTime <= track.committedTime) {
+          continue;
+        }
+        track.committedTime = bar.startTime;
+        if (rolling) {
+          const sessionStart = getSessionStart(bar.startTime);
+          if (sessionStart !== track.anchor.time) {
+            track.anchor = { ...track.anchor, time: sessionStart };
+            track.sums = createSums();
+          }
+        } else if (bar.startTime < anchor.time) {
+          continue;
+        }
+        addBar(track.sums, bar);
+        const point = toPoint(track.sums, bar.startTime, track.anchor.time);
+        if (point) {
+          track.points.push(point);
+        }
+      }
+      while (track.points.length && track.points[0].time < windowStart) {
+        track.points.shift();
+      }
+
+      const points = [...track.points];
+      if (last.startTime >= anchor.time) {
+        const forming = rolling && track.anchor.time !== anchor.time ? createSums() : { ...track.sums };
+        addBar(forming, last);
+        const point = toPoint(forming, last.startTime, anchor.time);
+        if (point) {
+          points.push(point);
+        }
+      }
+      result.push({ anchor: { ...anchor }, points });
+    }
+    return result;
+  }
+}
+
+// VWAP and band prices of a series at a bar, latest point when `time` is omitted.
+export function getVwapLevels(series: VwapSeries, time?: number): VwapLevel[] {
+  const point =
+    time === undefined ? series.points[series.points.length - 1] : series.points.find((item) => item.time === time);
+  if (!point) {
+    return [];
+  }
+  const { anchor } = series;
+  const levels: VwapLevel[] = [{ anchorId: anchor.id, label: anchor.label, price: point.vwap, band: 0 }];
+  if (point.stdDev > 0) {
+    for (const multiplier of VWAP_BAND_MULTIPLIERS) {
+      levels.push(
+        { anchorId: anchor.id, label: `${anchor.label} +${multiplier}σ`, price: point.vwap + point.stdDev * multiplier, band: multiplier },
+        { anchorId: anchor.id, label: `${anchor.label} -${multiplier}σ`, price: point.vwap - point.stdDev * multiplier, band: -multiplier },
+      );
+    }
+  }
+  return levels;
+}
+
+function createSums(): VwapSums {
+  return { volume: 0, priceVolume: 0, squareVolume: 0 };
+}
+
+// Per-level prices when the bar has them, otherwise its typical price.
+function addBar(sums: VwapSums, bar: FootprintBar) {
+  if (bar.skeleton || bar.totalVolume <= 0) {
+    return;
+  }
+  if (bar.levels.length) {
+    for (const level of bar.levels) {
+      sums.volume += level.totalVolume;
+      sums.priceVolume += level.price * level.totalVolume;
+      sums.squareVolume += level.price * level.price * level.totalVolume;
+    }
+    return;
+  }
+  const price = (bar.highPrice + bar.lowPrice + bar.closePrice) / 3;
+  sums.volume += bar.totalVolume;
+  sums.priceVolume += price * bar.totalVolume;
+  sums.squareVolume += price * price * bar.totalVolume;
+}
+
+function toPoint(sums: VwapSums, time: number, anchorTime: number): VwapPoint | null {
+  if (sums.volume <= 0) {
+    return null;
+  }
+  const vwap = sums.priceVolume / sums.volume;
+  const variance = sums.squareVolume / sums.volume - vwap * vwap;
+  return { time, anchorTime, vwap, stdDev: Math.sqrt(Math.max(0, variance)) };
+}
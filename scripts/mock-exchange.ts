@@ -0,0 +1,100 @@
+// Local Binance-compatible exchange for offline development.
+//
+//   npm run mock:exchange -- --port 8765 --gap 0.01 --disconnect 60000
+//
+// Copy the printed NEXT_PUBLIC_ lines into .env.local and restart `next dev`.
+// `--events` replays a JSON array of ReplayEvent instead of the synthetic tape.
+
+import { readFile } from "node:fs/promises";
+
+import { createDatasetSource, createSyntheticSource } from "@/lib/mock/source";
+import { MockExchangeServer } from "@/lib/mock/server";
+import type { ReplayEvent } from "@/types";
+
+const USAGE = `Options:
+  --port <n>            listen port (default 8765)
+  --symbol <s>          symbol served (default BTCUSDT)
+  --seed <n>            seed for the synthetic tape and fault schedule
+  --price <n>           synthetic start price
+  --events <file>       JSON array of ReplayEvent to replay
+  --speed <n>           replay speed for --events
+  --disconnect <ms>     drop all sockets on this interval
+  --gap <p>             chance per depth update of a sequence gap
+  --out-of-order <p>    chance per tick of swapped trades
+  --snapshot-fail <p>   chance per REST depth request of a failure`;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help !== undefined) {
+    console.log(USAGE);
+    return;
+  }
+  const seed = readNumber(args, "seed") ?? 1;
+  const eventsFile = args.events;
+  const startPrice = readNumber(args, "price");
+  const source = eventsFile
+    ? createDatasetSource(JSON.parse(await readFile(eventsFile, "utf8")) as ReplayEvent[], {
+        speed: readNumber(args, "speed"),
+      })
+    : createSyntheticSource(startPrice === undefined ? { seed } : { seed, startPrice });
+
+  const server = new MockExchangeServer({
+    source,
+    seed,
+    symbol: args.symbol,
+    port: readNumber(args, "port") ?? 8765,
+    faults: {
+      disconnectEveryMs: readNumber(args, "disconnect"),
+      gapProbability: readNumber(args, "gap"),
+      outOfOrderProbability: readNumber(args, "out-of-order"),
+      snapshotFailureRate: readNumber(args, "snapshot-fail"),
+    },
+  });
+  const endpoints = await server.start();
+
+  console.log(`NEXT_PUBLIC_BINANCE_FUTURES_REST=${endpoints.futures.restBase}`);
+  console.log(`NEXT_PUBLIC_BINANCE_FUTURES_STREAM=${endpoints.futures.streamBase}`);
+  console.log(`NEXT_PUBLIC_BINANCE_SPOT_REST=${endpoints.spot.restBase}`);
+  console.log(`NEXT_PUBLIC_BINANCE_SPOT_STREAM=${endpoints.spot.streamBase}`);
+
+  const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+function parseArgs(argv: string[]): Record<string, string | undefined> {
+  const args: Record<string, string | undefined> = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    const token = argv[index];
+    if (!token.startsWith("--")) {
+      continue;
+    }
+    const next = argv[index + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args[token.slice(2)] = next;
+      index += 1;
+    } else {
+      args[token.slice(2)] = "";
+    }
+  }
+  return args;
+}
+
+function readNumber(args: Record<string, string | undefined>, key: string): number | undefined {
+  const raw = args[key];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`--${key} expects a number, received "${raw}"`);
+  }
+  return value;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import { describe, expect, it } from "vitest";
 
 import {
   FootprintAggregator,
+  parseTimeframe,
   precisionFromStep,
   priceToBin,
   timeframeToMs,
@@ -27,6 +28,18 @@ describe("priceToBin", () => {
   });
 });
 
+describe("parseTimeframe", () => {
+  it("parses time and activity bar timeframes", () => {
+    expect(parseTimeframe("15s")).toEqual({ type: "time", size: 15_000 });
+    expect(parseTimeframe("1h")).toEqual({ type: "time", size: 3_600_000 });
+    expect(parseTimeframe("500t")).toEqual({ type: "tick", size: 500 });
+    expect(parseTimeframe("12.5v")).toEqual({ type: "volume", size: 12.5 });
+    expect(parseTimeframe("10r")).toEqual({ type: "range", size: 10 });
+    expect(timeframeToMs("30m")).toBe(1_800_000);
+    expect(() => parseTimeframe("2d")).toThrow("Unsupported timeframe");
+  });
+});
+
 describe("FootprintAggregator", () => {
   it("aggregates trades by timeframe and price bins", () => {
     const aggregator = new FootprintAggregator({
@@ -122,4 +135,70 @@ describe("FootprintAggregator", () => {
     expect(bar.totalVolume).toBeCloseTo(3);
     expect(bar.totalDelta).toBeCloseTo(-1);
   });
+
+  it("closes tick bars after the configured number of trades", () => {
+    const aggregator = new FootprintAggregator({
+      timeframeMs: timeframeToMs("3t"),
+      barSpec: parseTimeframe("3t"),
+      priceStep: 1,
+      maxBars: 10,
+    });
+
+    const trades: Trade[] = Array.from({ length: 7 }, (_, index) => ({
+      tradeId: index + 1,
+      price: 100 + index,
+      quantity: 1,
+      timestamp: 1_000 + index * 10,
+      isBuyerMaker: false,
+    }));
+    const state = aggregator.ingestTrades(trades);
+
+    expect(state.bars.map((bar) => bar.totalVolume)).toEqual([3, 3, 1]);
+    expect(state.bars.map((bar) => bar.startTime)).toEqual([1_000, 1_030, 1_060]);
+    expect(state.bars[0].endTime).toBe(1_020);
+  });
+
+  it("closes volume bars once the volume threshold is reached", () => {
+    const aggregator = new FootprintAggregator({
+      timeframeMs: timeframeToMs("5v"),
+      barSpec: parseTimeframe("5v"),
+      priceStep: 1,
+      maxBars: 10,
+    });
+
+    const state = aggregator.ingestTrades([
+      { tradeId: 1, price: 100, quantity: 2, timestamp: 1_000, isBuyerMaker: false },
+      { tradeId: 2, price: 101, quantity: 3, timestamp: 1_000, isBuyerMaker: true },
+      { tradeId: 3, price: 102, quantity: 1, timestamp: 1_000, isBuyerMaker: false },
+    ]);
+
+    expect(state.bars.map((bar) => bar.totalVolume)).toEqual([5, 1]);
+    // Bars opened within the same millisecond keep unique start times.
+    expect(state.bars.map((bar) => bar.startTime)).toEqual([1_000, 1_001]);
+  });
+
+  it("opens a new range bar when price leaves the tick range", () => {
+    const aggregator = new FootprintAggregator({
+      timeframeMs: timeframeToMs("4r"),
+      barSpec: parseTimeframe("4r"),
+      priceStep: 0.5,
+      maxBars: 10,
+    });
+
+    const prices = [100, 101, 99.5, 101.5, 102, 100];
+    const state = aggregator.ingestTrades(
+      prices.map((price, index) => ({
+        tradeId: index + 1,
+        price,
+        quantity: 1,
+        timestamp: 1_000 + index * 100,
+        isBuyerMaker: index % 2 === 0,
+      })),
+    );
+
+    expect(state.bars.map((bar) => [bar.lowPrice, bar.highPrice])).toEqual([
+      [99.5, 101.5],
+      [100, 102],
+    ]);
+  });
 });
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import { runBacktest } from "@/lib/replay/backtest";
+import { MemoryRecorderStorage } from "@/lib/replay/storage";
+import { recordTape, type SineTapeOptions } from "@/tests/helpers/tape";
+
+const DAY_START = Date.UTC(2024, 0, 1, 22, 0, 0);
+
+const LOOSE_SIGNAL_CONFIG = {
+  mode: "aggressive" as const,
+  overrides: {
+    minScore: 0,
+    minDeltaPercentile: 0,
+    minVolumePercentile: 0,
+    stackRatio: 1.2,
+    stackLevels: 2,
+    keyLevelDistancePercent: 100,
+  },
+  // Swing targets reach 2R where the bar-range ones fall short on this tape.
+  strategyParams: {
+    "absorption-failure": { structureExits: 1 },
+    "poc-migration": { structureExits: 1 },
+    "delta-divergence": { structureExits: 1 },
+  },
+};
+
+const TAPE: SineTapeOptions = {
+  startTime: DAY_START,
+  count: 1_200,
+  intervalMs: 6_000,
+  amplitude: 1.5,
+  period: 25,
+  sawLength: 7,
+  quantity: (index: number) => 0.1 + (index % 5) * 0.05,
+  chunkTradeTarget: 250,
+};
+
+describe("runBacktest", () => {
+  it("streams a recorded dataset through the full pipeline on tape time", async () => {
+    const storage = new MemoryRecorderStorage();
+    const datasetId = await recordTape(storage, TAPE);
+
+    const progress: number[] = [];
+    const result = await runBacktest(storage, datasetId, {
+      signalConfig: LOOSE_SIGNAL_CONFIG,
+      onProgress: (value) => progress.push(value),
+    });
+
+    expect(result.tradesProcessed).toBe(1_200);
+    expect(result.timeframe).toBe("1m");
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(result.signalCount).toBeGreaterThan(0);
+    expect(result.timeline.some((entry) => entry.type === "trade" && entry.phase === "signal")).toBe(true);
+    // The tape swings far enough for a filled signal to reach its 2R target.
+    expect(result.trades.length).toBeGreaterThan(0);
+    expect(
+      result.state.signalJournal.entries.some((entry) => entry.status === "filled" && entry.outcome === "target"),
+    ).toBe(true);
+    expect(result.overall.totals.trades).toBe(result.trades.length);
+    for (const day of result.daily) {
+      expect(["2024-01-01", "2024-01-02"]).toContain(day.day);
+    }
+    for (const entry of result.timeline) {
+      expect(entry.timestamp).toBeGreaterThanOrEqual(DAY_START);
+    }
+  });
+
+  it("is reproducible against the same tape", async () => {
+    const storage = new MemoryRecorderStorage();
+    const datasetId = await recordTape(storage, TAPE);
+
+    const options = {
+      signalConfig: LOOSE_SIGNAL_CONFIG,
+      tradingSettings: { retestWindowMinutes: 10 },
+    };
+    const first = await runBacktest(storage, datasetId, options);
+    const second = await runBacktest(storage, datasetId, options);
+
+    expect(second.signalCount).toBe(first.signalCount);
+    expect(second.trades).toEqual(first.trades);
+    expect(second.timeline).toEqual(first.timeline);
+    expect(second.state).toEqual(first.state);
+  });
+
+  it("tracks the trading day on tape time rather than wall time", async () => {
+    const storage = new MemoryRecorderStorage();
+    const datasetId = await recordTape(storage, TAPE);
+
+    const result = await runBacktest(storage, datasetId, { signalConfig: LOOSE_SIGNAL_CONFIG });
+
+    expect(result.state.daily.day).toBe("2024-01-01");
+    expect(result.state.guardrails.day).toBe("2024-01-01");
+  });
+
+  it("rejects unknown datasets", async () => {
+    const storage = new MemoryRecorderStorage();
+    await expect(runBacktest(storage, "missing")).rejects.toThrow("Backtest dataset not found");
+  });
+});
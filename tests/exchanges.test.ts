@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDepthStreamMessage } from "@/lib/binance";
+import { DepthGapError, DepthOrderBook } from "@/lib/depth/book";
+import { BINANCE_FUTURES_SEQUENCE, BYBIT_SEQUENCE, OKX_SEQUENCE } from "@/lib/depth/sequence";
+import { parseBybitDepthMessage, parseBybitTradeMessage } from "@/lib/exchanges/bybit";
+import { parseOkxDepthMessage, parseOkxTradeMessage, toOkxInstId } from "@/lib/exchanges/okx";
+import type { DepthDiff } from "@/types";
+
+function createDiff(firstUpdateId: number, finalUpdateId: number, previousUpdateId?: number): DepthDiff {
+  return {
+    firstUpdateId,
+    finalUpdateId,
+    ...(previousUpdateId !== undefined ? { previousUpdateId } : {}),
+    eventTime: 1_700_000_000_000,
+    transactionTime: 1_700_000_000_000,
+    bids: [{ price: 99, quantity: 2 }],
+    asks: [],
+  };
+}
+
+function createSnapshot(lastUpdateId: number) {
+  return {
+    lastUpdateId,
+    bids: [{ price: 100, quantity: 1 }],
+    asks: [{ price: 101, quantity: 1 }],
+    timestamp: 1_700_000_000_000,
+  };
+}
+
+describe("depth sequence policies", () => {
+  it("chains Binance Futures diffs on pu after the bridging event", () => {
+    const book = new DepthOrderBook({ sequence: BINANCE_FUTURES_SEQUENCE });
+    book.applySnapshot(createSnapshot(100));
+
+    // The first event only has to straddle the snapshot id.
+    book.applyDiff(createDiff(95, 110, 90));
+    // Ids jump between events; continuity comes from pu.
+    book.applyDiff(createDiff(120, 130, 110));
+    expect(book.getLastUpdateId()).toBe(130);
+
+    expect(() => book.applyDiff(createDiff(140, 150, 135))).toThrow(DepthGapError);
+  });
+
+  it("requires consecutive update ids for Bybit deltas", () => {
+    const book = new DepthOrderBook({ sequence: BYBIT_SEQUENCE });
+    book.applySnapshot(createSnapshot(10));
+
+    book.applyDiff(createDiff(11, 11));
+    expect(book.applyDiff(createDiff(11, 11))).toEqual([]);
+    expect(() => book.applyDiff(createDiff(13, 13))).toThrow(DepthGapError);
+  });
+
+  it("follows the OKX prevSeqId chain, including unchanged heartbeats", () => {
+    const book = new DepthOrderBook({ sequence: OKX_SEQUENCE });
+    book.applySnapshot(createSnapshot(500));
+
+    book.applyDiff(createDiff(520, 520, 500));
+    book.applyDiff(createDiff(520, 520, 520));
+    expect(book.getLastUpdateId()).toBe(520);
+    expect(() => book.applyDiff(createDiff(560, 560, 540))).toThrow(DepthGapError);
+  });
+});
+
+describe("exchange message parsers", () => {
+  it("keeps pu on Binance depth updates", () => {
+    const [message] = parseDepthStreamMessage(
+      JSON.stringify({
+        stream: "btcusdt@depth@100ms",
+        data: { e: "depthUpdate", E: 1, T: 1, U: 200, u: 210, pu: 190, b: [["100", "1"]], a: [] },
+      }),
+    );
+    expect(message).toMatchObject({
+      type: "diff",
+      diff: { firstUpdateId: 200, finalUpdateId: 210, previousUpdateId: 190 },
+    });
+  });
+
+  it("maps Bybit trades and book frames", () => {
+    const trades = parseBybitTradeMessage(
+      JSON.stringify({
+        topic: "publicTrade.BTCUSDT",
+        type: "snapshot",
+        ts: 1_700_000_000_100,
+        data: [
+          { T: 1_700_000_000_000, s: "BTCUSDT", S: "Sell", v: "0.5", p: "100.5", i: "a3f1c2d4-0000-4000-8000-000000000001" },
+        ],
+      }),
+    );
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ price: 100.5, quantity: 0.5, isBuyerMaker: true });
+    expect(Number.isSafeInteger(trades[0].tradeId)).toBe(true);
+
+    const snapshot = parseBybitDepthMessage(
+      JSON.stringify({
+        topic: "orderbook.200.BTCUSDT",
+        type: "snapshot",
+        ts: 1,
+        data: { s: "BTCUSDT", b: [["100", "1"]], a: [["101", "2"]], u: 40 },
+      }),
+    );
+    expect(snapshot[0]).toMatchObject({ type: "snapshot", snapshot: { lastUpdateId: 40 } });
+
+    const delta = parseBybitDepthMessage(
+      JSON.stringify({
+        topic: "orderbook.200.BTCUSDT",
+        type: "delta",
+        ts: 2,
+        data: { s: "BTCUSDT", b: [["100", "0"]], a: [], u: 41 },
+      }),
+    );
+    expect(delta[0]).toMatchObject({ type: "diff", diff: { firstUpdateId: 41, finalUpdateId: 41 } });
+
+    expect(parseBybitDepthMessage(JSON.stringify({ op: "pong", success: true }))).toEqual([]);
+  });
+
+  it("maps OKX trades and book frames and ignores pongs", () => {
+    expect(toOkxInstId("btcusdt")).toBe("BTC-USDT-SWAP");
+
+    const trades = parseOkxTradeMessage(
+      JSON.stringify({
+        arg: { channel: "trades", instId: "BTC-USDT-SWAP" },
+        data: [{ instId: "BTC-USDT-SWAP", tradeId: "9001", px: "100", sz: "3", side: "buy", ts: "1700000000000" }],
+      }),
+    );
+    expect(trades).toEqual([
+      { tradeId: 9001, price: 100, quantity: 3, timestamp: 1_700_000_000_000, isBuyerMaker: false },
+    ]);
+
+    const update = parseOkxDepthMessage(
+      JSON.stringify({
+        arg: { channel: "books", instId: "BTC-USDT-SWAP" },
+        action: "update",
+        data: [{ asks: [["101", "1", "0", "1"]], bids: [], ts: "1700000000000", seqId: 12, prevSeqId: 10 }],
+      }),
+    );
+    expect(update[0]).toMatchObject({
+      type: "diff",
+      diff: { firstUpdateId: 12, finalUpdateId: 12, previousUpdateId: 10 },
+    });
+
+    expect(parseOkxTradeMessage("pong")).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import type { DepthBarMetrics, FootprintBar, LevelBin } from "@/types";
+
+const BAR_MS = 60_000;
+
+// [price, askVol, bidVol]
+export type LevelInput = [number, number, number];
+
+// One-minute footprint bar whose totals, POC, range, open and close follow
+// from its levels; `overrides` sets whatever a test needs otherwise.
+export function createFootprintBar(
+  startTime: number,
+  levels: LevelInput[],
+  overrides: Partial<FootprintBar> = {},
+): FootprintBar {
+  const bins: LevelBin[] = levels.map(([price, askVol, bidVol]) => ({
+    price,
+    askVol,
+    bidVol,
+    delta: askVol - bidVol,
+    totalVolume: askVol + bidVol,
+  }));
+  const prices = bins.map((level) => level.price);
+  const poc = bins.reduce<LevelBin | null>(
+    (best, level) => (!best || level.totalVolume > best.totalVolume ? level : best),
+    null,
+  );
+  const totalDelta = bins.reduce((sum, level) => sum + level.delta, 0);
+  return {
+    startTime,
+    endTime: startTime + BAR_MS - 1,
+    levels: bins,
+    pocPrice: poc?.price ?? null,
+    pocVolume: poc?.totalVolume ?? 0,
+    totalDelta,
+    cumulativeDelta: totalDelta,
+    totalVolume: bins.reduce((sum, level) => sum + level.totalVolume, 0),
+    highPrice: Math.max(...prices),
+    lowPrice: Math.min(...prices),
+    openPrice: prices[0],
+    closePrice: prices[prices.length - 1],
+    ...overrides,
+  };
+}
+
+// Each [price, volume] level split evenly between buyers and sellers.
+export function createVolumeBar(
+  startTime: number,
+  volumes: Array<[number, number]>,
+  overrides: Partial<FootprintBar> = {},
+): FootprintBar {
+  return createFootprintBar(
+    startTime,
+    volumes.map(([price, volume]) => [price, volume / 2, volume / 2]),
+    overrides,
+  );
+}
+
+// Depth metrics of a bar with a quiet book; tests add the events they need.
+export function createDepthMetrics(overrides: Partial<DepthBarMetrics> = {}): DepthBarMetrics {
+  return {
+    avgOfi: 0,
+    netOfi: 0,
+    maxImbalance: 0,
+    minImbalance: 0,
+    bestBid: null,
+    bestAsk: null,
+    bestBidSize: 0,
+    bestAskSize: 0,
+    queueDeltaBid: 0,
+    queueDeltaAsk: 0,
+    maxReplenishmentBid: 0,
+    maxReplenishmentAsk: 0,
+    absorptions: [],
+    sweeps: [],
+    spoofEvents: [],
+    ...overrides,
+  };
+}
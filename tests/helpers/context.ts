@@ -0,0 +1,65 @@
+import { buildMarketStructure } from "@/lib/marketStructure";
+import { MODE_PRESETS, type DetectionContext } from "@/lib/signals";
+import type { FootprintBar } from "@/types";
+
+type DetectionContextOverrides = Partial<Omit<DetectionContext, "thresholds">> & {
+  thresholds?: Partial<DetectionContext["thresholds"]>;
+};
+
+const EMPTY_STACK: DetectionContext["stackBid"] = {
+  levels: 0,
+  ratio: 0,
+  maxObservedRatio: 0,
+  startPrice: null,
+  anchorPrice: null,
+  cumulativeVolume: 0,
+};
+
+// Detection context for the last bar with neutral reads: standard-mode
+// thresholds, median percentiles, no stacks and no key levels. Tests set
+// only what their detector checks.
+export function createDetectionContext(
+  bars: FootprintBar[],
+  overrides: DetectionContextOverrides = {},
+): DetectionContext {
+  const { thresholds, ...rest } = overrides;
+  const index = rest.index ?? bars.length - 1;
+  const preset = MODE_PRESETS.standard;
+  return {
+    bars,
+    index,
+    bar: bars[index],
+    priceStep: 0.5,
+    session: "us",
+    thresholds: {
+      minScore: preset.minScore,
+      stackRatio: preset.stackRatio,
+      stackLevels: preset.stackLevels,
+      minDeltaPercentile: preset.minDeltaPercentile,
+      minVolumePercentile: preset.minVolumePercentile,
+      keyLevelDistancePercent: preset.keyLevelDistancePercent,
+      requireKeyLevel: preset.requireKeyLevel,
+      requireConfluence: preset.requireConfluence,
+      minStrategies: preset.minStrategies,
+      maxSignalsPerSession: preset.maxSignalsPerSession,
+      maxSignalsPerDay: preset.maxSignalsPerDay,
+      avoidLowLiquidity: preset.avoidLowLiquidity,
+      atrPercentileRange: preset.atrPercentileRange,
+      ...thresholds,
+    },
+    deltaPercentile: 0.5,
+    volumePercentile: 0.5,
+    atrPercentile: 0.5,
+    volumeHistory: [],
+    stackBid: EMPTY_STACK,
+    stackAsk: EMPTY_STACK,
+    keyMatch: null,
+    keyLevels: [],
+    structure: buildMarketStructure(bars.slice(0, index + 1)),
+    prevDayStats: undefined,
+    prevWeekStats: undefined,
+    previousPoc: null,
+    sessionVwap: null,
+    ...rest,
+  };
+}
@@ -0,0 +1,48 @@
+import { AggTradeRecorder } from "@/lib/replay/recorder";
+import type { MemoryRecorderStorage } from "@/lib/replay/storage";
+import type { Trade } from "@/types";
+
+export interface SineTapeOptions {
+  startTime: number;
+  count: number;
+  intervalMs?: number;
+  // Swing around 100: amplitude * sin((index + phase) / period).
+  amplitude: number;
+  period: number;
+  phase?: number;
+  // Saw of 0.1 steps on top of the swing, repeating every `sawLength` trades.
+  sawLength: number;
+  quantity?: (index: number) => number;
+  chunkTradeTarget: number;
+}
+
+// Sellers hit every third trade; `phase` shifts both the swing and the sellers.
+export function createSineTape(options: SineTapeOptions): Trade[] {
+  const { startTime, count, intervalMs = 5_000, amplitude, period, phase = 0, sawLength } = options;
+  const quantity = options.quantity ?? ((index: number) => 0.1 + (index % 4) * 0.1);
+  return Array.from({ length: count }, (_, index) => {
+    const price = 100 + Math.sin((index + phase) / period) * amplitude + (index % sawLength) * 0.1;
+    return {
+      tradeId: index + 1,
+      price: Number(price.toFixed(1)),
+      quantity: quantity(index),
+      timestamp: startTime + index * intervalMs,
+      isBuyerMaker: (index + phase) % 3 === 0,
+    };
+  });
+}
+
+// Records the tape as a 1m BTCUSDT dataset and returns its id.
+export async function recordTape(storage: MemoryRecorderStorage, options: SineTapeOptions): Promise<string> {
+  const recorder = new AggTradeRecorder(storage, { chunkTradeTarget: options.chunkTradeTarget });
+  const dataset = await recorder.start({
+    symbol: "BTCUSDT",
+    timeframe: "1m",
+    priceStep: 0.5,
+  });
+  for (const trade of createSineTape(options)) {
+    await recorder.record(trade);
+  }
+  await recorder.stop();
+  return dataset.id;
+}
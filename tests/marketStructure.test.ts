@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMarketStructure, getIntactPivots } from "@/lib/marketStructure";
+import { resolveStructureExits } from "@/lib/signals/strategies/shared";
+import type { FootprintBar } from "@/types";
+import { createVolumeBar } from "@/tests/helpers/bars";
+import { createDetectionContext } from "@/tests/helpers/context";
+
+const START = Date.UTC(2024, 0, 2, 13, 0, 0);
+
+// [high, low, close]
+const PATH: Array<[number, number, number]> = [
+  [101, 99, 100],
+  [102, 100, 101],
+  [104, 102, 103],
+  [103, 101, 101.5],
+  [102, 100, 100.5],
+  [101, 98, 99],
+  [102, 99, 101],
+  [103, 100, 102],
+  [105, 102, 104.5],
+  [104.5, 101, 101.5],
+  [103, 99, 99.5],
+  [100, 96, 96.5],
+];
+
+function createBars(): FootprintBar[] {
+  return PATH.map(([high, low, close], index) =>
+    createVolumeBar(START + index * 60_000, [[close, 10]], { highPrice: high, lowPrice: low }),
+  );
+}
+
+describe("buildMarketStructure", () => {
+  const bars = createBars();
+  const structure = buildMarketStructure(bars);
+
+  it("confirms fractal swings once the bars after them print", () => {
+    expect(structure.pivots).toEqual([
+      { kind: "high", time: bars[2].startTime, price: 104, label: null, confirmedAt: bars[4].startTime },
+      { kind: "low", time: bars[5].startTime, price: 98, label: null, confirmedAt: bars[7].startTime },
+      { kind: "high", time: bars[8].startTime, price: 105, label: "HH", confirmedAt: bars[10].startTime },
+    ]);
+  });
+
+  it("labels a break with the trend BOS and one against it CHOCH", () => {
+    expect(structure.breaks).toEqual([
+      { kind: "bos", direction: "up", time: bars[8].startTime, price: 104, pivotTime: bars[2].startTime },
+      { kind: "choch", direction: "down", time: bars[11].startTime, price: 98, pivotTime: bars[5].startTime },
+    ]);
+    expect(structure.trend).toBe("down");
+  });
+
+  it("only keeps known swings price has not traded through", () => {
+    expect(getIntactPivots(structure, bars, 9).map((pivot) => pivot.price)).toEqual([98]);
+    expect(getIntactPivots(structure, bars, 10).map((pivot) => pivot.price)).toEqual([105, 98]);
+  });
+});
+
+describe("resolveStructureExits", () => {
+  const bars = createBars();
+  const context = createDetectionContext(bars, {
+    index: 10,
+    structure: buildMarketStructure(bars),
+    keyLevels: [
+      { label: "PDH", price: 103 },
+      { label: "POC último", price: 100 },
+    ],
+  });
+  const exits = { stop: 98, target1: 103.5, target2: 106.7 };
+
+  it("puts the stop past the last swing and targets at the next levels at least 1R away", () => {
+    const result = resolveStructureExits(context, { side: "long", entry: 99.5, exits, stopTicks: 2, enabled: true });
+
+    expect(result).toMatchObject({ stop: 97, target1: 103, target2: 105 });
+    expect(result.swing?.price).toBe(98);
+  });
+
+  it("keeps the bar exits when disabled", () => {
+    expect(resolveStructureExits(context, { side: "long", entry: 99.5, exits, stopTicks: 2, enabled: false })).toEqual({
+      ...exits,
+      swing: null,
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { DepthSnapshotError } from "@/lib/binance";
+import { DepthGapError, DepthOrderBook } from "@/lib/depth/book";
+import { BINANCE_FUTURES_SEQUENCE } from "@/lib/depth/sequence";
+import { createBinanceFuturesAdapter } from "@/lib/exchanges/binance";
+import { MockExchangeServer } from "@/lib/mock/server";
+import { createSyntheticSource } from "@/lib/mock/source";
+import { connectWebSocket, type MockSocket } from "@/lib/mock/websocket";
+import type { DepthStreamMessage, Trade } from "@/types";
+
+const START = 1_700_000_000_000;
+
+let server: MockExchangeServer | null = null;
+const sockets: MockSocket[] = [];
+
+afterEach(async () => {
+  for (const socket of sockets.splice(0)) {
+    socket.terminate();
+  }
+  await server?.stop();
+  server = null;
+});
+
+async function startExchange() {
+  let now = START;
+  server = new MockExchangeServer({
+    source: createSyntheticSource({ seed: 7, tradesPerSecond: 50 }),
+    tickMs: 0,
+    historyMs: 5 * 60_000,
+    clock: () => now,
+  });
+  const endpoints = await server.start();
+  const adapter = createBinanceFuturesAdapter(endpoints.futures);
+  const advance = (ms: number) => {
+    now += ms;
+    server?.tick();
+  };
+  return { server, adapter, advance };
+}
+
+async function openStream(url: string) {
+  const socket = await connectWebSocket(url);
+  sockets.push(socket);
+  const frames: string[] = [];
+  socket.onMessage((text) => frames.push(text));
+  return { socket, frames };
+}
+
+function waitFor(condition: () => boolean, timeoutMs = 2_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() > deadline) {
+        reject(new Error("Timed out waiting for the mock exchange"));
+      } else {
+        setTimeout(poll, 5);
+      }
+    };
+    poll();
+  });
+}
+
+describe("mock exchange REST", () => {
+  it("serves history through the Binance adapter", async () => {
+    const { adapter } = await startExchange();
+
+    expect(await adapter.fetchServerTime()).toBe(START);
+
+    const trades = await adapter.fetchAggTrades({ symbol: "BTCUSDT", fromId: 1, limit: 100 });
+    expect(trades).toHaveLength(100);
+    expect(trades[0].tradeId).toBe(1);
+    expect(trades.every((trade, index) => index === 0 || trade.tradeId === trades[index - 1].tradeId + 1)).toBe(true);
+
+    const klines = await adapter.fetchKlines({ symbol: "BTCUSDT", interval: "1m", limit: 10 });
+    expect(klines.length).toBeGreaterThanOrEqual(5);
+    for (const kline of klines) {
+      expect(kline.high).toBeGreaterThanOrEqual(Math.max(kline.open, kline.close));
+      expect(kline.low).toBeLessThanOrEqual(Math.min(kline.open, kline.close));
+    }
+
+    const config = await adapter.fetchSymbolMarketConfig("BTCUSDT");
+    expect(config?.tickSize).toBeCloseTo(0.1);
+
+    const funding = await adapter.fetchFundingRates({ symbol: "BTCUSDT", limit: 3 });
+    expect(funding.map((rate) => rate.rate)).toEqual([0.0001, 0.0001, 0.0001]);
+    expect(funding[2].time).toBeLessThanOrEqual(START);
+    expect(funding[2].time - funding[0].time).toBe(16 * 60 * 60_000);
+
+    const snapshot = await adapter.fetchDepthSnapshot("BTCUSDT", 20);
+    expect(snapshot.bids.length).toBeGreaterThan(0);
+    expect(snapshot.bids[0].price).toBeLessThan(snapshot.asks[0].price);
+  });
+
+  it("fails snapshots on demand", async () => {
+    const { server: exchange, adapter } = await startExchange();
+    exchange.failNextSnapshots(1, 429);
+
+    const failure = await adapter.fetchDepthSnapshot("BTCUSDT").catch((error: unknown) => error);
+    expect(failure).toBeInstanceOf(DepthSnapshotError);
+    expect((failure as DepthSnapshotError).status).toBe(429);
+
+    await expect(adapter.fetchDepthSnapshot("BTCUSDT")).resolves.toMatchObject({
+      lastUpdateId: exchange.getLastUpdateId(),
+    });
+  });
+});
+
+describe("mock exchange streams", () => {
+  it("streams depth that stitches onto the REST snapshot until a gap is injected", async () => {
+    const { server: exchange, adapter, advance } = await startExchange();
+    const { frames } = await openStream(adapter.depthStream("BTCUSDT", 100).url);
+    await waitFor(() => exchange.getConnectionCount() === 1);
+
+    const book = new DepthOrderBook({ sequence: BINANCE_FUTURES_SEQUENCE, maxLevels: 1000 });
+    book.applySnapshot(await adapter.fetchDepthSnapshot("BTCUSDT", 1000));
+
+    advance(500);
+    await waitFor(() => frames.length >= 5);
+    const applyFrames = () => {
+      const messages: DepthStreamMessage[] = frames.splice(0).flatMap((frame) => adapter.parseDepthMessage(frame));
+      for (const message of messages) {
+        if (message.type === "diff") {
+          book.applyDiff(message.diff);
+        }
+      }
+    };
+    applyFrames();
+    expect(book.getLastUpdateId()).toBe(exchange.getLastUpdateId());
+    expect(book.getBestBid()!.price).toBeLessThan(book.getBestAsk()!.price);
+
+    exchange.injectDepthGap(3);
+    advance(200);
+    await waitFor(() => frames.length >= 2);
+    expect(applyFrames).toThrow(DepthGapError);
+  });
+
+  it("delivers trades out of order when asked", async () => {
+    const { server: exchange, adapter, advance } = await startExchange();
+    const { frames } = await openStream(adapter.tradeStream("BTCUSDT").url);
+    await waitFor(() => exchange.getConnectionCount() === 1);
+
+    exchange.injectOutOfOrderTrades(1);
+    advance(1_000);
+    await waitFor(() => frames.length >= 10);
+
+    const trades: Trade[] = frames.flatMap((frame) => adapter.parseTradeMessage(frame));
+    const inversions = trades.filter((trade, index) => index > 0 && trade.tradeId < trades[index - 1].tradeId);
+    expect(inversions).toHaveLength(1);
+  });
+
+  it("drops connections", async () => {
+    const { server: exchange, adapter } = await startExchange();
+    const { socket } = await openStream(adapter.tradeStream("BTCUSDT").url);
+    await waitFor(() => exchange.getConnectionCount() === 1);
+
+    let closed = false;
+    socket.onClose(() => {
+      closed = true;
+    });
+    exchange.dropConnections();
+
+    await waitFor(() => closed);
+    expect(exchange.getConnectionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import { MultiTimeframeAggregator, resolveContextTimeframe } from "@/lib/multiTimeframe";
+import type { Trade } from "@/types";
+
+function createTrades(): Trade[] {
+  const trades: Trade[] = [];
+  for (let index = 0; index < 240; index += 1) {
+    trades.push({
+      tradeId: index + 1,
+      price: 100 + (index % 10) * 0.5,
+      quantity: 1,
+      timestamp: index * 5_000,
+      // Buyers dominate so the higher timeframe trends up.
+      isBuyerMaker: index % 4 === 0,
+    });
+  }
+  return trades;
+}
+
+describe("resolveContextTimeframe", () => {
+  it("picks the largest maintained time timeframe above the active one", () => {
+    expect(resolveContextTimeframe("1m", ["1m", "5m", "15m"])).toBe("15m");
+    expect(resolveContextTimeframe("500t", ["500t", "1m", "5m"])).toBe("5m");
+    expect(resolveContextTimeframe("15m", ["1m", "5m", "15m"])).toBeNull();
+  });
+});
+
+describe("MultiTimeframeAggregator", () => {
+  it("feeds every timeframe from one stream and switches without reset", () => {
+    const aggregator = new MultiTimeframeAggregator({
+      activeTimeframe: "1m",
+      timeframes: ["1m", "5m"],
+      priceStep: 0.5,
+      maxBars: 100,
+    });
+
+    const minuteState = aggregator.ingestTrades(createTrades());
+    expect(minuteState.bars).toHaveLength(20);
+    expect(minuteState.higherTimeframe?.timeframe).toBe("5m");
+    expect(minuteState.higherTimeframe?.deltaTrend).toBe("up");
+
+    const fiveMinuteState = aggregator.setActiveTimeframe("5m");
+    expect(fiveMinuteState.bars).toHaveLength(4);
+    expect(fiveMinuteState.bars.reduce((sum, bar) => sum + bar.totalVolume, 0)).toBe(240);
+    expect(fiveMinuteState.higherTimeframe).toBeNull();
+
+    expect(aggregator.setActiveTimeframe("1m").bars).toHaveLength(20);
+  });
+
+  it("maintains an unconfigured timeframe only while it is active", () => {
+    const aggregator = new MultiTimeframeAggregator({
+      activeTimeframe: "1m",
+      timeframes: ["1m"],
+      priceStep: 0.5,
+      maxBars: 100,
+    });
+
+    expect(aggregator.setActiveTimeframe("15s").bars).toHaveLength(0);
+    expect(aggregator.getTimeframes()).toEqual(["1m", "15s"]);
+    expect(aggregator.ingestTrades(createTrades().slice(0, 12)).bars).toHaveLength(4);
+
+    aggregator.setActiveTimeframe("1m");
+    expect(aggregator.getTimeframes()).toEqual(["1m"]);
+    aggregator.setActiveTimeframe("30s");
+    expect(aggregator.getTimeframes()).toEqual(["1m", "30s"]);
+  });
+
+  it("builds a newly visited timeframe from the recent trades and the current book", () => {
+    const aggregator = new MultiTimeframeAggregator({
+      activeTimeframe: "1m",
+      timeframes: ["1m"],
+      priceStep: 0.5,
+      maxBars: 100,
+    });
+    aggregator.ingestTrades(createTrades().slice(0, 24));
+    aggregator.ingestDepth([
+      {
+        type: "snapshot",
+        snapshot: {
+          lastUpdateId: 10,
+          bids: [{ price: 101, quantity: 3 }],
+          asks: [{ price: 101.5, quantity: 2 }],
+          timestamp: 120_000,
+        },
+      },
+    ]);
+
+    const halfMinute = aggregator.setActiveTimeframe("30s");
+    expect(halfMinute.bars).toHaveLength(4);
+    expect(halfMinute.bars.reduce((sum, bar) => sum + bar.totalVolume, 0)).toBe(24);
+    expect(halfMinute.depth).toMatchObject({ bestBid: 101, bestAsk: 101.5 });
+
+    // The copied book continues with the stream's next diff.
+    const updated = aggregator.ingestDepth([
+      {
+        type: "diff",
+        diff: {
+          firstUpdateId: 11,
+          finalUpdateId: 11,
+          eventTime: 121_000,
+          transactionTime: 121_000,
+          bids: [{ price: 101, quantity: 5 }],
+          asks: [],
+        },
+      },
+    ]);
+    expect(updated.depth?.bestBidSize).toBe(5);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import { TradingEngine } from "@/lib/trading/engine";
+import { PortfolioRiskManager } from "@/lib/trading/portfolio";
+import type { FootprintSignal, Trade } from "@/types";
+
+const BASE_TIMESTAMP = Date.UTC(2024, 0, 2, 10, 0, 0);
+
+function createSignal(id: string, timestamp: number): FootprintSignal {
+  return {
+    id,
+    timestamp,
+    barTime: timestamp,
+    barIndex: 0,
+    price: 100,
+    entry: 100,
+    stop: 95,
+    target1: 110,
+    target2: 115,
+    score: 80,
+    session: "eu",
+    side: "long",
+    strategy: "absorption-failure",
+    strategies: ["absorption-failure"],
+    levelLabel: null,
+    keyLevel: null,
+    evidence: [],
+  };
+}
+
+function createTrade(tradeId: number, price: number, timestamp: number): Trade {
+  return { tradeId, price, quantity: 1, timestamp, isBuyerMaker: false };
+}
+
+function createEngine(portfolio: PortfolioRiskManager, symbol: string, clock: () => number) {
+  return new TradingEngine({
+    priceStep: 1,
+    timeframeMs: 60_000,
+    clock,
+    portfolio: { manager: portfolio, symbol },
+    settings: { autoTake: true, slippageTicks: 0, makerFeePercent: 0, takerFeePercent: 0, partialTakePercent: 0 },
+  });
+}
+
+describe("PortfolioRiskManager", () => {
+  it("blocks entries on every symbol once the combined daily loss is reached", () => {
+    let now = BASE_TIMESTAMP;
+    const clock = () => now;
+    const portfolio = new PortfolioRiskManager({
+      clock,
+      settings: { enabled: true, maxDailyLossR: 1.5 },
+    });
+    const btc = createEngine(portfolio, "BTCUSDT", clock);
+    const eth = createEngine(portfolio, "ETHUSDT", clock);
+
+    for (const [engine, id] of [[btc, "btc-1"], [eth, "eth-1"]] as const) {
+      engine.syncSignals([createSignal(id, now)]);
+      now += 1_000;
+      engine.handleTrade(createTrade(1, 100, now));
+      now += 1_000;
+      engine.handleTrade(createTrade(2, 95, now));
+    }
+
+    let state = portfolio.getState();
+    expect(state.symbols.map((item) => item.symbol)).toEqual(["BTCUSDT", "ETHUSDT"]);
+    expect(state.tradesToday).toBe(2);
+    expect(state.netRToday).toBeCloseTo(-2, 6);
+    expect(state.status).toBe("locked");
+
+    const sol = createEngine(portfolio, "SOLUSDT", clock);
+    sol.syncSignals([createSignal("sol-1", now)]);
+    expect(sol.getState().pending).toHaveLength(0);
+
+    state = portfolio.getState();
+    expect(state.lastBlock?.symbol).toBe("SOLUSDT");
+    expect(state.lastBlock?.signalId).toBe("sol-1");
+    // Per-symbol guardrails are untouched by the portfolio limit.
+    expect(sol.getState().guardrails.status).toBe("ok");
+  });
+
+  it("caps open exposure across symbols and releases it when a book flattens", () => {
+    let now = BASE_TIMESTAMP;
+    const clock = () => now;
+    const portfolio = new PortfolioRiskManager({
+      clock,
+      settings: { enabled: true, maxOpenPositions: 1 },
+    });
+    const btc = createEngine(portfolio, "BTCUSDT", clock);
+    const eth = createEngine(portfolio, "ETHUSDT", clock);
+
+    btc.syncSignals([createSignal("btc-1", now)]);
+    expect(btc.getState().pending).toHaveLength(1);
+    expect(portfolio.getState().status).toBe("limited");
+
+    eth.syncSignals([createSignal("eth-1", now)]);
+    expect(eth.getState().pending).toHaveLength(0);
+
+    btc.cancelPending("btc-1");
+    expect(portfolio.getState().openPositions).toBe(0);
+    expect(portfolio.getState().status).toBe("ok");
+
+    now += 1_000;
+    eth.syncSignals([createSignal("eth-2", now)]);
+    expect(eth.getState().pending).toHaveLength(1);
+  });
+
+  it("rebuilds a symbol book from history and resets totals on a new day", () => {
+    let now = BASE_TIMESTAMP;
+    const clock = () => now;
+    const portfolio = new PortfolioRiskManager({ clock });
+    const btc = createEngine(portfolio, "BTCUSDT", clock);
+
+    btc.syncSignals([createSignal("btc-1", now)]);
+    now += 1_000;
+    btc.handleTrade(createTrade(1, 100, now));
+    now += 1_000;
+    btc.handleTrade(createTrade(2, 95, now));
+
+    // A remounted engine registers again with its restored history.
+    portfolio.addSymbol("BTCUSDT", btc.getState().history);
+    expect(portfolio.getState().tradesToday).toBe(1);
+    expect(portfolio.getState().symbols[0].losses).toBe(1);
+
+    now += 24 * 60 * 60_000;
+    portfolio.evaluateEntry({ symbol: "BTCUSDT", now, auto: false });
+    const state = portfolio.getState();
+    expect(state.day).toBe("2024-01-03");
+    expect(state.tradesToday).toBe(0);
+    expect(state.netRToday).toBe(0);
+  });
+});
@@ -1,10 +1,11 @@
 import { describe, expect, it } from "vitest";
 
+import { TapeClock } from "@/lib/clock";
 import { AggTradeRecorder } from "@/lib/replay/recorder";
 import { AggTradeReplayer } from "@/lib/replay/replayer";
 import { computeReplayMetrics } from "@/lib/replay/summary";
 import { MemoryRecorderStorage } from "@/lib/replay/storage";
-import type { Trade } from "@/types";
+import type { DepthStreamMessage, Trade } from "@/types";
 
 function createTrades(): Trade[] {
   const base = Date.now();
@@ -96,4 +97,106 @@ describe("replay pipeline", () => {
     const metrics = await computeReplayMetrics(storage, dataset.id);
     expect(metrics.perMode.length).toBeGreaterThan(0);
   });
+
+  it("interleaves depth updates with trades and opens chunks with a snapshot", async () => {
+    const storage = new MemoryRecorderStorage();
+    const recorder = new AggTradeRecorder(storage, {
+      chunkDurationMs: 500,
+      chunkTradeTarget: 4,
+    });
+
+    const trades = createTrades();
+    const base = trades[0].timestamp;
+    const snapshot: DepthStreamMessage = {
+      type: "snapshot",
+      snapshot: {
+        lastUpdateId: 100,
+        bids: [{ price: 99.5, quantity: 2 }],
+        asks: [{ price: 100.5, quantity: 3 }],
+        timestamp: base - 50,
+      },
+    };
+    const diffs: DepthStreamMessage[] = [101, 102, 103].map((id, index) => ({
+      type: "diff",
+      diff: {
+        firstUpdateId: id,
+        finalUpdateId: id,
+        eventTime: base + 100 + index * 600,
+        transactionTime: base + 100 + index * 600,
+        bids: [{ price: 99.5, quantity: 2 + index }],
+        asks: [],
+      },
+    }));
+
+    const dataset = await recorder.start({
+      symbol: "BTCUSDT",
+      timeframe: "1m",
+      priceStep: 0.5,
+    });
+
+    await recorder.recordDepth(snapshot);
+    await recorder.record(trades[0]);
+    await recorder.recordDepth(diffs[0]);
+    await recorder.record(trades[1]);
+    await recorder.record(trades[2]);
+    await recorder.recordDepth(diffs[1]);
+    await recorder.record(trades[3]);
+    await recorder.record(trades[4]);
+    await recorder.recordDepth(diffs[2]);
+    await recorder.stop();
+
+    const chunks = await storage.listChunks(dataset.id);
+    expect(chunks.length).toBeGreaterThan(1);
+
+    const sequence: string[] = [];
+    const replayer = new AggTradeReplayer(storage);
+    await replayer.start(dataset.id, {
+      accelerated: true,
+      onTrade: (trade) => {
+        sequence.push(`trade:${trade.tradeId}`);
+      },
+      onDepth: (message) => {
+        sequence.push(
+          message.type === "snapshot"
+            ? `snapshot:${message.snapshot.lastUpdateId}`
+            : `diff:${message.diff.finalUpdateId}`,
+        );
+      },
+    });
+
+    expect(sequence.slice(0, 6)).toEqual([
+      "snapshot:100",
+      "trade:1",
+      "diff:101",
+      "trade:2",
+      "snapshot:101",
+      "trade:3",
+    ]);
+    expect(sequence.filter((entry) => entry.startsWith("trade:"))).toEqual(
+      trades.map((trade) => `trade:${trade.tradeId}`),
+    );
+    expect(sequence.filter((entry) => entry.startsWith("diff:"))).toEqual([
+      "diff:101",
+      "diff:102",
+      "diff:103",
+    ]);
+  });
+
+  it("stamps datasets and chunks with the injected clock", async () => {
+    const storage = new MemoryRecorderStorage();
+    const clock = new TapeClock(Date.UTC(2024, 0, 1));
+    const recorder = new AggTradeRecorder(storage, { chunkTradeTarget: 2, clock: clock.now });
+
+    const dataset = await recorder.start({ symbol: "BTCUSDT", timeframe: "1m", priceStep: 0.5 });
+    expect(dataset.createdAt).toBe(Date.UTC(2024, 0, 1));
+
+    for (const trade of createTrades().slice(0, 2)) {
+      clock.advance(trade.timestamp);
+      await recorder.record(trade);
+    }
+    await recorder.stop();
+
+    const [chunk] = await storage.listChunks(dataset.id);
+    expect(chunk.storedAt).toBe(clock.now());
+  });
 });
@@ -0,0 +1,348 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import {
+  SignalEngine,
+  createDefaultSignalControlState,
+  getSignalStrategyIds,
+  registerSignalStrategy,
+  unregisterSignalStrategy,
+} from "@/lib/signals";
+import { findOpeningRanges, openingRangeStrategy } from "@/lib/signals/strategies/openingRange";
+import { findTrapZone, trappedTradersStrategy } from "@/lib/signals/strategies/trappedTraders";
+import { findOpenUnfinishedAuctions, unfinishedAuctionStrategy } from "@/lib/signals/strategies/unfinishedAuction";
+import { createDailyPerformance } from "@/lib/trading/engine";
+import type { FootprintBar } from "@/types";
+import { createDepthMetrics, createFootprintBar, type LevelInput } from "@/tests/helpers/bars";
+import { createDetectionContext } from "@/tests/helpers/context";
+
+const START = Date.UTC(2024, 0, 2, 13, 0, 0);
+
+function createBars(count: number): FootprintBar[] {
+  return Array.from({ length: count }, (_, index) => {
+    const price = 100 + index * 0.5;
+    return createFootprintBar(START + index * 60_000, [[price, 10 + index, 0]], {
+      highPrice: price + 0.5,
+      lowPrice: price - 0.5,
+    });
+  });
+}
+
+describe("signal strategy registry", () => {
+  beforeAll(() => {
+    registerSignalStrategy({
+      id: "test-breakout",
+      label: "Ruptura de prueba",
+      shortLabel: "Ruptura",
+      defaultEnabled: true,
+      defaultParams: { minIndex: 3, score: 90 },
+      detect(context, params) {
+        if (context.index < params.minIndex) {
+          return [];
+        }
+        const { bar } = context;
+        return [
+          {
+            strategy: "test-breakout",
+            side: "long",
+            rawScore: params.score,
+            stackRatio: 10,
+            stackLevels: 10,
+            deltaPercentile: 1,
+            volumePercentile: 1,
+            atrPercentile: 0.5,
+            keyMatch: null,
+            keyLevelDistance: null,
+            entry: bar.closePrice,
+            stop: bar.lowPrice - 1,
+            target1: bar.closePrice + 3,
+            target2: bar.closePrice + 5,
+            evidence: [{ label: "Ruptura", value: "test" }],
+          },
+        ];
+      },
+    });
+  });
+
+  afterAll(() => {
+    unregisterSignalStrategy("test-breakout");
+  });
+
+  it("exposes registered strategies to the default controls", () => {
+    expect(getSignalStrategyIds()).toEqual([
+      "absorption-failure",
+      "poc-migration",
+      "delta-divergence",
+      "unfinished-auction",
+      "trapped-traders",
+      "opening-range",
+      "test-breakout",
+    ]);
+    expect(createDefaultSignalControlState().enabledStrategies["test-breakout"]).toBe(true);
+  });
+
+  it("runs registered detectors with their parameters", () => {
+    const config = createDefaultSignalControlState();
+    config.mode = "aggressive";
+    config.enabledStrategies = Object.fromEntries(getSignalStrategyIds().map((id) => [id, id === "test-breakout"]));
+    const engine = new SignalEngine({ priceStep: 0.5, timeframeMs: 60_000, config });
+
+    const { signals } = engine.process(createBars(8));
+    expect(signals.length).toBeGreaterThan(0);
+    expect(signals.every((signal) => signal.strategy === "test-breakout")).toBe(true);
+    expect(Math.min(...signals.map((signal) => signal.barIndex))).toBe(3);
+
+    engine.reset();
+    engine.updateConfig({ strategyParams: { "test-breakout": { minIndex: 6 } } });
+    const tuned = engine.process(createBars(8));
+    expect(Math.min(...tuned.signals.map((signal) => signal.barIndex))).toBe(6);
+  });
+
+  it("keys signal ids by bar spec so timeframes sharing a start time stay apart", () => {
+    const config = createDefaultSignalControlState();
+    config.mode = "aggressive";
+    config.enabledStrategies = Object.fromEntries(getSignalStrategyIds().map((id) => [id, id === "test-breakout"]));
+    const minute = new SignalEngine({ priceStep: 0.5, timeframeMs: 60_000, config });
+    const ticks = new SignalEngine({ priceStep: 0.5, timeframeMs: 60_000, barSpec: { type: "tick", size: 500 }, config });
+
+    const [minuteSignal] = minute.process(createBars(8)).signals;
+    const [tickSignal] = ticks.process(createBars(8)).signals;
+    expect(minuteSignal.barTime).toBe(tickSignal.barTime);
+    expect(minuteSignal.id).not.toBe(tickSignal.id);
+  });
+
+  it("adds a performance bucket for every registered strategy", () => {
+    const daily = createDailyPerformance("2024-01-02", [], 0.01);
+    expect(Object.keys(daily.byStrategy)).toContain("test-breakout");
+  });
+});
+
+function createAuctionBar(index: number, levels: LevelInput[], close?: number): FootprintBar {
+  return createFootprintBar(START + index * 60_000, levels, close === undefined ? {} : { closePrice: close });
+}
+
+describe("unfinished auction strategy", () => {
+  const params = unfinishedAuctionStrategy.defaultParams;
+
+  it("finds extremes traded on both sides and flags poor ones", () => {
+    const bars = [
+      // High at 102 has both sides and heavy volume; low at 100 has no sellers.
+      createAuctionBar(0, [
+        [100, 5, 0],
+        [101, 5, 5],
+        [102, 6, 4],
+      ]),
+      createAuctionBar(1, [
+        [100.5, 2, 2],
+        [101, 4, 4],
+        [101.5, 1, 0],
+      ]),
+    ];
+
+    const auctions = findOpenUnfinishedAuctions({ bars, index: 1, priceStep: 0.5 }, params);
+    expect(auctions).toHaveLength(2);
+    expect(auctions.find((auction) => auction.barIndex === 1)).toMatchObject({ side: "low", price: 100.5 });
+    expect(auctions.find((auction) => auction.barIndex === 0)).toMatchObject({
+      side: "high",
+      price: 102,
+      poor: true,
+      session: true,
+    });
+  });
+
+  it("closes a level once a later bar trades through it", () => {
+    const bars = [
+      createAuctionBar(0, [
+        [100, 5, 0],
+        [101, 5, 5],
+        [102, 6, 4],
+      ]),
+      createAuctionBar(1, [
+        [101, 3, 0],
+        [102, 4, 2],
+        [103, 2, 0],
+      ]),
+    ];
+
+    const auctions = findOpenUnfinishedAuctions({ bars, index: 1, priceStep: 0.5 }, params);
+    expect(auctions.some((auction) => auction.barIndex === 0)).toBe(false);
+  });
+
+  it("publishes open auctions as key levels and trades toward them", () => {
+    const bars = [
+      createAuctionBar(0, [
+        [100, 5, 0],
+        [101, 5, 5],
+        [103, 6, 4],
+      ]),
+      createAuctionBar(
+        1,
+        [
+          [100.5, 0, 3],
+          [101, 6, 2],
+          [101.5, 9, 0],
+        ],
+        101.5,
+      ),
+    ];
+    const config = createDefaultSignalControlState();
+    config.mode = "aggressive";
+    config.enabledStrategies = Object.fromEntries(getSignalStrategyIds().map((id) => [id, id === "unfinished-auction"]));
+    const engine = new SignalEngine({ priceStep: 0.5, timeframeMs: 60_000, config });
+
+    const { levels } = engine.process(bars);
+    expect(levels).toContainEqual(
+      expect.objectContaining({ strategy: "unfinished-auction", type: "unfinished-high", price: 103 }),
+    );
+
+    const context = createDetectionContext(bars, {
+      index: 1,
+      thresholds: { stackRatio: 3 },
+      deltaPercentile: 0.9,
+      volumePercentile: 0.8,
+      stackAsk: { levels: 2, ratio: 4, maxObservedRatio: 4, startPrice: 100.5, anchorPrice: 101, cumulativeVolume: 15 },
+    });
+    const [hit] = unfinishedAuctionStrategy.detect(context, params);
+    expect(hit).toMatchObject({ strategy: "unfinished-auction", side: "long", entry: 101.5, target1: 103 });
+    expect(hit.stop).toBeLessThan(100.5);
+  });
+});
+
+describe("trapped traders strategy", () => {
+  const params = trappedTradersStrategy.defaultParams;
+  // Buyers stack the top three levels of the first bar; the second bar closes below them.
+  const trapBar = createAuctionBar(0, [
+    [100, 2, 2],
+    [100.5, 2, 2],
+    [101, 12, 1],
+    [101.5, 15, 1],
+    [102, 10, 1],
+  ]);
+  const createContext = (bars: FootprintBar[]) =>
+    createDetectionContext(bars, {
+      thresholds: { stackRatio: 3, stackLevels: 3, keyLevelDistancePercent: 0.2, atrPercentileRange: null },
+      deltaPercentile: 0.7,
+      volumePercentile: 0.6,
+      volumeHistory: [10, 20, 30, 40, 50],
+    });
+
+  it("shorts the close back through a stacked buying zone at the high", () => {
+    const bars = [
+      trapBar,
+      createAuctionBar(
+        1,
+        [
+          [100, 1, 6],
+          [100.5, 2, 6],
+          [101, 2, 3],
+        ],
+        100.5,
+      ),
+    ];
+
+    const [hit] = trappedTradersStrategy.detect(createContext(bars), params);
+    expect(hit).toMatchObject({ strategy: "trapped-traders", side: "short", entry: 100.5, stop: 103, stackLevels: 3 });
+    expect(hit.target1).toBeLessThan(hit.entry);
+  });
+
+  it("ignores the trap once price trades above it or already closed through", () => {
+    const released = [
+      trapBar,
+      createAuctionBar(
+        1,
+        [
+          [100.5, 2, 6],
+          [101, 2, 3],
+          [102.5, 2, 1],
+        ],
+        100.5,
+      ),
+    ];
+    expect(trappedTradersStrategy.detect(createContext(released), params)).toEqual([]);
+
+    const confirmed = [
+      trapBar,
+      createAuctionBar(1, [
+        [100, 3, 3],
+        [100.5, 3, 3],
+      ]),
+      createAuctionBar(2, [
+        [100, 3, 3],
+        [100.5, 3, 3],
+      ]),
+    ];
+    expect(trappedTradersStrategy.detect(createContext(confirmed), params)).toEqual([]);
+  });
+
+  it("spans the zone over the stacked prices when the run skips a level", () => {
+    const gapped = createAuctionBar(0, [
+      [100, 2, 2],
+      [100.5, 2, 2],
+      [101, 2, 2],
+      [101.5, 2, 2],
+      [102, 12, 1],
+      [103, 15, 1],
+      [103.5, 10, 1],
+    ]);
+    expect(findTrapZone(gapped, "ask", { stackRatio: 3, stackLevels: 3 }, 0.5)).toMatchObject({ low: 102, high: 103.5 });
+    expect(findTrapZone(gapped, "ask", { stackRatio: 3, stackLevels: 4 }, 0.5)).toBeNull();
+  });
+});
+
+describe("opening range strategy", () => {
+  const params = { ...openingRangeStrategy.defaultParams, usOpenHour: 13, rangeMinutes: 2 };
+  const rangeBars = [
+    createAuctionBar(0, [
+      [100, 3, 3],
+      [100.5, 3, 3],
+      [101, 3, 3],
+    ]),
+    createAuctionBar(1, [
+      [100.5, 3, 3],
+      [101, 3, 3],
+    ]),
+  ];
+  const breakout = createAuctionBar(2, [
+    [101, 10, 1],
+    [101.5, 12, 1],
+    [102, 9, 1],
+  ]);
+  const createContext = (bar: FootprintBar) =>
+    createDetectionContext([...rangeBars, bar], {
+      thresholds: { stackRatio: 3, stackLevels: 3, minDeltaPercentile: 0.6, keyLevelDistancePercent: 0.2, atrPercentileRange: null },
+      deltaPercentile: 0.8,
+      volumePercentile: 0.7,
+      stackAsk: { levels: 3, ratio: 9, maxObservedRatio: 12, startPrice: 101, anchorPrice: 102, cumulativeVolume: 34 },
+    });
+
+  it("builds the range from the bars after the open and publishes its levels", () => {
+    const bars = [...rangeBars, breakout];
+    expect(findOpeningRanges({ bars, index: 1, priceStep: 0.5 }, params)).toEqual([]);
+    expect(findOpeningRanges({ bars, index: 2, priceStep: 0.5 }, params)).toEqual([
+      { session: "us", openTime: START, endTime: START + 120_000, high: 101, low: 100 },
+    ]);
+
+    const levels = openingRangeStrategy.keyLevels?.({ bars, index: 2, priceStep: 0.5 }, params) ?? [];
+    expect(levels.map((level) => [level.label, level.price, level.type])).toEqual([
+      ["US ORH", 101, "ib-high"],
+      ["US ORL", 100, "ib-low"],
+      ["US ORH 0.5x", 101.5, "ib-extension"],
+      ["US ORL 0.5x", 99.5, "ib-extension"],
+      ["US ORH 1x", 102, "ib-extension"],
+      ["US ORL 1x", 99, "ib-extension"],
+    ]);
+  });
+
+  it("signals a breakout backed by stacked buying and, with depth, a sweep", () => {
+    const [hit] = openingRangeStrategy.detect(createContext(breakout), params);
+    expect(hit).toMatchObject({ strategy: "opening-range", side: "long", entry: 102, stop: 100, target1: 102.5, target2: 103 });
+
+    const depth = createDepthMetrics();
+    expect(openingRangeStrategy.detect(createContext({ ...breakout, depth }), params)).toEqual([]);
+
+    const swept = createDepthMetrics({
+      sweeps: [{ direction: "up", levelsCleared: 4, priceMoveTicks: 5, deltaSpike: 20, detectedAt: START + 150_000 }],
+    });
+    const [confirmed] = openingRangeStrategy.detect(createContext({ ...breakout, depth: swept }), params);
+    expect(confirmed.rawScore).toBeGreaterThan(hit.rawScore);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { MemoryRecorderStorage } from "@/lib/replay/storage";
+import { expandSweepRange, runParameterSweep } from "@/lib/replay/sweep";
+import { recordTape, type SineTapeOptions } from "@/tests/helpers/tape";
+
+const TAPE: SineTapeOptions = {
+  startTime: Date.UTC(2024, 0, 2, 9, 0, 0),
+  count: 600,
+  amplitude: 2,
+  period: 20,
+  sawLength: 5,
+  chunkTradeTarget: 200,
+};
+
+describe("expandSweepRange", () => {
+  it("expands stepped ranges inclusively without float drift", () => {
+    expect(expandSweepRange({ min: 0.5, max: 0.8, step: 0.1 })).toEqual([0.5, 0.6, 0.7, 0.8]);
+    expect(expandSweepRange([3, 4])).toEqual([3, 4]);
+  });
+});
+
+describe("runParameterSweep", () => {
+  it("runs every combination across datasets and ranks them", async () => {
+    const storage = new MemoryRecorderStorage();
+    const datasetIds = [await recordTape(storage, TAPE), await recordTape(storage, { ...TAPE, phase: 17 })];
+
+    const progress: number[] = [];
+    const sweep = await runParameterSweep(storage, datasetIds, {
+      signalConfig: { mode: "aggressive" },
+      ranges: {
+        detector: { minScore: [0, 45] },
+        trading: { retestWindowMinutes: { min: 5, max: 10, step: 5 } },
+      },
+      rankBy: "netR",
+      onProgress: (completed) => progress.push(completed),
+    });
+
+    expect(sweep.combinations).toBe(4);
+    expect(sweep.results).toHaveLength(4);
+    expect(progress).toEqual([1, 2, 3, 4]);
+    expect(sweep.results.map((item) => item.rank)).toEqual([1, 2, 3, 4]);
+    for (const item of sweep.results) {
+      expect(item.perDataset.map((entry) => entry.datasetId)).toEqual(datasetIds);
+      expect(item.overrides.minScore).toBeDefined();
+      expect(item.trading.retestWindowMinutes).toBeDefined();
+    }
+    for (let index = 1; index < sweep.results.length; index += 1) {
+      expect(sweep.results[index - 1].metrics.netR).toBeGreaterThanOrEqual(
+        sweep.results[index].metrics.netR,
+      );
+    }
+  });
+
+  it("refuses grids above the combination limit", async () => {
+    const storage = new MemoryRecorderStorage();
+    await expect(
+      runParameterSweep(storage, [], {
+        ranges: { detector: { stackRatio: [2, 3, 4], minScore: [40, 50, 60] } },
+        maxCombinations: 8,
+      }),
+    ).rejects.toThrow("Sweep grid too large");
+  });
+});
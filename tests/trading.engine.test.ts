@@ -1,7 +1,17 @@
 import { describe, expect, it } from "vitest";
 
-import { TradingEngine } from "@/lib/trading/engine";
-import type { FootprintSignal, Trade } from "@/types";
+import { TradingAccount } from "@/lib/trading/account";
+import { TradingEngine, createDailyPerformance } from "@/lib/trading/engine";
+import type {
+  DepthStreamMessage,
+  EntryOrderType,
+  ExitPlan,
+  FootprintBar,
+  FootprintSignal,
+  Trade,
+  TradingSettings,
+} from "@/types";
+import { createVolumeBar } from "@/tests/helpers/bars";
 
 let tradeCounter = 0;
 let signalCounter = 0;
@@ -31,6 +41,9 @@ function createSignal(overrides: Partial<FootprintSignal>): FootprintSignal {
     strategies: overrides.strategies ?? [overrides.strategy ?? "absorption-failure"],
     levelLabel: overrides.levelLabel ?? null,
     evidence: overrides.evidence ?? [],
+    lifecycle: overrides.lifecycle,
+    provisionalAt: overrides.provisionalAt,
+    repainted: overrides.repainted,
   };
 }
 
@@ -45,6 +58,20 @@ function createTrade(overrides: Partial<Trade>): Trade {
   };
 }
 
+// Auto-taking engine on a one-tick, one-minute market without slippage or
+// fees; tests override only the settings and options they exercise.
+function createEngine(
+  settings: Partial<TradingSettings> = {},
+  options: Partial<ConstructorParameters<typeof TradingEngine>[0]> = {},
+): TradingEngine {
+  return new TradingEngine({
+    priceStep: 1,
+    timeframeMs: 60_000,
+    ...options,
+    settings: { autoTake: true, slippageTicks: 0, makerFeePercent: 0, takerFeePercent: 0, ...settings },
+  });
+}
+
 describe("TradingEngine", () => {
   it("handles TP1 partial, moves stop to BE and closes at breakeven", () => {
     const engine = new TradingEngine({ priceStep: 1, timeframeMs: 60_000 });
@@ -53,10 +80,11 @@ describe("TradingEngine", () => {
       partialTakePercent: 0.5,
       beOffsetTicks: 0,
       slippageTicks: 0,
-      feesPercent: 0,
+      makerFeePercent: 0,
+      takerFeePercent: 0,
     });
 
-    const signal = createSignal({ id: "tp1-be", side: "long", entry: 100, stop: 95, target1: 105, target2: 110 });
+    const signal = createSignal({ id: "tp1-be", side: "long", entry: 100, stop: 95, target1: 110, target2: 115 });
     engine.syncSignals([signal]);
 
     let state = engine.getState();
@@ -67,7 +95,7 @@ describe("TradingEngine", () => {
     expect(state.pending).toHaveLength(0);
     expect(state.positions).toHaveLength(1);
 
-    engine.handleTrade(createTrade({ price: 105, timestamp: BASE_TIMESTAMP + 2000 }));
+    engine.handleTrade(createTrade({ price: 110, timestamp: BASE_TIMESTAMP + 2000 }));
     state = engine.getState();
     expect(state.positions[0].target1Hit).toBe(true);
     expect(state.positions[0].stopPrice).toBeCloseTo(100, 6);
@@ -81,7 +109,7 @@ describe("TradingEngine", () => {
     expect(closed.exitReason).toBe("breakeven");
     expect(closed.firstHit).toBe("tp1");
     expect(closed.realizedR).toBeGreaterThan(0);
-    expect(closed.realizedR).toBeCloseTo(0.5, 2);
+    expect(closed.realizedR).toBeCloseTo(1, 2);
   });
 
   it("includes slippage and fees in realized pnl", () => {
@@ -90,12 +118,13 @@ describe("TradingEngine", () => {
       autoTake: false,
       partialTakePercent: 0,
       slippageTicks: 1,
-      feesPercent: 0.02,
+      makerFeePercent: 0.02,
+      takerFeePercent: 0.02,
       beOffsetTicks: 0,
       riskPerTradePercent: 1,
     });
 
-    const signal = createSignal({ id: "loss", side: "long", entry: 100, stop: 99, target1: 101, target2: 102 });
+    const signal = createSignal({ id: "loss", side: "long", entry: 100, stop: 99, target1: 102, target2: 103 });
     engine.syncSignals([signal]);
     engine.takeSignal(signal.id);
 
@@ -115,7 +144,9 @@ describe("TradingEngine", () => {
     expect(closed.exitReason).toBe("stop");
     expect(closed.realizedR).toBeLessThan(0);
     expect(closed.realizedR).toBeCloseTo(-3.04, 2);
-    expect(closed.realizedPnl).toBeCloseTo(-0.0304, 4);
+    // 1% of the default 10,000 USDT balance at risk: 100 units over a 1.00 stop.
+    expect(closed.quantity).toBe(100);
+    expect(closed.realizedPnl).toBeCloseTo(-304, 1);
   });
 
   it("prioritises stop before targets for short trades", () => {
@@ -124,10 +155,11 @@ describe("TradingEngine", () => {
       autoTake: true,
       partialTakePercent: 0,
       slippageTicks: 0,
-      feesPercent: 0,
+      makerFeePercent: 0,
+      takerFeePercent: 0,
     });
 
-    const signal = createSignal({ id: "short-stop", side: "short", entry: 100, stop: 105, target1: 98, target2: 95 });
+    const signal = createSignal({ id: "short-stop", side: "short", entry: 100, stop: 105, target1: 90, target2: 85 });
     engine.syncSignals([signal]);
 
     engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
@@ -147,13 +179,14 @@ describe("TradingEngine", () => {
       autoTake: true,
       partialTakePercent: 0,
       slippageTicks: 0,
-      feesPercent: 0,
+      makerFeePercent: 0,
+      takerFeePercent: 0,
     });
 
-    const signal = createSignal({ id: "tp2", side: "long", entry: 50, stop: 45, target1: 55, target2: 60 });
+    const signal = createSignal({ id: "tp2", side: "long", entry: 50, stop: 45, target1: 60, target2: 65 });
     engine.syncSignals([signal]);
     engine.handleTrade(createTrade({ price: 50, timestamp: BASE_TIMESTAMP + 1000 }));
-    engine.handleTrade(createTrade({ price: 60, timestamp: BASE_TIMESTAMP + 2000 }));
+    engine.handleTrade(createTrade({ price: 65, timestamp: BASE_TIMESTAMP + 2000 }));
 
     const state = engine.getState();
     expect(state.positions).toHaveLength(0);
@@ -163,13 +196,28 @@ describe("TradingEngine", () => {
     expect(closed.realizedR).toBeGreaterThan(0);
   });
 
+  it("aims target2 at the next VWAP level past 2R when enabled", () => {
+    const engine = new TradingEngine({ priceStep: 1, timeframeMs: 60_000 });
+    engine.updateSettings({ autoTake: true, vwapTargets: true });
+    engine.updateVwapLevels([
+      { anchorId: "session", label: "VWAP sesión", price: 108, band: 0 },
+      { anchorId: "session", label: "VWAP sesión +1σ", price: 112, band: 1 },
+      { anchorId: "session", label: "VWAP sesión +2σ", price: 116, band: 2 },
+    ]);
+
+    engine.syncSignals([createSignal({ id: "vwap", side: "long", entry: 100, stop: 95, target1: 110 })]);
+
+    expect(engine.getState().pending[0]).toMatchObject({ target1: 110, target2: 112 });
+  });
+
   it("resolves trade exits by tick order when timestamps tie", () => {
     const engine = new TradingEngine({ priceStep: 1, timeframeMs: 60_000 });
     engine.updateSettings({
       autoTake: true,
       partialTakePercent: 0.5,
       slippageTicks: 0,
-      feesPercent: 0,
+      makerFeePercent: 0,
+      takerFeePercent: 0,
       beOffsetTicks: 0,
     });
 
@@ -178,14 +226,14 @@ describe("TradingEngine", () => {
       side: "long",
       entry: 100,
       stop: 95,
-      target1: 105,
-      target2: 110,
+      target1: 110,
+      target2: 115,
     });
     engine.syncSignals([signal]);
     engine.handleTrade(createTrade({ tradeId: 1, price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
 
     const simultaneous = [
-      createTrade({ tradeId: 2, price: 105, timestamp: BASE_TIMESTAMP + 2000, isBuyerMaker: false }),
+      createTrade({ tradeId: 2, price: 110, timestamp: BASE_TIMESTAMP + 2000, isBuyerMaker: false }),
       createTrade({ tradeId: 3, price: 95, timestamp: BASE_TIMESTAMP + 2000, isBuyerMaker: true }),
     ].sort((a, b) => (a.timestamp - b.timestamp) || (a.tradeId - b.tradeId));
 
@@ -201,3 +249,451 @@ describe("TradingEngine", () => {
     expect(closed.exitReason).toBe("breakeven");
   });
 });
+
+describe("TradingEngine exit ladder", () => {
+  function createLadderEngine(plan: Omit<ExitPlan, "atrMultiple" | "atrBars"> & Partial<ExitPlan>) {
+    return createEngine({ exitPlans: { "absorption-failure": { atrMultiple: 1.5, atrBars: 14, ...plan } } });
+  }
+
+  function createBar(index: number, high: number, low: number): FootprintBar {
+    return createVolumeBar(BASE_TIMESTAMP - (10 - index) * 60_000, [[low, 10]], { highPrice: high });
+  }
+
+  it("scales out leg by leg and records each one", () => {
+    const engine = createLadderEngine({
+      targets: [
+        { anchor: "r", r: 1, size: 0.5, stopPolicy: "breakeven" },
+        { anchor: "signal", r: 3, size: 0.25, stopPolicy: "hold" },
+        { anchor: "r", r: 4, size: 0.25, stopPolicy: "hold" },
+      ],
+    });
+    engine.syncSignals([createSignal({ id: "ladder", entry: 100, stop: 95, target1: 110, target2: 115 })]);
+
+    expect(engine.getState().pending[0].legs.map((leg) => [leg.target, leg.size, leg.label])).toEqual([
+      [105, 0.5, null],
+      [110, 0.25, "T1 señal"],
+      [120, 0.25, null],
+    ]);
+
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    engine.handleTrade(createTrade({ price: 105, timestamp: BASE_TIMESTAMP + 2000 }));
+    expect(engine.getState().positions[0].stopPrice).toBe(100);
+    engine.handleTrade(createTrade({ price: 111, timestamp: BASE_TIMESTAMP + 3000 }));
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 4000 }));
+
+    const state = engine.getState();
+    const closed = state.closed[0];
+    expect(closed.exitReason).toBe("breakeven");
+    expect(closed.realizedR).toBeCloseTo(1, 6);
+    expect(closed.legs?.map((leg) => leg.fillPrice)).toEqual([105, 110, null]);
+    expect(
+      state.timeline.flatMap((entry) => (entry.type === "trade" && entry.positionId === "ladder" ? [[entry.phase, entry.leg]] : [])),
+    ).toEqual([
+      ["entry", undefined],
+      ["target", 1],
+      ["target", 2],
+      ["breakeven", undefined],
+    ]);
+  });
+
+  it("trails the stop by ATR once a leg switches the trail on", () => {
+    const engine = createLadderEngine({
+      targets: [
+        { anchor: "r", r: 1, size: 0.5, stopPolicy: "atr-trail" },
+        { anchor: "r", r: 5, size: 0.5, stopPolicy: "hold" },
+      ],
+      atrMultiple: 1,
+      atrBars: 3,
+    });
+    const bars = [0, 1, 2, 3, 4].map((index) => createBar(index, 101, 99));
+    engine.syncSignals([createSignal({ id: "trail", entry: 100, stop: 95, target1: 110, target2: 115 })], bars);
+
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    engine.handleTrade(createTrade({ price: 105, timestamp: BASE_TIMESTAMP + 2000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ stopPrice: 103, trailing: "atr-trail" });
+
+    engine.handleTrade(createTrade({ price: 108, timestamp: BASE_TIMESTAMP + 3000 }));
+    engine.handleTrade(createTrade({ price: 106, timestamp: BASE_TIMESTAMP + 4000 }));
+
+    const closed = engine.getState().closed[0];
+    expect(closed.exitReason).toBe("trail-stop");
+    expect(closed.exitPrice).toBe(106);
+  });
+});
+
+describe("TradingEngine entry orders", () => {
+  function createEntryEngine(entryType: EntryOrderType) {
+    return createEngine({ slippageTicks: 1, limitOffsetTicks: 2, entryTypes: { "absorption-failure": entryType } });
+  }
+
+  const signalBar = createVolumeBar(BASE_TIMESTAMP, [[100, 10]], { highPrice: 102, lowPrice: 97, openPrice: 98 });
+
+  it("breaks out a tick past the signal bar and pays slippage on a gap", () => {
+    const engine = createEntryEngine("stop");
+    engine.syncSignals([createSignal({ id: "breakout", entry: 100, stop: 95, target1: 110 })], [signalBar]);
+    expect(engine.getState().pending[0]).toMatchObject({ entryType: "stop", entry: 103 });
+
+    engine.handleTrade(createTrade({ price: 101, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions).toHaveLength(0);
+    engine.handleTrade(createTrade({ price: 104, timestamp: BASE_TIMESTAMP + 2000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ entryPrice: 104, entryFillPrice: 105, riskPerUnit: 9 });
+  });
+
+  it("rests an offset limit inside the entry and fills it without slippage", () => {
+    const engine = createEntryEngine("limit");
+    engine.syncSignals([createSignal({ id: "limit", entry: 100, stop: 95, target1: 110 })]);
+
+    engine.handleTrade(createTrade({ price: 99, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions).toHaveLength(0);
+    engine.handleTrade(createTrade({ price: 98, timestamp: BASE_TIMESTAMP + 2000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ entryPrice: 98, entryFillPrice: 98 });
+  });
+
+  it("enters at the next bar's open and drops market fills beyond the stop", () => {
+    const engine = createEntryEngine("bar-open");
+    engine.syncSignals([
+      createSignal({ id: "next-open", entry: 100, stop: 95, target1: 110 }),
+      createSignal({ id: "gapped", side: "short", entry: 100, stop: 101, target1: 96, barTime: BASE_TIMESTAMP + 60_000 }),
+    ]);
+
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 30_000 }));
+    expect(engine.getState().positions).toHaveLength(0);
+    engine.handleTrade(createTrade({ price: 101, timestamp: BASE_TIMESTAMP + 60_000 }));
+    expect(engine.getState().positions.map((position) => [position.id, position.entryFillPrice])).toEqual([["next-open", 102]]);
+
+    engine.handleTrade(createTrade({ price: 102, timestamp: BASE_TIMESTAMP + 120_000 }));
+    const state = engine.getState();
+    expect(state.pending).toHaveLength(0);
+    expect(state.positions.map((position) => position.id)).toEqual(["next-open"]);
+    expect(state.timeline.some((entry) => entry.type === "trade" && entry.signalId === "gapped" && entry.phase === "cancelled")).toBe(true);
+  });
+});
+
+describe("TradingEngine queue fills", () => {
+  const queueSettings: Partial<TradingSettings> = { startingBalance: 100, queueFills: true };
+
+  const snapshot: DepthStreamMessage = {
+    type: "snapshot",
+    snapshot: {
+      lastUpdateId: 1,
+      bids: [{ price: 100, quantity: 0.75 }],
+      asks: [{ price: 101, quantity: 2 }],
+      timestamp: BASE_TIMESTAMP,
+    },
+  };
+
+  it("waits for the queue ahead and keeps a partial fill when price leaves", () => {
+    const engine = createEngine(queueSettings);
+    engine.handleDepth(snapshot);
+    engine.syncSignals([createSignal({ id: "queued", entry: 100, stop: 96, target1: 110 })]);
+    expect(engine.getState().pending[0].queue).toEqual({ ahead: 0.75, size: 0.25, filled: 0, firstFillAt: null });
+
+    engine.handleTrade(createTrade({ price: 100, quantity: 0.5, isBuyerMaker: true, timestamp: BASE_TIMESTAMP + 1000 }));
+    engine.handleTrade(createTrade({ price: 100, quantity: 1, isBuyerMaker: false, timestamp: BASE_TIMESTAMP + 1500 }));
+    expect(engine.getState().pending[0].queue).toMatchObject({ ahead: 0.25, filled: 0 });
+
+    engine.handleDepth({
+      type: "diff",
+      diff: {
+        firstUpdateId: 2,
+        finalUpdateId: 2,
+        eventTime: BASE_TIMESTAMP + 2000,
+        transactionTime: BASE_TIMESTAMP + 2000,
+        bids: [{ price: 100, quantity: 0.125 }],
+        asks: [],
+      },
+    });
+    engine.handleTrade(createTrade({ price: 100, quantity: 0.25, isBuyerMaker: true, timestamp: BASE_TIMESTAMP + 3000 }));
+    expect(engine.getState().positions).toHaveLength(0);
+
+    engine.handleTrade(createTrade({ price: 101, timestamp: BASE_TIMESTAMP + 4000 }));
+    const state = engine.getState();
+    expect(state.pending).toHaveLength(0);
+    expect(state.positions[0]).toMatchObject({ entryPrice: 100, size: 0.125, riskAmount: 0.5, entryTime: BASE_TIMESTAMP + 3000 });
+  });
+
+  it("fills in full when price trades through and on touch without a book", () => {
+    const engine = createEngine(queueSettings);
+    engine.handleDepth(snapshot);
+    engine.syncSignals([createSignal({ id: "through", entry: 100, stop: 96, target1: 110 })]);
+    engine.handleTrade(createTrade({ price: 99, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ id: "through", size: 0.25 });
+
+    const bookless = createEngine(queueSettings);
+    bookless.syncSignals([createSignal({ id: "touch", entry: 100, stop: 96, target1: 110 })]);
+    expect(bookless.getState().pending[0].queue).toBeNull();
+    bookless.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(bookless.getState().positions[0]).toMatchObject({ id: "touch", size: 0.25 });
+  });
+});
+
+describe("TradingEngine depth slippage", () => {
+  it("walks the book for market fills and reports slippage apart from fees", () => {
+    const engine = createEngine({ slippageTicks: 5, slippageModel: "depth", startingBalance: 100 });
+    engine.handleDepth({
+      type: "snapshot",
+      snapshot: {
+        lastUpdateId: 1,
+        bids: [
+          { price: 99, quantity: 0.0625 },
+          { price: 97, quantity: 1 },
+        ],
+        asks: [
+          { price: 101, quantity: 0.125 },
+          { price: 102, quantity: 1 },
+        ],
+        timestamp: BASE_TIMESTAMP,
+      },
+    });
+    engine.syncSignals([createSignal({ id: "impact", entry: 100, stop: 96, target1: 110 })]);
+
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ entryFillPrice: 100.5, slippageCost: 0.125 });
+
+    engine.handleTrade(createTrade({ price: 96, timestamp: BASE_TIMESTAMP + 2000 }));
+    const [closed] = engine.getState().closed;
+    expect(closed).toMatchObject({ exitReason: "stop", exitPrice: 94.5, feesPaid: 0, slippageCost: 0.5 });
+  });
+
+  it("charges size past the visible book the flat ticks beyond its deepest level", () => {
+    const engine = createEngine({ slippageTicks: 2, slippageModel: "depth", startingBalance: 100 });
+    engine.handleDepth({
+      type: "snapshot",
+      snapshot: {
+        lastUpdateId: 1,
+        bids: [{ price: 99, quantity: 1 }],
+        asks: [{ price: 101, quantity: 0.125 }],
+        timestamp: BASE_TIMESTAMP,
+      },
+    });
+    engine.syncSignals([createSignal({ id: "thin", entry: 100, stop: 96, target1: 110 })]);
+
+    // 0.125 at 101 and the other 0.125 at 103: one point past the touch.
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ size: 0.25, entryFillPrice: 101 });
+  });
+});
+
+describe("TradingEngine account", () => {
+  it("sizes from the balance, rounds to the lot step and skips orders below the minimum notional", () => {
+    const engine = createEngine({ startingBalance: 100 }, { stepSize: 0.1 });
+    engine.syncSignals([createSignal({ id: "stepped", entry: 100, stop: 97, target1: 110 })]);
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    const position = engine.getState().positions[0];
+    expect(position.size).toBe(0.3);
+    expect(position.riskAmount).toBeCloseTo(0.9, 9);
+
+    engine.updateMarketContext({ minNotional: 50 });
+    engine.syncSignals([createSignal({ id: "small", entry: 100, stop: 97, target1: 110 })]);
+    const state = engine.getState();
+    expect(state.pending).toHaveLength(0);
+    expect(state.signalJournal.entries.find((entry) => entry.signalId === "small")).toMatchObject({
+      status: "rejected",
+      rejection: "account",
+    });
+  });
+
+  it("liquidates an isolated position before a wider stop and books it on the equity curve", () => {
+    const engine = createEngine({ startingBalance: 100, leverage: 50 });
+    engine.syncSignals([createSignal({ id: "levered", entry: 100, stop: 80, target1: 160, target2: 200 })]);
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    const position = engine.getState().positions[0];
+    expect(position.size).toBeCloseTo(0.05, 9);
+    expect(position.margin).toBeCloseTo(0.1, 9);
+    expect(position.liquidationPrice).toBeCloseTo(98.5, 6);
+    expect(engine.getState().account).toMatchObject({ balance: 100, usedMargin: position.margin });
+
+    engine.handleTrade(createTrade({ price: 98, timestamp: BASE_TIMESTAMP + 2000 }));
+    const state = engine.getState();
+    expect(state.positions).toHaveLength(0);
+    expect(state.closed[0]).toMatchObject({ exitReason: "liquidation", exitPrice: 98.5 });
+    expect(state.account.balance).toBeCloseTo(99.925, 6);
+    expect(state.account.curve).toEqual([{ time: BASE_TIMESTAMP + 2000, balance: state.account.balance }]);
+  });
+
+  it("shares balance, margin and cross liquidation across engines on one account", () => {
+    const account = new TradingAccount({ balance: 20, curve: [] });
+    const settings: Partial<TradingSettings> = { startingBalance: 20, riskPerTradePercent: 50, marginMode: "cross" };
+    const btc = createEngine(settings, { sharedAccount: { account, symbol: "BTCUSDT" } });
+    const eth = createEngine(settings, { sharedAccount: { account, symbol: "ETHUSDT" } });
+
+    btc.syncSignals([createSignal({ id: "btc", entry: 100, stop: 90, target1: 130, target2: 140 })]);
+    btc.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    eth.syncSignals([createSignal({ id: "eth", entry: 50, stop: 45, target1: 65, target2: 70 })]);
+    eth.handleTrade(createTrade({ price: 50, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(eth.getState().positions[0].size).toBe(2);
+    expect(btc.getState().account.usedMargin).toBeCloseTo(20, 9);
+
+    // 20 USDT plus ETH's open PnL less its maintenance covers BTC down to 81, then 85.
+    btc.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 2000 }));
+    expect(btc.getState().positions[0].liquidationPrice).toBeCloseTo(81, 6);
+    eth.handleTrade(createTrade({ price: 48, timestamp: BASE_TIMESTAMP + 3000 }));
+    btc.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 3000 }));
+    expect(btc.getState().positions[0].liquidationPrice).toBeCloseTo(85, 6);
+
+    eth.handleTrade(createTrade({ price: 45, timestamp: BASE_TIMESTAMP + 4000 }));
+    expect(eth.getState().positions).toHaveLength(0);
+    expect(btc.getState().account).toMatchObject({ balance: 10, usedMargin: 10 });
+    expect(btc.resetAccount()).toBe(false);
+  });
+});
+
+describe("TradingEngine fees and funding", () => {
+  const SETTLEMENT = 1_700_006_400_000;
+
+  function createCostEngine(entryType: EntryOrderType = "limit") {
+    return createEngine({
+      makerFeePercent: 0.02,
+      takerFeePercent: 0.05,
+      startingBalance: 100,
+      timeStopMinutes: null,
+      limitOffsetTicks: 0,
+      entryTypes: { "absorption-failure": entryType },
+    });
+  }
+
+  it("charges the maker rate on limit entries and the taker rate on stops", () => {
+    const engine = createCostEngine();
+    engine.syncSignals([createSignal({ id: "fees", entry: 100, stop: 96, target1: 110 })]);
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions[0].feesPaid).toBeCloseTo(0.005, 9);
+
+    engine.handleTrade(createTrade({ price: 96, timestamp: BASE_TIMESTAMP + 2000 }));
+    const [closed] = engine.getState().closed;
+    expect(closed.feesPaid).toBeCloseTo(0.005 + 0.012, 9);
+    expect(closed.realizedPnl).toBeCloseTo(-1 - 0.017, 9);
+  });
+
+  it("charges touch entries the taker rate like the slippage they pay", () => {
+    const engine = createCostEngine("touch");
+    engine.syncSignals([createSignal({ id: "touch-fees", entry: 100, stop: 96, target1: 110 })]);
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    expect(engine.getState().positions[0].feesPaid).toBeCloseTo(0.0125, 9);
+  });
+
+  it("accrues funding at each settlement an open position crosses", () => {
+    const engine = createCostEngine();
+    engine.updateFundingRates([
+      { time: SETTLEMENT - 8 * 60 * 60_000, rate: 0.0003 },
+      { time: SETTLEMENT, rate: 0.0001 },
+    ]);
+    engine.syncSignals([createSignal({ id: "funded", entry: 100, stop: 96, target1: 110 })]);
+    engine.handleTrade(createTrade({ price: 100, timestamp: BASE_TIMESTAMP + 1000 }));
+    engine.handleTrade(createTrade({ price: 101, timestamp: SETTLEMENT + 1000 }));
+    expect(engine.getState().positions[0]).toMatchObject({ fundingPaid: 0.0025, fundingSettledAt: SETTLEMENT });
+
+    engine.handleTrade(createTrade({ price: 96, timestamp: SETTLEMENT + 2000 }));
+    const [closed] = engine.getState().closed;
+    expect(closed.fundingPaid).toBeCloseTo(0.0025, 9);
+    expect(closed.realizedPnl).toBeCloseTo(-1 - 0.017 - 0.0025, 9);
+    expect(engine.getState().account.balance).toBeCloseTo(100 + closed.realizedPnl, 9);
+    expect(createDailyPerformance(closed.day, [closed]).totals).toMatchObject({
+      fees: closed.feesPaid,
+      funding: closed.fundingPaid,
+    });
+  });
+});
+
+describe("TradingEngine signal lifecycle", () => {
+  const sessionTime = Date.UTC(2024, 0, 2, 10, 0, 0);
+
+  it("auto-takes a signal only once its bar confirms it", () => {
+    const engine = createEngine({}, { clock: () => sessionTime });
+    const provisional = createSignal({
+      id: "intrabar",
+      timestamp: sessionTime,
+      target1: 110,
+      target2: 115,
+      lifecycle: "provisional",
+    });
+
+    engine.syncSignals([provisional]);
+    expect(engine.getState().pending).toHaveLength(0);
+
+    engine.syncSignals([{ ...provisional, lifecycle: "confirmed", provisionalAt: sessionTime }]);
+    expect(engine.getState().pending).toHaveLength(1);
+  });
+
+  it("withdraws orders taken from a provisional signal that is cancelled", () => {
+    const engine = createEngine({}, { clock: () => sessionTime });
+    const provisional = createSignal({
+      id: "repaint",
+      timestamp: sessionTime,
+      target1: 110,
+      target2: 115,
+      lifecycle: "provisional",
+    });
+
+    engine.syncSignals([provisional]);
+    expect(engine.takeSignal("repaint")).not.toBeNull();
+
+    engine.syncSignals([{ ...provisional, lifecycle: "cancelled", repainted: true }]);
+    expect(engine.getState().pending).toHaveLength(0);
+    expect(engine.takeSignal("repaint")).toBeNull();
+  });
+});
+
+describe("TradingEngine signal journal", () => {
+  const sessionTime = Date.UTC(2024, 0, 2, 10, 0, 0);
+
+  function createJournalEngine(settings?: Partial<TradingSettings>) {
+    return createEngine(settings, { clock: () => sessionTime });
+  }
+
+  it("follows a signal from pending to filled and labels 2R before the stop", () => {
+    const engine = createJournalEngine();
+    engine.syncSignals([
+      createSignal({ id: "winner", timestamp: sessionTime, barTime: sessionTime - 60_000, target1: 110, target2: 115 }),
+    ]);
+    expect(engine.getState().signalJournal.entries[0]).toMatchObject({ status: "pending", target: 110 });
+
+    engine.handleTrade(createTrade({ price: 100, timestamp: sessionTime + 1_000 }));
+    engine.handleTrade(createTrade({ price: 110, timestamp: sessionTime + 2_000 }));
+
+    const journal = engine.getState().signalJournal;
+    expect(journal.entries[0]).toMatchObject({ status: "filled", outcome: "target" });
+    expect(journal.byStrategy.find((row) => row.key === "absorption-failure")).toMatchObject({ target: 1, hitRate: 1 });
+    expect(journal.byScore.find((row) => row.key === "80")).toMatchObject({ resolved: 1 });
+  });
+
+  it("records rejected signals and still labels their forward outcome", () => {
+    const engine = createJournalEngine();
+    engine.syncSignals([createSignal({ id: "short-target", timestamp: sessionTime, barTime: sessionTime - 60_000, score: 65 })]);
+    expect(engine.getState().signalJournal.entries[0]).toMatchObject({ status: "rejected", rejection: "min-rr" });
+
+    engine.handleTrade(createTrade({ price: 95, timestamp: sessionTime + 1_000 }));
+
+    const journal = engine.getState().signalJournal;
+    expect(journal.entries[0].outcome).toBe("stop");
+    expect(journal.byScore.find((row) => row.key === "60")).toMatchObject({ stop: 1, hitRate: 0 });
+  });
+
+  it("times out signals that reach neither level within the horizon", () => {
+    const engine = createJournalEngine({ autoTake: false, outcomeHorizonBars: 3, retestWindowMinutes: 2 });
+    const bars = [0, 1, 2, 3, 4].map((index) => createVolumeBar(sessionTime + (index - 1) * 60_000, [[101, 10]]));
+    engine.syncSignals(
+      [createSignal({ id: "drift", timestamp: sessionTime, barTime: sessionTime - 60_000, target1: 110, target2: 115 })],
+      bars.slice(0, 3),
+    );
+
+    engine.handleTrade(createTrade({ price: 101, timestamp: sessionTime + 2 * 60_000 + 30_000 }));
+    expect(engine.getState().signalJournal.entries[0]).toMatchObject({ barsElapsed: 2, outcome: null });
+
+    engine.syncSignals([], bars);
+    engine.handleTrade(createTrade({ price: 101, timestamp: sessionTime + 4 * 60_000 }));
+    expect(engine.getState().signalJournal.entries[0]).toMatchObject({ status: "expired", outcome: "timeout" });
+  });
+
+  it("counts bars rather than clock time for non-time bars", () => {
+    const engine = createJournalEngine({ autoTake: false, outcomeHorizonBars: 3, retestWindowMinutes: 2 });
+    // One range bar spans ten minutes; the clock alone would read ten bars.
+    const bars = [createVolumeBar(sessionTime - 60_000, [[101, 10]], { endTime: sessionTime + 10 * 60_000 - 1 })];
+    engine.syncSignals(
+      [createSignal({ id: "range", timestamp: sessionTime, barTime: sessionTime - 60_000, target1: 110, target2: 115 })],
+      bars,
+    );
+
+    engine.handleTrade(createTrade({ price: 101, timestamp: sessionTime + 8 * 60_000 }));
+    expect(engine.getState().signalJournal.entries[0]).toMatchObject({ barsElapsed: 0, outcome: null });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildCompositeProfile,
+  buildVolumeProfile,
+  buildVolumeProfiles,
+  findNakedPocs,
+  getProfileKey,
+} from "@/lib/volumeProfile";
+import { createVolumeBar } from "@/tests/helpers/bars";
+
+const DAY_MS = 86_400_000;
+const START = Date.UTC(2024, 0, 2, 9, 0, 0);
+
+describe("buildVolumeProfile", () => {
+  it("finds the POC and grows the 70% value area toward heavier neighbours", () => {
+    const profile = buildVolumeProfile([
+      createVolumeBar(START, [
+        [100, 10],
+        [100.5, 20],
+        [101, 30],
+      ]),
+      createVolumeBar(START + 60_000, [
+        [101, 20],
+        [101.5, 15],
+        [102, 5],
+      ]),
+    ]);
+
+    expect(profile).toMatchObject({ totalVolume: 100, poc: 101, val: 100.5, vah: 101 });
+    expect(profile?.levels.map((level) => level.price)).toEqual([100, 100.5, 101, 101.5, 102]);
+  });
+
+  it("marks high and low volume nodes, counting untraded prices as empty", () => {
+    const profile = buildVolumeProfile(
+      [
+        createVolumeBar(START, [
+          [100, 5],
+          [100.5, 30],
+          [101, 40],
+          [101.5, 30],
+          [102, 2],
+          [103, 2],
+          [103.5, 30],
+          [104, 45],
+          [104.5, 30],
+          [105, 5],
+        ]),
+      ],
+      { priceStep: 0.5 },
+    );
+
+    expect(profile?.levels).toHaveLength(11);
+    expect(profile?.hvns).toEqual([101, 104]);
+    expect(profile?.lvns).toEqual([102.5]);
+  });
+});
+
+describe("volume profile scopes", () => {
+  it("groups bars by session, day and week", () => {
+    expect(getProfileKey("session", Date.UTC(2024, 0, 1, 21, 0))).toBe("2024-01-02-asia");
+    expect(getProfileKey("session", Date.UTC(2024, 0, 2, 3, 0))).toBe("2024-01-02-asia");
+    expect(getProfileKey("session", Date.UTC(2024, 0, 2, 13, 0))).toBe("2024-01-02-us");
+    expect(getProfileKey("week", Date.UTC(2024, 0, 4, 13, 0))).toBe("2024-01-01");
+
+    const bars = [
+      createVolumeBar(START, [[100, 10]]),
+      createVolumeBar(START + 4 * 3_600_000, [[101, 10]]),
+      createVolumeBar(START + DAY_MS, [[102, 10]]),
+    ];
+    expect(buildVolumeProfiles(bars, "session").map((profile) => profile.key)).toEqual([
+      "2024-01-02-eu",
+      "2024-01-02-us",
+      "2024-01-03-eu",
+    ]);
+    expect(buildVolumeProfiles(bars, "day").map((profile) => profile.poc)).toEqual([100, 102]);
+
+    const composite = buildCompositeProfile(bars, START, START + DAY_MS);
+    expect(composite).toMatchObject({ scope: "composite", totalVolume: 20 });
+  });
+
+  it("keeps a POC naked until a later bar trades through it", () => {
+    const bars = [
+      createVolumeBar(START, [
+        [100, 5],
+        [100.5, 20],
+        [101, 5],
+      ]),
+      createVolumeBar(START + DAY_MS, [
+        [102, 10],
+        [102.5, 10],
+      ]),
+      createVolumeBar(START + 2 * DAY_MS, [
+        [100, 10],
+        [101, 10],
+      ]),
+    ];
+    const [first] = buildVolumeProfiles(bars, "day");
+
+    expect(findNakedPocs([first], bars, START + 2 * DAY_MS)).toHaveLength(1);
+    expect(findNakedPocs([first], bars)).toEqual([]);
+  });
+});
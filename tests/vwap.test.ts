@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { getVwapLevels, VwapEngine } from "@/lib/vwap";
+import type { FootprintBar, VwapAnchor } from "@/types";
+import { createVolumeBar } from "@/tests/helpers/bars";
+
+const MINUTE_MS = 60_000;
+const START = Date.UTC(2024, 0, 2, 9, 0, 0);
+
+function createSeries(start: number, count: number): FootprintBar[] {
+  return Array.from({ length: count }, (_, index) =>
+    createVolumeBar(start + index * MINUTE_MS, [
+      [100 + (index % 5), 10 + index],
+      [101 + (index % 3), 5 + (index % 4)],
+    ]),
+  );
+}
+
+describe("VwapEngine", () => {
+  it("weights every traded level and measures the volume-weighted deviation", () => {
+    const engine = new VwapEngine();
+    const [session] = engine.update([
+      createVolumeBar(START, [
+        [100, 10],
+        [102, 10],
+      ]),
+      createVolumeBar(START + MINUTE_MS, [[101, 20]]),
+    ]);
+
+    expect(session.anchor).toMatchObject({ id: "session", kind: "session", time: Date.UTC(2024, 0, 2, 7) });
+    expect(session.points[0]).toMatchObject({ time: START, vwap: 101, stdDev: 1 });
+    expect(session.points[1].vwap).toBeCloseTo(101);
+    expect(session.points[1].stdDev).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("matches a full rebuild when bars arrive one by one", () => {
+    const bars = createSeries(START, 12);
+    const anchors: VwapAnchor[] = [{ id: "bar-a", kind: "bar", time: bars[4].startTime, label: "AVWAP" }];
+    const incremental = new VwapEngine();
+    incremental.setAnchors(anchors);
+    let series = incremental.update(bars.slice(0, 2));
+    for (let count = 3; count <= bars.length; count += 1) {
+      series = incremental.update(bars.slice(0, count));
+    }
+
+    const rebuilt = new VwapEngine();
+    rebuilt.setAnchors(anchors);
+    expect(series).toEqual(rebuilt.update(bars));
+    expect(series[1].points[0].time).toBe(bars[4].startTime);
+    expect(series[1].points).toHaveLength(8);
+  });
+
+  it("restarts the session VWAP at the next open", () => {
+    const bars = createSeries(Date.UTC(2024, 0, 2, 11, 58), 4);
+    const [session] = new VwapEngine().update(bars);
+    const us = Date.UTC(2024, 0, 2, 12);
+
+    expect(session.anchor.time).toBe(us);
+    expect(session.points.map((point) => point.anchorTime)).toEqual([
+      Date.UTC(2024, 0, 2, 7),
+      Date.UTC(2024, 0, 2, 7),
+      us,
+      us,
+    ]);
+    const opening = bars[2].levels;
+    const openingVolume = opening[0].totalVolume + opening[1].totalVolume;
+    expect(session.points[2].vwap).toBeCloseTo(
+      (opening[0].price * opening[0].totalVolume + opening[1].price * opening[1].totalVolume) / openingVolume,
+    );
+  });
+
+  it("drops an anchor's history once it is removed", () => {
+    const bars = createSeries(START, 6);
+    const engine = new VwapEngine();
+    engine.setAnchors([{ id: "signal-1", kind: "signal", time: bars[2].startTime, label: "AVWAP señal" }]);
+    expect(engine.update(bars)).toHaveLength(2);
+
+    engine.setAnchors([]);
+    expect(engine.update(bars).map((series) => series.anchor.id)).toEqual(["session"]);
+  });
+});
+
+describe("getVwapLevels", () => {
+  it("lists the VWAP with ±1/2/3σ bands", () => {
+    const [session] = new VwapEngine().update([
+      createVolumeBar(START, [
+        [100, 10],
+        [102, 10],
+      ]),
+      createVolumeBar(START + MINUTE_MS, [[101, 0.000001]]),
+    ]);
+    const levels = getVwapLevels(session, START);
+
+    expect(levels).toHaveLength(7);
+    expect(levels[0]).toMatchObject({ label: "VWAP sesión", price: 101, band: 0 });
+    expect(levels.find((level) => level.band === 2)).toMatchObject({ label: "VWAP sesión +2σ", price: 103 });
+    expect(levels.find((level) => level.band === -3)).toMatchObject({ label: "VWAP sesión -3σ", price: 98 });
+    expect(getVwapLevels(session, START - MINUTE_MS)).toEqual([]);
+  });
+});
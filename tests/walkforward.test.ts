@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { MemoryRecorderStorage } from "@/lib/replay/storage";
+import { computeWalkForwardSummary } from "@/lib/replay/summary";
+import { runWalkForward } from "@/lib/replay/walkforward";
+import { recordTape, type SineTapeOptions } from "@/tests/helpers/tape";
+
+const TAPE: SineTapeOptions = {
+  startTime: Date.UTC(2024, 0, 3, 8, 0, 0),
+  count: 750,
+  amplitude: 2,
+  period: 18,
+  sawLength: 6,
+  chunkTradeTarget: 150,
+};
+
+describe("runWalkForward", () => {
+  it("rolls train/test windows across the recorded chunks", async () => {
+    const storage = new MemoryRecorderStorage();
+    const datasetId = await recordTape(storage, TAPE);
+    const chunks = await storage.listChunks(datasetId);
+    expect(chunks).toHaveLength(5);
+
+    const progress: number[] = [];
+    const result = await runWalkForward(storage, datasetId, {
+      signalConfig: { mode: "aggressive" },
+      ranges: { detector: { minScore: [0, 45] } },
+      trainChunks: 2,
+      testChunks: 1,
+      onProgress: (completed) => progress.push(completed),
+    });
+
+    expect(result.windows.map((window) => [window.train.startChunk, window.test.startChunk])).toEqual([
+      [0, 2],
+      [1, 3],
+      [2, 4],
+    ]);
+    expect(progress).toEqual([1, 2, 3]);
+    for (const window of result.windows) {
+      expect(window.test.startTime).toBe(chunks[window.test.startChunk].startTime);
+      expect([0, 45]).toContain(window.overrides.minScore);
+      for (const trade of window.trades) {
+        expect(trade.entryTime).toBeGreaterThanOrEqual(window.test.startTime ?? 0);
+      }
+    }
+  });
+});
+
+describe("computeWalkForwardSummary", () => {
+  it("reports a per-window table and pooled out-of-sample stats", async () => {
+    const storage = new MemoryRecorderStorage();
+    const datasetId = await recordTape(storage, TAPE);
+
+    const summary = await computeWalkForwardSummary(storage, datasetId, {
+      signalConfig: { mode: "aggressive" },
+      ranges: { trading: { retestWindowMinutes: [5, 10] } },
+      trainChunks: 3,
+      testChunks: 1,
+    });
+
+    expect(summary.rows.map((row) => row.window)).toEqual([1, 2]);
+    expect(summary.rows[0].parameters).toMatch(/^retestWindowMinutes=(5|10)$/);
+    expect(summary.outOfSample.windows).toBe(2);
+    expect(summary.outOfSample.trades).toBe(
+      summary.rows.reduce((sum, row) => sum + row.outOfSample.trades, 0),
+    );
+  });
+});
@@ -1,10 +1,26 @@
-export type Timeframe = "1m" | "5m";
+export type TimeBarTimeframe = "15s" | "30s" | "1m" | "5m" | "15m" | "30m" | "1h";
+
+// Non-time bars: N trades ("500t"), fixed base volume ("50v") or N-tick range ("10r").
+export type ActivityBarTimeframe = `${number}t` | `${number}v` | `${number}r`;
+
+export type Timeframe = TimeBarTimeframe | ActivityBarTimeframe;
+
+export type BarType = "time" | "tick" | "volume" | "range";
+
+export interface BarSpec {
+  type: BarType;
+  // Milliseconds, trades, base volume or ticks depending on type.
+  size: number;
+}
 
 export interface KeyLevelVisibility {
   previousDay: boolean;
   sessionVwap: boolean;
   currentDay: boolean;
   priorDayPoc: boolean;
+  strategyLevels: boolean;
+  valueArea: boolean;
+  nakedPocs: boolean;
 }
 
 export type KeyLevelType =
@@ -15,7 +31,16 @@ export type KeyLevelType =
   | "session-low"
   | "current-high"
   | "current-low"
-  | "prior-day-poc";
+  | "prior-day-poc"
+  | "unfinished-high"
+  | "unfinished-low"
+  | "ib-high"
+  | "ib-low"
+  | "ib-extension"
+  | "profile-poc"
+  | "vah"
+  | "val"
+  | "naked-poc";
 
 export type KeyLevelStatus = "approximate" | "live" | "mixed" | "unavailable";
 
@@ -27,7 +52,10 @@ export interface ChartKeyLevel {
   status?: KeyLevelStatus;
 }
 
+export type ExchangeId = "binance-futures" | "binance-spot" | "bybit-linear" | "okx-swap";
+
 export interface Settings {
+  exchange: ExchangeId;
   symbol: string;
   timeframe: Timeframe;
   priceStep: number;
@@ -36,6 +64,11 @@ export interface Settings {
   showGrid: boolean;
   showPriceAxis: boolean;
   keyLevelVisibility: KeyLevelVisibility;
+  // Profile drawn at the chart's right edge and used for the value-area levels.
+  profileScope: VolumeProfileScope;
+  showVolumeProfile: boolean;
+  showVwapBands: boolean;
+  showMarketStructure: boolean;
 }
 
 export type FootprintMode = "live" | "replay";
@@ -45,6 +78,8 @@ export type ReplaySpeed = 1 | 2 | 5 | 10;
 export interface RecordingDatasetSummary {
   id: string;
   label: string;
+  // Missing on datasets recorded before other venues were supported.
+  exchange?: ExchangeId;
   symbol: string;
   timeframe: Timeframe;
   priceStep: number;
@@ -53,6 +88,7 @@ export interface RecordingDatasetSummary {
   startTime: number | null;
   endTime: number | null;
   totalTrades: number;
+  totalDepthUpdates?: number;
   totalBytes: number;
   chunkCount: number;
   durationMs: number;
@@ -65,11 +101,16 @@ export interface RecordingChunkMeta {
   startTime: number;
   endTime: number;
   tradeCount: number;
+  depthCount?: number;
   byteLength: number;
   storedAt: number;
   compressed: boolean;
 }
 
+export type ReplayEvent =
+  | { kind: "trade"; timestamp: number; trade: Trade }
+  | { kind: "depth"; timestamp: number; message: DepthStreamMessage };
+
 export type ReplayStatus = "idle" | "loading" | "playing" | "paused" | "complete" | "error";
 
 export interface ReplayState {
@@ -99,6 +140,8 @@ export interface SymbolMarketConfig {
   stepSize: number;
   minPriceStep: number;
   maxPriceStep: number;
+  // Smallest order value the venue accepts, in the quote currency; 0 if unknown.
+  minNotional: number;
 }
 
 export interface ConnectionDiagnostics {
@@ -118,6 +161,13 @@ export interface Trade {
   isBuyerMaker: boolean;
 }
 
+// A perpetual's funding settlement: longs pay `rate` times the notional to
+// shorts when positive.
+export interface FundingRate {
+  time: number;
+  rate: number;
+}
+
 export interface DepthLevel {
   price: number;
   quantity: number;
@@ -133,6 +183,8 @@ export interface DepthSnapshot {
 export interface DepthDiff {
   firstUpdateId: number;
   finalUpdateId: number;
+  // Final id of the preceding event, for venues that chain updates (Binance Futures `pu`, OKX `prevSeqId`).
+  previousUpdateId?: number;
   eventTime: number;
   transactionTime: number;
   bids: DepthLevel[];
@@ -151,6 +203,91 @@ export interface LevelBin {
   totalVolume: number;
 }
 
+// "composite" folds every loaded bar (or a custom time range) into one profile.
+export type VolumeProfileScope = "session" | "day" | "week" | "composite";
+
+export interface VolumeProfileLevel {
+  price: number;
+  volume: number;
+  askVol: number;
+  bidVol: number;
+}
+
+export interface VolumeProfile {
+  scope: VolumeProfileScope;
+  key: string;
+  startTime: number;
+  endTime: number;
+  // Ascending by price, untraded prices inside the range included.
+  levels: VolumeProfileLevel[];
+  totalVolume: number;
+  poc: number | null;
+  // Value area bounds (70% of volume around the POC).
+  vah: number | null;
+  val: number | null;
+  hvns: number[];
+  lvns: number[];
+}
+
+// "session" restarts at every session open; user anchors start at a clicked
+// bar or at a signal's bar.
+export type VwapAnchorKind = "session" | "bar" | "signal";
+
+export interface VwapAnchor {
+  id: string;
+  kind: VwapAnchorKind;
+  // Bars starting at or after this time are folded in.
+  time: number;
+  label: string;
+}
+
+export interface VwapPoint {
+  // Start of the bar the value closes on.
+  time: number;
+  // Start of the accumulation; the session VWAP moves it at every open.
+  anchorTime: number;
+  vwap: number;
+  stdDev: number;
+}
+
+export interface VwapSeries {
+  anchor: VwapAnchor;
+  points: VwapPoint[];
+}
+
+export type SwingKind = "high" | "low";
+
+// Compared with the previous pivot of the same kind.
+export type SwingLabel = "HH" | "LH" | "HL" | "LL";
+
+export interface SwingPivot {
+  kind: SwingKind;
+  // Start of the pivot bar.
+  time: number;
+  price: number;
+  label: SwingLabel | null;
+  // Start of the bar that completed the pivot; it is unknown before then.
+  confirmedAt: number;
+}
+
+export type StructureTrend = "up" | "down" | "range";
+
+export interface StructureBreak {
+  // Break of structure with the trend, change of character against it.
+  kind: "bos" | "choch";
+  direction: "up" | "down";
+  // Start of the bar closing through the pivot.
+  time: number;
+  price: number;
+  pivotTime: number;
+}
+
+export interface MarketStructure {
+  pivots: SwingPivot[];
+  breaks: StructureBreak[];
+  trend: StructureTrend;
+}
+
 export interface HistoricalFootprintBarSeed {
   startTime: number;
   endTime: number;
@@ -178,11 +315,28 @@ export interface FootprintBar {
   depth?: DepthBarMetrics | null;
 }
 
+export type DeltaTrend = "up" | "down" | "flat";
+
+export interface HigherTimeframeContext {
+  timeframe: Timeframe;
+  // Latest trade time folded into the context; signals only use contexts known by their bar close.
+  asOf: number;
+  barStart: number;
+  // POC of the last completed higher-timeframe bar, falling back to the developing one.
+  pocPrice: number | null;
+  developingPocPrice: number | null;
+  deltaTrend: DeltaTrend;
+  // Net delta over total volume of the recent higher-timeframe bars (-1..1).
+  deltaRatio: number;
+}
+
 export interface FootprintState {
   bars: FootprintBar[];
   signals: FootprintSignal[];
   signalStats: SignalStats;
   depth: DepthState | null;
+  higherTimeframe?: HigherTimeframeContext | null;
+  strategyLevels?: StrategyKeyLevel[];
 }
 
 export type ConnectionStatus =
@@ -203,7 +357,23 @@ export interface HoverInfo {
   signalId?: string | null;
 }
 
-export type SignalStrategy = "absorption-failure" | "poc-migration" | "delta-divergence";
+// Id of a detector in the strategy registry (lib/signals/strategies). The
+// built-in ones are "absorption-failure", "poc-migration" and "delta-divergence".
+export type SignalStrategy = string;
+
+// A level a signal strategy publishes for key-level matching and the chart.
+export interface StrategyKeyLevel {
+  id: string;
+  strategy: SignalStrategy;
+  label: string;
+  price: number;
+  type: KeyLevelType;
+  // Bar that left the level behind.
+  barTime: number;
+}
+
+// Numeric tuning knobs a strategy declares with its defaults.
+export type SignalStrategyParams = Record<string, number>;
 
 export type SignalSide = "long" | "short";
 
@@ -272,6 +442,12 @@ export interface DepthState {
 
 export type SignalMode = "conservative" | "standard" | "aggressive";
 
+// "bar-close" only evaluates completed bars; "intrabar" also evaluates the
+// forming bar and publishes provisional signals that resolve when it closes.
+export type SignalEvaluationMode = "bar-close" | "intrabar";
+
+export type SignalLifecycle = "provisional" | "confirmed" | "cancelled";
+
 export type TradingSession = "asia" | "eu" | "us" | "other";
 
 export type RiskGuardrailStatus = "ok" | "limited" | "cooldown" | "locked";
@@ -284,7 +460,8 @@ export type RiskGuardrailSource =
   | "session-loss"
   | "cooldown"
   | "news"
-  | "session-window";
+  | "session-window"
+  | "portfolio";
 
 export interface RiskNewsWindow {
   id: string;
@@ -339,6 +516,38 @@ export interface RiskGuardrailState {
   logs: RiskGuardrailLogEntry[];
 }
 
+// Limits shared by every symbol of a workspace; per-symbol guardrails still apply.
+export interface PortfolioGuardrailSettings {
+  enabled: boolean;
+  maxDailyLossR: number | null;
+  maxTradesPerDay: number | null;
+  maxOpenPositions: number | null;
+}
+
+export interface PortfolioSymbolSummary {
+  symbol: string;
+  tradesToday: number;
+  netRToday: number;
+  wins: number;
+  losses: number;
+  openPositions: number;
+  pendingTrades: number;
+}
+
+export interface PortfolioState {
+  status: RiskGuardrailStatus;
+  day: string;
+  resetAt: number;
+  settings: PortfolioGuardrailSettings;
+  tradesToday: number;
+  netRToday: number;
+  openPositions: number;
+  symbols: PortfolioSymbolSummary[];
+  activeBlocks: RiskGuardrailBlock[];
+  lastBlock: (RiskGuardrailBlock & { timestamp: number; symbol: string; signalId?: string; auto: boolean }) | null;
+  version: number;
+}
+
 export interface SignalEvidenceItem {
   label: string;
   value: string;
@@ -398,6 +607,12 @@ export interface FootprintSignal {
     distancePercent: number;
   } | null;
   evidence: SignalEvidenceItem[];
+  // Missing means confirmed (signals built before lifecycles existed).
+  lifecycle?: SignalLifecycle;
+  // When the signal first appeared provisionally, if it did.
+  provisionalAt?: number;
+  // Set on resolution: confirmed with different levels, or cancelled.
+  repainted?: boolean;
   l2?: {
     confirmed: boolean;
     confidence: number;
@@ -413,6 +628,14 @@ export interface SignalStats {
   sessionCount: Record<TradingSession, number>;
   estimatePerDay: number;
   lastReset: number;
+  // How provisional signals resolved at bar close (intrabar evaluation).
+  repaint?: SignalRepaintStats;
+}
+
+export interface SignalRepaintStats {
+  confirmed: number;
+  changed: number;
+  cancelled: number;
 }
 
 export interface DetectorOverrides {
@@ -437,8 +660,11 @@ export interface DetectorOverrides {
 
 export interface SignalControlState {
   mode: SignalMode;
+  evaluation: SignalEvaluationMode;
   enabledStrategies: Record<SignalStrategy, boolean>;
   overrides: DetectorOverrides;
+  // Per-strategy overrides of the registered default parameters.
+  strategyParams: Record<SignalStrategy, Partial<SignalStrategyParams>>;
 }
 
 export interface InvalidationSettings {
@@ -540,27 +766,116 @@ export interface InvalidationEvent {
   positionOpen: boolean;
 }
 
+// How a pending trade enters: limit at the entry on touch, limit offset
+// inside it, stop beyond the signal bar, market on the signal, or market at
+// the next bar's open.
+export type EntryOrderType = "touch" | "limit" | "stop" | "market" | "bar-open";
+
+export type MarginMode = "isolated" | "cross";
+
+// Market fills either give up `slippageTicks` or walk the mirrored book.
+export type SlippageModel = "flat" | "depth";
+
+// Where an exit-ladder target sits: a plain R multiple, or the nearest level
+// of that kind at least 1R out and past the previous target, falling back to
+// the R multiple when there is none.
+export type ExitTargetAnchor = "r" | "signal" | "key-level" | "vwap" | "poc";
+
+export type ExitTrailPolicy = "atr-trail" | "structure-trail";
+
+// What the stop does once a target fills. Stops only ever move in favour.
+export type ExitStopPolicy = "hold" | "breakeven" | "breakeven-offset" | ExitTrailPolicy;
+
+export interface ExitTarget {
+  anchor: ExitTargetAnchor;
+  r: number;
+  // Fraction of the initial size; the last target takes whatever is left.
+  size: number;
+  stopPolicy: ExitStopPolicy;
+}
+
+export interface ExitPlan {
+  targets: ExitTarget[];
+  // "atr-trail" keeps the stop this many ATRs of `atrBars` closed bars behind price.
+  atrMultiple: number;
+  atrBars: number;
+}
+
+// One rung of a position's exit ladder.
+export interface TradeLeg {
+  anchor: ExitTargetAnchor;
+  // Level the target was placed on; null for R multiples and fallbacks.
+  label: string | null;
+  target: number;
+  size: number;
+  stopPolicy: ExitStopPolicy;
+  filledAt: number | null;
+  // Null when the leg closed nothing (zero size) or has not filled.
+  fillPrice: number | null;
+  realizedR: number;
+}
+
 export interface TradingSettings {
   autoTake: boolean;
+  // Paper futures account in the quote currency (USDT); risk is a share of
+  // its balance.
+  startingBalance: number;
+  leverage: number;
+  marginMode: MarginMode;
   riskPerTradePercent: number;
-  feesPercent: number;
+  // Limit entries and targets pay the maker rate; other entries and stops the
+  // taker rate (see entryTakesLiquidity).
+  makerFeePercent: number;
+  takerFeePercent: number;
   slippageTicks: number;
+  // "depth" falls back to `slippageTicks` while no book is mirrored.
+  slippageModel: SlippageModel;
   partialTakePercent: number;
   timeStopMinutes: number | null;
   retestWindowMinutes: number;
   beOffsetTicks: number;
   invalidationBars: number;
+  // Bars after emission before a signal's forward outcome counts as a timeout.
+  outcomeHorizonBars: number;
+  // Aim TP2 at the next VWAP or band beyond 2R instead of a fixed 3R.
+  vwapTargets: boolean;
+  // Per-strategy exit ladders; strategies without one get the TP1 partial at
+  // 2R and TP2 at 3R (or VWAP) from the settings above.
+  exitPlans: Record<SignalStrategy, ExitPlan>;
+  // Per-strategy entry overrides; otherwise the strategy's own default.
+  entryTypes: Record<SignalStrategy, EntryOrderType>;
+  // Ticks a "limit" entry rests inside the signal entry.
+  limitOffsetTicks: number;
+  // Resting entries (touch/limit) wait for the book queue ahead of them to
+  // trade or cancel; without depth they fill on touch.
+  queueFills: boolean;
   invalidations: InvalidationSettings;
   objectiveInvalidation: ObjectiveInvalidationSettings;
   guardrails: RiskGuardrailSettings;
 }
 
-export type TradeExitReason = "tp2" | "stop" | "breakeven" | "time-stop" | "invalidation" | "cancelled";
+export type TradeExitReason =
+  | "tp2"
+  | "stop"
+  | "breakeven"
+  | "trail-stop"
+  | "time-stop"
+  | "liquidation"
+  | "invalidation"
+  | "cancelled";
 
 export type TradeFirstHit = "tp1" | "tp2" | "stop" | "time-stop" | "invalidation" | "none";
 
 export type TradeResult = "win" | "loss" | "breakeven";
 
+// Queue position of a resting entry, in the same units as the position size.
+export interface PendingQueue {
+  ahead: number;
+  size: number;
+  filled: number;
+  firstFillAt: number | null;
+}
+
 export interface PendingTrade {
   id: string;
   signalId: string;
@@ -571,9 +886,14 @@ export interface PendingTrade {
   stop: number;
   target1: number;
   target2: number;
+  legs: TradeLeg[];
   createdAt: number;
+  // Nothing fills before this; the next bar's open for "bar-open".
+  activeFrom: number;
   expiresAt: number;
-  entryType: "touch";
+  entryType: EntryOrderType;
+  // Set while "queueFills" simulates the order's place in the book.
+  queue: PendingQueue | null;
   auto: boolean;
   barIndex: number;
 }
@@ -591,19 +911,30 @@ export interface Position {
   stopPrice: number;
   target1: number;
   target2: number;
+  // Exit ladder: target1 is the first leg, target2 the last.
+  legs: TradeLeg[];
+  trailing: ExitTrailPolicy | null;
   entryTime: number;
   entryBarIndex: number;
   size: number;
   remainingSize: number;
   partialSize: number;
+  // Quantity is in base units; riskAmount, margin and PnL in the quote currency.
   riskAmount: number;
   riskPerUnit: number;
+  margin: number;
+  liquidationPrice: number | null;
   timeStopAt: number | null;
   target1Hit: boolean;
   firstHit: TradeFirstHit;
   realizedPnl: number;
   realizedR: number;
   feesPaid: number;
+  slippageCost: number;
+  // Net funding paid; negative when the position collected it.
+  fundingPaid: number;
+  // Last funding settlement charged to the position.
+  fundingSettledAt: number;
   mfe: number;
   mae: number;
   lastPrice: number;
@@ -618,6 +949,8 @@ export interface ClosedTrade {
   entryPrice: number;
   entryFillPrice: number;
   exitPrice: number;
+  // Missing on trades closed before sizing used a real account.
+  quantity?: number;
   entryTime: number;
   exitTime: number;
   holdMinutes: number;
@@ -627,9 +960,15 @@ export interface ClosedTrade {
   realizedPnl: number;
   realizedR: number;
   feesPaid: number;
+  // Missing on trades closed before slippage was tracked apart from fees.
+  slippageCost?: number;
+  // Missing on trades closed before funding was accrued.
+  fundingPaid?: number;
   mfe: number;
   mae: number;
   day: string;
+  // Missing on trades closed before exit ladders existed.
+  legs?: TradeLeg[];
 }
 
 export interface SummaryStats {
@@ -638,7 +977,12 @@ export interface SummaryStats {
   losers: number;
   breakeven: number;
   netR: number;
+  netPnl: number;
+  // Net PnL over the balance the period started with.
   netPercent: number;
+  // Fees and net funding paid, already inside netPnl.
+  fees: number;
+  funding: number;
   avgR: number;
   expectancy: number;
   winRate: number;
@@ -656,11 +1000,13 @@ export type TradingTimelinePhase =
   | "signal"
   | "pending"
   | "entry"
-  | "tp1-be"
+  | "target"
   | "tp2"
   | "stop"
   | "breakeven"
+  | "trail-stop"
   | "time-stop"
+  | "liquidation"
   | "cancelled"
   | "rejected"
   | "invalidation";
@@ -682,6 +1028,8 @@ export interface TradingTimelineTradeEntry {
   price?: number;
   result?: TradeResult;
   exitReason?: TradeExitReason;
+  // 1-based exit-ladder leg a target entry refers to.
+  leg?: number;
   note?: string;
 }
 
@@ -705,8 +1053,72 @@ export interface TradingTimelineInvalidationEntry {
 
 export type TradingTimelineEntry = TradingTimelineInvalidationEntry | TradingTimelineTradeEntry;
 
+// What became of a signal on the trading side.
+export type SignalTradeStatus = "emitted" | "pending" | "filled" | "expired" | "rejected" | "invalidated";
+
+export type SignalRejection = "guardrail" | "portfolio" | "min-rr" | "key-level" | "account" | "manual";
+
+// Price path after emission, whether or not the signal was traded: 2R before
+// the stop, the stop first, or neither within the horizon.
+export type SignalForwardOutcome = "target" | "stop" | "timeout";
+
+export interface SignalJournalEntry {
+  signalId: string;
+  side: SignalSide;
+  strategy: SignalStrategy;
+  score: number;
+  session: TradingSession;
+  barTime: number;
+  emittedAt: number;
+  entry: number;
+  stop: number;
+  // Entry plus two times the risk.
+  target: number;
+  provisional: boolean;
+  status: SignalTradeStatus;
+  statusAt: number;
+  rejection?: SignalRejection;
+  reason?: string;
+  outcome: SignalForwardOutcome | null;
+  outcomeAt: number | null;
+  barsElapsed: number;
+}
+
+export interface SignalHitRate {
+  key: string;
+  label: string;
+  resolved: number;
+  target: number;
+  stop: number;
+  timeout: number;
+  // Share of resolved signals that reached 2R first.
+  hitRate: number | null;
+}
+
+export interface SignalJournalState {
+  entries: SignalJournalEntry[];
+  byStrategy: SignalHitRate[];
+  byScore: SignalHitRate[];
+}
+
+// Balance after each closed trade.
+export interface EquityPoint {
+  time: number;
+  balance: number;
+}
+
+export interface TradingAccountState {
+  balance: number;
+  // Balance plus open positions marked at the last price.
+  equity: number;
+  usedMargin: number;
+  availableBalance: number;
+  curve: EquityPoint[];
+}
+
 export interface TradingState {
   settings: TradingSettings;
+  account: TradingAccountState;
   pending: PendingTrade[];
   positions: Position[];
   closed: ClosedTrade[];
@@ -716,6 +1128,7 @@ export interface TradingState {
   timeline: TradingTimelineEntry[];
   guardrails: RiskGuardrailState;
   kpis: ObjectiveInvalidationKpis;
+  signalJournal: SignalJournalState;
   version: number;
 }
 
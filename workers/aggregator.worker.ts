@@ -1,14 +1,15 @@
 /// <reference lib="webworker" />
 
-import { FootprintAggregator, timeframeToMs } from "@/lib/aggregator";
-import type { AggregatorSettings } from "@/lib/aggregator";
+import { DEFAULT_CONTEXT_TIMEFRAMES, MultiTimeframeAggregator } from "@/lib/multiTimeframe";
 import { createDefaultSignalControlState } from "@/lib/signals";
 import type {
   DepthStreamMessage,
   FootprintState,
   HistoricalFootprintBarSeed,
   SignalControlState,
+  Timeframe,
   Trade,
+  VwapAnchor,
 } from "@/types";
 
 interface InitMessage {
@@ -27,11 +28,21 @@ interface SettingsMessage {
   reset?: boolean;
 }
 
+interface TimeframeMessage {
+  type: "timeframe";
+  timeframe: Timeframe;
+}
+
 interface DetectorConfigMessage {
   type: "detector-config";
   config: Partial<SignalControlState>;
 }
 
+interface VwapAnchorsMessage {
+  type: "vwap-anchors";
+  anchors: VwapAnchor[];
+}
+
 interface DepthMessage {
   type: "depth";
   updates: DepthStreamMessage[];
@@ -40,6 +51,8 @@ interface DepthMessage {
 interface SeedMessage {
   type: "seed";
   seeds: HistoricalFootprintBarSeed[];
+  // Defaults to the active timeframe.
+  timeframe?: Timeframe;
 }
 
 interface ClearMessage {
@@ -50,20 +63,26 @@ type WorkerMessage =
   | InitMessage
   | TradesMessage
   | SettingsMessage
+  | TimeframeMessage
   | DetectorConfigMessage
+  | VwapAnchorsMessage
   | DepthMessage
   | SeedMessage
   | ClearMessage;
 
 type WorkerSettings = {
-  timeframe: string;
+  timeframe: Timeframe;
+  // Background timeframes aggregated from the same stream.
+  timeframes?: Timeframe[];
   priceStep: number;
   maxBars: number;
+  depthSequence?: string;
 };
 
-let aggregator: FootprintAggregator | null = null;
+let aggregator: MultiTimeframeAggregator | null = null;
 let currentSettings: WorkerSettings | null = null;
 let detectorConfig: SignalControlState = createDefaultSignalControlState();
+let vwapAnchors: VwapAnchor[] = [];
 
 const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
 
@@ -92,8 +111,10 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
       case "settings":
         currentSettings = {
           timeframe: message.settings.timeframe ?? currentSettings?.timeframe ?? "1m",
+          timeframes: message.settings.timeframes ?? currentSettings?.timeframes,
           priceStep: message.settings.priceStep ?? currentSettings?.priceStep ?? 0.5,
           maxBars: message.settings.maxBars ?? currentSettings?.maxBars ?? 400,
+          depthSequence: message.settings.depthSequence ?? currentSettings?.depthSequence,
         };
 
         if (!aggregator) {
@@ -102,19 +123,31 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
           break;
         }
 
-        const partial: Partial<AggregatorSettings> = {};
+        aggregator.updateSettings(
+          {
+            timeframes: message.settings.timeframes,
+            priceStep: currentSettings.priceStep,
+            maxBars: currentSettings.maxBars,
+            depthSequence: currentSettings.depthSequence,
+          },
+          { reset: message.reset },
+        );
         if (message.settings.timeframe) {
-          partial.timeframeMs = timeframeToMs(message.settings.timeframe);
+          aggregator.setActiveTimeframe(message.settings.timeframe);
         }
-        if (typeof message.settings.priceStep === "number") {
-          partial.priceStep = message.settings.priceStep;
+        sendState(aggregator.getState());
+        break;
+      case "timeframe":
+        if (currentSettings) {
+          currentSettings = { ...currentSettings, timeframe: message.timeframe };
         }
-        if (typeof message.settings.maxBars === "number") {
-          partial.maxBars = message.settings.maxBars;
+        if (!aggregator) {
+          if (!currentSettings) {
+            return;
+          }
+          aggregator = createAggregator(currentSettings, detectorConfig);
         }
-
-        aggregator.updateSettings(partial, { reset: message.reset });
-        sendState(aggregator.getState());
+        sendState(aggregator.setActiveTimeframe(message.timeframe));
         break;
       case "detector-config":
         detectorConfig = mergeSignalConfig(detectorConfig, message.config);
@@ -125,6 +158,13 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
           sendState(emptyState());
         }
         break;
+      case "vwap-anchors":
+        vwapAnchors = Array.isArray(message.anchors) ? message.anchors : [];
+        if (aggregator) {
+          aggregator.setVwapAnchors(vwapAnchors);
+          sendState(aggregator.getState());
+        }
+        break;
       case "depth":
         if (!aggregator) {
           if (!currentSettings) {
@@ -141,7 +181,7 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
           }
           aggregator = createAggregator(currentSettings, detectorConfig);
         }
-        aggregator.seedSkeletonBars(Array.isArray(message.seeds) ? message.seeds : []);
+        aggregator.seedSkeletonBars(Array.isArray(message.seeds) ? message.seeds : [], message.timeframe);
         sendState(aggregator.getState());
         break;
       case "clear":
@@ -158,13 +198,15 @@ ctx.onmessage = (event: MessageEvent<WorkerMessage>) => {
 };
 
 function createAggregator(settings: WorkerSettings, config: SignalControlState) {
-  const timeframeMs = timeframeToMs(settings.timeframe);
-  const instance = new FootprintAggregator({
-    timeframeMs,
+  const instance = new MultiTimeframeAggregator({
+    activeTimeframe: settings.timeframe,
+    timeframes: settings.timeframes ?? DEFAULT_CONTEXT_TIMEFRAMES,
     priceStep: settings.priceStep,
     maxBars: settings.maxBars,
+    depthSequence: settings.depthSequence,
   });
   instance.updateSignalConfig(config);
+  instance.setVwapAnchors(vwapAnchors);
   return instance;
 }
 
@@ -178,6 +220,7 @@ function mergeSignalConfig(
 ): SignalControlState {
   return {
     mode: partial.mode ?? base.mode,
+    evaluation: partial.evaluation ?? base.evaluation,
     enabledStrategies: {
       ...base.enabledStrategies,
       ...(partial.enabledStrategies ?? {}),
@@ -186,6 +229,10 @@ function mergeSignalConfig(
       ...base.overrides,
       ...(partial.overrides ?? {}),
     },
+    strategyParams: {
+      ...base.strategyParams,
+      ...(partial.strategyParams ?? {}),
+    },
   };
 }
 